@@ -25,6 +25,11 @@ import AcceptableUse from "./pages/AcceptableUse";
 import ResetPassword from "./pages/ResetPassword";
 import QuotesHistory from "./pages/QuotesHistory";
 import VendorPaymentBilling from "./pages/VendorPaymentBilling";
+import PaymentBilling from "./pages/PaymentBilling";
+import QuoteComparison from "./pages/QuoteComparison";
+import VatReturn from "./pages/VatReturn";
+import BankImport from "./pages/BankImport";
+import QuoteLibrary from "./pages/QuoteLibrary";
 import VendorDashboard from "./pages/VendorDashboard";
 import { RoleGuard } from "./components/RoleGuard";
 import { useAuth } from "@/contexts/AuthContext";
@@ -36,6 +41,10 @@ import AdminOverview from "./pages/admin/AdminOverview";
 import AdminAnalytics from "./pages/admin/AdminAnalytics";
 import AdminSettings from "./pages/admin/AdminSettings";
 import AdminAudit from "./pages/admin/AdminAudit";
+import AdminWebhookEvents from "./pages/admin/AdminWebhookEvents";
+import AdminPayoutReconciliation from "./pages/admin/AdminPayoutReconciliation";
+import AdminNumberingGaps from "./pages/admin/AdminNumberingGaps";
+import AdminVatDecisions from "./pages/admin/AdminVatDecisions";
 import AdminUsersHub from "./pages/admin/AdminUsersHub";
 import AdminUsersList from "./pages/admin/AdminUsersList";
 import AdminVendorsList from "./pages/admin/AdminVendorsList";
@@ -173,6 +182,34 @@ const App = () => (
                     </AdminLayout>
                   </AdminGuard>
                 } />
+                <Route path="/admin/webhooks" element={
+                  <AdminGuard>
+                    <AdminLayout>
+                      <AdminWebhookEvents />
+                    </AdminLayout>
+                  </AdminGuard>
+                } />
+                <Route path="/admin/reconciliation" element={
+                  <AdminGuard>
+                    <AdminLayout>
+                      <AdminPayoutReconciliation />
+                    </AdminLayout>
+                  </AdminGuard>
+                } />
+                <Route path="/admin/numbering" element={
+                  <AdminGuard>
+                    <AdminLayout>
+                      <AdminNumberingGaps />
+                    </AdminLayout>
+                  </AdminGuard>
+                } />
+                <Route path="/admin/vat-decisions" element={
+                  <AdminGuard>
+                    <AdminLayout>
+                      <AdminVatDecisions />
+                    </AdminLayout>
+                  </AdminGuard>
+                } />
                 <Route path="/reset-password" element={<ResetPassword />} />
                 <Route path="/*" element={
                   <>
@@ -196,6 +233,21 @@ const App = () => (
                             <VendorDashboard />
                           </RoleGuard>
                         } />
+                        <Route path="/vat-return" element={
+                          <RoleGuard allowedUserTypes={['vendor']}>
+                            <VatReturn />
+                          </RoleGuard>
+                        } />
+                        <Route path="/bank-import" element={
+                          <RoleGuard allowedUserTypes={['vendor']}>
+                            <BankImport />
+                          </RoleGuard>
+                        } />
+                        <Route path="/quote-library" element={
+                          <RoleGuard allowedUserTypes={['vendor']}>
+                            <QuoteLibrary />
+                          </RoleGuard>
+                        } />
                         <Route path="/profile" element={
                           <RoleGuard allowedUserTypes={['client', 'vendor']}>
                             <Profile />
@@ -206,11 +258,21 @@ const App = () => (
                             <Tickets />
                           </RoleGuard>
                         } />
+                        <Route path="/projects/:projectId/compare" element={
+                          <RoleGuard allowedUserTypes={['client']}>
+                            <QuoteComparison />
+                          </RoleGuard>
+                        } />
                         <Route path="/quotes-history" element={
                           <RoleGuard allowedUserTypes={['client']}>
                             <QuotesHistory />
                           </RoleGuard>
                         } />
+                        <Route path="/billing" element={
+                          <RoleGuard allowedUserTypes={['client']}>
+                            <PaymentBilling />
+                          </RoleGuard>
+                        } />
                         <Route path="/payment-billing" element={
                           <RoleGuard allowedUserTypes={['vendor']}>
                             <VendorPaymentBilling />
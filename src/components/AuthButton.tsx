@@ -8,7 +8,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { User, LogOut, Settings, ChevronDown, Building, LayoutDashboard } from 'lucide-react';
+import { User, LogOut, Settings, ChevronDown, Building, LayoutDashboard, Receipt, Landmark, Library, CreditCard } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
@@ -98,6 +98,15 @@ export const AuthButton = () => {
           </Link>
         </DropdownMenuItem>
 
+        {userType === 'client' && (
+          <DropdownMenuItem asChild>
+            <Link to="/billing" className="w-full cursor-pointer">
+              <CreditCard className="mr-2 h-4 w-4" />
+              Billing
+            </Link>
+          </DropdownMenuItem>
+        )}
+
         {userType === 'vendor' && (
           <DropdownMenuItem asChild>
             <Link to="/business-information" className="w-full cursor-pointer">
@@ -106,6 +115,33 @@ export const AuthButton = () => {
             </Link>
           </DropdownMenuItem>
         )}
+
+        {userType === 'vendor' && (
+          <DropdownMenuItem asChild>
+            <Link to="/vat-return" className="w-full cursor-pointer">
+              <Receipt className="mr-2 h-4 w-4" />
+              VAT Return
+            </Link>
+          </DropdownMenuItem>
+        )}
+
+        {userType === 'vendor' && (
+          <DropdownMenuItem asChild>
+            <Link to="/bank-import" className="w-full cursor-pointer">
+              <Landmark className="mr-2 h-4 w-4" />
+              Bank Import
+            </Link>
+          </DropdownMenuItem>
+        )}
+
+        {userType === 'vendor' && (
+          <DropdownMenuItem asChild>
+            <Link to="/quote-library" className="w-full cursor-pointer">
+              <Library className="mr-2 h-4 w-4" />
+              Quote Library
+            </Link>
+          </DropdownMenuItem>
+        )}
         
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleSignOut} disabled={isLoading}>
@@ -1,13 +1,15 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { 
   DollarSign, 
   Clock, 
@@ -17,9 +19,18 @@ import {
   Briefcase,
   AlertCircle,
   Plus,
-  Minus
+  Minus,
+  History,
+  FileStack
 } from 'lucide-react';
 import { validateInput, sanitizeInput, logSecurityEvent } from '@/utils/security';
+import { materialsThresholdWarning, quoteMaterialsPercentage, type QuoteCostType } from '@/utils/invoiceStages';
+import {
+  applyTemplateLines,
+  fetchCurrentTemplateVersion,
+  fetchQuoteTemplates,
+  type QuoteTemplate
+} from '@/utils/quoteTemplates';
 
 interface SendQuoteModalProps {
   isOpen: boolean;
@@ -33,6 +44,7 @@ interface CostBreakdownItem {
   item: string;
   amount: number;
   description: string;
+  type: QuoteCostType;
 }
 
 interface Milestone {
@@ -48,6 +60,7 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
   projectTitle,
   onQuoteSent
 }) => {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     totalAmount: '',
@@ -65,7 +78,7 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
   });
 
   const [costBreakdown, setCostBreakdown] = useState<CostBreakdownItem[]>([
-    { item: '', amount: 0, description: '' }
+    { item: '', amount: 0, description: '', type: 'labour' }
   ]);
 
   const [milestones, setMilestones] = useState<Milestone[]>([
@@ -78,8 +91,124 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
     netDays: '30'
   });
 
+  const [retentionTerms, setRetentionTerms] = useState({
+    retentionPercentage: '0',
+    defectsLiabilityMonths: '12'
+  });
+
+  // Materials share of the quote last sent for this request, to flag a revision
+  // that loses the 5% renovation rate
+  const [previousMaterialsPercentage, setPreviousMaterialsPercentage] = useState<number | null>(null);
+  // Version of the quote last sent; a revision must say what changed
+  const [previousVersion, setPreviousVersion] = useState<number | null>(null);
+  const [changeNote, setChangeNote] = useState('');
+
+  // Templates from the vendor's quote library, scaled to the project's room sizes
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateVersionId, setTemplateVersionId] = useState<string | null>(null);
+  const [scaledLines, setScaledLines] = useState<string[]>([]);
+  const [unsizedLines, setUnsizedLines] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchPreviousQuote();
+      fetchTemplates();
+    }
+  }, [isOpen, quoteRequestId]);
+
+  const fetchTemplates = async () => {
+    if (!user) return;
+
+    try {
+      setTemplates(await fetchQuoteTemplates(user.id));
+    } catch (error) {
+      console.error('Error fetching quote templates:', error);
+      setTemplates([]);
+    }
+    setSelectedTemplateId('');
+    setTemplateVersionId(null);
+    setScaledLines([]);
+    setUnsizedLines([]);
+  };
+
+  const applyTemplate = async (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    try {
+      const [version, { data: request }] = await Promise.all([
+        fetchCurrentTemplateVersion(template),
+        supabase
+          .from('quote_requests')
+          .select('projects (form_data)')
+          .eq('id', quoteRequestId)
+          .single()
+      ]);
+
+      const { content } = version;
+      const lines = applyTemplateLines(content.lines, request?.projects?.form_data);
+      const total = lines.reduce((sum, line) => sum + line.amount, 0);
+
+      setCostBreakdown(lines.length > 0
+        ? lines.map(({ item, description, type, amount }) => ({ item, description, type, amount }))
+        : [{ item: '', amount: 0, description: '', type: 'labour' }]);
+      setMilestones(content.milestones.length > 0
+        ? content.milestones
+        : [{ name: '', percentage: 0, description: '' }]);
+      setPaymentTerms(content.paymentTerms);
+      setRetentionTerms(content.retentionTerms);
+      setFormData(prev => ({
+        ...prev,
+        totalAmount: total > 0 ? total.toFixed(2) : prev.totalAmount,
+        durationWeeks: content.durationWeeks || prev.durationWeeks,
+        estimatedTimeline: prev.estimatedTimeline || (content.durationWeeks ? `${content.durationWeeks} weeks` : ''),
+        assumptionsDependencies: content.assumptionsDependencies || prev.assumptionsDependencies,
+        inclusions: content.inclusions.length > 0 ? content.inclusions : [''],
+        exclusions: content.exclusions.length > 0 ? content.exclusions : ['']
+      }));
+
+      setSelectedTemplateId(templateId);
+      setTemplateVersionId(version.id);
+      setScaledLines(lines.filter(line => line.scaledFrom).map(line => `${line.item}: ${line.scaledFrom}`));
+      // Area-priced lines the client gave no size for keep the template's quantity
+      setUnsizedLines(content.lines
+        .filter((line, index) => line.unit === 'm2' && line.scaleFrom && !lines[index].scaledFrom)
+        .map(line => line.item));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load template',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const fetchPreviousQuote = async () => {
+    const { data } = await supabase
+      .from('quotes')
+      .select('total_amount, cost_breakdown, version')
+      .eq('quote_request_id', quoteRequestId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    setPreviousMaterialsPercentage(data ? quoteMaterialsPercentage(data) : null);
+    setPreviousVersion(data ? data.version : null);
+    setChangeNote('');
+  };
+
+  const pricedCostItems = costBreakdown.filter(item => item.item && item.amount);
+  const materialsPercentage = pricedCostItems.length > 0
+    ? quoteMaterialsPercentage({
+        total_amount: parseFloat(formData.totalAmount) || 0,
+        cost_breakdown: pricedCostItems
+      })
+    : null;
+  const materialsWarning = materialsThresholdWarning(materialsPercentage, previousMaterialsPercentage);
+
   const addCostItem = () => {
-    setCostBreakdown([...costBreakdown, { item: '', amount: 0, description: '' }]);
+    setCostBreakdown([...costBreakdown, { item: '', amount: 0, description: '', type: 'labour' }]);
   };
 
   const removeCostItem = (index: number) => {
@@ -167,19 +296,30 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
       return;
     }
 
+    if (previousVersion !== null && !changeNote.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please describe what changed in this revision',
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setLoading(true);
     
     try {
-      // Create the full quote record
+      // Create the full quote record; the database assigns the next version number
       const quoteInsertData = {
         quote_request_id: quoteRequestId,
         total_amount: totalAmount,
         estimated_timeline: sanitizeInput(formData.estimatedTimeline),
         start_date: formData.startDate || null,
         duration_weeks: formData.durationWeeks ? parseInt(formData.durationWeeks) : null,
-        cost_breakdown: costBreakdown.filter(item => item.item && item.amount) as any,
+        cost_breakdown: pricedCostItems as any,
         milestones: milestones.filter(m => m.name && m.percentage) as any,
         payment_schedule: paymentTerms as any,
+        retention_percentage: parseFloat(retentionTerms.retentionPercentage),
+        defects_liability_months: parseInt(retentionTerms.defectsLiabilityMonths),
         validity_date: formData.validityDate || null,
         site_visit_required: formData.siteVisitRequired,
         insurance_will_be_used: formData.insuranceWillBeUsed,
@@ -187,7 +327,9 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
         assumptions_dependencies: sanitizeInput(formData.assumptionsDependencies),
         inclusions: formData.inclusions.filter(inc => inc.trim()),
         exclusions: formData.exclusions.filter(exc => exc.trim()),
-        notes_to_client: sanitizeInput(formData.notes)
+        notes_to_client: sanitizeInput(formData.notes),
+        change_note: previousVersion !== null ? sanitizeInput(changeNote) : null,
+        template_version_id: templateVersionId
       };
 
       const { data: quoteData, error: quoteError } = await supabase
@@ -238,8 +380,12 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
         inclusions: [''],
         exclusions: [''],
       });
-      setCostBreakdown([{ item: '', amount: 0, description: '' }]);
+      setCostBreakdown([{ item: '', amount: 0, description: '', type: 'labour' }]);
       setMilestones([{ name: '', percentage: 0, description: '' }]);
+      setSelectedTemplateId('');
+      setTemplateVersionId(null);
+      setScaledLines([]);
+      setUnsizedLines([]);
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -262,6 +408,36 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-8">
+          {templates.length > 0 && (
+            <div className="space-y-2 rounded-lg border p-4">
+              <Label className="flex items-center gap-2">
+                <FileStack className="w-4 h-4" />
+                Start from Template
+              </Label>
+              <Select value={selectedTemplateId} onValueChange={applyTemplate}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a template from your quote library" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name} (v{template.current_version})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplateId && (
+                <div className="text-sm text-muted-foreground space-y-1">
+                  {scaledLines.length > 0 && <p>Quantities taken from the project: {scaledLines.join('; ')}.</p>}
+                  {unsizedLines.length > 0 && (
+                    <p>The client gave no size for {unsizedLines.join(', ')}, so the template's quantities are used.</p>
+                  )}
+                  <p>Review the figures before sending.</p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Basic Quote Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
@@ -333,13 +509,24 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
             
             {costBreakdown.map((item, index) => (
               <div key={index} className="grid grid-cols-12 gap-2 items-end">
-                <div className="col-span-4">
+                <div className="col-span-3">
                   <Input
                     placeholder="Item description"
                     value={item.item}
                     onChange={(e) => updateCostItem(index, 'item', e.target.value)}
                   />
                 </div>
+                <div className="col-span-2">
+                  <Select value={item.type} onValueChange={(value) => updateCostItem(index, 'type', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="labour">Labour</SelectItem>
+                      <SelectItem value="material">Materials</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="col-span-2">
                   <Input
                     type="number"
@@ -349,7 +536,7 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
                     onChange={(e) => updateCostItem(index, 'amount', parseFloat(e.target.value) || 0)}
                   />
                 </div>
-                <div className="col-span-5">
+                <div className="col-span-4">
                   <Input
                     placeholder="Additional details"
                     value={item.description}
@@ -369,6 +556,19 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
                 </div>
               </div>
             ))}
+
+            {materialsPercentage !== null && (
+              <p className="text-sm text-muted-foreground">
+                Materials make up {materialsPercentage}% of the quote value. Any amount not itemised counts as labour.
+              </p>
+            )}
+
+            {materialsWarning && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{materialsWarning}</AlertDescription>
+              </Alert>
+            )}
           </div>
 
           {/* Payment Terms */}
@@ -419,6 +619,38 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label>Retention</Label>
+                <Select value={retentionTerms.retentionPercentage} onValueChange={(value) => setRetentionTerms(prev => ({ ...prev, retentionPercentage: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">No Retention</SelectItem>
+                    <SelectItem value="5">5%</SelectItem>
+                    <SelectItem value="10">10%</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Defects Liability Period</Label>
+                <Select
+                  value={retentionTerms.defectsLiabilityMonths}
+                  onValueChange={(value) => setRetentionTerms(prev => ({ ...prev, defectsLiabilityMonths: value }))}
+                  disabled={retentionTerms.retentionPercentage === '0'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="6">6 Months</SelectItem>
+                    <SelectItem value="12">12 Months</SelectItem>
+                    <SelectItem value="24">24 Months</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </div>
 
@@ -551,12 +783,32 @@ const EnhancedSendQuoteModal: React.FC<SendQuoteModalProps> = ({
             </div>
           </div>
 
+          {previousVersion !== null && (
+            <div className="space-y-2">
+              <Label htmlFor="changeNote" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                What changed in this revision *
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                This replaces version {previousVersion}. The client sees this note next to the new version.
+              </p>
+              <Textarea
+                id="changeNote"
+                placeholder="e.g. Removed the skip hire and moved the tiling milestone after plastering..."
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                className="min-h-[80px]"
+                required
+              />
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-6 border-t">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
             <Button type="submit" disabled={loading} className="bg-gradient-primary">
-              {loading ? 'Sending...' : 'Send Detailed Quote'}
+              {loading ? 'Sending...' : previousVersion !== null ? `Send Version ${previousVersion + 1}` : 'Send Detailed Quote'}
             </Button>
           </div>
         </form>
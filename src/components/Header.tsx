@@ -1,6 +1,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { AuthButton } from '@/components/AuthButton';
+import { NotificationBell } from '@/components/NotificationBell';
 import { useAuth } from '@/contexts/AuthContext';
 
 export const Header = () => {
@@ -18,7 +19,12 @@ export const Header = () => {
             />
           </Link>
           
-          {user && <AuthButton />}
+          {user && (
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <AuthButton />
+            </div>
+          )}
         </div>
       </div>
     </header>
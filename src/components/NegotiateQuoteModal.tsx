@@ -1,19 +1,21 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { 
-  Euro, 
-  Calendar, 
-  Clock, 
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Euro,
+  Calendar,
+  Clock,
   MessageSquare,
   AlertCircle
 } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { openQuoteNegotiation, type ProposedChange } from '@/utils/quoteNegotiation';
 
 interface NegotiateQuoteModalProps {
   isOpen: boolean;
@@ -26,6 +28,8 @@ interface NegotiateQuoteModalProps {
     start_date: string;
     vendor_business_name: string;
     project_title: string;
+    cost_breakdown?: { item?: string; amount?: number | string }[] | null;
+    milestones?: { name?: string; percentage?: number | string }[] | null;
   };
   onNegotiate: () => void;
 }
@@ -37,13 +41,83 @@ const NegotiateQuoteModal: React.FC<NegotiateQuoteModalProps> = ({
   onNegotiate
 }) => {
   const [negotiationNotes, setNegotiationNotes] = useState('');
+  const [costOffers, setCostOffers] = useState<Record<number, string>>({});
+  const [changeMilestones, setChangeMilestones] = useState(false);
+  const [milestoneOffers, setMilestoneOffers] = useState<string[]>([]);
+  const [startDateOffer, setStartDateOffer] = useState('');
+  const [durationOffer, setDurationOffer] = useState('');
   const [loading, setLoading] = useState(false);
 
+  const costLines = Array.isArray(quoteDetails.cost_breakdown) ? quoteDetails.cost_breakdown : [];
+  const milestones = Array.isArray(quoteDetails.milestones) ? quoteDetails.milestones : [];
+
+  useEffect(() => {
+    if (isOpen) {
+      setNegotiationNotes('');
+      setCostOffers({});
+      setChangeMilestones(false);
+      setMilestoneOffers(milestones.map((milestone) => String(Number(milestone.percentage || 0))));
+      setStartDateOffer('');
+      setDurationOffer('');
+    }
+  }, [isOpen, quoteDetails.quote_id]);
+
+  const milestoneTotal = milestoneOffers.reduce((sum, share) => sum + (parseFloat(share) || 0), 0);
+
+  const costDelta = Object.entries(costOffers).reduce((sum, [index, offer]) => {
+    if (offer === '') return sum;
+    return sum + (parseFloat(offer) || 0) - Number(costLines[Number(index)]?.amount || 0);
+  }, 0);
+
+  const buildChanges = (): ProposedChange[] => {
+    const changes: ProposedChange[] = [];
+
+    Object.entries(costOffers).forEach(([index, offer]) => {
+      if (offer === '' || parseFloat(offer) === Number(costLines[Number(index)]?.amount || 0)) return;
+      changes.push({ type: 'cost_item', index: Number(index), proposed: parseFloat(offer) });
+    });
+
+    const shares = milestoneOffers.map((share) => parseFloat(share) || 0);
+    if (changeMilestones && shares.some((share, i) => share !== Number(milestones[i]?.percentage || 0))) {
+      changes.push({ type: 'milestones', proposed: shares });
+    }
+
+    if (startDateOffer && startDateOffer !== quoteDetails.start_date) {
+      changes.push({ type: 'start_date', proposed: startDateOffer });
+    }
+
+    if (durationOffer && parseInt(durationOffer) !== quoteDetails.duration_weeks) {
+      changes.push({ type: 'duration_weeks', proposed: parseInt(durationOffer) });
+    }
+
+    return changes;
+  };
+
   const handleSubmitNegotiation = async () => {
-    if (!negotiationNotes.trim()) {
+    const changes = buildChanges();
+
+    if (changes.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Propose at least one change to the quote',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (changeMilestones && Math.abs(milestoneTotal - 100) > 0.01) {
       toast({
         title: 'Error',
-        description: 'Please provide negotiation details',
+        description: 'Milestone shares must add up to 100%',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (changes.some((change) => change.type === 'cost_item' && Number(change.proposed) < 0)) {
+      toast({
+        title: 'Error',
+        description: 'Amounts cannot be negative',
         variant: 'destructive',
       });
       return;
@@ -51,21 +125,12 @@ const NegotiateQuoteModal: React.FC<NegotiateQuoteModalProps> = ({
 
     try {
       setLoading(true);
-      
-      const { error } = await supabase
-        .from('quote_reviews')
-        .insert({
-          quote_id: quoteDetails.quote_id,
-          reviewer_id: (await supabase.auth.getUser()).data.user?.id,
-          review_type: 'negotiation',
-          review_notes: negotiationNotes
-        });
-
-      if (error) throw error;
+
+      await openQuoteNegotiation(quoteDetails.quote_id, changes, negotiationNotes);
 
       toast({
         title: 'Negotiation Sent',
-        description: 'Your negotiation request has been sent to the vendor',
+        description: 'The vendor can now accept, reject or counter each change',
       });
 
       onNegotiate();
@@ -73,7 +138,7 @@ const NegotiateQuoteModal: React.FC<NegotiateQuoteModalProps> = ({
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: 'Failed to send negotiation request',
+        description: error.message || 'Failed to send negotiation request',
         variant: 'destructive',
       });
     } finally {
@@ -83,7 +148,7 @@ const NegotiateQuoteModal: React.FC<NegotiateQuoteModalProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden">
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <MessageSquare className="w-5 h-5 text-primary" />
@@ -91,72 +156,159 @@ const NegotiateQuoteModal: React.FC<NegotiateQuoteModalProps> = ({
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Current Quote Summary */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Current Quote from {quoteDetails.vendor_business_name}</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-3 gap-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-primary flex items-center justify-center gap-1">
-                    <Euro className="w-5 h-5" />
-                    €{quoteDetails.total_amount.toLocaleString()}
+        <ScrollArea className="max-h-[68vh] pr-4">
+          <div className="space-y-6">
+            {/* Current Quote Summary */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Current Quote from {quoteDetails.vendor_business_name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-primary flex items-center justify-center gap-1">
+                      <Euro className="w-5 h-5" />
+                      €{quoteDetails.total_amount.toLocaleString()}
+                    </div>
+                    <p className="text-sm text-muted-foreground">Total Amount</p>
                   </div>
-                  <p className="text-sm text-muted-foreground">Total Amount</p>
-                </div>
-                <div className="text-center">
-                  <div className="text-lg font-semibold flex items-center justify-center gap-1">
-                    <Clock className="w-4 h-4" />
-                    {quoteDetails.estimated_timeline || `${quoteDetails.duration_weeks} weeks`}
+                  <div className="text-center">
+                    <div className="text-lg font-semibold flex items-center justify-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      {quoteDetails.estimated_timeline || `${quoteDetails.duration_weeks} weeks`}
+                    </div>
+                    <p className="text-sm text-muted-foreground">Duration</p>
                   </div>
-                  <p className="text-sm text-muted-foreground">Duration</p>
-                </div>
-                <div className="text-center">
-                  <div className="text-lg font-semibold flex items-center justify-center gap-1">
-                    <Calendar className="w-4 h-4" />
-                    {quoteDetails.start_date ? new Date(quoteDetails.start_date).toLocaleDateString() : 'TBD'}
+                  <div className="text-center">
+                    <div className="text-lg font-semibold flex items-center justify-center gap-1">
+                      <Calendar className="w-4 h-4" />
+                      {quoteDetails.start_date ? new Date(quoteDetails.start_date).toLocaleDateString() : 'TBD'}
+                    </div>
+                    <p className="text-sm text-muted-foreground">Start Date</p>
                   </div>
-                  <p className="text-sm text-muted-foreground">Start Date</p>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
 
-          {/* Negotiation Form */}
-          <div className="space-y-4">
             <div className="flex items-start gap-2 p-4 bg-amber-50 border border-amber-200 rounded-lg">
               <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
               <div className="text-sm">
                 <p className="font-medium text-amber-800 mb-1">Negotiation Guidelines</p>
-                <p className="text-amber-700">Please be specific about what you'd like to negotiate (price, timeline, scope, etc.) and provide clear reasoning for your requests.</p>
+                <p className="text-amber-700">
+                  Enter a counter-value only for the points you want to change. The vendor accepts, rejects or
+                  counters each one, and the values you both agree become a new version of the quote.
+                </p>
+              </div>
+            </div>
+
+            {/* Cost lines */}
+            {costLines.length > 0 && (
+              <div className="space-y-3">
+                <Label>Cost breakdown</Label>
+                {costLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_7rem_9rem] items-center gap-3 text-sm">
+                    <span>{line.item || `Cost line ${index + 1}`}</span>
+                    <span className="text-right text-muted-foreground">€{Number(line.amount || 0).toFixed(2)}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Your offer"
+                      value={costOffers[index] ?? ''}
+                      onChange={(e) => setCostOffers(prev => ({ ...prev, [index]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+                {costDelta !== 0 && (
+                  <p className="text-sm text-right">
+                    New total if accepted:{' '}
+                    <span className="font-semibold">€{(quoteDetails.total_amount + costDelta).toFixed(2)}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Milestones */}
+            {milestones.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="changeMilestones"
+                    checked={changeMilestones}
+                    onCheckedChange={(checked) => setChangeMilestones(checked === true)}
+                  />
+                  <Label htmlFor="changeMilestones">Propose a different payment split</Label>
+                </div>
+                {changeMilestones && (
+                  <>
+                    {milestones.map((milestone, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_7rem_9rem] items-center gap-3 text-sm">
+                        <span>{milestone.name || `Milestone ${index + 1}`}</span>
+                        <span className="text-right text-muted-foreground">{Number(milestone.percentage || 0)}%</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={milestoneOffers[index] ?? ''}
+                          onChange={(e) => {
+                            const updated = [...milestoneOffers];
+                            updated[index] = e.target.value;
+                            setMilestoneOffers(updated);
+                          }}
+                        />
+                      </div>
+                    ))}
+                    <p className={`text-sm text-right ${Math.abs(milestoneTotal - 100) > 0.01 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                      Total: {milestoneTotal}%
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Timing */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDateOffer">Start date</Label>
+                <Input
+                  id="startDateOffer"
+                  type="date"
+                  value={startDateOffer}
+                  onChange={(e) => setStartDateOffer(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="durationOffer">Duration (weeks)</Label>
+                <Input
+                  id="durationOffer"
+                  type="number"
+                  min="1"
+                  placeholder={quoteDetails.duration_weeks ? String(quoteDetails.duration_weeks) : ''}
+                  value={durationOffer}
+                  onChange={(e) => setDurationOffer(e.target.value)}
+                />
               </div>
             </div>
 
             <div>
-              <Label htmlFor="negotiationNotes">Negotiation Details</Label>
+              <Label htmlFor="negotiationNotes">Reasoning</Label>
               <Textarea
                 id="negotiationNotes"
                 value={negotiationNotes}
                 onChange={(e) => setNegotiationNotes(e.target.value)}
-                placeholder="Describe what you'd like to negotiate. For example:
-- Request a lower price with reasoning
-- Propose changes to timeline
-- Suggest modifications to scope of work
-- Request additional services to be included"
-                rows={6}
+                placeholder="Explain your counter-offer, e.g. other quotes you received or a date you need the work finished by"
+                rows={4}
                 className="mt-2"
               />
             </div>
           </div>
-        </div>
+        </ScrollArea>
 
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button 
+          <Button
             onClick={handleSubmitNegotiation}
             disabled={loading}
             className="bg-gradient-primary"
@@ -169,4 +321,4 @@ const NegotiateQuoteModal: React.FC<NegotiateQuoteModalProps> = ({
   );
 };
 
-export default NegotiateQuoteModal;
\ No newline at end of file
+export default NegotiateQuoteModal;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Bell } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export const NotificationBell = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          setNotifications((current) => [payload.new as Notification, ...current]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, type, title, body, link, read_at, created_at')
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications(data || []);
+  };
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  const markAllRead = async () => {
+    const unreadIds = notifications.filter((notification) => !notification.read_at).map((notification) => notification.id);
+    if (unreadIds.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', unreadIds);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      return;
+    }
+    setNotifications((current) => current.map((notification) => ({ ...notification, read_at: notification.read_at || readAt })));
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read_at) {
+      const readAt = new Date().toISOString();
+      await supabase.from('notifications').update({ read_at: readAt }).eq('id', notification.id);
+      setNotifications((current) =>
+        current.map((item) => (item.id === notification.id ? { ...item, read_at: readAt } : item))
+      );
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-medium">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={markAllRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                className={`w-full border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted/50 ${notification.read_at ? '' : 'bg-primary/5'}`}
+                onClick={() => handleOpen(notification)}
+              >
+                <p className={`text-sm ${notification.read_at ? '' : 'font-medium'}`}>{notification.title}</p>
+                {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </p>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
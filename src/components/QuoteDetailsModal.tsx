@@ -10,6 +10,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import NegotiateQuoteModal from './NegotiateQuoteModal';
 import QuotesArchive from './QuotesArchive';
+import SignatureCaptureDialog from './SignatureCaptureDialog';
+import QuoteRevisionHistoryModal from './QuoteRevisionHistoryModal';
+import QuoteNegotiationModal from './QuoteNegotiationModal';
+import { signDocument, type SignatureInput } from '@/utils/documentSigning';
+import { isQuoteExpired } from '@/utils/quoteExpiry';
 
 import { 
   Euro, 
@@ -24,7 +29,10 @@ import {
   Trash2,
   Archive,
   AlertCircle,
-  Eye
+  Eye,
+  PenLine,
+  History,
+  Handshake
 } from 'lucide-react';
 
 interface QuoteDetailsModalProps {
@@ -71,9 +79,17 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
   const [showReviewForm, setShowReviewForm] = useState(false);
   const [showNegotiateModal, setShowNegotiateModal] = useState(false);
   const [showArchive, setShowArchive] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showNegotiation, setShowNegotiation] = useState(false);
   const [showPortfolioWarning, setShowPortfolioWarning] = useState(false);
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
   const [isQuoteAccepted, setIsQuoteAccepted] = useState(false);
+  const [requestStatus, setRequestStatus] = useState<string | null>(null);
+  const [clientSignedAt, setClientSignedAt] = useState<string | null>(null);
+  const [showSignatureModal, setShowSignatureModal] = useState(false);
+  const [signing, setSigning] = useState(false);
+
+  const isExpired = isQuoteExpired(requestStatus, quoteDetails?.validity_date || null);
 
   useEffect(() => {
     if (isOpen && quoteRequestId) {
@@ -91,6 +107,14 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
       if (error) throw error;
       if (data && data.length > 0) {
         setQuoteDetails(data[0]);
+
+        const { data: signatureState } = await supabase
+          .from('quotes')
+          .select('client_signed_at')
+          .eq('id', data[0].quote_id)
+          .maybeSingle();
+
+        setClientSignedAt(signatureState?.client_signed_at || null);
       }
 
       // Check if quote is accepted
@@ -100,6 +124,7 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
         .eq('id', quoteRequestId)
         .single();
       
+      setRequestStatus(quoteRequestData?.status || null);
       if (quoteRequestData?.status === 'accepted') {
         setIsQuoteAccepted(true);
       }
@@ -161,6 +186,15 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
           description: 'Your review has been sent to the vendor for consideration',
         });
       } else {
+        if (action === 'accept' && isExpired) {
+          toast({
+            title: 'Quote Expired',
+            description: 'Ask the vendor to extend this quote before accepting it',
+            variant: 'destructive',
+          });
+          return;
+        }
+
         // Update quote request status
         const { error } = await supabase
           .from('quote_requests')
@@ -196,6 +230,29 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
     }
   };
 
+  const handleSignQuote = async (input: SignatureInput) => {
+    if (!quoteDetails) return;
+
+    try {
+      setSigning(true);
+      const receipt = await signDocument('quote', quoteDetails.quote_id, input);
+      setClientSignedAt(receipt.signedAt);
+      setShowSignatureModal(false);
+      toast({
+        title: 'Quote Signed',
+        description: 'Your signature has been recorded',
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to sign quote',
+        variant: 'destructive',
+      });
+    } finally {
+      setSigning(false);
+    }
+  };
+
   const handleDeleteQuote = async () => {
     try {
       const { error } = await supabase
@@ -304,8 +361,26 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
                   <p className="text-sm text-muted-foreground">Start Date</p>
                 </div>
               </div>
+              {quoteDetails.validity_date && (
+                <p className={`text-sm text-center mt-4 ${isExpired ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                  {isExpired ? 'Expired on' : 'Valid until'} {new Date(quoteDetails.validity_date).toLocaleDateString()}
+                </p>
+              )}
             </div>
 
+            {isExpired && !isQuoteAccepted && (
+              <div className="flex items-start gap-2 p-4 bg-destructive/10 border border-destructive/30 rounded-lg">
+                <AlertCircle className="w-5 h-5 text-destructive mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium text-destructive mb-1">This quote has expired</p>
+                  <p className="text-muted-foreground">
+                    It can no longer be accepted. Ask {quoteDetails.vendor_business_name} to extend it; the extension
+                    arrives as a new version of the quote.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Cost Breakdown */}
             {quoteDetails.cost_breakdown && Array.isArray(quoteDetails.cost_breakdown) && quoteDetails.cost_breakdown.length > 0 && (
               <div>
@@ -425,6 +500,20 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
             >
               Portfolio
             </Button>
+            <Button 
+              variant="outline" 
+              onClick={() => setShowRevisions(true)}
+            >
+              <History className="w-4 h-4 mr-2" />
+              Revision History
+            </Button>
+            <Button 
+              variant="outline" 
+              onClick={() => setShowNegotiation(true)}
+            >
+              <Handshake className="w-4 h-4 mr-2" />
+              Negotiation
+            </Button>
             <Button 
               variant="outline" 
               onClick={() => setShowArchive(true)}
@@ -487,6 +576,7 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
                 </Button>
                 <Button 
                   onClick={() => handleQuoteAction('accept')}
+                  disabled={isExpired}
                   className="bg-gradient-primary"
                 >
                   <CheckCircle2 className="w-4 h-4 mr-2" />
@@ -494,10 +584,25 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
                 </Button>
               </>
             ) : isQuoteAccepted ? (
-              <div className="flex items-center gap-2 text-green-600">
-                <CheckCircle2 className="w-5 h-5" />
-                <span className="font-medium">Quote Accepted - Invoice Available</span>
-              </div>
+              <>
+                {clientSignedAt ? (
+                  <Badge variant="secondary">
+                    Signed on {new Date(clientSignedAt).toLocaleDateString()}
+                  </Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowSignatureModal(true)}
+                  >
+                    <PenLine className="w-4 h-4 mr-2" />
+                    Sign Quote
+                  </Button>
+                )}
+                <div className="flex items-center gap-2 text-green-600">
+                  <CheckCircle2 className="w-5 h-5" />
+                  <span className="font-medium">Quote Accepted - Invoice Available</span>
+                </div>
+              </>
             ) : (
               <>
                 <Button 
@@ -531,11 +636,14 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
               duration_weeks: quoteDetails.duration_weeks,
               start_date: quoteDetails.start_date,
               vendor_business_name: quoteDetails.vendor_business_name,
+              cost_breakdown: quoteDetails.cost_breakdown,
+              milestones: quoteDetails.milestones,
               project_title: "Project" // This should come from props
             }}
             onNegotiate={() => {
               onQuoteAction?.('review');
               setShowNegotiateModal(false);
+              setShowNegotiation(true);
             }}
           />
         )}
@@ -545,6 +653,32 @@ const QuoteDetailsModal: React.FC<QuoteDetailsModalProps> = ({
           onClose={() => setShowArchive(false)}
         />
 
+        <QuoteRevisionHistoryModal
+          isOpen={showRevisions}
+          onClose={() => setShowRevisions(false)}
+          quoteRequestId={quoteRequestId}
+          title={quoteDetails?.vendor_business_name}
+        />
+
+        <QuoteNegotiationModal
+          isOpen={showNegotiation}
+          onClose={() => setShowNegotiation(false)}
+          quoteRequestId={quoteRequestId}
+          role="client"
+          title={quoteDetails?.vendor_business_name}
+          onChanged={fetchQuoteDetails}
+        />
+
+        <SignatureCaptureDialog
+          open={showSignatureModal}
+          onOpenChange={setShowSignatureModal}
+          title="Sign Quote"
+          description={`Sign the accepted quote from ${quoteDetails?.vendor_business_name || 'the vendor'} for €${Number(quoteDetails?.total_amount || 0).toFixed(2)}`}
+          confirmLabel="Sign Quote"
+          processing={signing}
+          onSign={handleSignQuote}
+        />
+
 
         {/* Portfolio Warning Dialog */}
         <Dialog open={showPortfolioWarning} onOpenChange={setShowPortfolioWarning}>
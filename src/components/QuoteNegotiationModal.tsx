@@ -0,0 +1,401 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from '@/hooks/use-toast';
+import { Check, Handshake, Loader2, Repeat, X } from 'lucide-react';
+import {
+  fetchNegotiations,
+  formatNegotiationValue,
+  isAwaitingResponse,
+  isOpenPoint,
+  respondToQuoteNegotiation,
+  type Negotiation,
+  type NegotiationPoint,
+  type NegotiationRole,
+  type NegotiationRound,
+  type NegotiationValue,
+  type PointResponse
+} from '@/utils/quoteNegotiation';
+import { quoteVersionMaterialsWarning } from '@/utils/invoiceStages';
+
+interface QuoteNegotiationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quoteRequestId: string;
+  role: NegotiationRole;
+  title?: string;
+  onChanged?: () => void;
+}
+
+interface DraftResponse {
+  response?: PointResponse['response'];
+  counter: string;
+  milestoneCounter: string[];
+  note: string;
+}
+
+const STATUS_BADGES: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  proposed: { label: 'Proposed', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  countered: { label: 'Countered', variant: 'secondary' }
+};
+
+const NEGOTIATION_STATUS: Record<string, string> = {
+  open: 'In progress',
+  agreed: 'Agreed',
+  closed: 'Closed without changes',
+  superseded: 'Superseded by a new version'
+};
+
+const roleLabel = (role: NegotiationRole) => (role === 'client' ? 'Client' : 'Vendor');
+
+const draftFor = (point: NegotiationPoint): DraftResponse => ({
+  counter: '',
+  milestoneCounter: Array.isArray(point.proposed) ? point.proposed.map(String) : [],
+  note: ''
+});
+
+const QuoteNegotiationModal: React.FC<QuoteNegotiationModalProps> = ({
+  isOpen,
+  onClose,
+  quoteRequestId,
+  role,
+  title,
+  onChanged
+}) => {
+  const [negotiations, setNegotiations] = useState<Negotiation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, DraftResponse>>({});
+  const [replyNotes, setReplyNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && quoteRequestId) {
+      loadNegotiations();
+    }
+  }, [isOpen, quoteRequestId]);
+
+  const loadNegotiations = async () => {
+    try {
+      setLoading(true);
+      const data = await fetchNegotiations(quoteRequestId);
+      setNegotiations(data);
+
+      const awaiting = data.find((negotiation) => isAwaitingResponse(negotiation, role));
+      const initialDrafts: Record<string, DraftResponse> = {};
+      awaiting?.openRound.points.filter(isOpenPoint).forEach((point) => {
+        initialDrafts[point.key] = draftFor(point);
+      });
+      setDrafts(initialDrafts);
+      setReplyNotes('');
+    } catch (error: any) {
+      console.error('Error loading negotiations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the negotiation',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (key: string, changes: Partial<DraftResponse>) => {
+    setDrafts(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  const counterValue = (point: NegotiationPoint, draft: DraftResponse): NegotiationValue => {
+    switch (point.type) {
+      case 'cost_item':
+        return draft.counter === '' ? null : parseFloat(draft.counter);
+      case 'duration_weeks':
+        return draft.counter === '' ? null : parseInt(draft.counter);
+      case 'start_date':
+        return draft.counter || null;
+      case 'milestones':
+        return draft.milestoneCounter.map((share) => parseFloat(share) || 0);
+    }
+  };
+
+  const handleRespond = async (round: NegotiationRound) => {
+    const openPoints = round.points.filter(isOpenPoint);
+    const responses: PointResponse[] = [];
+
+    for (const point of openPoints) {
+      const draft = drafts[point.key];
+      if (!draft?.response) {
+        toast({
+          title: 'Error',
+          description: `Accept, reject or counter "${point.label}"`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      if (draft.response === 'countered') {
+        const counter = counterValue(point, draft);
+        if (counter === null || (typeof counter === 'number' && isNaN(counter))) {
+          toast({
+            title: 'Error',
+            description: `Enter your counter-offer for "${point.label}"`,
+            variant: 'destructive',
+          });
+          return;
+        }
+        if (point.type === 'milestones' && Math.abs((counter as number[]).reduce((sum, share) => sum + share, 0) - 100) > 0.01) {
+          toast({
+            title: 'Error',
+            description: 'Milestone shares must add up to 100%',
+            variant: 'destructive',
+          });
+          return;
+        }
+        responses.push({ key: point.key, response: 'countered', counter, note: draft.note });
+      } else {
+        responses.push({ key: point.key, response: draft.response, note: draft.note });
+      }
+    }
+
+    try {
+      setSubmitting(true);
+      const result = await respondToQuoteNegotiation(round.id, responses, replyNotes);
+
+      toast({
+        title: result.status === 'open' ? 'Counter-offer sent' : 'Negotiation complete',
+        description: result.status === 'agreed'
+          ? 'The agreed values have been issued as a new version of the quote'
+          : result.status === 'closed'
+            ? 'Nothing was agreed, so the quote stays as it is'
+            : `The ${role === 'client' ? 'vendor' : 'client'} can now respond to your counter-offers`,
+      });
+
+      const materialsWarning = result.quote_id ? await quoteVersionMaterialsWarning(result.quote_id) : null;
+      if (materialsWarning) {
+        toast({
+          title: '5% renovation rate no longer applies',
+          description: materialsWarning,
+          variant: 'destructive',
+        });
+      }
+
+      await loadNegotiations();
+      onChanged?.();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send your response',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderCounterInput = (point: NegotiationPoint, draft: DraftResponse) => {
+    if (point.type === 'milestones') {
+      const total = draft.milestoneCounter.reduce((sum, share) => sum + (parseFloat(share) || 0), 0);
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          {draft.milestoneCounter.map((share, index) => (
+            <Input
+              key={index}
+              type="number"
+              min="0"
+              max="100"
+              className="w-20"
+              value={share}
+              onChange={(e) => {
+                const updated = [...draft.milestoneCounter];
+                updated[index] = e.target.value;
+                updateDraft(point.key, { milestoneCounter: updated });
+              }}
+            />
+          ))}
+          <span className={`text-sm ${Math.abs(total - 100) > 0.01 ? 'text-destructive' : 'text-muted-foreground'}`}>
+            = {total}%
+          </span>
+        </div>
+      );
+    }
+
+    return (
+      <Input
+        type={point.type === 'start_date' ? 'date' : 'number'}
+        min="0"
+        step={point.type === 'cost_item' ? '0.01' : '1'}
+        className="w-44"
+        placeholder="Your counter-offer"
+        value={draft.counter}
+        onChange={(e) => updateDraft(point.key, { counter: e.target.value })}
+      />
+    );
+  };
+
+  const renderRound = (round: NegotiationRound, negotiation: Negotiation) => {
+    const awaitingMe = negotiation.openRound?.id === round.id && isAwaitingResponse(negotiation, role);
+
+    return (
+      <div key={round.id} className="rounded-lg border p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <p className="font-medium">
+              Round {round.roundNumber} · {roleLabel(round.proposerRole)}
+              {round.roundNumber === 1 ? ' proposed' : ' responded'}
+            </p>
+            <p className="text-xs text-muted-foreground">{new Date(round.createdAt).toLocaleString()}</p>
+          </div>
+          {round.status === 'open' && (
+            <Badge variant={awaitingMe ? 'default' : 'outline'}>
+              {awaitingMe ? 'Awaiting your response' : `Awaiting ${round.proposerRole === 'client' ? 'vendor' : 'client'}`}
+            </Badge>
+          )}
+        </div>
+
+        {round.notes && <p className="text-sm bg-muted/50 rounded p-2">{round.notes}</p>}
+
+        <div className="divide-y rounded border">
+          {round.points.map((point) => {
+            const draft = drafts[point.key];
+            const badge = STATUS_BADGES[point.status];
+            return (
+              <div key={point.key} className="p-3 space-y-2 text-sm">
+                <div className="grid grid-cols-[1fr_auto] gap-3">
+                  <div>
+                    <p className="font-medium">{point.label}</p>
+                    <p className="text-muted-foreground">
+                      Quoted {formatNegotiationValue(point.type, point.current)}
+                      {point.status !== 'rejected' && (
+                        <> · {point.status === 'accepted' ? 'agreed at' : 'offer'}{' '}
+                          <span className="font-medium text-foreground">{formatNegotiationValue(point.type, point.proposed)}</span>
+                        </>
+                      )}
+                    </p>
+                    {point.note && <p className="text-muted-foreground italic mt-1">{point.note}</p>}
+                  </div>
+                  {badge && <Badge variant={badge.variant} className="h-fit">{badge.label}</Badge>}
+                </div>
+
+                {awaitingMe && isOpenPoint(point) && draft && (
+                  <div className="space-y-2 pt-1">
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={draft.response === 'accepted' ? 'default' : 'outline'}
+                        onClick={() => updateDraft(point.key, { response: 'accepted' })}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Accept
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={draft.response === 'rejected' ? 'destructive' : 'outline'}
+                        onClick={() => updateDraft(point.key, { response: 'rejected' })}
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={draft.response === 'countered' ? 'secondary' : 'outline'}
+                        onClick={() => updateDraft(point.key, { response: 'countered' })}
+                      >
+                        <Repeat className="w-4 h-4 mr-1" />
+                        Counter
+                      </Button>
+                    </div>
+                    {draft.response === 'countered' && renderCounterInput(point, draft)}
+                    {draft.response && (
+                      <Input
+                        placeholder="Note (optional)"
+                        value={draft.note}
+                        onChange={(e) => updateDraft(point.key, { note: e.target.value })}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {awaitingMe && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor={`reply-${round.id}`}>Message</Label>
+              <Textarea
+                id={`reply-${round.id}`}
+                rows={3}
+                value={replyNotes}
+                onChange={(e) => setReplyNotes(e.target.value)}
+                placeholder="Explain your response (optional)"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => handleRespond(round)} disabled={submitting} className="bg-gradient-primary">
+                {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Send Response
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Handshake className="w-5 h-5 text-primary" />
+            Negotiation{title ? ` · ${title}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Every round of the negotiation. Agreed values are issued as a new quote version once no counter-offer is left open.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : negotiations.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {role === 'client'
+              ? 'You have not negotiated this quote yet. Use Negotiate on the quote to propose changes.'
+              : 'The client has not proposed any changes to this quote'}
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[70vh] pr-4">
+            <div className="space-y-8">
+              {negotiations.map((negotiation) => (
+                <section key={negotiation.id} className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold">
+                      Negotiation started {new Date(negotiation.rounds[0].createdAt).toLocaleDateString()}
+                    </h4>
+                    <Badge variant={negotiation.status === 'agreed' ? 'default' : 'outline'}>
+                      {NEGOTIATION_STATUS[negotiation.status] || negotiation.status}
+                    </Badge>
+                  </div>
+                  {negotiation.rounds.map((round) => renderRound(round, negotiation))}
+                </section>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuoteNegotiationModal;
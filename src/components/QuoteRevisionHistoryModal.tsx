@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { ArrowRight, History, Loader2, Minus, Plus } from 'lucide-react';
+import {
+  QUOTE_REVISION_COLUMNS,
+  diffQuoteRevisions,
+  isEmptyDiff,
+  type ChangeKind,
+  type QuoteRevision
+} from '@/utils/quoteRevisions';
+
+interface QuoteRevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quoteRequestId: string;
+  title?: string;
+}
+
+const CHANGE_STYLES: Record<ChangeKind, string> = {
+  added: 'bg-green-500/10 text-green-700',
+  removed: 'bg-destructive/10 text-destructive line-through',
+  changed: 'bg-amber-500/10 text-amber-700'
+};
+
+const formatAmount = (amount: number | null) => (amount === null ? '—' : `€${amount.toFixed(2)}`);
+
+const formatDelta = (delta: number | null, isMoney: boolean) => {
+  if (delta === null || delta === 0) return null;
+  const value = isMoney ? `€${Math.abs(delta).toFixed(2)}` : String(Math.abs(delta));
+  return (
+    <span className={delta > 0 ? 'text-destructive' : 'text-green-700'}>
+      {delta > 0 ? '+' : '−'}{value}
+    </span>
+  );
+};
+
+const QuoteRevisionHistoryModal: React.FC<QuoteRevisionHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  quoteRequestId,
+  title
+}) => {
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  useEffect(() => {
+    if (isOpen && quoteRequestId) {
+      fetchRevisions();
+    }
+  }, [isOpen, quoteRequestId]);
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('quotes')
+        .select(QUOTE_REVISION_COLUMNS)
+        .eq('quote_request_id', quoteRequestId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      const rows = (data || []) as unknown as QuoteRevision[];
+      setRevisions(rows);
+      // Latest change by default
+      setToId(rows[0]?.id || '');
+      setFromId(rows[1]?.id || rows[0]?.id || '');
+    } catch (error: any) {
+      console.error('Error loading quote revisions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the revision history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const from = revisions.find((revision) => revision.id === fromId);
+  const to = revisions.find((revision) => revision.id === toId);
+  const diff = useMemo(() => (from && to && from.id !== to.id ? diffQuoteRevisions(from, to) : null), [from, to]);
+
+  const versionLabel = (revision: QuoteRevision) =>
+    `Version ${revision.version} · ${new Date(revision.created_at).toLocaleDateString()}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Revision History{title ? ` · ${title}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Every version of this quote, with what changed between any two of them
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No quote has been sent yet</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+            {/* Timeline */}
+            <ScrollArea className="max-h-[65vh] pr-3">
+              <ol className="relative border-l pl-5 space-y-5">
+                {revisions.map((revision) => (
+                  <li key={revision.id} className="relative">
+                    <span
+                      className={`absolute -left-[1.65rem] top-1 h-3 w-3 rounded-full border-2 border-background ${
+                        revision.is_current_version ? 'bg-primary' : 'bg-muted-foreground/40'
+                      }`}
+                    />
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {revision.version}</span>
+                      {revision.is_current_version && <Badge>Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(revision.created_at).toLocaleString()}
+                    </p>
+                    <p className="text-sm font-medium mt-1">{formatAmount(Number(revision.total_amount))}</p>
+                    {revision.change_note ? (
+                      <p className="text-sm mt-1 bg-muted/50 rounded p-2">{revision.change_note}</p>
+                    ) : revision.version > 1 ? (
+                      <p className="text-xs text-muted-foreground mt-1 italic">No change note</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground mt-1">Original quote</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </ScrollArea>
+
+            {/* Diff */}
+            <div className="space-y-4 min-w-0">
+              {revisions.length < 2 ? (
+                <p className="text-muted-foreground py-8 text-center">
+                  This quote has not been revised. Changes will show here when the vendor sends a new version.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-3">
+                    <div className="space-y-2">
+                      <Label>Compare</Label>
+                      <Select value={fromId} onValueChange={setFromId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {revisions.map((revision) => (
+                            <SelectItem key={revision.id} value={revision.id}>{versionLabel(revision)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <ArrowRight className="w-4 h-4 mb-3 text-muted-foreground" />
+                    <div className="space-y-2">
+                      <Label>With</Label>
+                      <Select value={toId} onValueChange={setToId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {revisions.map((revision) => (
+                            <SelectItem key={revision.id} value={revision.id}>{versionLabel(revision)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <ScrollArea className="max-h-[52vh] pr-3">
+                    {!diff ? (
+                      <p className="text-muted-foreground py-8 text-center">Choose two different versions</p>
+                    ) : isEmptyDiff(diff) ? (
+                      <p className="text-muted-foreground py-8 text-center">These versions are identical</p>
+                    ) : (
+                      <div className="space-y-6">
+                        {diff.fields.length > 0 && (
+                          <section>
+                            <h4 className="font-semibold mb-2">Terms</h4>
+                            <div className="divide-y rounded border">
+                              {diff.fields.map((field) => (
+                                <div key={field.label} className="grid grid-cols-[10rem_1fr] gap-3 p-2 text-sm">
+                                  <span className="text-muted-foreground">{field.label}</span>
+                                  <span className="flex flex-wrap items-center gap-2">
+                                    <span className="line-through text-muted-foreground">{field.from}</span>
+                                    <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                                    <span className="font-medium">{field.to}</span>
+                                    {formatDelta(field.delta, field.label === 'Total amount')}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </section>
+                        )}
+
+                        {diff.costItems.length > 0 && (
+                          <section>
+                            <h4 className="font-semibold mb-2">Cost breakdown</h4>
+                            <div className="space-y-1">
+                              {diff.costItems.map((line) => (
+                                <div
+                                  key={`${line.change}-${line.item}`}
+                                  className={`flex items-center justify-between gap-3 rounded px-2 py-1.5 text-sm ${CHANGE_STYLES[line.change]}`}
+                                >
+                                  <span className="flex items-center gap-2">
+                                    {line.change === 'added' ? <Plus className="w-3 h-3" /> : line.change === 'removed' ? <Minus className="w-3 h-3" /> : null}
+                                    {line.item}
+                                    {line.change === 'changed' && line.fromType !== line.toType && (
+                                      <span className="text-xs">({line.fromType || 'unclassified'} → {line.toType || 'unclassified'})</span>
+                                    )}
+                                  </span>
+                                  <span className="whitespace-nowrap">
+                                    {line.change === 'changed'
+                                      ? <>{formatAmount(line.from)} → {formatAmount(line.to)} {formatDelta(Math.round((line.to - line.from) * 100) / 100, true)}</>
+                                      : formatAmount(line.change === 'added' ? line.to : line.from)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </section>
+                        )}
+
+                        {diff.milestones.length > 0 && (
+                          <section>
+                            <h4 className="font-semibold mb-2">Milestones</h4>
+                            <div className="space-y-1">
+                              {diff.milestones.map((milestone) => (
+                                <div
+                                  key={`${milestone.change}-${milestone.name}`}
+                                  className={`flex items-center justify-between gap-3 rounded px-2 py-1.5 text-sm ${CHANGE_STYLES[milestone.change]}`}
+                                >
+                                  <span className="flex flex-col">
+                                    <span>
+                                      {milestone.name}
+                                      {milestone.change === 'changed' && milestone.fromPosition !== milestone.toPosition && (
+                                        <span className="text-xs"> (step {milestone.fromPosition} → {milestone.toPosition})</span>
+                                      )}
+                                    </span>
+                                    {milestone.change === 'changed' && milestone.fromDescription !== milestone.toDescription && (
+                                      <span className="text-xs">
+                                        {milestone.fromDescription || 'No description'} → {milestone.toDescription || 'No description'}
+                                      </span>
+                                    )}
+                                  </span>
+                                  <span className="whitespace-nowrap">
+                                    {milestone.change === 'changed' && milestone.from !== milestone.to
+                                      ? `${milestone.from}% → ${milestone.to}%`
+                                      : `${milestone.change === 'removed' ? milestone.from : milestone.to}%`}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </section>
+                        )}
+
+                        {(['inclusions', 'exclusions'] as const).map((scope) => {
+                          const change = diff[scope];
+                          if (change.added.length === 0 && change.removed.length === 0) return null;
+                          return (
+                            <section key={scope}>
+                              <h4 className="font-semibold mb-2">{scope === 'inclusions' ? 'Inclusions' : 'Exclusions'}</h4>
+                              <div className="space-y-1">
+                                {change.added.map((item) => (
+                                  <div key={`added-${item}`} className={`flex items-center gap-2 rounded px-2 py-1.5 text-sm ${CHANGE_STYLES.added}`}>
+                                    <Plus className="w-3 h-3" />
+                                    {item}
+                                  </div>
+                                ))}
+                                {change.removed.map((item) => (
+                                  <div key={`removed-${item}`} className={`flex items-center gap-2 rounded px-2 py-1.5 text-sm ${CHANGE_STYLES.removed}`}>
+                                    <Minus className="w-3 h-3" />
+                                    {item}
+                                  </div>
+                                ))}
+                              </div>
+                            </section>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </ScrollArea>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuoteRevisionHistoryModal;
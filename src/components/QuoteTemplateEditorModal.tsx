@@ -0,0 +1,604 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { FileStack, Plus, Minus, History } from 'lucide-react';
+import {
+  AREA_SOURCES,
+  PRICE_UNITS,
+  emptyTemplateContent,
+  lineAmount,
+  saveQuoteTemplate,
+  type PriceBookItem,
+  type PriceUnit,
+  type QuoteTemplate,
+  type QuoteTemplateContent,
+  type TemplateLine,
+  type TemplateMilestone
+} from '@/utils/quoteTemplates';
+
+interface QuoteTemplateEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Template being edited, or null for a new one */
+  template: QuoteTemplate | null;
+  /** Content of the template's current version */
+  content: QuoteTemplateContent | null;
+  priceBook: PriceBookItem[];
+  onSaved: () => void;
+}
+
+const FIXED_QUANTITY = 'fixed';
+
+const blankLine = (): TemplateLine => ({
+  item: '',
+  description: '',
+  type: 'labour',
+  unit: 'item',
+  quantity: 1,
+  unitRate: 0,
+  priceBookItemId: null,
+  scaleFrom: null,
+  scaleFactor: 1
+});
+
+const QuoteTemplateEditorModal: React.FC<QuoteTemplateEditorModalProps> = ({
+  isOpen,
+  onClose,
+  template,
+  content,
+  priceBook,
+  onSaved
+}) => {
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [draft, setDraft] = useState<QuoteTemplateContent>(emptyTemplateContent());
+  const [changeNote, setChangeNote] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      const initial = content || emptyTemplateContent();
+      setName(template?.name || '');
+      setDescription(template?.description || '');
+      setDraft({
+        ...initial,
+        lines: initial.lines.length > 0 ? initial.lines : [blankLine()],
+        milestones: initial.milestones.length > 0 ? initial.milestones : [{ name: '', percentage: 0, description: '' }]
+      });
+      setChangeNote('');
+    }
+  }, [isOpen, template, content]);
+
+  const updateLine = (index: number, changes: Partial<TemplateLine>) => {
+    setDraft(prev => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    }));
+  };
+
+  const removeLine = (index: number) => {
+    setDraft(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }));
+  };
+
+  const addPriceBookLine = (itemId: string) => {
+    const rate = priceBook.find(item => item.id === itemId);
+    if (!rate) return;
+
+    setDraft(prev => ({
+      ...prev,
+      // Replace the empty starter line rather than leaving it behind
+      lines: [...prev.lines.filter(line => line.item || line.unitRate), {
+        ...blankLine(),
+        item: rate.name,
+        description: rate.description || '',
+        type: rate.cost_type,
+        unit: rate.unit,
+        unitRate: Number(rate.unit_rate),
+        priceBookItemId: rate.id
+      }]
+    }));
+  };
+
+  const updateMilestone = (index: number, changes: Partial<TemplateMilestone>) => {
+    setDraft(prev => ({
+      ...prev,
+      milestones: prev.milestones.map((milestone, i) => (i === index ? { ...milestone, ...changes } : milestone))
+    }));
+  };
+
+  const pricedLines = draft.lines.filter(line => line.item.trim());
+  const baseTotal = pricedLines.reduce((sum, line) => sum + lineAmount(line), 0);
+  const milestoneTotal = draft.milestones.reduce((sum, milestone) => sum + Number(milestone.percentage || 0), 0);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please give the template a name',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (pricedLines.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Add at least one cost line',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const milestones = draft.milestones.filter(m => m.name && m.percentage);
+    if (milestones.length > 0 && milestoneTotal !== 100) {
+      toast({
+        title: 'Error',
+        description: `Milestones add up to ${milestoneTotal}%; they must total 100%`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (template && !changeNote.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please describe what changed in this version',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveQuoteTemplate(
+        template?.id || null,
+        name,
+        description,
+        {
+          ...draft,
+          lines: pricedLines.map(line => ({
+            ...line,
+            // Only area-priced lines scale with the project
+            scaleFrom: line.unit === 'm2' ? line.scaleFrom : null
+          })),
+          inclusions: draft.inclusions.map(inc => inc.trim()).filter(Boolean),
+          exclusions: draft.exclusions.map(exc => exc.trim()).filter(Boolean),
+          milestones
+        },
+        template ? changeNote : 'First version'
+      );
+
+      toast({
+        title: template ? 'Template Updated' : 'Template Created',
+        description: template
+          ? `${name} was saved as version ${template.current_version + 1}.`
+          : `${name} is ready to start quotes from.`
+      });
+
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save template',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileStack className="w-5 h-5" />
+            {template ? `Edit "${template.name}"` : 'New Quote Template'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Template Name *</Label>
+              <Input
+                id="templateName"
+                placeholder="e.g., Bathroom refit"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateDuration">Typical Duration (weeks)</Label>
+              <Input
+                id="templateDuration"
+                type="number"
+                min="1"
+                value={draft.durationWeeks}
+                onChange={(e) => setDraft(prev => ({ ...prev, durationWeeks: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="templateDescription">Description</Label>
+              <Input
+                id="templateDescription"
+                placeholder="When to use this template"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Cost Lines */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-lg font-semibold">Cost Lines</h3>
+              <div className="flex gap-2">
+                <Select value="" onValueChange={addPriceBookLine} disabled={priceBook.length === 0}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder={priceBook.length === 0 ? 'Price book is empty' : 'Add from price book'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {priceBook.map((rate) => (
+                      <SelectItem key={rate.id} value={rate.id}>
+                        {rate.name} · €{Number(rate.unit_rate).toFixed(2)}/{PRICE_UNITS[rate.unit].suffix}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDraft(prev => ({ ...prev, lines: [...prev.lines, blankLine()] }))}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Line
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Lines priced per m² can take their quantity from the project's room sizes. The quantity entered here is
+              used when the client did not give that size.
+            </p>
+
+            {draft.lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end border-b pb-3">
+                <div className="col-span-3 space-y-1">
+                  <Label className="text-xs">Item</Label>
+                  <Input value={line.item} onChange={(e) => updateLine(index, { item: e.target.value })} />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label className="text-xs">Type</Label>
+                  <Select value={line.type} onValueChange={(value) => updateLine(index, { type: value as TemplateLine['type'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="labour">Labour</SelectItem>
+                      <SelectItem value="material">Materials</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label className="text-xs">Unit</Label>
+                  <Select value={line.unit} onValueChange={(value) => updateLine(index, { unit: value as PriceUnit })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PRICE_UNITS).map(([unit, { label }]) => (
+                        <SelectItem key={unit} value={unit}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-1 space-y-1">
+                  <Label className="text-xs">Qty</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={line.quantity || ''}
+                    onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label className="text-xs">Rate (€)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={line.unitRate || ''}
+                    onChange={(e) => updateLine(index, { unitRate: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="col-span-1 text-right text-sm font-medium pb-2">
+                  €{lineAmount(line).toFixed(2)}
+                </div>
+                <div className="col-span-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeLine(index)}
+                    disabled={draft.lines.length === 1}
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="col-span-5">
+                  <Input
+                    placeholder="Additional details"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                  />
+                </div>
+                {line.unit === 'm2' && (
+                  <>
+                    <div className="col-span-4">
+                      <Select
+                        value={line.scaleFrom || FIXED_QUANTITY}
+                        onValueChange={(value) => updateLine(index, { scaleFrom: value === FIXED_QUANTITY ? null : value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={FIXED_QUANTITY}>Fixed quantity</SelectItem>
+                          {AREA_SOURCES.map((source) => (
+                            <SelectItem key={source.key} value={source.key}>Scale with: {source.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {line.scaleFrom && (
+                      <div className="col-span-3 flex items-center gap-2">
+                        <Input
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={line.scaleFactor || ''}
+                          onChange={(e) => updateLine(index, { scaleFactor: parseFloat(e.target.value) || 0 })}
+                        />
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">m² per m²</span>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+
+            <p className="text-sm text-right">
+              Total at these quantities: <span className="font-semibold">€{baseTotal.toFixed(2)}</span>
+            </p>
+          </div>
+
+          {/* Milestones */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Payment Milestones</h3>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setDraft(prev => ({
+                  ...prev,
+                  milestones: [...prev.milestones, { name: '', percentage: 0, description: '' }]
+                }))}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Milestone
+              </Button>
+            </div>
+
+            {draft.milestones.map((milestone, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-4">
+                  <Input
+                    placeholder="Milestone name"
+                    value={milestone.name}
+                    onChange={(e) => updateMilestone(index, { name: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    placeholder="%"
+                    value={milestone.percentage || ''}
+                    onChange={(e) => updateMilestone(index, { percentage: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="col-span-5">
+                  <Input
+                    placeholder="What is delivered"
+                    value={milestone.description}
+                    onChange={(e) => updateMilestone(index, { description: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDraft(prev => ({ ...prev, milestones: prev.milestones.filter((_, i) => i !== index) }))}
+                    disabled={draft.milestones.length === 1}
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {milestoneTotal > 0 && milestoneTotal !== 100 && (
+              <p className="text-sm text-destructive">Milestones add up to {milestoneTotal}%</p>
+            )}
+          </div>
+
+          {/* Payment Terms */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Payment Terms</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Deposit Percentage</Label>
+                <Select
+                  value={draft.paymentTerms.depositPercentage}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, paymentTerms: { ...prev.paymentTerms, depositPercentage: value } }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">No Deposit</SelectItem>
+                    <SelectItem value="25">25%</SelectItem>
+                    <SelectItem value="50">50%</SelectItem>
+                    <SelectItem value="75">75%</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Payment Schedule</Label>
+                <Select
+                  value={draft.paymentTerms.schedule}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, paymentTerms: { ...prev.paymentTerms, schedule: value } }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="milestone-based">Milestone Based</SelectItem>
+                    <SelectItem value="upfront">Full Upfront</SelectItem>
+                    <SelectItem value="completion">On Completion</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Net Payment Days</Label>
+                <Select
+                  value={draft.paymentTerms.netDays}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, paymentTerms: { ...prev.paymentTerms, netDays: value } }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="15">Net 15</SelectItem>
+                    <SelectItem value="30">Net 30</SelectItem>
+                    <SelectItem value="45">Net 45</SelectItem>
+                    <SelectItem value="60">Net 60</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Retention</Label>
+                <Select
+                  value={draft.retentionTerms.retentionPercentage}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, retentionTerms: { ...prev.retentionTerms, retentionPercentage: value } }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">No Retention</SelectItem>
+                    <SelectItem value="5">5%</SelectItem>
+                    <SelectItem value="10">10%</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Defects Liability Period</Label>
+                <Select
+                  value={draft.retentionTerms.defectsLiabilityMonths}
+                  onValueChange={(value) => setDraft(prev => ({ ...prev, retentionTerms: { ...prev.retentionTerms, defectsLiabilityMonths: value } }))}
+                  disabled={draft.retentionTerms.retentionPercentage === '0'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="6">6 Months</SelectItem>
+                    <SelectItem value="12">12 Months</SelectItem>
+                    <SelectItem value="24">24 Months</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="templateInclusions" className="text-green-600">What's Included (one per line)</Label>
+              <Textarea
+                id="templateInclusions"
+                value={draft.inclusions.join('\n')}
+                onChange={(e) => setDraft(prev => ({ ...prev, inclusions: e.target.value.split('\n') }))}
+                className="min-h-[120px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateExclusions" className="text-red-600">What's NOT Included (one per line)</Label>
+              <Textarea
+                id="templateExclusions"
+                value={draft.exclusions.join('\n')}
+                onChange={(e) => setDraft(prev => ({ ...prev, exclusions: e.target.value.split('\n') }))}
+                className="min-h-[120px]"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="templateAssumptions">Assumptions & Dependencies</Label>
+              <Textarea
+                id="templateAssumptions"
+                value={draft.assumptionsDependencies}
+                onChange={(e) => setDraft(prev => ({ ...prev, assumptionsDependencies: e.target.value }))}
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+
+          {template && (
+            <div className="space-y-2">
+              <Label htmlFor="templateChangeNote" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                What changed in this version *
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Saved as version {template.current_version + 1}. Quotes already started from version{' '}
+                {template.current_version} keep referring to it.
+              </p>
+              <Textarea
+                id="templateChangeNote"
+                placeholder="e.g. Raised the tiling rate and added waterproofing..."
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                className="min-h-[60px]"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-6 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving} className="bg-gradient-primary">
+              {saving ? 'Saving...' : template ? `Save Version ${template.current_version + 1}` : 'Create Template'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuoteTemplateEditorModal;
@@ -196,6 +196,7 @@ const ServiceGroups: React.FC<ServiceGroupsProps> = ({ serviceGroups, onVendorSe
             project_id: projectData.id,
             client_id: user.id,
             vendor_id: realVendorUserId,
+            service_group: groupName,
             status: 'pending',
             response_deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
           });
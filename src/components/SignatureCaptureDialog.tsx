@@ -0,0 +1,205 @@
+import { useState, useRef, useEffect, type PointerEvent } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Eraser, PenLine, Type } from 'lucide-react';
+import { SIGNING_CONSENT_TEXT, type SignatureInput, type SignatureMethod } from '@/utils/documentSigning';
+
+interface SignatureCaptureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  defaultName?: string;
+  processing?: boolean;
+  onSign: (input: SignatureInput) => void;
+}
+
+const CANVAS_WIDTH = 460;
+const CANVAS_HEIGHT = 160;
+
+const SignatureCaptureDialog = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  defaultName = '',
+  processing = false,
+  onSign
+}: SignatureCaptureDialogProps) => {
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [signerName, setSignerName] = useState(defaultName);
+  const [typedSignature, setTypedSignature] = useState(defaultName);
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [consented, setConsented] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  useEffect(() => {
+    if (open) {
+      setSignerName(defaultName);
+      setTypedSignature(defaultName);
+      setConsented(false);
+      setHasDrawing(false);
+    }
+  }, [open, defaultName]);
+
+  const pointFor = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = pointFor(event);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasDrawing(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearCanvas = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+  };
+
+  const canSign = consented && signerName.trim().length > 0 &&
+    (method === 'drawn' ? hasDrawing : typedSignature.trim().length > 0);
+
+  const handleSign = () => {
+    if (!canSign) return;
+
+    onSign({
+      method,
+      signature: method === 'drawn' ? canvasRef.current!.toDataURL('image/png') : typedSignature.trim(),
+      signerName: signerName.trim()
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="signerName">Full name</Label>
+            <Input
+              id="signerName"
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              placeholder="Name of the person signing"
+            />
+          </div>
+
+          <Tabs
+            value={method}
+            onValueChange={(value) => {
+              // The canvas is remounted empty when its tab is shown again
+              setMethod(value as SignatureMethod);
+              setHasDrawing(false);
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="drawn">
+                <PenLine className="h-4 w-4 mr-2" />
+                Draw
+              </TabsTrigger>
+              <TabsTrigger value="typed">
+                <Type className="h-4 w-4 mr-2" />
+                Type
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="drawn" className="space-y-2">
+              <canvas
+                ref={canvasRef}
+                width={CANVAS_WIDTH}
+                height={CANVAS_HEIGHT}
+                className="w-full rounded-md border bg-white touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+              />
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">Sign inside the box with your mouse, pen or finger</p>
+                <Button variant="ghost" size="sm" onClick={clearCanvas} disabled={!hasDrawing}>
+                  <Eraser className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+            </TabsContent>
+            <TabsContent value="typed" className="space-y-2">
+              <Input
+                value={typedSignature}
+                onChange={(e) => setTypedSignature(e.target.value)}
+                placeholder="Type your signature"
+              />
+              {typedSignature.trim() && (
+                <div className="rounded-md border bg-white px-4 py-6 text-center font-serif text-3xl italic text-gray-900">
+                  {typedSignature}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="signingConsent"
+              checked={consented}
+              onCheckedChange={(checked) => setConsented(checked as boolean)}
+            />
+            <Label htmlFor="signingConsent" className="text-xs font-normal leading-relaxed cursor-pointer">
+              {SIGNING_CONSENT_TEXT}
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button onClick={handleSign} disabled={!canSign || processing}>
+            {processing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SignatureCaptureDialog;
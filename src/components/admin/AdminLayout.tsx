@@ -10,6 +10,10 @@ import {
   BarChart3, 
   Settings,
   ScrollText,
+  Webhook,
+  Scale,
+  Hash,
+  FileCheck,
   LogOut,
   Shield
 } from 'lucide-react';
@@ -26,6 +30,10 @@ const navItems = [
   { icon: Settings, label: 'Settings', path: '/admin/settings' },
   { icon: BarChart3, label: 'Analytics', path: '/admin/analytics' },
   { icon: ScrollText, label: 'Audit Log', path: '/admin/audit' },
+  { icon: Webhook, label: 'Webhooks', path: '/admin/webhooks' },
+  { icon: Scale, label: 'Reconciliation', path: '/admin/reconciliation' },
+  { icon: Hash, label: 'Numbering', path: '/admin/numbering' },
+  { icon: FileCheck, label: 'VAT Decisions', path: '/admin/vat-decisions' },
 ];
 
 export const AdminLayout = ({ children }: AdminLayoutProps) => {
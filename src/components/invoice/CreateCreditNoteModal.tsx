@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, AlertCircle, FileMinus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { generateInvoiceDocument } from '@/utils/invoiceDocuments';
+
+interface CreditableInvoice {
+  id: string;
+  invoice_number: string;
+  legal_invoice_number: string | null;
+  total_amount: number;
+  credited_amount?: number | null;
+  vendor_id: string;
+  client_id: string;
+}
+
+interface InvoiceItem {
+  id: string;
+  description: string;
+  line_total: number;
+  vat_basis: string | null;
+  vat_rate: number | null;
+  tax_rate_id: string | null;
+}
+
+interface CreateCreditNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice: CreditableInvoice | null;
+  onCreditNoteIssued?: () => void;
+}
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+const CreateCreditNoteModal = ({ isOpen, onClose, invoice, onCreditNoteIssued }: CreateCreditNoteModalProps) => {
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [creditType, setCreditType] = useState<'full' | 'partial'>('full');
+  const [creditAmounts, setCreditAmounts] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+
+  const alreadyCredited = Number(invoice?.credited_amount || 0);
+  const remainingBalance = round2(Number(invoice?.total_amount || 0) - alreadyCredited);
+
+  useEffect(() => {
+    if (isOpen && invoice) {
+      loadItems();
+      setCreditType(alreadyCredited > 0 ? 'partial' : 'full');
+      setReason('');
+    }
+  }, [isOpen, invoice?.id]);
+
+  const loadItems = async () => {
+    if (!invoice) return;
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('invoice_items')
+        .select('id, description, line_total, vat_basis, vat_rate, tax_rate_id')
+        .eq('invoice_id', invoice.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setItems(data || []);
+      setCreditAmounts({});
+    } catch (error: any) {
+      console.error('Error loading invoice items:', error);
+      toast.error(error.message || 'Failed to load invoice items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const creditLines = items
+    .map((item) => {
+      const amount = creditType === 'full' ? Number(item.line_total) : Number(creditAmounts[item.id] || 0);
+      const vatRate = Number(item.vat_rate || 0);
+      return {
+        item,
+        amount: round2(amount),
+        vatRate,
+        vatAmount: round2((amount * vatRate) / 100)
+      };
+    })
+    .filter((line) => line.amount > 0);
+
+  const subtotal = round2(creditLines.reduce((sum, line) => sum + line.amount, 0));
+  const vatAmount = round2(creditLines.reduce((sum, line) => sum + line.vatAmount, 0));
+  const total = round2(subtotal + vatAmount);
+
+  const lineExceedsInvoice = creditLines.some((line) => line.amount > Number(line.item.line_total));
+  const exceedsBalance = total > remainingBalance + 0.01;
+  const canSubmit = !!reason.trim() && creditLines.length > 0 && !lineExceedsInvoice && !exceedsBalance;
+
+  const handleSubmit = async () => {
+    if (!invoice || !canSubmit) return;
+
+    setSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data: creditNote, error: creditNoteError } = await supabase
+        .from('credit_notes')
+        .insert({
+          invoice_id: invoice.id,
+          vendor_id: invoice.vendor_id,
+          client_id: invoice.client_id,
+          original_legal_invoice_number: invoice.legal_invoice_number || invoice.invoice_number,
+          credit_type: creditType,
+          reason: reason.trim(),
+          subtotal_amount: subtotal,
+          vat_amount: vatAmount,
+          total_amount: total,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (creditNoteError) throw creditNoteError;
+
+      const { error: itemsError } = await supabase
+        .from('credit_note_items')
+        .insert(creditLines.map((line) => ({
+          credit_note_id: creditNote.id,
+          invoice_item_id: line.item.id,
+          description: line.item.description,
+          quantity: 1,
+          unit_amount: line.amount,
+          line_total: line.amount,
+          vat_basis: line.item.vat_basis,
+          vat_rate: line.vatRate,
+          vat_amount: line.vatAmount,
+          tax_rate_id: line.item.tax_rate_id
+        })));
+
+      if (itemsError) throw itemsError;
+
+      const { data: issued, error: issueError } = await supabase.functions.invoke('stripe-create-credit-note', {
+        body: { creditNoteId: creditNote.id }
+      });
+
+      if (issueError || issued?.error) {
+        console.error('Credit note issue error:', issueError || issued.error);
+        toast.error('Credit note saved as draft but could not be issued. Retry or void it from the invoice list.');
+      } else {
+        toast.success(`Credit note ${issued.creditNoteNumber} issued`);
+        try {
+          await generateInvoiceDocument({ creditNoteId: creditNote.id });
+        } catch (pdfError) {
+          console.error('Credit note PDF generation failed:', pdfError);
+        }
+      }
+
+      onCreditNoteIssued?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error creating credit note:', error);
+      toast.error(error.message || 'Failed to create credit note');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            Issue Credit Note
+          </DialogTitle>
+          <DialogDescription>
+            Correct invoice {invoice?.legal_invoice_number || invoice?.invoice_number}.
+            The credit note gets its own number and references the original invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <RadioGroup
+              value={creditType}
+              onValueChange={(v) => setCreditType(v as 'full' | 'partial')}
+              className="flex gap-6"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="full" id="credit-full" disabled={alreadyCredited > 0} />
+                <Label htmlFor="credit-full">Full credit</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="partial" id="credit-partial" />
+                <Label htmlFor="credit-partial">Partial credit</Label>
+              </div>
+            </RadioGroup>
+
+            {alreadyCredited > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  €{alreadyCredited.toFixed(2)} has already been credited. Remaining balance: €{remainingBalance.toFixed(2)}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead className="text-right">VAT</TableHead>
+                  <TableHead className="text-right w-[160px]">Credit (net)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">€{Number(item.line_total).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{Number(item.vat_rate || 0)}%</TableCell>
+                    <TableCell className="text-right">
+                      {creditType === 'full' ? (
+                        `€${Number(item.line_total).toFixed(2)}`
+                      ) : (
+                        <Input
+                          type="number"
+                          min="0"
+                          max={item.line_total}
+                          step="0.01"
+                          value={creditAmounts[item.id] ?? ''}
+                          onChange={(e) => setCreditAmounts((prev) => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="bg-muted p-4 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal credited</span>
+                <span>€{subtotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>VAT credited</span>
+                <span>€{vatAmount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-base border-t pt-2">
+                <span>Total credit</span>
+                <span>€{total.toFixed(2)}</span>
+              </div>
+            </div>
+
+            {(lineExceedsInvoice || exceedsBalance) && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {lineExceedsInvoice
+                    ? 'A credited line cannot exceed the invoiced amount for that line.'
+                    : `The credit exceeds the remaining invoice balance of €${remainingBalance.toFixed(2)}.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="credit-reason">Reason for credit *</Label>
+              <Textarea
+                id="credit-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Incorrect VAT rate applied, work not carried out, agreed discount"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Issue Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateCreditNoteModal;
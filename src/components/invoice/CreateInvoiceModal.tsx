@@ -2,11 +2,28 @@ import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, AlertCircle, FileText } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, AlertCircle, FileText, ArrowRight } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import VATWizard from './VATWizard';
-import type { VATResult } from '@/utils/vatCalculator';
+import type {
+  PrimaryResidenceReliefUsage,
+  PrimaryResidenceThresholds,
+  VATResult
+} from '@/utils/vatCalculator';
+import {
+  buildInvoiceLines,
+  buildInvoiceStages,
+  quoteMaterialsPercentage,
+  scaleInvoiceLines,
+  type InvoiceStage
+} from '@/utils/invoiceStages';
+import { createInvoiceWithVatDecision } from '@/utils/vatDecisions';
+import { isPaymentSetupComplete } from '@/utils/paymentProviders';
 
 interface CreateInvoiceModalProps {
   isOpen: boolean;
@@ -22,23 +39,35 @@ const CreateInvoiceModal = ({
   onInvoiceCreated 
 }: CreateInvoiceModalProps) => {
   const [loading, setLoading] = useState(false);
-  const [checkingStripe, setCheckingStripe] = useState(true);
-  const [step, setStep] = useState<'check' | 'vat-wizard' | 'creating'>('check');
+  const [checkingPayments, setCheckingPayments] = useState(true);
+  const [step, setStep] = useState<'check' | 'stage' | 'vat-wizard' | 'creating'>('check');
   const [quoteData, setQuoteData] = useState<any>(null);
-  const [stripeConnectId, setStripeConnectId] = useState<string | null>(null);
-  const [stripeReady, setStripeReady] = useState(false);
+  const [stages, setStages] = useState<InvoiceStage[]>([]);
+  const [selectedStage, setSelectedStage] = useState<InvoiceStage | null>(null);
+  const [billingSummary, setBillingSummary] = useState<{
+    contract: number;
+    invoiced: number;
+    paid: number;
+    outstanding: number;
+  } | null>(null);
+  const [paymentsReady, setPaymentsReady] = useState(false);
+  const [vendorVatId, setVendorVatId] = useState('');
+  const [primaryResidenceRelief, setPrimaryResidenceRelief] = useState<{
+    thresholds?: PrimaryResidenceThresholds;
+    reliefUsed: PrimaryResidenceReliefUsage;
+  } | null>(null);
 
   useEffect(() => {
     if (isOpen) {
-      checkStripeAndLoadQuote();
+      checkPaymentsAndLoadQuote();
     }
   }, [isOpen, quoteRequestId]);
 
-  const checkStripeAndLoadQuote = async () => {
+  const checkPaymentsAndLoadQuote = async () => {
     try {
-      setCheckingStripe(true);
+      setCheckingPayments(true);
 
-      // Get current user and check Stripe status
+      // Get current user and check their payment provider setup
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
@@ -51,13 +80,13 @@ const CreateInvoiceModal = ({
       if (profileError) throw profileError;
 
       const vp: any = vendorProfile || {};
-      setStripeConnectId(vp.stripe_connect_id || null);
-      const isReady = !!(vp.stripe_onboarding_complete && vp.stripe_charges_enabled);
-      setStripeReady(isReady);
+      setVendorVatId(vp.vat_id || '');
+      const isReady = isPaymentSetupComplete(vp);
+      setPaymentsReady(isReady);
 
       if (!isReady) {
         setStep('check');
-        setCheckingStripe(false);
+        setCheckingPayments(false);
         return;
       }
 
@@ -79,7 +108,8 @@ const CreateInvoiceModal = ({
             milestones,
             inclusions,
             exclusions,
-            payment_schedule
+            payment_schedule,
+            retention_percentage
           )
         `)
         .eq('id', quoteRequestId)
@@ -95,19 +125,85 @@ const CreateInvoiceModal = ({
       }
 
       setQuoteData(quoteRequest);
-      setStep('vat-wizard');
+      await Promise.all([
+        loadBillingStages(quoteRequest.quotes[0]),
+        loadPrimaryResidenceRelief(quoteRequest.client_id, quoteRequest.project_id)
+      ]);
+      setStep('stage');
 
     } catch (error: any) {
       console.error('Error loading quote:', error);
       toast.error(error.message || 'Failed to load quote data');
       onClose();
     } finally {
-      setCheckingStripe(false);
+      setCheckingPayments(false);
     }
   };
 
+  const loadBillingStages = async (quote: { id: string; total_amount: number; milestones: unknown; payment_schedule: unknown }) => {
+    const [{ data: activeInvoices, error: invoicesError }, { data: summary, error: summaryError }] = await Promise.all([
+      supabase
+        .from('invoices')
+        .select('stage_type, stage_index')
+        .eq('quote_id', quote.id)
+        .not('status', 'in', '(credited,voided,cancelled)'),
+      supabase
+        .from('quote_billing_summary')
+        .select('*')
+        .eq('quote_id', quote.id)
+        .maybeSingle()
+    ]);
+
+    if (invoicesError) throw invoicesError;
+    if (summaryError) throw summaryError;
+
+    const invoicedAmount = Number(summary?.invoiced_amount || 0);
+    const quoteStages = buildInvoiceStages(quote, activeInvoices || [], invoicedAmount);
+
+    setStages(quoteStages);
+    setSelectedStage(quoteStages.find((stage) => stage.available) || null);
+    setBillingSummary({
+      contract: Number(quote.total_amount) || 0,
+      invoiced: invoicedAmount,
+      paid: Number(summary?.paid_amount || 0),
+      outstanding: Number(summary?.outstanding_amount || 0)
+    });
+  };
+
+  const loadPrimaryResidenceRelief = async (clientId: string, projectId: string) => {
+    const { data, error } = await supabase.rpc('get_primary_residence_relief', {
+      client_id_param: clientId,
+      project_id_param: projectId
+    });
+
+    // The caps are enforced again when the invoice is sent, so fall back to defaults
+    if (error) {
+      console.error('Error loading primary residence relief:', error);
+      return;
+    }
+
+    const relief = (data || {}) as {
+      thresholds?: Record<string, number> | null;
+      reduced_value_used?: number;
+      claimed_for_other_property?: boolean;
+    };
+    const thresholds = relief.thresholds;
+    setPrimaryResidenceRelief({
+      thresholds: thresholds ? {
+        reducedAreaSqm: Number(thresholds.reduced_area_sqm),
+        maxTotalAreaSqm: Number(thresholds.max_total_area_sqm),
+        maxReducedValue: Number(thresholds.max_reduced_value),
+        maxTotalValue: Number(thresholds.max_total_value)
+      } : undefined,
+      reliefUsed: {
+        reducedValueUsed: Number(relief.reduced_value_used || 0),
+        claimedForOtherProperty: !!relief.claimed_for_other_property
+      }
+    });
+  };
+
   const handleVATComplete = async (vatResult: VATResult, additionalData: any) => {
-    if (!quoteData || !stripeConnectId) return;
+    if (!quoteData || !paymentsReady || !selectedStage) return;
 
     setStep('creating');
     setLoading(true);
@@ -119,27 +215,25 @@ const CreateInvoiceModal = ({
       // Get the current quote (most recent version)
       const latestQuote = quoteData.quotes[0];
 
-      // Check if invoice already exists for this quote and delete it
-      const { data: existingInvoice } = await supabase
+      // Issued invoices are never deleted: a stage can only be re-invoiced once its invoice is fully credited
+      let existingQuery = supabase
         .from('invoices')
-        .select('id')
+        .select('id, legal_invoice_number, invoice_number')
         .eq('quote_id', latestQuote.id)
-        .maybeSingle();
+        .eq('stage_type', selectedStage.type)
+        .not('status', 'in', '(credited,voided,cancelled)');
+
+      existingQuery = selectedStage.index === null
+        ? existingQuery.is('stage_index', null)
+        : existingQuery.eq('stage_index', selectedStage.index);
+
+      const { data: existingInvoice } = await existingQuery.maybeSingle();
 
       if (existingInvoice) {
-        // Delete existing invoice items first
-        await supabase
-          .from('invoice_items')
-          .delete()
-          .eq('invoice_id', existingInvoice.id);
-        
-        // Delete existing invoice
-        await supabase
-          .from('invoices')
-          .delete()
-          .eq('id', existingInvoice.id);
-        
-        console.log('Deleted existing invoice to create new one');
+        throw new Error(
+          `Invoice ${existingInvoice.legal_invoice_number || existingInvoice.invoice_number} already exists for ${selectedStage.label}. ` +
+          'Issue a credit note against it before creating a corrected invoice.'
+        );
       }
 
       // Get vendor service fee percentage
@@ -150,11 +244,22 @@ const CreateInvoiceModal = ({
       const serviceFeeAmount = vatResult.total * (serviceFeePercentage / 100);
       const vendorPayoutAmount = vatResult.total - serviceFeeAmount;
 
-      // Create invoice
-      const { data: invoice, error: invoiceError } = await (supabase as any)
-        .from('invoices')
-        .insert([{
-          vendor_id: user.id,
+      // Invoice lines with their per-line VAT
+      const items = (vatResult.lines || []).map((line) => ({
+        description: line.description,
+        quantity: line.quantity,
+        unit_amount: line.unitAmount,
+        line_total: line.lineTotal,
+        is_material: line.isMaterial,
+        vat_basis: line.vatBasis,
+        vat_rate: line.vatRate,
+        vat_amount: line.vatAmount,
+        is_retention: line.isRetention || false
+      }));
+
+      // The draft, its items and the record of how its VAT was decided are created together
+      const invoiceId = await createInvoiceWithVatDecision(
+        {
           client_id: quoteData.client_id,
           quote_id: latestQuote.id,
           quote_version_id: latestQuote.id,
@@ -167,64 +272,48 @@ const CreateInvoiceModal = ({
           service_fee_amount: serviceFeeAmount,
           vendor_payout_amount: vendorPayoutAmount,
           currency: 'EUR',
-          status: 'draft',
+          stage_type: selectedStage.type,
+          stage_index: selectedStage.index,
+          stage_label: selectedStage.label,
+          stage_percentage: selectedStage.percentage,
+          retention_percentage: vatResult.retentionPercentage || 0,
+          retention_amount: vatResult.retentionAmount || 0,
           reverse_charge_note: vatResult.reverseChargeNote || null,
           place_of_supply: additionalData.place_of_supply,
           property_location: additionalData.property_location,
           dwelling_age_years: additionalData.dwelling_age_years,
           materials_percentage: additionalData.materials_percentage,
-          property_area_sqm: additionalData.property_area_sqm
-        }])
-        .select()
-        .single();
+          property_area_sqm: additionalData.property_area_sqm,
+          property_value: additionalData.property_value,
+          primary_residence_evidence: vatResult.primaryResidenceEvidence || null,
+          customer_vat_id: additionalData.customer_vat_id
+        },
+        items,
+        additionalData.vat_decision
+      );
 
-      if (invoiceError) throw invoiceError;
-
-      console.log('Invoice created:', invoice.id);
-
-      // Create invoice items from quote breakdown
-      const costBreakdown = latestQuote.cost_breakdown as any[] || [];
-      if (costBreakdown.length > 0) {
-        const items = costBreakdown.map((item: any) => ({
-          invoice_id: invoice.id,
-          description: item.description || item.item || 'Service',
-          quantity: 1,
-          unit_amount: item.amount || 0,
-          line_total: item.amount || 0,
-          is_material: item.type === 'material' || false
-        }));
-
-        const { error: itemsError } = await (supabase as any)
-          .from('invoice_items')
-          .insert(items as any[]);
-
-        if (itemsError) {
-          console.error('Error creating invoice items:', itemsError);
-          // Don't throw - invoice is created, items are optional
-        }
-      }
+      console.log('Invoice created:', invoiceId);
 
-      // Create Stripe invoice
-      const { data: stripeData, error: stripeError } = await supabase.functions.invoke(
+      // Issue the invoice with the vendor's payment provider
+      const { data: providerData, error: providerError } = await supabase.functions.invoke(
         'stripe-create-invoice',
         {
           body: {
-            invoiceId: invoice.id,
-            stripeConnectAccountId: stripeConnectId
+            invoiceId
           }
         }
       );
 
-      if (stripeError) {
-        console.error('Stripe invoice error:', stripeError);
-        toast.error('Invoice created but Stripe sync failed. You can retry from the invoice page.');
+      if (providerError || providerData?.error) {
+        console.error('Payment provider invoice error:', providerError || providerData.error);
+        toast.error('Invoice created but issuing it with your payment provider failed. You can retry from the invoice page.');
       } else {
-        console.log('Stripe invoice created:', stripeData);
+        console.log('Payment provider invoice created:', providerData);
         
         // Send email notification to client
         try {
           await supabase.functions.invoke('send-invoice-email', {
-            body: { invoiceId: invoice.id }
+            body: { invoiceId }
           });
           console.log('Invoice email sent to client');
         } catch (emailError) {
@@ -244,6 +333,7 @@ const CreateInvoiceModal = ({
     } catch (error: any) {
       console.error('Error creating invoice:', error);
       toast.error(error.message || 'Failed to create invoice');
+      setStep('stage');
     } finally {
       setLoading(false);
     }
@@ -259,20 +349,20 @@ const CreateInvoiceModal = ({
           </DialogTitle>
         </DialogHeader>
 
-        {checkingStripe && (
+        {checkingPayments && (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
           </div>
         )}
 
-        {!checkingStripe && step === 'check' && !stripeReady && (
+        {!checkingPayments && step === 'check' && !paymentsReady && (
           <div className="space-y-4">
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                <strong>Stripe Connect Required</strong>
+                <strong>Payment Setup Required</strong>
                 <p className="mt-2">
-                  You need to complete Stripe onboarding before creating invoices.
+                  You need to finish setting up Stripe or JCC payments before creating invoices.
                   Please visit your Business Information page to set up payment collection.
                 </p>
               </AlertDescription>
@@ -289,10 +379,108 @@ const CreateInvoiceModal = ({
           </div>
         )}
 
-        {!checkingStripe && step === 'vat-wizard' && quoteData && (
+        {!checkingPayments && step === 'stage' && quoteData && (
+          <div className="space-y-6">
+            {billingSummary && (
+              <div className="bg-muted p-4 rounded-lg space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Contract billing</span>
+                  <span>
+                    €{billingSummary.invoiced.toFixed(2)} of €{billingSummary.contract.toFixed(2)} invoiced
+                  </span>
+                </div>
+                <Progress
+                  value={billingSummary.contract > 0 ? (billingSummary.invoiced / billingSummary.contract) * 100 : 0}
+                />
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Paid</p>
+                    <p className="font-medium">€{billingSummary.paid.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Outstanding</p>
+                    <p className="font-medium">€{billingSummary.outstanding.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Not yet invoiced</p>
+                    <p className="font-medium">
+                      €{Math.max(0, billingSummary.contract - billingSummary.invoiced).toFixed(2)}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Select the stage to invoice</h4>
+              <RadioGroup
+                value={selectedStage ? `${selectedStage.type}-${selectedStage.index ?? ''}` : ''}
+                onValueChange={(value) =>
+                  setSelectedStage(stages.find((stage) => `${stage.type}-${stage.index ?? ''}` === value) || null)
+                }
+              >
+                {stages.map((stage) => {
+                  const key = `${stage.type}-${stage.index ?? ''}`;
+                  return (
+                    <div key={key} className="flex items-center space-x-3 p-3 border rounded-lg">
+                      <RadioGroupItem value={key} id={key} disabled={!stage.available} />
+                      <Label htmlFor={key} className="flex-1 flex justify-between cursor-pointer">
+                        <span>{stage.label}</span>
+                        <span className="flex items-center gap-2">
+                          €{stage.amount.toFixed(2)}
+                          {stage.invoiced && <Badge variant="secondary">Invoiced</Badge>}
+                        </span>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+
+            {Number(quoteData.quotes[0].retention_percentage) > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {Number(quoteData.quotes[0].retention_percentage)}% retention is held back from each stage and
+                  invoiced separately once the defects liability period ends or the client signs off.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!stages.some((stage) => stage.available) && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This quote has been fully invoiced. Issue a credit note to correct an existing invoice.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep('vat-wizard')} disabled={!selectedStage?.available}>
+                Next <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!checkingPayments && step === 'vat-wizard' && quoteData && selectedStage && (
           <VATWizard
-            amount={quoteData.quotes[0]?.total_amount || 0}
+            amount={selectedStage.amount}
+            lines={scaleInvoiceLines(
+              buildInvoiceLines(quoteData.quotes[0]),
+              selectedStage.amount,
+              selectedStage.type === 'full' ? undefined : selectedStage.label
+            )}
             propertyLocation={quoteData.projects?.location || ''}
+            retentionPercentage={Number(quoteData.quotes[0].retention_percentage) || 0}
+            materialsPercentage={quoteMaterialsPercentage(quoteData.quotes[0])}
+            supplierVatId={vendorVatId}
+            primaryResidenceThresholds={primaryResidenceRelief?.thresholds}
+            primaryResidenceReliefUsed={primaryResidenceRelief?.reliefUsed}
             onComplete={handleVATComplete}
             onCancel={onClose}
           />
@@ -303,7 +491,7 @@ const CreateInvoiceModal = ({
             <Loader2 className="h-12 w-12 animate-spin text-primary" />
             <p className="text-lg font-medium">Creating your invoice...</p>
             <p className="text-sm text-muted-foreground">
-              Calculating VAT and syncing with Stripe
+              Calculating VAT and issuing with your payment provider
             </p>
           </div>
         )}
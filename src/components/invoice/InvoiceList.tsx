@@ -3,11 +3,38 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Download, FileText, ExternalLink, Loader2 } from "lucide-react";
+import {
+  Download,
+  FileText,
+  FileCode,
+  ExternalLink,
+  Loader2,
+  FileMinus,
+  BellOff,
+  BellRing,
+  PenLine,
+  Send,
+  Landmark,
+  Paperclip,
+  RefreshCw,
+  Scale
+} from "lucide-react";
+import CreateCreditNoteModal from "./CreateCreditNoteModal";
+import RetentionList from "./RetentionList";
+import RecordPaymentModal from "./RecordPaymentModal";
+import VatDecisionModal from "./VatDecisionModal";
+import { PAYMENT_METHOD_LABELS, outstandingBalance } from "@/utils/invoicePayments";
+import SignatureCaptureDialog from "@/components/SignatureCaptureDialog";
+import {
+  generateInvoiceDocument,
+  openInvoiceDocument,
+  exportEInvoice,
+  downloadEInvoice,
+  type InvoiceDocumentTarget
+} from "@/utils/invoiceDocuments";
+import { signDocument, type SignatureInput } from "@/utils/documentSigning";
+import { isPaymentSetupComplete } from "@/utils/paymentProviders";
 
 interface Invoice {
   id: string;
@@ -16,16 +43,51 @@ interface Invoice {
   total_amount: number;
   vat_amount: number;
   subtotal_amount: number;
+  credited_amount: number | null;
+  amount_paid: number;
+  stage_label: string | null;
+  retention_percentage: number;
+  retention_amount: number;
   status: string;
   vendor_signed_at: string | null;
   client_signed_at: string | null;
   stripe_pdf_url: string | null;
-  stripe_hosted_invoice_url: string | null;
+  payment_url: string | null;
+  due_date: string | null;
+  dunning_paused: boolean;
+  reminder_count: number;
+  last_reminder_at: string | null;
   created_at: string;
   vendor_id: string;
   client_id: string;
 }
 
+interface CreditNote {
+  id: string;
+  invoice_id: string;
+  credit_note_number: string | null;
+  original_legal_invoice_number: string;
+  credit_type: string;
+  reason: string;
+  status: string;
+  total_amount: number;
+  issued_at: string | null;
+  created_at: string;
+  stripe_pdf_url: string | null;
+}
+
+interface OfflinePayment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  paid_on: string;
+  method: string;
+  reference: string | null;
+  proof_path: string | null;
+  stripe_synced_at: string | null;
+  stripe_sync_error: string | null;
+}
+
 interface InvoiceListProps {
   userRole: 'vendor' | 'client';
   userId: string;
@@ -33,11 +95,18 @@ interface InvoiceListProps {
 
 export function InvoiceList({ userRole, userId }: InvoiceListProps) {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [creditNoteInvoice, setCreditNoteInvoice] = useState<Invoice | null>(null);
+  const [payments, setPayments] = useState<OfflinePayment[]>([]);
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [vatDecisionInvoice, setVatDecisionInvoice] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState(true);
   const [signatureModal, setSignatureModal] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
-  const [signature, setSignature] = useState("");
+  const [signerName, setSignerName] = useState("");
   const [processing, setProcessing] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -74,6 +143,36 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
       
       console.log('Fetched invoices:', data);
       setInvoices(data || []);
+
+      const creditNotesQuery = supabase
+        .from('credit_notes')
+        .select('id, invoice_id, credit_note_number, original_legal_invoice_number, credit_type, reason, status, total_amount, issued_at, created_at, stripe_pdf_url')
+        .order('created_at', { ascending: true });
+
+      if (userRole === 'vendor') {
+        creditNotesQuery.eq('vendor_id', userId);
+      } else {
+        creditNotesQuery.eq('client_id', userId);
+      }
+
+      const { data: creditNoteData, error: creditNoteError } = await creditNotesQuery;
+      if (creditNoteError) throw creditNoteError;
+      setCreditNotes(creditNoteData || []);
+
+      const paymentsQuery = supabase
+        .from('invoice_payments')
+        .select('id, invoice_id, amount, paid_on, method, reference, proof_path, stripe_synced_at, stripe_sync_error')
+        .order('paid_on', { ascending: true });
+
+      if (userRole === 'vendor') {
+        paymentsQuery.eq('vendor_id', userId);
+      } else {
+        paymentsQuery.eq('client_id', userId);
+      }
+
+      const { data: paymentData, error: paymentError } = await paymentsQuery;
+      if (paymentError) throw paymentError;
+      setPayments(paymentData || []);
     } catch (error: any) {
       console.error('fetchInvoices error:', error);
       toast({
@@ -90,8 +189,16 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
     const statusMap: Record<string, { variant: "default" | "secondary" | "destructive" | "outline", label: string }> = {
       draft: { variant: "outline", label: "Draft" },
       sent: { variant: "default", label: "Sent" },
+      overdue: { variant: "destructive", label: "Overdue" },
+      payment_failed: { variant: "destructive", label: "Payment Failed" },
       paid: { variant: "secondary", label: "Paid" },
+      partially_paid: { variant: "default", label: "Partially Paid" },
       cancelled: { variant: "destructive", label: "Cancelled" },
+      credited: { variant: "outline", label: "Credited" },
+      partially_refunded: { variant: "outline", label: "Partially Refunded" },
+      refunded: { variant: "outline", label: "Refunded" },
+      disputed: { variant: "destructive", label: "Disputed" },
+      dispute_lost: { variant: "destructive", label: "Dispute Lost" },
     };
     const config = statusMap[status] || { variant: "outline", label: status };
     return <Badge variant={config.variant}>{config.label}</Badge>;
@@ -106,96 +213,303 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
         .eq('user_id', userId)
         .single();
 
-      setSignature(vendorProfile?.business_name || '');
+      setSignerName(vendorProfile?.business_name || '');
+    } else {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      setSignerName(profile?.full_name || '');
     }
     setSelectedInvoice(invoice);
     setSignatureModal(true);
   };
 
-  const processSignature = async () => {
-    if (!selectedInvoice || !signature.trim()) {
+  // Issue a vendor-signed draft with the vendor's payment provider, store the PDF and email the client
+  const sendInvoice = async (invoice: Invoice) => {
+    const { data: vendorProfile } = await supabase
+      .from('vendor_profiles')
+      .select('payment_provider, stripe_onboarding_complete, stripe_charges_enabled, jcc_merchant_login')
+      .eq('user_id', userId)
+      .single();
+
+    if (!vendorProfile || !isPaymentSetupComplete(vendorProfile)) {
       toast({
-        title: "Error",
-        description: "Please enter your signature",
+        title: "Payment Setup Required",
+        description: "Please finish setting up Stripe or JCC payments on your Business Information page first",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
+    const { data: providerData, error: providerError } = await supabase.functions.invoke(
+      'stripe-create-invoice',
+      {
+        body: {
+          invoiceId: invoice.id,
+        },
+      }
+    );
+
+    if (providerError) throw providerError;
+    if (providerData?.error) throw new Error(providerData.error);
+
+    // Store the issued invoice document; the client can still render it on demand if this fails
+    try {
+      await generateInvoiceDocument({ invoiceId: invoice.id });
+    } catch (pdfError) {
+      console.error('Invoice PDF generation failed:', pdfError);
+    }
+
+    // Send email to client
+    await supabase.functions.invoke('send-invoice-email', {
+      body: { invoiceId: invoice.id },
+    });
+
+    return true;
+  };
+
+  const processSignature = async (input: SignatureInput) => {
+    if (!selectedInvoice) return;
+
     try {
       setProcessing(true);
 
+      await signDocument('invoice', selectedInvoice.id, input);
+      setSignatureModal(false);
+
       if (userRole === 'vendor') {
-        // Vendor signing - update invoice and create Stripe invoice
-        const { error: updateError } = await supabase
-          .from('invoices')
-          .update({
-            vendor_signed_at: new Date().toISOString(),
-            vendor_signature_url: signature,
-          })
-          .eq('id', selectedInvoice.id);
-
-        if (updateError) throw updateError;
-
-        // Get vendor's Stripe Connect ID
-        const { data: vendorProfile } = await supabase
-          .from('vendor_profiles')
-          .select('stripe_connect_id')
-          .eq('user_id', userId)
-          .single();
-
-        if (!vendorProfile?.stripe_connect_id) {
+        const sent = await sendInvoice(selectedInvoice);
+        if (sent) {
           toast({
-            title: "Stripe Setup Required",
-            description: "Please complete Stripe Connect onboarding first",
-            variant: "destructive",
+            title: "Success",
+            description: "Invoice signed and sent to client",
           });
-          setProcessing(false);
-          return;
         }
-
-        // Create Stripe invoice
-        const { data: stripeData, error: stripeError } = await supabase.functions.invoke(
-          'stripe-create-invoice',
-          {
-            body: {
-              invoiceId: selectedInvoice.id,
-              stripeConnectAccountId: vendorProfile.stripe_connect_id,
-            },
-          }
-        );
-
-        if (stripeError) throw stripeError;
-
-        // Send email to client
-        await supabase.functions.invoke('send-invoice-email', {
-          body: { invoiceId: selectedInvoice.id },
+      } else {
+        toast({
+          title: "Success",
+          description: "Invoice signed",
         });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+      fetchInvoices();
+    }
+  };
 
+  const handleSendSigned = async (invoice: Invoice) => {
+    try {
+      setProcessing(true);
+      const sent = await sendInvoice(invoice);
+      if (sent) {
         toast({
           title: "Success",
-          description: "Invoice signed and sent to client",
+          description: "Invoice sent to client",
         });
-      } else {
-        // Client signing (acknowledgment only)
-        const { error: updateError } = await supabase
-          .from('invoices')
-          .update({
-            client_signed_at: new Date().toISOString(),
-            client_signature_url: signature,
-          })
-          .eq('id', selectedInvoice.id);
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+      fetchInvoices();
+    }
+  };
 
-        if (updateError) throw updateError;
+  const handleDownloadPdf = async (id: string, target: InvoiceDocumentTarget) => {
+    try {
+      setDownloadingId(id);
+      await openInvoiceDocument(target);
+    } catch (error: any) {
+      console.error('PDF error:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
 
+  const handleExportEInvoice = async (id: string, target: InvoiceDocumentTarget) => {
+    try {
+      setExportingId(id);
+      const result = await exportEInvoice(target);
+
+      if ('violations' in result) {
         toast({
-          title: "Success",
-          description: "Invoice acknowledged",
+          title: "E-invoice failed validation",
+          description: (
+            <ul className="list-disc pl-4 space-y-1">
+              {result.violations.map((violation, index) => (
+                <li key={index}>{violation.rule}: {violation.message}</li>
+              ))}
+            </ul>
+          ),
+          variant: "destructive",
         });
+        return;
       }
 
-      setSignatureModal(false);
-      setSignature("");
+      downloadEInvoice(result.xml, result.filename);
+    } catch (error: any) {
+      console.error('E-invoice error:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export e-invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const isAwaitingPayment = (invoice: Invoice) =>
+    ['sent', 'payment_failed', 'overdue'].includes(invoice.status);
+
+  // Card payment through Stripe settles the full amount, so only offline payments can be partial
+  const hasOutstandingBalance = (invoice: Invoice) =>
+    isAwaitingPayment(invoice) || invoice.status === 'partially_paid';
+
+  const canRecordPayment = (invoice: Invoice) =>
+    (hasOutstandingBalance(invoice) || invoice.status === 'uncollectible') && outstandingBalance(invoice) > 0;
+
+  const handleViewProof = async (payment: OfflinePayment) => {
+    if (!payment.proof_path) return;
+
+    const { data, error } = await supabase.storage
+      .from('payment-proofs')
+      .createSignedUrl(payment.proof_path, 300);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(data.signedUrl, '_blank');
+  };
+
+  const handleRetryPaymentSync = async (payment: OfflinePayment) => {
+    try {
+      setProcessing(true);
+      const { data, error } = await supabase.functions.invoke('record-offline-payment', {
+        body: { invoiceId: payment.invoice_id, retryPaymentId: payment.id }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      if (data.syncError) throw new Error(data.syncError);
+
+      toast({
+        title: "Synced to payment provider",
+        description: "The payment provider invoice now reflects this payment",
+      });
+      fetchInvoices();
+    } catch (error: any) {
+      toast({
+        title: "Payment provider sync failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRetryCreditNote = async (note: CreditNote) => {
+    try {
+      setProcessing(true);
+      const { data, error } = await supabase.functions.invoke('stripe-create-credit-note', {
+        body: { creditNoteId: note.id }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({
+        title: "Credit note issued",
+        description: `Credit note ${data.creditNoteNumber} has been issued`,
+      });
+
+      try {
+        await generateInvoiceDocument({ creditNoteId: note.id });
+      } catch (pdfError) {
+        console.error('Credit note PDF generation failed:', pdfError);
+      }
+
+      fetchInvoices();
+    } catch (error: any) {
+      toast({
+        title: "Credit note could not be issued",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleVoidCreditNote = async (note: CreditNote) => {
+    try {
+      setProcessing(true);
+      const { error } = await supabase.rpc('void_draft_credit_note', {
+        credit_note_id_param: note.id
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Credit note voided",
+        description: note.credit_note_number
+          ? `${note.credit_note_number} stays in your credit note series as voided`
+          : "The draft credit note has been voided",
+      });
+      fetchInvoices();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleToggleDunning = async (invoice: Invoice) => {
+    try {
+      setProcessing(true);
+      const { error } = await supabase.rpc('set_invoice_dunning_paused', {
+        invoice_id_param: invoice.id,
+        paused_param: !invoice.dunning_paused
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: invoice.dunning_paused ? "Reminders resumed" : "Reminders paused",
+        description: invoice.dunning_paused
+          ? "The client will receive overdue reminders for this invoice again"
+          : "No overdue reminders will be sent for this invoice until you resume them",
+      });
+
       fetchInvoices();
     } catch (error: any) {
       toast({
@@ -208,37 +522,41 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
     }
   };
 
+  const canIssueCreditNote = (invoice: Invoice) =>
+    !['draft', 'credited', 'voided', 'cancelled'].includes(invoice.status) &&
+    Number(invoice.credited_amount || 0) < Number(invoice.total_amount);
+
   const handlePayNow = async (invoice: Invoice) => {
     try {
       console.log('handlePayNow called for invoice:', invoice.id);
       
-      // If we already have the hosted URL, use it
-      if (invoice.stripe_hosted_invoice_url) {
-        console.log('Opening Stripe URL:', invoice.stripe_hosted_invoice_url);
-        window.open(invoice.stripe_hosted_invoice_url, '_blank');
+      // If we already have the payment link, use it
+      if (invoice.payment_url) {
+        console.log('Opening payment URL:', invoice.payment_url);
+        window.open(invoice.payment_url, '_blank');
         toast({
           title: "Opening payment page",
-          description: "You will be redirected to Stripe to complete your payment",
+          description: "You will be redirected to the payment page to complete your payment",
         });
         return;
       }
 
-      console.log('No hosted URL found, fetching from database...');
+      console.log('No payment URL found, fetching from database...');
 
       // Otherwise fetch it from the database
       const { data: invoiceData, error } = await supabase
         .from('invoices')
-        .select('stripe_hosted_invoice_url')
+        .select('payment_url')
         .eq('id', invoice.id)
         .single();
 
       if (error) throw error;
 
-      if (invoiceData?.stripe_hosted_invoice_url) {
-        window.open(invoiceData.stripe_hosted_invoice_url, '_blank');
+      if (invoiceData?.payment_url) {
+        window.open(invoiceData.payment_url, '_blank');
         toast({
           title: "Opening payment page",
-          description: "You will be redirected to Stripe to complete your payment",
+          description: "You will be redirected to the payment page to complete your payment",
         });
       } else {
         toast({
@@ -296,7 +614,16 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
                       </h3>
                       <p className="text-sm text-muted-foreground">
                         {new Date(invoice.created_at).toLocaleDateString()}
+                        {invoice.stage_label && ` · ${invoice.stage_label}`}
+                        {invoice.due_date && ` · Due ${new Date(invoice.due_date).toLocaleDateString()}`}
                       </p>
+                      {invoice.reminder_count > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {invoice.reminder_count} {invoice.reminder_count === 1 ? 'reminder' : 'reminders'} sent
+                          {invoice.last_reminder_at && `, last on ${new Date(invoice.last_reminder_at).toLocaleDateString()}`}
+                          {invoice.dunning_paused && ' · Reminders paused'}
+                        </p>
+                      )}
                     </div>
                     {getStatusBadge(invoice.status)}
                   </div>
@@ -322,16 +649,164 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
                     </div>
                   </div>
 
+                  {Number(invoice.retention_amount) > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Retention held ({invoice.retention_percentage}%): €{Number(invoice.retention_amount).toFixed(2)} net,
+                      invoiced when the defects liability period ends
+                    </p>
+                  )}
+
+                  {payments.some((payment) => payment.invoice_id === invoice.id) && (
+                    <div className="border-t pt-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">Payments Received</p>
+                        <p className="text-sm text-muted-foreground">
+                          €{Number(invoice.amount_paid).toFixed(2)} paid · €{outstandingBalance(invoice).toFixed(2)} outstanding
+                        </p>
+                      </div>
+                      {payments
+                        .filter((payment) => payment.invoice_id === invoice.id)
+                        .map((payment) => (
+                          <div key={payment.id} className="flex items-center justify-between text-sm">
+                            <div>
+                              <span className="font-medium">{new Date(payment.paid_on).toLocaleDateString()}</span>
+                              <span className="text-muted-foreground">
+                                {' '}· {PAYMENT_METHOD_LABELS[payment.method] || payment.method}
+                                {payment.reference && ` · ${payment.reference}`}
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">€{Number(payment.amount).toFixed(2)}</span>
+                              {userRole === 'vendor' && payment.stripe_sync_error && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title={payment.stripe_sync_error}
+                                  onClick={() => handleRetryPaymentSync(payment)}
+                                  disabled={processing}
+                                >
+                                  <RefreshCw className="h-4 w-4 mr-1" />
+                                  Retry provider sync
+                                </Button>
+                              )}
+                              {payment.proof_path && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="View proof of payment"
+                                  onClick={() => handleViewProof(payment)}
+                                >
+                                  <Paperclip className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+
+                  {creditNotes.some((note) => note.invoice_id === invoice.id) && (
+                    <div className="border-t pt-3 space-y-2">
+                      <p className="text-sm font-medium">Credit Notes</p>
+                      {creditNotes
+                        .filter((note) => note.invoice_id === invoice.id)
+                        .map((note) => (
+                          <div key={note.id} className="flex items-center justify-between text-sm">
+                            <div>
+                              <span className="font-medium">{note.credit_note_number || 'Draft credit note'}</span>
+                              <span className="text-muted-foreground">
+                                {' '}({note.credit_type} credit of {note.original_legal_invoice_number}) · {note.reason}
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">-€{Number(note.total_amount).toFixed(2)}</span>
+                              {getStatusBadge(note.status)}
+                              {note.status === 'issued' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDownloadPdf(note.id, { creditNoteId: note.id })}
+                                  disabled={downloadingId === note.id}
+                                >
+                                  {downloadingId === note.id
+                                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                                    : <Download className="h-4 w-4" />}
+                                </Button>
+                              )}
+                              {note.status === 'issued' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Download e-invoice (UBL)"
+                                  onClick={() => handleExportEInvoice(note.id, { creditNoteId: note.id })}
+                                  disabled={exportingId === note.id}
+                                >
+                                  {exportingId === note.id
+                                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                                    : <FileCode className="h-4 w-4" />}
+                                </Button>
+                              )}
+                              {userRole === 'vendor' && note.status === 'draft' && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Retry issuing this credit note"
+                                    onClick={() => handleRetryCreditNote(note)}
+                                    disabled={processing}
+                                  >
+                                    <RefreshCw className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleVoidCreditNote(note)}
+                                    disabled={processing}
+                                  >
+                                    Void
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+
                   <div className="flex flex-wrap gap-2">
                     {/* Download PDF Button */}
-                    {invoice.stripe_pdf_url && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownloadPdf(invoice.id, { invoiceId: invoice.id })}
+                      disabled={downloadingId === invoice.id}
+                    >
+                      {downloadingId === invoice.id
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <Download className="h-4 w-4 mr-2" />}
+                      {invoice.status === 'draft' ? 'Preview PDF' : 'Download PDF'}
+                    </Button>
+                    {invoice.legal_invoice_number && invoice.status !== 'draft' && (
                       <Button
                         variant="outline"
                         size="sm"
+                        onClick={() => handleExportEInvoice(invoice.id, { invoiceId: invoice.id })}
+                        disabled={exportingId === invoice.id}
+                      >
+                        {exportingId === invoice.id
+                          ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          : <FileCode className="h-4 w-4 mr-2" />}
+                        E-Invoice (UBL)
+                      </Button>
+                    )}
+                    {invoice.stripe_pdf_url && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
                         onClick={() => window.open(invoice.stripe_pdf_url!, '_blank')}
                       >
-                        <Download className="h-4 w-4 mr-2" />
-                        Download PDF
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Stripe Copy
                       </Button>
                     )}
 
@@ -344,21 +819,78 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
                             onClick={() => handleSignInvoice(invoice)}
                             disabled={processing}
                           >
+                            <PenLine className="h-4 w-4 mr-2" />
                             Sign & Send Invoice
                           </Button>
                         )}
+                        {invoice.vendor_signed_at && invoice.status === 'draft' && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleSendSigned(invoice)}
+                            disabled={processing}
+                          >
+                            <Send className="h-4 w-4 mr-2" />
+                            Send Invoice
+                          </Button>
+                        )}
                         {invoice.vendor_signed_at && (
                           <Badge variant="secondary">
                             Signed on {new Date(invoice.vendor_signed_at).toLocaleDateString()}
                           </Badge>
                         )}
+                        {invoice.client_signed_at && (
+                          <Badge variant="secondary">
+                            Client signed on {new Date(invoice.client_signed_at).toLocaleDateString()}
+                          </Badge>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setVatDecisionInvoice(invoice)}
+                        >
+                          <Scale className="h-4 w-4 mr-2" />
+                          VAT Record
+                        </Button>
+                        {canRecordPayment(invoice) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPaymentInvoice(invoice)}
+                          >
+                            <Landmark className="h-4 w-4 mr-2" />
+                            Record Payment
+                          </Button>
+                        )}
+                        {hasOutstandingBalance(invoice) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleToggleDunning(invoice)}
+                            disabled={processing}
+                          >
+                            {invoice.dunning_paused
+                              ? <BellRing className="h-4 w-4 mr-2" />
+                              : <BellOff className="h-4 w-4 mr-2" />}
+                            {invoice.dunning_paused ? 'Resume Reminders' : 'Pause Reminders'}
+                          </Button>
+                        )}
+                        {canIssueCreditNote(invoice) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCreditNoteInvoice(invoice)}
+                          >
+                            <FileMinus className="h-4 w-4 mr-2" />
+                            Issue Credit Note
+                          </Button>
+                        )}
                       </>
                     )}
 
                     {/* Client Actions */}
                     {userRole === 'client' && (
                       <>
-                        {invoice.status === 'sent' && (
+                        {isAwaitingPayment(invoice) && (
                           <Button
                             size="sm"
                             onClick={(e) => {
@@ -372,11 +904,32 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
                             Pay Now
                           </Button>
                         )}
+                        {invoice.status === 'partially_paid' && (
+                          <p className="text-sm text-muted-foreground self-center">
+                            €{outstandingBalance(invoice).toFixed(2)} outstanding. Please pay the balance by bank transfer
+                          </p>
+                        )}
                         {invoice.status === 'paid' && (
                           <Badge variant="secondary">
                             Paid
                           </Badge>
                         )}
+                        {!invoice.client_signed_at && !['draft', 'voided', 'cancelled'].includes(invoice.status) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleSignInvoice(invoice)}
+                            disabled={processing}
+                          >
+                            <PenLine className="h-4 w-4 mr-2" />
+                            Sign Invoice
+                          </Button>
+                        )}
+                        {invoice.client_signed_at && (
+                          <Badge variant="secondary">
+                            Signed on {new Date(invoice.client_signed_at).toLocaleDateString()}
+                          </Badge>
+                        )}
                       </>
                     )}
                   </div>
@@ -387,47 +940,45 @@ export function InvoiceList({ userRole, userId }: InvoiceListProps) {
         </CardContent>
       </Card>
 
+      <div className="mt-6">
+        <RetentionList userRole={userRole} userId={userId} onReleaseInvoiceCreated={fetchInvoices} />
+      </div>
+
+      <RecordPaymentModal
+        isOpen={!!paymentInvoice}
+        onClose={() => setPaymentInvoice(null)}
+        invoice={paymentInvoice}
+        onPaymentRecorded={fetchInvoices}
+      />
+
+      <VatDecisionModal
+        isOpen={!!vatDecisionInvoice}
+        onClose={() => setVatDecisionInvoice(null)}
+        invoiceId={vatDecisionInvoice?.id || null}
+        invoiceNumber={vatDecisionInvoice?.legal_invoice_number || vatDecisionInvoice?.invoice_number}
+        mode="vendor"
+      />
+
+      <CreateCreditNoteModal
+        isOpen={!!creditNoteInvoice}
+        onClose={() => setCreditNoteInvoice(null)}
+        invoice={creditNoteInvoice}
+        onCreditNoteIssued={fetchInvoices}
+      />
+
       {/* Signature Modal */}
-      <Dialog open={signatureModal} onOpenChange={setSignatureModal}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>
-              {userRole === 'vendor' ? 'Sign Invoice' : 'Acknowledge Invoice'}
-            </DialogTitle>
-            <DialogDescription>
-              {userRole === 'vendor'
-                ? 'Sign this invoice to create the Stripe invoice and send it to the client'
-                : 'Acknowledge receipt of this invoice'}
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="signature">
-                {userRole === 'vendor' ? 'Business Name' : 'Your Name'}
-              </Label>
-              <Input
-                id="signature"
-                value={signature}
-                onChange={(e) => setSignature(e.target.value)}
-                placeholder={userRole === 'vendor' ? 'Enter your business name' : 'Enter your name'}
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setSignatureModal(false)}
-              disabled={processing}
-            >
-              Cancel
-            </Button>
-            <Button onClick={processSignature} disabled={processing}>
-              {processing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-              {userRole === 'vendor' ? 'Sign & Send' : 'Acknowledge'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <SignatureCaptureDialog
+        open={signatureModal}
+        onOpenChange={setSignatureModal}
+        title="Sign Invoice"
+        description={userRole === 'vendor'
+          ? 'Sign this invoice to create the Stripe invoice and send it to the client'
+          : 'Sign to confirm you have received and agree with this invoice'}
+        confirmLabel={userRole === 'vendor' ? 'Sign & Send' : 'Sign'}
+        defaultName={signerName}
+        processing={processing}
+        onSign={processSignature}
+      />
     </>
   );
 }
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { PAYMENT_PROVIDER_LABELS, type PaymentProviderName } from '@/utils/paymentProviders';
+
+interface PaymentProviderSettingsProps {
+  onSaved?: () => void;
+}
+
+const PaymentProviderSettings = ({ onSaved }: PaymentProviderSettingsProps) => {
+  const { user } = useAuth();
+  const [provider, setProvider] = useState<PaymentProviderName>('stripe');
+  const [merchantLogin, setMerchantLogin] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [user]);
+
+  const fetchSettings = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('vendor_profiles')
+        .select('payment_provider, jcc_merchant_login')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setProvider((data.payment_provider as PaymentProviderName) || 'stripe');
+        setMerchantLogin(data.jcc_merchant_login || '');
+      }
+    } catch (error: any) {
+      console.error('Error loading payment provider:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (provider === 'jcc' && !merchantLogin.trim()) {
+      toast.error('Enter the merchant login JCC issued to you');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('vendor_profiles')
+        .update({
+          payment_provider: provider,
+          jcc_merchant_login: merchantLogin.trim() || null
+        })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      toast.success(`New invoices will be issued through ${PAYMENT_PROVIDER_LABELS[provider]}`);
+      onSaved?.();
+    } catch (error: any) {
+      console.error('Error saving payment provider:', error);
+      toast.error('Failed to save payment provider');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment Provider</CardTitle>
+        <CardDescription>
+          Choose how clients pay your invoices. Invoices already issued keep the provider they were issued with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Provider</Label>
+          <Select value={provider} onValueChange={(v) => setProvider(v as PaymentProviderName)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PAYMENT_PROVIDER_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {provider === 'jcc' && (
+          <div className="space-y-2">
+            <Label htmlFor="jcc-merchant-login">JCC merchant login</Label>
+            <Input
+              id="jcc-merchant-login"
+              value={merchantLogin}
+              onChange={(e) => setMerchantLogin(e.target.value)}
+              placeholder="Issued by JCC with your merchant account"
+              maxLength={100}
+            />
+            <p className="text-xs text-muted-foreground">
+              JCC pays card payments out to your bank account directly. The platform service fee is billed separately.
+            </p>
+          </div>
+        )}
+
+        <Button type="button" onClick={handleSave} disabled={saving} className="w-full">
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Payment Provider
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentProviderSettings;
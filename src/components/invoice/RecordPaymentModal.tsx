@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, AlertCircle, Landmark, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { PAYMENT_METHOD_LABELS, outstandingBalance, type PayableInvoice } from '@/utils/invoicePayments';
+
+const MAX_PROOF_SIZE = 10 * 1024 * 1024;
+
+interface RecordPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice: PayableInvoice | null;
+  onPaymentRecorded?: () => void;
+}
+
+const RecordPaymentModal = ({ isOpen, onClose, invoice, onPaymentRecorded }: RecordPaymentModalProps) => {
+  const [amount, setAmount] = useState('');
+  const [paidOn, setPaidOn] = useState('');
+  const [method, setMethod] = useState('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const balance = invoice ? outstandingBalance(invoice) : 0;
+  const today = new Date().toISOString().slice(0, 10);
+
+  useEffect(() => {
+    if (isOpen && invoice) {
+      setAmount(outstandingBalance(invoice).toFixed(2));
+      setPaidOn(new Date().toISOString().slice(0, 10));
+      setMethod('bank_transfer');
+      setReference('');
+      setNotes('');
+      setProofFile(null);
+    }
+  }, [isOpen, invoice]);
+
+  const paymentAmount = Number(amount);
+  const amountError = !(paymentAmount > 0)
+    ? 'Enter the amount received'
+    : paymentAmount > balance + 0.01
+      ? `The outstanding balance is €${balance.toFixed(2)}`
+      : null;
+
+  const handleSubmit = async () => {
+    if (!invoice || amountError) return;
+
+    if (proofFile && proofFile.size > MAX_PROOF_SIZE) {
+      toast.error('Proof of payment must be under 10MB');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      let proofPath: string | null = null;
+
+      if (proofFile) {
+        const extension = proofFile.name.split('.').pop()?.toLowerCase() || 'pdf';
+        proofPath = `${invoice.vendor_id}/${invoice.id}/${Date.now()}.${extension}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('payment-proofs')
+          .upload(proofPath, proofFile, { contentType: proofFile.type });
+
+        if (uploadError) throw uploadError;
+      }
+
+      const { data, error } = await supabase.functions.invoke('record-offline-payment', {
+        body: {
+          invoiceId: invoice.id,
+          amount: paymentAmount,
+          paidOn,
+          method,
+          reference,
+          notes,
+          proofPath
+        }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success(
+        data.status === 'paid'
+          ? 'Payment recorded. The invoice is now paid'
+          : `Payment recorded. €${(balance - paymentAmount).toFixed(2)} is still outstanding`
+      );
+
+      if (data.syncError) {
+        toast.warning(`The payment could not be synced to the payment provider: ${data.syncError}. You can retry from the invoice.`);
+      }
+
+      onPaymentRecorded?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      toast.error(error.message || 'Failed to record payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            Record Payment
+          </DialogTitle>
+          <DialogDescription>
+            Record a payment received outside Stripe against invoice {invoice?.legal_invoice_number || invoice?.invoice_number}.
+            Outstanding balance: €{balance.toFixed(2)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount (€)</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date received</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                max={today}
+                value={paidOn}
+                onChange={(e) => setPaidOn(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={method === 'cheque' ? 'Cheque number' : 'Bank reference'}
+                maxLength={100}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-proof">Proof of payment</Label>
+            <label
+              htmlFor="payment-proof"
+              className="flex items-center gap-2 cursor-pointer text-sm border rounded-md px-3 py-2 hover:bg-muted"
+            >
+              <Upload className="h-4 w-4" />
+              {proofFile ? proofFile.name : 'Attach bank confirmation or cheque scan (PDF, JPEG or PNG)'}
+            </label>
+            <input
+              id="payment-proof"
+              type="file"
+              accept="application/pdf,image/jpeg,image/png"
+              className="hidden"
+              onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Textarea
+              id="payment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {amountError && amount !== '' && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{amountError}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !!amountError || !paidOn}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentModal;
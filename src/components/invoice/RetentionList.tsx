@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface ContractRetention {
+  quote_id: string;
+  project_title: string | null;
+  retention_percentage: number;
+  defects_liability_months: number;
+  completion_date: string | null;
+  release_due_date: string | null;
+  client_signed_off_at: string | null;
+  release_invoice_id: string | null;
+  held_amount: number;
+  retention_status: string;
+}
+
+interface RetentionListProps {
+  userRole: 'vendor' | 'client';
+  userId: string;
+  onReleaseInvoiceCreated?: () => void;
+}
+
+export function RetentionList({ userRole, userId, onReleaseInvoiceCreated }: RetentionListProps) {
+  const [retentions, setRetentions] = useState<ContractRetention[]>([]);
+  const [completionRetention, setCompletionRetention] = useState<ContractRetention | null>(null);
+  const [completionDate, setCompletionDate] = useState("");
+  const [processing, setProcessing] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (userId) {
+      fetchRetentions();
+    }
+  }, [userId, userRole]);
+
+  const fetchRetentions = async () => {
+    try {
+      const query = supabase
+        .from('contract_retention_summary')
+        .select('quote_id, project_title, retention_percentage, defects_liability_months, completion_date, release_due_date, client_signed_off_at, release_invoice_id, held_amount, retention_status')
+        .order('created_at', { ascending: false });
+
+      if (userRole === 'vendor') {
+        query.eq('vendor_id', userId);
+      } else {
+        query.eq('client_id', userId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRetentions((data || []) as ContractRetention[]);
+    } catch (error: any) {
+      console.error('fetchRetentions error:', error);
+    }
+  };
+
+  const runAction = async (quoteId: string, action: () => PromiseLike<{ error: { message: string } | null }>, successMessage: string) => {
+    try {
+      setProcessing(quoteId);
+      const { error } = await action();
+      if (error) throw error;
+
+      toast({ title: "Success", description: successMessage });
+      await fetchRetentions();
+      onReleaseInvoiceCreated?.();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const recordCompletion = async () => {
+    if (!completionRetention || !completionDate) return;
+    await runAction(
+      completionRetention.quote_id,
+      () => supabase.rpc('record_practical_completion', {
+        quote_id_param: completionRetention.quote_id,
+        completion_date_param: completionDate
+      }),
+      "Practical completion recorded. The defects liability period has started."
+    );
+    setCompletionRetention(null);
+  };
+
+  const getStatusBadge = (retention: ContractRetention) => {
+    if (retention.retention_status === 'released') {
+      return <Badge variant="secondary">Released</Badge>;
+    }
+    if (retention.retention_status === 'release_due') {
+      return <Badge variant="default">Release due</Badge>;
+    }
+    return <Badge variant="outline">Held</Badge>;
+  };
+
+  if (retentions.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention</CardTitle>
+          <CardDescription>
+            {userRole === 'vendor'
+              ? 'Retention held back by clients until the defects liability period ends'
+              : 'Retention you are holding back until the defects liability period ends'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead className="text-right">Held (net)</TableHead>
+                <TableHead>Completion</TableHead>
+                <TableHead>Release due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {retentions.map((retention) => (
+                <TableRow key={retention.quote_id}>
+                  <TableCell>
+                    {retention.project_title || 'Project'}
+                    <span className="text-muted-foreground"> · {retention.retention_percentage}%</span>
+                  </TableCell>
+                  <TableCell className="text-right">€{Number(retention.held_amount).toFixed(2)}</TableCell>
+                  <TableCell>
+                    {retention.completion_date ? new Date(retention.completion_date).toLocaleDateString() : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {retention.release_due_date
+                      ? new Date(retention.release_due_date).toLocaleDateString()
+                      : `${retention.defects_liability_months} months after completion`}
+                  </TableCell>
+                  <TableCell>{getStatusBadge(retention)}</TableCell>
+                  <TableCell className="text-right">
+                    {userRole === 'vendor' && !retention.release_invoice_id && !retention.completion_date && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setCompletionDate(new Date().toISOString().split('T')[0]);
+                          setCompletionRetention(retention);
+                        }}
+                      >
+                        Record Completion
+                      </Button>
+                    )}
+                    {userRole === 'vendor' && retention.retention_status === 'release_due' && !retention.release_invoice_id && (
+                      <Button
+                        size="sm"
+                        disabled={processing === retention.quote_id}
+                        onClick={() => runAction(
+                          retention.quote_id,
+                          () => supabase.rpc('create_retention_release_invoice', { quote_id_param: retention.quote_id }),
+                          "Retention release invoice created as a draft"
+                        )}
+                      >
+                        {processing === retention.quote_id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Create Release Invoice
+                      </Button>
+                    )}
+                    {userRole === 'client' && retention.completion_date && !retention.client_signed_off_at && !retention.release_invoice_id && (
+                      <Button
+                        size="sm"
+                        disabled={processing === retention.quote_id}
+                        onClick={() => runAction(
+                          retention.quote_id,
+                          () => supabase.rpc('sign_off_retention', { quote_id_param: retention.quote_id }),
+                          "Works signed off. The vendor can now invoice the retention."
+                        )}
+                      >
+                        {processing === retention.quote_id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Sign Off Works
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!completionRetention} onOpenChange={(open) => !open && setCompletionRetention(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Practical Completion</DialogTitle>
+            <DialogDescription>
+              The retention becomes due {completionRetention?.defects_liability_months} months after this date,
+              or earlier if the client signs off the works.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="completion-date">Completion date</Label>
+            <Input
+              id="completion-date"
+              type="date"
+              value={completionDate}
+              onChange={(e) => setCompletionDate(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompletionRetention(null)} disabled={!!processing}>
+              Cancel
+            </Button>
+            <Button onClick={recordCompletion} disabled={!completionDate || !!processing}>
+              {processing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record Completion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export default RetentionList;
@@ -7,6 +7,8 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   AlertCircle, 
   CheckCircle, 
@@ -15,60 +17,116 @@ import {
   Info 
 } from 'lucide-react';
 import {
-  calculateStandardVAT,
-  calculateRenovationVAT,
-  calculatePrimaryResidenceVAT,
-  applyReverseCharge,
+  applyRetention,
+  assessPrimaryResidenceEligibility,
+  calculateLineItemsVAT,
+  DEFAULT_PRIMARY_RESIDENCE_THRESHOLDS,
   isCyprusProperty,
+  RENOVATION_MAX_MATERIALS_PERCENTAGE,
+  type InvoiceLineInput,
+  type LineVATBasis,
+  type PrimaryResidenceReliefUsage,
+  type PrimaryResidenceThresholds,
   type VATResult
 } from '@/utils/vatCalculator';
+import { validateVatNumber } from '@/utils/vatNumber';
+import { buildVatDecision } from '@/utils/vatDecisions';
 
 interface VATWizardProps {
   amount: number;
+  lines?: Omit<InvoiceLineInput, 'vatBasis'>[];
   propertyLocation?: string;
+  retentionPercentage?: number;
+  /** Materials share derived from the quote's labour and materials lines, if classified */
+  materialsPercentage?: number | null;
+  supplierVatId?: string;
+  customerVatId?: string;
+  primaryResidenceThresholds?: PrimaryResidenceThresholds;
+  primaryResidenceReliefUsed?: PrimaryResidenceReliefUsage;
   onComplete: (result: VATResult, additionalData?: any) => void;
   onCancel: () => void;
 }
 
-const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATWizardProps) => {
+const VAT_BASIS_LABELS: Record<LineVATBasis, string> = {
+  standard19: 'Standard 19%',
+  reduced5_renovation: 'Renovation 5%',
+  reduced5_primary_residence: 'Primary residence 5%/19%',
+  reverse_charge: 'Reverse charge 0%'
+};
+
+const VATWizard = ({
+  amount,
+  lines,
+  propertyLocation = '',
+  retentionPercentage = 0,
+  materialsPercentage: derivedMaterialsPercentage = null,
+  supplierVatId = '',
+  customerVatId: initialCustomerVatId = '',
+  primaryResidenceThresholds = DEFAULT_PRIMARY_RESIDENCE_THRESHOLDS,
+  primaryResidenceReliefUsed,
+  onComplete,
+  onCancel
+}: VATWizardProps) => {
+  const invoiceLines = lines && lines.length > 0
+    ? lines
+    : [{ description: 'Construction services', quantity: 1, unitAmount: amount, isMaterial: false }];
+
   const [step, setStep] = useState(1);
-  const [vatBasis, setVatBasis] = useState<VATResult['vatBasis']>('standard19');
+  const [vatBasis, setVatBasis] = useState<LineVATBasis>('standard19');
+  const [lineBases, setLineBases] = useState<LineVATBasis[]>(() => invoiceLines.map(() => 'standard19'));
   const [dwellingAgeYears, setDwellingAgeYears] = useState<number>(3);
-  const [materialsPercentage, setMaterialsPercentage] = useState<number>(30);
+  const [materialsPercentage, setMaterialsPercentage] = useState<number>(derivedMaterialsPercentage ?? 30);
   const [totalAreaSqm, setTotalAreaSqm] = useState<number>(130);
-  const [pricePerSqm, setPricePerSqm] = useState<number>(0);
+  const [propertyValue, setPropertyValue] = useState<number>(0);
+  const [primaryResidenceDeclared, setPrimaryResidenceDeclared] = useState(false);
   const [isPrivateResidence, setIsPrivateResidence] = useState(true);
   const [isBtoB, setIsBtoB] = useState(false);
   const [bothVATRegistered, setBothVATRegistered] = useState(false);
+  const [customerVatId, setCustomerVatId] = useState(initialCustomerVatId);
   const [result, setResult] = useState<VATResult | null>(null);
 
   const isCyprus = isCyprusProperty(propertyLocation);
+  const usesBasis = (basis: LineVATBasis) => lineBases.includes(basis);
+
+  // Domestic reverse charge: both numbers must be valid Cyprus VAT numbers
+  const supplierVat = validateVatNumber(supplierVatId);
+  const customerVat = validateVatNumber(customerVatId);
+  const vatNumbersValid = supplierVat.valid && customerVat.valid &&
+    supplierVat.countryCode === 'CY' && customerVat.countryCode === 'CY';
+
+  const primaryResidenceParams = {
+    totalAreaSqm,
+    propertyValue: propertyValue || undefined,
+    reliefUsed: primaryResidenceReliefUsed,
+    thresholds: primaryResidenceThresholds
+  };
+  const primaryResidenceCheck = assessPrimaryResidenceEligibility(
+    invoiceLines
+      .filter((_, index) => lineBases[index] === 'reduced5_primary_residence')
+      .reduce((sum, line) => sum + line.quantity * line.unitAmount, 0),
+    primaryResidenceParams
+  );
+
+  const handleDefaultBasisChange = (basis: LineVATBasis) => {
+    setVatBasis(basis);
+    setLineBases(invoiceLines.map(() => basis));
+  };
+
+  const updateLineBasis = (index: number, basis: LineVATBasis) => {
+    setLineBases(prev => prev.map((current, i) => (i === index ? basis : current)));
+  };
 
   const calculateVAT = (): VATResult => {
-    switch (vatBasis) {
-      case 'standard19':
-        return calculateStandardVAT(amount);
-      
-      case 'reduced5_renovation':
-        return calculateRenovationVAT({
-          amount,
-          dwellingAgeYears,
-          materialsPercentage
-        });
-      
-      case 'reduced5_primary_residence':
-        return calculatePrimaryResidenceVAT({
-          amount,
-          totalAreaSqm,
-          pricePerSqm: pricePerSqm || undefined
-        });
-      
-      case 'reverse_charge':
-        return applyReverseCharge(amount);
-      
-      default:
-        return calculateStandardVAT(amount);
+    const vatResult = calculateLineItemsVAT({
+      lines: invoiceLines.map((line, index) => ({ ...line, vatBasis: lineBases[index] })),
+      renovation: { dwellingAgeYears, materialsPercentage },
+      primaryResidence: primaryResidenceParams,
+      vatNumbers: { supplier: supplierVatId, customer: customerVatId }
+    });
+    if (vatResult.primaryResidenceEvidence) {
+      vatResult.primaryResidenceEvidence.client_declaration_confirmed = primaryResidenceDeclared;
     }
+    return applyRetention(vatResult, retentionPercentage);
   };
 
   const handleCalculate = () => {
@@ -80,11 +138,42 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
   const handleConfirm = () => {
     if (result) {
       const additionalData = {
-        dwelling_age_years: vatBasis === 'reduced5_renovation' ? dwellingAgeYears : null,
-        materials_percentage: vatBasis === 'reduced5_renovation' ? materialsPercentage : null,
-        property_area_sqm: vatBasis === 'reduced5_primary_residence' ? totalAreaSqm : null,
+        dwelling_age_years: usesBasis('reduced5_renovation') ? dwellingAgeYears : null,
+        materials_percentage: usesBasis('reduced5_renovation') ? materialsPercentage : null,
+        property_area_sqm: usesBasis('reduced5_primary_residence') ? totalAreaSqm : null,
+        property_value: usesBasis('reduced5_primary_residence') && propertyValue ? propertyValue : null,
         place_of_supply: propertyLocation,
-        property_location: propertyLocation
+        property_location: propertyLocation,
+        customer_vat_id: usesBasis('reverse_charge') ? customerVat.normalized : null,
+        vat_decision: buildVatDecision({
+          propertyLocation,
+          defaultBasis: vatBasis,
+          lines: invoiceLines.map((line, index) => ({ ...line, vatBasis: lineBases[index] })),
+          retentionPercentage,
+          renovation: usesBasis('reduced5_renovation')
+            ? {
+                dwellingAgeYears,
+                materialsPercentage,
+                materialsPercentageDerived: derivedMaterialsPercentage !== null,
+                privateResidenceConfirmed: isPrivateResidence
+              }
+            : null,
+          primaryResidence: usesBasis('reduced5_primary_residence')
+            ? {
+                totalAreaSqm,
+                propertyValue: propertyValue || null,
+                clientDeclarationConfirmed: primaryResidenceDeclared
+              }
+            : null,
+          reverseCharge: usesBasis('reverse_charge')
+            ? {
+                businessToBusiness: isBtoB,
+                bothVatRegistered: bothVATRegistered,
+                supplierVatId,
+                customerVatId: customerVat.normalized || customerVatId
+              }
+            : null
+        }, result)
       };
       onComplete(result, additionalData);
     }
@@ -166,11 +255,11 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
           <CardHeader>
             <CardTitle>Step 2: Select VAT Treatment</CardTitle>
             <CardDescription>
-              Choose the appropriate VAT basis for this project
+              Choose the default VAT basis for this project. You can override it per line in the next step.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <RadioGroup value={vatBasis} onValueChange={(v) => setVatBasis(v as VATResult['vatBasis'])}>
+            <RadioGroup value={vatBasis} onValueChange={(v) => handleDefaultBasisChange(v as LineVATBasis)}>
               <div className="space-y-3">
                 <div className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-muted/50 cursor-pointer">
                   <RadioGroupItem value="standard19" id="standard19" />
@@ -241,14 +330,47 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
           <CardHeader>
             <CardTitle>Step 3: Additional Information</CardTitle>
             <CardDescription>
-              {vatBasis === 'reduced5_renovation' && 'Renovation eligibility requirements'}
-              {vatBasis === 'reduced5_primary_residence' && 'Primary residence details'}
-              {vatBasis === 'reverse_charge' && 'Reverse charge verification'}
-              {vatBasis === 'standard19' && 'Confirm VAT calculation'}
+              Set the VAT treatment of each line and confirm the eligibility requirements
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            {vatBasis === 'reduced5_renovation' && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Line Items</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="w-[220px]">VAT Treatment</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoiceLines.map((line, idx) => (
+                    <TableRow key={idx}>
+                      <TableCell>
+                        {line.description}
+                        {line.isMaterial && <Badge variant="outline" className="ml-2">Material</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">€{(line.quantity * line.unitAmount).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Select value={lineBases[idx]} onValueChange={(v) => updateLineBasis(idx, v as LineVATBasis)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(VAT_BASIS_LABELS) as LineVATBasis[]).map((basis) => (
+                              <SelectItem key={basis} value={basis}>{VAT_BASIS_LABELS[basis]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {usesBasis('reduced5_renovation') && (
               <div className="space-y-4">
                 <Alert>
                   <CheckCircle className="h-4 w-4" />
@@ -289,11 +411,17 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
                     max="100"
                     value={materialsPercentage}
                     onChange={(e) => setMaterialsPercentage(Number(e.target.value))}
+                    disabled={derivedMaterialsPercentage !== null}
                     className="mt-1"
                   />
-                  {materialsPercentage > 50 && (
+                  {derivedMaterialsPercentage !== null && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Calculated from the labour and materials lines of the accepted quote
+                    </p>
+                  )}
+                  {materialsPercentage > RENOVATION_MAX_MATERIALS_PERCENTAGE && (
                     <p className="text-sm text-destructive mt-1">
-                      ⚠️ Materials exceed 50% threshold for reduced rate
+                      ⚠️ Materials exceed {RENOVATION_MAX_MATERIALS_PERCENTAGE}% threshold for reduced rate
                     </p>
                   )}
                 </div>
@@ -311,57 +439,80 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
               </div>
             )}
 
-            {vatBasis === 'reduced5_primary_residence' && (
+            {usesBasis('reduced5_primary_residence') && (
               <div className="space-y-4">
                 <Alert>
                   <Info className="h-4 w-4" />
                   <AlertDescription>
-                    <strong>Primary Residence Rate:</strong> The first 130 m² is charged at 5%, 
-                    with any remaining area at the standard 19% rate.
+                    <strong>Primary Residence Rate:</strong> The first {primaryResidenceThresholds.reducedAreaSqm} m² is
+                    charged at 5%, with any remaining area at the standard 19% rate. The dwelling must not exceed{' '}
+                    {primaryResidenceThresholds.maxTotalAreaSqm} m² or €{primaryResidenceThresholds.maxTotalValue.toLocaleString()},
+                    and each client can claim up to €{primaryResidenceThresholds.maxReducedValue.toLocaleString()} at 5% for
+                    one dwelling only.
                   </AlertDescription>
                 </Alert>
 
-                <div>
-                  <Label htmlFor="totalArea">Total Property Area (m²)</Label>
-                  <Input
-                    id="totalArea"
-                    type="number"
-                    min="0"
-                    value={totalAreaSqm}
-                    onChange={(e) => setTotalAreaSqm(Number(e.target.value))}
-                    className="mt-1"
-                  />
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <Label htmlFor="totalArea">Total Property Area (m²)</Label>
+                    <Input
+                      id="totalArea"
+                      type="number"
+                      min="0"
+                      value={totalAreaSqm}
+                      onChange={(e) => setTotalAreaSqm(Number(e.target.value))}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="propertyValue">Total Property Value (€)</Label>
+                    <Input
+                      id="propertyValue"
+                      type="number"
+                      min="0"
+                      required
+                      value={propertyValue || ''}
+                      onChange={(e) => setPropertyValue(Number(e.target.value))}
+                      placeholder="Contract price of the dwelling"
+                      className="mt-1"
+                    />
+                  </div>
                 </div>
 
-                <div>
-                  <Label htmlFor="pricePerSqm">Price per m² (optional, for breakdown)</Label>
-                  <Input
-                    id="pricePerSqm"
-                    type="number"
-                    min="0"
-                    value={pricePerSqm}
-                    onChange={(e) => setPricePerSqm(Number(e.target.value))}
-                    placeholder={`Calculated: €${(amount / totalAreaSqm).toFixed(2)}/m²`}
-                    className="mt-1"
-                  />
-                </div>
+                {primaryResidenceReliefUsed && primaryResidenceReliefUsed.reducedValueUsed > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Relief already used by this client: €{primaryResidenceReliefUsed.reducedValueUsed.toFixed(2)} of
+                    €{primaryResidenceThresholds.maxReducedValue.toLocaleString()}
+                  </p>
+                )}
 
-                {totalAreaSqm > 130 && (
-                  <Alert>
+                {primaryResidenceCheck.warnings.length > 0 && (
+                  <Alert variant={primaryResidenceCheck.eligible ? 'default' : 'destructive'}>
                     <AlertCircle className="h-4 w-4" />
                     <AlertDescription>
-                      Property exceeds 130 m². Invoice will show split rates:
-                      <ul className="list-disc ml-4 mt-2 text-sm">
-                        <li>First 130 m² @ 5% VAT</li>
-                        <li>Remaining {(totalAreaSqm - 130).toFixed(0)} m² @ 19% VAT</li>
+                      <ul className="list-disc ml-4 text-sm">
+                        {primaryResidenceCheck.warnings.map((warning, idx) => (
+                          <li key={idx}>{warning}</li>
+                        ))}
                       </ul>
                     </AlertDescription>
                   </Alert>
                 )}
+
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="primaryResidenceDeclared"
+                    checked={primaryResidenceDeclared}
+                    onCheckedChange={(checked) => setPrimaryResidenceDeclared(checked as boolean)}
+                  />
+                  <Label htmlFor="primaryResidenceDeclared" className="text-sm cursor-pointer">
+                    The client has declared this dwelling is their primary and permanent residence
+                  </Label>
+                </div>
               </div>
             )}
 
-            {vatBasis === 'reverse_charge' && (
+            {usesBasis('reverse_charge') && (
               <div className="space-y-4">
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
@@ -398,7 +549,36 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
                   </Label>
                 </div>
 
-                {!isBtoB || !bothVATRegistered && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Your VAT number</Label>
+                    <Input value={supplierVatId} disabled placeholder="Not set in Business Information" />
+                    {!supplierVat.valid && (
+                      <p className="text-xs text-destructive">
+                        {supplierVat.error}. Update it in Business Information.
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="customerVatId">Customer VAT number</Label>
+                    <Input
+                      id="customerVatId"
+                      value={customerVatId}
+                      onChange={(e) => setCustomerVatId(e.target.value)}
+                      placeholder="CY12345678X"
+                    />
+                    {customerVatId && !customerVat.valid && (
+                      <p className="text-xs text-destructive">{customerVat.error}</p>
+                    )}
+                    {customerVat.valid && customerVat.countryCode !== 'CY' && (
+                      <p className="text-xs text-destructive">
+                        Domestic reverse charge needs a Cyprus (CY) VAT number
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {(!isBtoB || !bothVATRegistered) && (
                   <Alert variant="destructive">
                     <AlertCircle className="h-4 w-4" />
                     <AlertDescription>
@@ -409,7 +589,7 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
               </div>
             )}
 
-            {vatBasis === 'standard19' && (
+            {lineBases.every((basis) => basis === 'standard19') && (
               <Alert>
                 <CheckCircle className="h-4 w-4" />
                 <AlertDescription>
@@ -425,8 +605,9 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
               <Button 
                 onClick={handleCalculate}
                 disabled={
-                  (vatBasis === 'reverse_charge' && (!isBtoB || !bothVATRegistered)) ||
-                  (vatBasis === 'reduced5_renovation' && !isPrivateResidence)
+                  (usesBasis('reverse_charge') && (!isBtoB || !bothVATRegistered || !vatNumbersValid)) ||
+                  (usesBasis('reduced5_renovation') && !isPrivateResidence) ||
+                  (usesBasis('reduced5_primary_residence') && (!primaryResidenceDeclared || !(totalAreaSqm > 0) || !(propertyValue > 0)))
                 }
               >
                 Calculate VAT <ArrowRight className="ml-2 h-4 w-4" />
@@ -453,7 +634,9 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
               </div>
               
               <div className="flex justify-between text-lg">
-                <span className="font-medium">VAT ({result.vatRate}%):</span>
+                <span className="font-medium">
+                  VAT ({result.vatBasis === 'mixed' ? `effective ${result.vatRate}` : result.vatRate}%):
+                </span>
                 <span>€{result.vatAmount.toFixed(2)}</span>
               </div>
               
@@ -467,18 +650,54 @@ const VATWizard = ({ amount, propertyLocation = '', onComplete, onCancel }: VATW
               </div>
             </div>
 
-            {result.breakdown && result.breakdown.length > 0 && (
+            {result.lines && result.lines.length > 0 && (
               <div className="space-y-2">
-                <h4 className="font-medium">VAT Breakdown:</h4>
-                {result.breakdown.map((item, idx) => (
+                <h4 className="font-medium">Line Items:</h4>
+                {result.lines.map((line, idx) => (
                   <div key={idx} className="text-sm flex justify-between py-1">
-                    <span className="text-muted-foreground">{item.description}</span>
-                    <span>€{item.amount.toFixed(2)} + €{item.vatAmount.toFixed(2)} VAT</span>
+                    <span className="text-muted-foreground">{line.description} ({line.vatRate}%)</span>
+                    <span>€{line.lineTotal.toFixed(2)} + €{line.vatAmount.toFixed(2)} VAT</span>
                   </div>
                 ))}
               </div>
             )}
 
+            {result.rateSummary && result.rateSummary.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">VAT Summary:</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rate</TableHead>
+                      <TableHead>Basis</TableHead>
+                      <TableHead className="text-right">Taxable Amount</TableHead>
+                      <TableHead className="text-right">VAT</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rateSummary.map((entry) => (
+                      <TableRow key={`${entry.vatBasis}-${entry.vatRate}`}>
+                        <TableCell>{entry.vatRate}%</TableCell>
+                        <TableCell>{VAT_BASIS_LABELS[entry.vatBasis]}</TableCell>
+                        <TableCell className="text-right">€{entry.taxableAmount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">€{entry.vatAmount.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {result.retentionAmount && result.retentionAmount > 0 ? (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription className="text-sm">
+                  Retention of {result.retentionPercentage}% (€{result.retentionAmount.toFixed(2)} net) is held back
+                  from this invoice. It is invoiced with VAT once the defects liability period ends or the client signs off.
+                </AlertDescription>
+              </Alert>
+            ) : null}
+
             {result.reverseChargeNote && (
               <Alert>
                 <AlertCircle className="h-4 w-4" />
@@ -0,0 +1,505 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, AlertTriangle, FileText, Scale, Upload, CheckCircle, HelpCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logAdminAction } from '@/utils/auditLog';
+import { VAT_RETURN_BASIS_LABELS } from '@/utils/vatReturn';
+import type { VATResult } from '@/utils/vatCalculator';
+import {
+  SUGGESTED_VAT_EVIDENCE,
+  VAT_EVIDENCE_TYPE_LABELS,
+  attachVatEvidence,
+  getVatEvidenceUrl,
+  reviewVatDecision,
+  type VatDecisionInputs,
+  type VatEvidenceType,
+  type VatReviewOutcome
+} from '@/utils/vatDecisions';
+
+const MAX_EVIDENCE_SIZE = 10 * 1024 * 1024;
+
+interface VatDecision {
+  id: string;
+  invoice_id: string;
+  vendor_id: string;
+  vat_basis: string;
+  calculator_version: string;
+  inputs: VatDecisionInputs;
+  result: VATResult;
+  warnings: string[];
+  legal_references: string[];
+  decided_at: string;
+}
+
+interface VatEvidence {
+  id: string;
+  evidence_type: string;
+  file_path: string;
+  file_name: string;
+  description: string | null;
+  uploaded_at: string;
+}
+
+interface VatReview {
+  id: string;
+  outcome: string;
+  notes: string | null;
+  reviewed_at: string;
+}
+
+interface VatDecisionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoiceId: string | null;
+  invoiceNumber?: string | null;
+  /** Vendors attach evidence; admins review */
+  mode: 'vendor' | 'admin';
+  onChanged?: () => void;
+}
+
+const basisLabel = (basis: string) => VAT_RETURN_BASIS_LABELS[basis] || 'Mixed rates';
+
+const VatDecisionModal = ({ isOpen, onClose, invoiceId, invoiceNumber, mode, onChanged }: VatDecisionModalProps) => {
+  const [decision, setDecision] = useState<VatDecision | null>(null);
+  const [evidence, setEvidence] = useState<VatEvidence[]>([]);
+  const [reviews, setReviews] = useState<VatReview[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [evidenceType, setEvidenceType] = useState<VatEvidenceType>('other');
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [evidenceDescription, setEvidenceDescription] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [reviewing, setReviewing] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && invoiceId) {
+      setEvidenceFile(null);
+      setEvidenceDescription('');
+      setReviewNotes('');
+      fetchDecision();
+    }
+  }, [isOpen, invoiceId]);
+
+  const fetchDecision = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('vat_decisions')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const record = data as unknown as VatDecision | null;
+      setDecision(record);
+
+      if (!record) {
+        setEvidence([]);
+        setReviews([]);
+        return;
+      }
+
+      const suggested = record.inputs.lines.flatMap((line) => SUGGESTED_VAT_EVIDENCE[line.vatBasis] || []);
+      setEvidenceType(suggested[0] || 'other');
+
+      const [{ data: evidenceData }, { data: reviewData }] = await Promise.all([
+        supabase
+          .from('vat_decision_evidence')
+          .select('id, evidence_type, file_path, file_name, description, uploaded_at')
+          .eq('decision_id', record.id)
+          .order('uploaded_at', { ascending: true }),
+        supabase
+          .from('vat_decision_reviews')
+          .select('id, outcome, notes, reviewed_at')
+          .eq('decision_id', record.id)
+          .order('reviewed_at', { ascending: false })
+      ]);
+
+      setEvidence(evidenceData || []);
+      setReviews(reviewData || []);
+    } catch (error: any) {
+      console.error('Error fetching VAT decision:', error);
+      toast.error('Failed to load the VAT decision');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const suggestedEvidence = decision
+    ? Array.from(new Set(decision.inputs.lines.flatMap((line) => SUGGESTED_VAT_EVIDENCE[line.vatBasis] || [])))
+    : [];
+  const missingEvidence = suggestedEvidence.filter(
+    (type) => !evidence.some((item) => item.evidence_type === type)
+  );
+  const latestReview = reviews[0];
+
+  const handleViewEvidence = async (filePath: string) => {
+    try {
+      window.open(await getVatEvidenceUrl(filePath), '_blank');
+    } catch (error: any) {
+      console.error('Error opening VAT evidence:', error);
+      toast.error('Failed to open the document');
+    }
+  };
+
+  const handleAttachEvidence = async () => {
+    if (!decision || !evidenceFile) return;
+
+    if (evidenceFile.size > MAX_EVIDENCE_SIZE) {
+      toast.error('Evidence files must be under 10MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await attachVatEvidence(
+        { decision_id: decision.id, vendor_id: decision.vendor_id, invoice_id: decision.invoice_id },
+        evidenceFile,
+        evidenceType,
+        evidenceDescription
+      );
+      toast.success('Evidence attached to the VAT decision');
+      setEvidenceFile(null);
+      setEvidenceDescription('');
+      await fetchDecision();
+      onChanged?.();
+    } catch (error: any) {
+      console.error('Error attaching VAT evidence:', error);
+      toast.error(error.message || 'Failed to attach evidence');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleReview = async (outcome: VatReviewOutcome) => {
+    if (!decision) return;
+
+    if (outcome === 'queried' && !reviewNotes.trim()) {
+      toast.error('Say what is missing when querying a VAT decision');
+      return;
+    }
+
+    setReviewing(true);
+    try {
+      await reviewVatDecision(decision.id, outcome, reviewNotes);
+      await logAdminAction(`vat_decision_${outcome}`, 'vat_decisions', decision.id, undefined, {
+        invoice_id: decision.invoice_id,
+        notes: reviewNotes.trim() || null
+      });
+      toast.success(outcome === 'accepted' ? 'VAT decision accepted' : 'VAT decision queried');
+      setReviewNotes('');
+      await fetchDecision();
+      onChanged?.();
+    } catch (error: any) {
+      console.error('Error reviewing VAT decision:', error);
+      toast.error(error.message || 'Failed to review the VAT decision');
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const inputs = decision?.inputs;
+  const result = decision?.result;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            VAT Decision Record
+          </DialogTitle>
+          <DialogDescription>
+            How the VAT on invoice {invoiceNumber || ''} was decided. The record cannot be changed;
+            evidence and reviews are added to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !decision ? (
+          <p className="text-sm text-muted-foreground py-4">
+            No VAT decision was recorded for this invoice. Invoices created before decision records were
+            introduced do not have one.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{basisLabel(decision.vat_basis)}</Badge>
+              <Badge variant="secondary">Calculator {decision.calculator_version}</Badge>
+              {latestReview ? (
+                <Badge variant={latestReview.outcome === 'accepted' ? 'default' : 'destructive'}>
+                  {latestReview.outcome === 'accepted' ? 'Accepted' : 'Queried'}
+                </Badge>
+              ) : (
+                <Badge variant="outline">Not reviewed</Badge>
+              )}
+              <span className="text-xs text-muted-foreground ml-auto">
+                Decided {new Date(decision.decided_at).toLocaleString()}
+              </span>
+            </div>
+
+            {/* Answers given in the wizard */}
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Answers</h4>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <span className="text-muted-foreground">Property location</span>
+                <span>{inputs.propertyLocation || '—'}</span>
+                {inputs.retentionPercentage > 0 && (
+                  <>
+                    <span className="text-muted-foreground">Retention</span>
+                    <span>{inputs.retentionPercentage}%</span>
+                  </>
+                )}
+                {inputs.renovation && (
+                  <>
+                    <span className="text-muted-foreground">Dwelling age</span>
+                    <span>{inputs.renovation.dwellingAgeYears} years</span>
+                    <span className="text-muted-foreground">Materials share</span>
+                    <span>
+                      {inputs.renovation.materialsPercentage}%
+                      {inputs.renovation.materialsPercentageDerived ? ' (from the quote breakdown)' : ' (entered)'}
+                    </span>
+                    <span className="text-muted-foreground">Private residence</span>
+                    <span>{inputs.renovation.privateResidenceConfirmed ? 'Confirmed' : 'Not confirmed'}</span>
+                  </>
+                )}
+                {inputs.primaryResidence && (
+                  <>
+                    <span className="text-muted-foreground">Total area</span>
+                    <span>{inputs.primaryResidence.totalAreaSqm} m²</span>
+                    <span className="text-muted-foreground">Property value</span>
+                    <span>
+                      {inputs.primaryResidence.propertyValue
+                        ? `€${inputs.primaryResidence.propertyValue.toLocaleString()}`
+                        : 'Not given'}
+                    </span>
+                    <span className="text-muted-foreground">Client declaration</span>
+                    <span>{inputs.primaryResidence.clientDeclarationConfirmed ? 'Confirmed' : 'Not confirmed'}</span>
+                  </>
+                )}
+                {inputs.reverseCharge && (
+                  <>
+                    <span className="text-muted-foreground">Business to business</span>
+                    <span>{inputs.reverseCharge.businessToBusiness ? 'Yes' : 'No'}</span>
+                    <span className="text-muted-foreground">Both VAT registered</span>
+                    <span>{inputs.reverseCharge.bothVatRegistered ? 'Yes' : 'No'}</span>
+                    <span className="text-muted-foreground">VAT numbers</span>
+                    <span>{inputs.reverseCharge.supplierVatId || '—'} → {inputs.reverseCharge.customerVatId || '—'}</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Lines</h4>
+              <div className="space-y-1 text-sm">
+                {inputs.lines.map((line, index) => (
+                  <div key={index} className="flex justify-between gap-4">
+                    <span className="truncate">
+                      {line.description}
+                      {line.isMaterial && <span className="text-muted-foreground"> (material)</span>}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {line.quantity} × €{line.unitAmount.toFixed(2)} · {basisLabel(line.vatBasis)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Subtotal</p>
+                <p className="font-medium">€{result.subtotal.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">VAT</p>
+                <p className="font-medium">€{result.vatAmount.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Total</p>
+                <p className="font-medium">€{result.total.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {decision.warnings.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {decision.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-1">
+              <h4 className="font-semibold text-sm">Legal basis</h4>
+              <ul className="list-disc pl-4 text-sm text-muted-foreground space-y-1">
+                {decision.legal_references.map((reference, index) => (
+                  <li key={index}>{reference}</li>
+                ))}
+              </ul>
+            </div>
+
+            <Separator />
+
+            {/* Evidence */}
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Evidence</h4>
+              {evidence.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No evidence attached yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {evidence.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">
+                        <span className="font-medium">
+                          {VAT_EVIDENCE_TYPE_LABELS[item.evidence_type as VatEvidenceType] || item.evidence_type}
+                        </span>
+                        {' · '}{item.file_name}
+                        {item.description && <span className="text-muted-foreground"> · {item.description}</span>}
+                      </span>
+                      <Button size="sm" variant="ghost" onClick={() => handleViewEvidence(item.file_path)}>
+                        <FileText className="h-4 w-4 mr-1" />
+                        View
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {missingEvidence.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Usually asked for: {missingEvidence.map((type) => VAT_EVIDENCE_TYPE_LABELS[type]).join(', ')}
+                </p>
+              )}
+
+              {mode === 'vendor' && (
+                <div className="border rounded-md p-3 space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label>Document type</Label>
+                      <Select value={evidenceType} onValueChange={(v) => setEvidenceType(v as VatEvidenceType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(VAT_EVIDENCE_TYPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="vat-evidence-description">Description</Label>
+                      <Input
+                        id="vat-evidence-description"
+                        value={evidenceDescription}
+                        onChange={(e) => setEvidenceDescription(e.target.value)}
+                        maxLength={255}
+                      />
+                    </div>
+                  </div>
+                  <label
+                    htmlFor="vat-evidence-file"
+                    className="flex items-center gap-2 cursor-pointer text-sm border rounded-md px-3 py-2 hover:bg-muted"
+                  >
+                    <Upload className="h-4 w-4" />
+                    {evidenceFile ? evidenceFile.name : 'Choose a PDF, JPEG or PNG'}
+                  </label>
+                  <input
+                    id="vat-evidence-file"
+                    type="file"
+                    accept="application/pdf,image/jpeg,image/png"
+                    className="hidden"
+                    onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)}
+                  />
+                  <Button size="sm" onClick={handleAttachEvidence} disabled={uploading || !evidenceFile}>
+                    {uploading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Attach Evidence
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Reviews */}
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Reviews</h4>
+              {reviews.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Not reviewed yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {reviews.map((review) => (
+                    <div key={review.id} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        {review.outcome === 'accepted' ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <HelpCircle className="h-4 w-4 text-destructive" />
+                        )}
+                        <span className="font-medium">{review.outcome === 'accepted' ? 'Accepted' : 'Queried'}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(review.reviewed_at).toLocaleString()}
+                        </span>
+                      </div>
+                      {review.notes && <p className="text-muted-foreground pl-6">{review.notes}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {mode === 'admin' && (
+                <div className="space-y-2">
+                  <Textarea
+                    value={reviewNotes}
+                    onChange={(e) => setReviewNotes(e.target.value)}
+                    placeholder="Review notes (required when querying)"
+                    rows={2}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleReview('accepted')} disabled={reviewing}>
+                      {reviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview('queried')}
+                      disabled={reviewing || !reviewNotes.trim()}
+                    >
+                      Query
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VatDecisionModal;
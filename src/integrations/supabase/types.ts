@@ -95,6 +95,471 @@ export type Database = {
         }
         Relationships: []
       }
+      bank_statement_imports: {
+        Row: {
+          account_iban: string | null
+          created_at: string
+          duplicate_count: number
+          filename: string
+          format: string
+          id: string
+          matched_count: number
+          transaction_count: number
+          vendor_id: string
+        }
+        Insert: {
+          account_iban?: string | null
+          created_at?: string
+          duplicate_count?: number
+          filename: string
+          format: string
+          id?: string
+          matched_count?: number
+          transaction_count?: number
+          vendor_id: string
+        }
+        Update: {
+          account_iban?: string | null
+          created_at?: string
+          duplicate_count?: number
+          filename?: string
+          format?: string
+          id?: string
+          matched_count?: number
+          transaction_count?: number
+          vendor_id?: string
+        }
+        Relationships: []
+      }
+      bank_transactions: {
+        Row: {
+          amount: number
+          bank_reference: string | null
+          booking_date: string
+          created_at: string
+          currency: string
+          fingerprint: string
+          id: string
+          import_id: string
+          invoice_id: string | null
+          match_candidates: Json
+          matched_at: string | null
+          payer_iban: string | null
+          payer_name: string | null
+          payment_id: string | null
+          remittance_info: string | null
+          status: string
+          vendor_id: string
+        }
+        Insert: {
+          amount: number
+          bank_reference?: string | null
+          booking_date: string
+          created_at?: string
+          currency?: string
+          fingerprint: string
+          id?: string
+          import_id: string
+          invoice_id?: string | null
+          match_candidates?: Json
+          matched_at?: string | null
+          payer_iban?: string | null
+          payer_name?: string | null
+          payment_id?: string | null
+          remittance_info?: string | null
+          status?: string
+          vendor_id: string
+        }
+        Update: {
+          amount?: number
+          bank_reference?: string | null
+          booking_date?: string
+          created_at?: string
+          currency?: string
+          fingerprint?: string
+          id?: string
+          import_id?: string
+          invoice_id?: string | null
+          match_candidates?: Json
+          matched_at?: string | null
+          payer_iban?: string | null
+          payer_name?: string | null
+          payment_id?: string | null
+          remittance_info?: string | null
+          status?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_transactions_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_retentions: {
+        Row: {
+          client_id: string
+          client_signed_off_at: string | null
+          completion_date: string | null
+          created_at: string
+          defects_liability_months: number
+          id: string
+          quote_id: string
+          quote_request_id: string
+          release_due_date: string | null
+          release_invoice_id: string | null
+          retention_percentage: number
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          client_id: string
+          client_signed_off_at?: string | null
+          completion_date?: string | null
+          created_at?: string
+          defects_liability_months: number
+          id?: string
+          quote_id: string
+          quote_request_id: string
+          release_due_date?: string | null
+          release_invoice_id?: string | null
+          retention_percentage: number
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          client_id?: string
+          client_signed_off_at?: string | null
+          completion_date?: string | null
+          created_at?: string
+          defects_liability_months?: number
+          id?: string
+          quote_id?: string
+          quote_request_id?: string
+          release_due_date?: string | null
+          release_invoice_id?: string | null
+          retention_percentage?: number
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_retentions_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_retentions_quote_request_id_fkey"
+            columns: ["quote_request_id"]
+            isOneToOne: false
+            referencedRelation: "quote_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_retentions_release_invoice_id_fkey"
+            columns: ["release_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_items: {
+        Row: {
+          created_at: string | null
+          credit_note_id: string
+          description: string
+          id: string
+          invoice_item_id: string | null
+          line_total: number
+          quantity: number | null
+          tax_rate_id: string | null
+          unit_amount: number
+          vat_amount: number | null
+          vat_basis: string | null
+          vat_rate: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          credit_note_id: string
+          description: string
+          id?: string
+          invoice_item_id?: string | null
+          line_total: number
+          quantity?: number | null
+          tax_rate_id?: string | null
+          unit_amount: number
+          vat_amount?: number | null
+          vat_basis?: string | null
+          vat_rate?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          credit_note_id?: string
+          description?: string
+          id?: string
+          invoice_item_id?: string | null
+          line_total?: number
+          quantity?: number | null
+          tax_rate_id?: string | null
+          unit_amount?: number
+          vat_amount?: number | null
+          vat_basis?: string | null
+          vat_rate?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          client_id: string
+          created_at: string
+          created_by: string
+          credit_note_number: string | null
+          credit_type: string
+          currency: string | null
+          id: string
+          invoice_id: string
+          issued_at: string | null
+          original_legal_invoice_number: string
+          pdf_generated_at: string | null
+          pdf_storage_path: string | null
+          reason: string
+          status: string
+          stripe_credit_note_id: string | null
+          stripe_pdf_url: string | null
+          subtotal_amount: number
+          tax_point: string | null
+          total_amount: number
+          updated_at: string
+          vat_amount: number
+          vendor_id: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          created_by: string
+          credit_note_number?: string | null
+          credit_type: string
+          currency?: string | null
+          id?: string
+          invoice_id: string
+          issued_at?: string | null
+          original_legal_invoice_number: string
+          pdf_generated_at?: string | null
+          pdf_storage_path?: string | null
+          reason: string
+          status?: string
+          stripe_credit_note_id?: string | null
+          stripe_pdf_url?: string | null
+          subtotal_amount: number
+          tax_point?: string | null
+          total_amount: number
+          updated_at?: string
+          vat_amount?: number
+          vendor_id: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          created_by?: string
+          credit_note_number?: string | null
+          credit_type?: string
+          currency?: string | null
+          id?: string
+          invoice_id?: string
+          issued_at?: string | null
+          original_legal_invoice_number?: string
+          pdf_generated_at?: string | null
+          pdf_storage_path?: string | null
+          reason?: string
+          status?: string
+          stripe_credit_note_id?: string | null
+          stripe_pdf_url?: string | null
+          subtotal_amount?: number
+          tax_point?: string | null
+          total_amount?: number
+          updated_at?: string
+          vat_amount?: number
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_number_allocations: {
+        Row: {
+          allocated_at: string
+          allocated_by: string | null
+          document_id: string
+          document_number: string
+          document_type: string
+          id: string
+          sequence_number: number
+          series_id: string
+          vendor_id: string
+        }
+        Insert: {
+          allocated_at?: string
+          allocated_by?: string | null
+          document_id: string
+          document_number: string
+          document_type: string
+          id?: string
+          sequence_number: number
+          series_id: string
+          vendor_id: string
+        }
+        Update: {
+          allocated_at?: string
+          allocated_by?: string | null
+          document_id?: string
+          document_number?: string
+          document_type?: string
+          id?: string
+          sequence_number?: number
+          series_id?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_number_allocations_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "document_number_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_number_series: {
+        Row: {
+          created_at: string
+          document_type: string
+          id: string
+          last_number: number
+          prefix: string
+          updated_at: string
+          vendor_id: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          document_type: string
+          id?: string
+          last_number?: number
+          prefix: string
+          updated_at?: string
+          vendor_id: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          id?: string
+          last_number?: number
+          prefix?: string
+          updated_at?: string
+          vendor_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      document_signatures: {
+        Row: {
+          consent_text: string
+          consent_version: string
+          document_hash: string
+          document_id: string
+          document_type: string
+          id: string
+          revoked_at: string | null
+          revoked_reason: string | null
+          signature_data: string
+          signature_method: string
+          signed_at: string
+          signer_id: string
+          signer_ip: string | null
+          signer_name: string
+          signer_role: string
+          user_agent: string | null
+        }
+        Insert: {
+          consent_text: string
+          consent_version: string
+          document_hash: string
+          document_id: string
+          document_type: string
+          id?: string
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          signature_data: string
+          signature_method: string
+          signed_at?: string
+          signer_id: string
+          signer_ip?: string | null
+          signer_name: string
+          signer_role: string
+          user_agent?: string | null
+        }
+        Update: {
+          consent_text?: string
+          consent_version?: string
+          document_hash?: string
+          document_id?: string
+          document_type?: string
+          id?: string
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          signature_data?: string
+          signature_method?: string
+          signed_at?: string
+          signer_id?: string
+          signer_ip?: string | null
+          signer_name?: string
+          signer_role?: string
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
       invoice_items: {
         Row: {
           created_at: string | null
@@ -102,11 +567,14 @@ export type Database = {
           id: string
           invoice_id: string
           is_material: boolean | null
+          is_retention: boolean
           line_total: number
           quantity: number | null
           tax_rate_id: string | null
           unit_amount: number
           vat_amount: number | null
+          vat_basis: string | null
+          vat_rate: number | null
         }
         Insert: {
           created_at?: string | null
@@ -114,11 +582,14 @@ export type Database = {
           id?: string
           invoice_id: string
           is_material?: boolean | null
+          is_retention?: boolean
           line_total: number
           quantity?: number | null
           tax_rate_id?: string | null
           unit_amount: number
           vat_amount?: number | null
+          vat_basis?: string | null
+          vat_rate?: number | null
         }
         Update: {
           created_at?: string | null
@@ -126,11 +597,14 @@ export type Database = {
           id?: string
           invoice_id?: string
           is_material?: boolean | null
+          is_retention?: boolean
           line_total?: number
           quantity?: number | null
           tax_rate_id?: string | null
           unit_amount?: number
           vat_amount?: number | null
+          vat_basis?: string | null
+          vat_rate?: number | null
         }
         Relationships: [
           {
@@ -142,29 +616,220 @@ export type Database = {
           },
         ]
       }
+      invoice_payment_reconciliations: {
+        Row: {
+          application_fee_amount: number
+          expected_amount: number | null
+          expected_fee_amount: number | null
+          gross_amount: number
+          id: string
+          invoice_id: string | null
+          net_amount: number
+          reconciled_at: string
+          status: string
+          stripe_account: string
+          stripe_balance_transaction_id: string
+          stripe_charge_id: string | null
+          stripe_fee_amount: number
+          stripe_payout_id: string | null
+          vendor_id: string
+        }
+        Insert: {
+          application_fee_amount?: number
+          expected_amount?: number | null
+          expected_fee_amount?: number | null
+          gross_amount: number
+          id?: string
+          invoice_id?: string | null
+          net_amount: number
+          reconciled_at?: string
+          status: string
+          stripe_account: string
+          stripe_balance_transaction_id: string
+          stripe_charge_id?: string | null
+          stripe_fee_amount?: number
+          stripe_payout_id?: string | null
+          vendor_id: string
+        }
+        Update: {
+          application_fee_amount?: number
+          expected_amount?: number | null
+          expected_fee_amount?: number | null
+          gross_amount?: number
+          id?: string
+          invoice_id?: string | null
+          net_amount?: number
+          reconciled_at?: string
+          status?: string
+          stripe_account?: string
+          stripe_balance_transaction_id?: string
+          stripe_charge_id?: string | null
+          stripe_fee_amount?: number
+          stripe_payout_id?: string | null
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payment_reconciliations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          client_id: string
+          created_at: string
+          id: string
+          invoice_id: string
+          method: string
+          notes: string | null
+          paid_on: string
+          proof_path: string | null
+          recorded_by: string
+          reference: string | null
+          stripe_sync_error: string | null
+          stripe_synced_at: string | null
+          vendor_id: string
+        }
+        Insert: {
+          amount: number
+          client_id: string
+          created_at?: string
+          id?: string
+          invoice_id: string
+          method: string
+          notes?: string | null
+          paid_on: string
+          proof_path?: string | null
+          recorded_by: string
+          reference?: string | null
+          stripe_sync_error?: string | null
+          stripe_synced_at?: string | null
+          vendor_id: string
+        }
+        Update: {
+          amount?: number
+          client_id?: string
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          paid_on?: string
+          proof_path?: string | null
+          recorded_by?: string
+          reference?: string | null
+          stripe_sync_error?: string | null
+          stripe_synced_at?: string | null
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_reminders: {
+        Row: {
+          channel: string
+          days_overdue: number
+          error: string | null
+          id: string
+          invoice_id: string
+          recipient_id: string
+          sent_at: string
+          stage: number
+          status: string
+        }
+        Insert: {
+          channel: string
+          days_overdue: number
+          error?: string | null
+          id?: string
+          invoice_id: string
+          recipient_id: string
+          sent_at?: string
+          stage: number
+          status?: string
+        }
+        Update: {
+          channel?: string
+          days_overdue?: number
+          error?: string | null
+          id?: string
+          invoice_id?: string
+          recipient_id?: string
+          sent_at?: string
+          stage?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoices: {
         Row: {
+          amount_paid: number
           client_id: string
           client_signature_url: string | null
           client_signed_at: string | null
           created_at: string
+          credited_amount: number
           currency: string | null
+          customer_vat_id: string | null
+          dispute_status: string | null
+          disputed_at: string | null
+          due_date: string | null
+          dunning_paused: boolean
+          dunning_paused_at: string | null
           dwelling_age_years: number | null
           id: string
           invoice_number: string
           issued_at: string | null
+          last_reminder_at: string | null
+          last_stripe_event_at: string | null
           legal_invoice_number: string | null
           materials_percentage: number | null
           paid_at: string | null
           payment_intent_id: string | null
+          payment_provider: string | null
+          payment_url: string | null
+          pdf_generated_at: string | null
+          pdf_storage_path: string | null
           place_of_supply: string | null
+          primary_residence_evidence: Json | null
           property_area_sqm: number | null
           property_location: string | null
+          property_value: number | null
+          provider_invoice_id: string | null
           quote_id: string
           quote_version_id: string | null
+          refunded_amount: number
+          refunded_at: string | null
+          reminder_count: number
+          retention_amount: number
+          retention_percentage: number
           reverse_charge_note: string | null
           service_fee_amount: number
           service_fee_percentage: number
+          stage_index: number | null
+          stage_label: string | null
+          stage_percentage: number | null
+          stage_type: string
           status: string
           stripe_hosted_invoice_url: string | null
           stripe_invoice_id: string | null
@@ -175,34 +840,62 @@ export type Database = {
           updated_at: string
           vat_amount: number | null
           vat_basis: string | null
+          vat_numbers_checked_at: string | null
           vat_rate: number | null
           vendor_id: string
           vendor_payout_amount: number
           vendor_signature_url: string | null
           vendor_signed_at: string | null
+          vies_check: Json | null
         }
         Insert: {
+          amount_paid?: number
           client_id: string
           client_signature_url?: string | null
           client_signed_at?: string | null
           created_at?: string
+          credited_amount?: number
           currency?: string | null
+          customer_vat_id?: string | null
+          dispute_status?: string | null
+          disputed_at?: string | null
+          due_date?: string | null
+          dunning_paused?: boolean
+          dunning_paused_at?: string | null
           dwelling_age_years?: number | null
           id?: string
           invoice_number: string
           issued_at?: string | null
+          last_reminder_at?: string | null
+          last_stripe_event_at?: string | null
           legal_invoice_number?: string | null
           materials_percentage?: number | null
           paid_at?: string | null
           payment_intent_id?: string | null
+          payment_provider?: string | null
+          payment_url?: string | null
+          pdf_generated_at?: string | null
+          pdf_storage_path?: string | null
           place_of_supply?: string | null
+          primary_residence_evidence?: Json | null
           property_area_sqm?: number | null
           property_location?: string | null
+          property_value?: number | null
+          provider_invoice_id?: string | null
           quote_id: string
           quote_version_id?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
+          reminder_count?: number
+          retention_amount?: number
+          retention_percentage?: number
           reverse_charge_note?: string | null
           service_fee_amount: number
           service_fee_percentage?: number
+          stage_index?: number | null
+          stage_label?: string | null
+          stage_percentage?: number | null
+          stage_type?: string
           status?: string
           stripe_hosted_invoice_url?: string | null
           stripe_invoice_id?: string | null
@@ -213,34 +906,62 @@ export type Database = {
           updated_at?: string
           vat_amount?: number | null
           vat_basis?: string | null
+          vat_numbers_checked_at?: string | null
           vat_rate?: number | null
           vendor_id: string
           vendor_payout_amount: number
           vendor_signature_url?: string | null
           vendor_signed_at?: string | null
+          vies_check?: Json | null
         }
         Update: {
+          amount_paid?: number
           client_id?: string
           client_signature_url?: string | null
           client_signed_at?: string | null
           created_at?: string
+          credited_amount?: number
           currency?: string | null
+          customer_vat_id?: string | null
+          dispute_status?: string | null
+          disputed_at?: string | null
+          due_date?: string | null
+          dunning_paused?: boolean
+          dunning_paused_at?: string | null
           dwelling_age_years?: number | null
           id?: string
           invoice_number?: string
           issued_at?: string | null
+          last_reminder_at?: string | null
+          last_stripe_event_at?: string | null
           legal_invoice_number?: string | null
           materials_percentage?: number | null
           paid_at?: string | null
           payment_intent_id?: string | null
+          payment_provider?: string | null
+          payment_url?: string | null
+          pdf_generated_at?: string | null
+          pdf_storage_path?: string | null
           place_of_supply?: string | null
+          primary_residence_evidence?: Json | null
           property_area_sqm?: number | null
           property_location?: string | null
+          property_value?: number | null
+          provider_invoice_id?: string | null
           quote_id?: string
           quote_version_id?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
+          reminder_count?: number
+          retention_amount?: number
+          retention_percentage?: number
           reverse_charge_note?: string | null
           service_fee_amount?: number
           service_fee_percentage?: number
+          stage_index?: number | null
+          stage_label?: string | null
+          stage_percentage?: number | null
+          stage_type?: string
           status?: string
           stripe_hosted_invoice_url?: string | null
           stripe_invoice_id?: string | null
@@ -251,11 +972,13 @@ export type Database = {
           updated_at?: string
           vat_amount?: number | null
           vat_basis?: string | null
+          vat_numbers_checked_at?: string | null
           vat_rate?: number | null
           vendor_id?: string
           vendor_payout_amount?: number
           vendor_signature_url?: string | null
           vendor_signed_at?: string | null
+          vies_check?: Json | null
         }
         Relationships: [
           {
@@ -311,6 +1034,42 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          metadata: Json | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          metadata?: Json | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          metadata?: Json | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       page_views: {
         Row: {
           id: string
@@ -368,6 +1127,101 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_provider_events: {
+        Row: {
+          attempts: number
+          event_created_at: string
+          event_type: string
+          id: string
+          last_error: string | null
+          payload: Json
+          processed_at: string | null
+          processing_started_at: string | null
+          provider: string
+          received_at: string
+          result: Json | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          event_created_at: string
+          event_type: string
+          id: string
+          last_error?: string | null
+          payload: Json
+          processed_at?: string | null
+          processing_started_at?: string | null
+          provider: string
+          received_at?: string
+          result?: Json | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          event_created_at?: string
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          payload?: Json
+          processed_at?: string | null
+          processing_started_at?: string | null
+          provider?: string
+          received_at?: string
+          result?: Json | null
+          status?: string
+        }
+        Relationships: []
+      }
+      platform_fee_receivables: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          invoice_id: string
+          owed_at: string | null
+          payment_provider: string
+          settled_at: string | null
+          status: string
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          invoice_id: string
+          owed_at?: string | null
+          payment_provider: string
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          invoice_id?: string
+          owed_at?: string | null
+          payment_provider?: string
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "platform_fee_receivables_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       platform_settings: {
         Row: {
           description: string | null
@@ -398,6 +1252,51 @@ export type Database = {
         }
         Relationships: []
       }
+      primary_residence_reliefs: {
+        Row: {
+          claimed_at: string
+          client_id: string
+          created_at: string
+          first_invoice_id: string | null
+          id: string
+          project_id: string
+          property_location: string | null
+        }
+        Insert: {
+          claimed_at?: string
+          client_id: string
+          created_at?: string
+          first_invoice_id?: string | null
+          id?: string
+          project_id: string
+          property_location?: string | null
+        }
+        Update: {
+          claimed_at?: string
+          client_id?: string
+          created_at?: string
+          first_invoice_id?: string | null
+          id?: string
+          project_id?: string
+          property_location?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "primary_residence_reliefs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "primary_residence_reliefs_first_invoice_id_fkey"
+            columns: ["first_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           address: string | null
@@ -593,14 +1492,17 @@ export type Database = {
         Row: {
           client_id: string
           created_at: string
+          deadline_warning_sent_at: string | null
           deleted_at: string | null
           deletion_reason: string | null
           estimated_timeline: string | null
+          expired_at: string | null
           id: string
           project_id: string
           quoted_amount: number | null
           responded_at: string | null
           response_deadline: string | null
+          service_group: string | null
           status: Database["public"]["Enums"]["quote_status"] | null
           updated_at: string
           vendor_id: string
@@ -609,14 +1511,17 @@ export type Database = {
         Insert: {
           client_id: string
           created_at?: string
+          deadline_warning_sent_at?: string | null
           deleted_at?: string | null
           deletion_reason?: string | null
           estimated_timeline?: string | null
+          expired_at?: string | null
           id?: string
           project_id: string
           quoted_amount?: number | null
           responded_at?: string | null
           response_deadline?: string | null
+          service_group?: string | null
           status?: Database["public"]["Enums"]["quote_status"] | null
           updated_at?: string
           vendor_id: string
@@ -625,14 +1530,17 @@ export type Database = {
         Update: {
           client_id?: string
           created_at?: string
+          deadline_warning_sent_at?: string | null
           deleted_at?: string | null
           deletion_reason?: string | null
           estimated_timeline?: string | null
+          expired_at?: string | null
           id?: string
           project_id?: string
           quoted_amount?: number | null
           responded_at?: string | null
           response_deadline?: string | null
+          service_group?: string | null
           status?: Database["public"]["Enums"]["quote_status"] | null
           updated_at?: string
           vendor_id?: string
@@ -652,31 +1560,49 @@ export type Database = {
         Row: {
           created_at: string | null
           id: string
+          negotiation_id: string | null
+          proposer_role: string | null
           quote_id: string
           requested_changes: Json | null
+          responds_to: string | null
+          resulting_quote_id: string | null
           review_notes: string | null
           review_type: string
           reviewer_id: string
+          round_number: number | null
+          status: string | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
           id?: string
+          negotiation_id?: string | null
+          proposer_role?: string | null
           quote_id: string
           requested_changes?: Json | null
+          responds_to?: string | null
+          resulting_quote_id?: string | null
           review_notes?: string | null
           review_type?: string
           reviewer_id: string
+          round_number?: number | null
+          status?: string | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
           id?: string
+          negotiation_id?: string | null
+          proposer_role?: string | null
           quote_id?: string
           requested_changes?: Json | null
+          responds_to?: string | null
+          resulting_quote_id?: string | null
           review_notes?: string | null
           review_type?: string
           reviewer_id?: string
+          round_number?: number | null
+          status?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -689,6 +1615,77 @@ export type Database = {
           },
         ]
       }
+      quote_template_versions: {
+        Row: {
+          change_note: string | null
+          content: Json
+          created_at: string
+          created_by: string
+          id: string
+          template_id: string
+          version: number
+        }
+        Insert: {
+          change_note?: string | null
+          content: Json
+          created_at?: string
+          created_by: string
+          id?: string
+          template_id: string
+          version: number
+        }
+        Update: {
+          change_note?: string | null
+          content?: Json
+          created_at?: string
+          created_by?: string
+          id?: string
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "quote_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_templates: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          current_version: number
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: []
+      }
       quote_updates: {
         Row: {
           attachments: Json | null
@@ -737,11 +1734,14 @@ export type Database = {
         Row: {
           assumptions_dependencies: string | null
           change_note: string | null
+          client_signed_at: string | null
           cost_breakdown: Json | null
           created_at: string
+          defects_liability_months: number
           duration_weeks: number | null
           estimated_timeline: string | null
           exclusions: string[] | null
+          expiry_warning_sent_at: string | null
           id: string
           inclusions: string[] | null
           insurance_provider_used: string | null
@@ -753,21 +1753,27 @@ export type Database = {
           portfolio_references: Json | null
           proposed_visit_dates: Json | null
           quote_request_id: string
+          retention_percentage: number
           site_visit_required: boolean | null
           start_date: string | null
+          template_version_id: string | null
           total_amount: number
           updated_at: string
           validity_date: string | null
+          vendor_signed_at: string | null
           version: number
         }
         Insert: {
           assumptions_dependencies?: string | null
           change_note?: string | null
+          client_signed_at?: string | null
           cost_breakdown?: Json | null
           created_at?: string
+          defects_liability_months?: number
           duration_weeks?: number | null
           estimated_timeline?: string | null
           exclusions?: string[] | null
+          expiry_warning_sent_at?: string | null
           id?: string
           inclusions?: string[] | null
           insurance_provider_used?: string | null
@@ -779,21 +1785,27 @@ export type Database = {
           portfolio_references?: Json | null
           proposed_visit_dates?: Json | null
           quote_request_id: string
+          retention_percentage?: number
           site_visit_required?: boolean | null
           start_date?: string | null
+          template_version_id?: string | null
           total_amount: number
           updated_at?: string
           validity_date?: string | null
+          vendor_signed_at?: string | null
           version?: number
         }
         Update: {
           assumptions_dependencies?: string | null
           change_note?: string | null
+          client_signed_at?: string | null
           cost_breakdown?: Json | null
           created_at?: string
+          defects_liability_months?: number
           duration_weeks?: number | null
           estimated_timeline?: string | null
           exclusions?: string[] | null
+          expiry_warning_sent_at?: string | null
           id?: string
           inclusions?: string[] | null
           insurance_provider_used?: string | null
@@ -805,11 +1817,14 @@ export type Database = {
           portfolio_references?: Json | null
           proposed_visit_dates?: Json | null
           quote_request_id?: string
+          retention_percentage?: number
           site_visit_required?: boolean | null
           start_date?: string | null
+          template_version_id?: string | null
           total_amount?: number
           updated_at?: string
           validity_date?: string | null
+          vendor_signed_at?: string | null
           version?: number
         }
         Relationships: [
@@ -991,6 +2006,99 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_payouts: {
+        Row: {
+          amount: number
+          arrival_date: string | null
+          currency: string
+          id: string
+          status: string
+          stripe_account: string
+          stripe_created_at: string
+          stripe_payout_id: string
+          synced_at: string
+          vendor_id: string
+        }
+        Insert: {
+          amount: number
+          arrival_date?: string | null
+          currency?: string
+          id?: string
+          status: string
+          stripe_account: string
+          stripe_created_at: string
+          stripe_payout_id: string
+          synced_at?: string
+          vendor_id: string
+        }
+        Update: {
+          amount?: number
+          arrival_date?: string | null
+          currency?: string
+          id?: string
+          status?: string
+          stripe_account?: string
+          stripe_created_at?: string
+          stripe_payout_id?: string
+          synced_at?: string
+          vendor_id?: string
+        }
+        Relationships: []
+      }
+      stripe_webhook_events: {
+        Row: {
+          attempts: number
+          event_created_at: string
+          event_type: string
+          id: string
+          last_error: string | null
+          livemode: boolean
+          payload: Json
+          processed_at: string | null
+          processing_started_at: string | null
+          received_at: string
+          replayed_at: string | null
+          replayed_by: string | null
+          result: Json | null
+          status: string
+          stripe_account: string | null
+        }
+        Insert: {
+          attempts?: number
+          event_created_at: string
+          event_type: string
+          id: string
+          last_error?: string | null
+          livemode?: boolean
+          payload: Json
+          processed_at?: string | null
+          processing_started_at?: string | null
+          received_at?: string
+          replayed_at?: string | null
+          replayed_by?: string | null
+          result?: Json | null
+          status?: string
+          stripe_account?: string | null
+        }
+        Update: {
+          attempts?: number
+          event_created_at?: string
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          livemode?: boolean
+          payload?: Json
+          processed_at?: string | null
+          processing_started_at?: string | null
+          received_at?: string
+          replayed_at?: string | null
+          replayed_by?: string | null
+          result?: Json | null
+          status?: string
+          stripe_account?: string | null
+        }
+        Relationships: []
+      }
       tickets: {
         Row: {
           assigned_to: string | null
@@ -1059,6 +2167,177 @@ export type Database = {
         }
         Relationships: []
       }
+      vat_decision_evidence: {
+        Row: {
+          decision_id: string
+          description: string | null
+          evidence_type: string
+          file_name: string
+          file_path: string
+          id: string
+          uploaded_at: string
+          uploaded_by: string
+          vendor_id: string
+        }
+        Insert: {
+          decision_id: string
+          description?: string | null
+          evidence_type: string
+          file_name: string
+          file_path: string
+          id?: string
+          uploaded_at?: string
+          uploaded_by: string
+          vendor_id: string
+        }
+        Update: {
+          decision_id?: string
+          description?: string | null
+          evidence_type?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          uploaded_at?: string
+          uploaded_by?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vat_decision_evidence_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "vat_decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vat_decision_reviews: {
+        Row: {
+          decision_id: string
+          id: string
+          notes: string | null
+          outcome: string
+          reviewed_at: string
+          reviewed_by: string
+        }
+        Insert: {
+          decision_id: string
+          id?: string
+          notes?: string | null
+          outcome: string
+          reviewed_at?: string
+          reviewed_by: string
+        }
+        Update: {
+          decision_id?: string
+          id?: string
+          notes?: string | null
+          outcome?: string
+          reviewed_at?: string
+          reviewed_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vat_decision_reviews_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "vat_decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vat_decisions: {
+        Row: {
+          calculator_version: string
+          client_id: string
+          decided_at: string
+          decided_by: string
+          id: string
+          inputs: Json
+          invoice_id: string
+          legal_references: string[]
+          result: Json
+          vat_basis: string
+          vendor_id: string
+          warnings: string[]
+        }
+        Insert: {
+          calculator_version: string
+          client_id: string
+          decided_at?: string
+          decided_by: string
+          id?: string
+          inputs: Json
+          invoice_id: string
+          legal_references?: string[]
+          result: Json
+          vat_basis: string
+          vendor_id: string
+          warnings?: string[]
+        }
+        Update: {
+          calculator_version?: string
+          client_id?: string
+          decided_at?: string
+          decided_by?: string
+          id?: string
+          inputs?: Json
+          invoice_id?: string
+          legal_references?: string[]
+          result?: Json
+          vat_basis?: string
+          vendor_id?: string
+          warnings?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vat_decisions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_price_book_items: {
+        Row: {
+          archived_at: string | null
+          cost_type: string
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          unit: string
+          unit_rate: number
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          cost_type?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          unit: string
+          unit_rate: number
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          cost_type?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          unit?: string
+          unit_rate?: number
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: []
+      }
       vendor_profiles: {
         Row: {
           about_business: string | null
@@ -1067,14 +2346,21 @@ export type Database = {
           business_address: string | null
           business_name: string
           created_at: string
+          credit_note_number_prefix: string
           email: string | null
           established_in_cyprus: boolean | null
           id: string
           insurance_coverage: boolean | null
           insurance_provider: string | null
+          invoice_accent_color: string | null
+          invoice_footer_text: string | null
+          invoice_logo_url: string | null
+          invoice_number_prefix: string
+          jcc_merchant_login: string | null
           license_number: string | null
           licenses_certifications: Json | null
           location: string | null
+          payment_provider: string
           phone: string | null
           portfolio_images: Json | null
           price_range_max: number | null
@@ -1095,6 +2381,7 @@ export type Database = {
           updated_at: string
           user_id: string
           vat_id: string | null
+          vat_period_start_month: number
           vendor_category: string | null
           verification_status:
             | Database["public"]["Enums"]["verification_status"]
@@ -1110,14 +2397,21 @@ export type Database = {
           business_address?: string | null
           business_name: string
           created_at?: string
+          credit_note_number_prefix?: string
           email?: string | null
           established_in_cyprus?: boolean | null
           id?: string
           insurance_coverage?: boolean | null
           insurance_provider?: string | null
+          invoice_accent_color?: string | null
+          invoice_footer_text?: string | null
+          invoice_logo_url?: string | null
+          invoice_number_prefix?: string
+          jcc_merchant_login?: string | null
           license_number?: string | null
           licenses_certifications?: Json | null
           location?: string | null
+          payment_provider?: string
           phone?: string | null
           portfolio_images?: Json | null
           price_range_max?: number | null
@@ -1138,6 +2432,7 @@ export type Database = {
           updated_at?: string
           user_id: string
           vat_id?: string | null
+          vat_period_start_month?: number
           vendor_category?: string | null
           verification_status?:
             | Database["public"]["Enums"]["verification_status"]
@@ -1153,14 +2448,21 @@ export type Database = {
           business_address?: string | null
           business_name?: string
           created_at?: string
+          credit_note_number_prefix?: string
           email?: string | null
           established_in_cyprus?: boolean | null
           id?: string
           insurance_coverage?: boolean | null
           insurance_provider?: string | null
+          invoice_accent_color?: string | null
+          invoice_footer_text?: string | null
+          invoice_logo_url?: string | null
+          invoice_number_prefix?: string
+          jcc_merchant_login?: string | null
           license_number?: string | null
           licenses_certifications?: Json | null
           location?: string | null
+          payment_provider?: string
           phone?: string | null
           portfolio_images?: Json | null
           price_range_max?: number | null
@@ -1181,6 +2483,7 @@ export type Database = {
           updated_at?: string
           user_id?: string
           vat_id?: string | null
+          vat_period_start_month?: number
           vendor_category?: string | null
           verification_status?:
             | Database["public"]["Enums"]["verification_status"]
@@ -1226,6 +2529,46 @@ export type Database = {
       }
     }
     Views: {
+      contract_retention_summary: {
+        Row: {
+          client_id: string | null
+          client_signed_off_at: string | null
+          completion_date: string | null
+          contract_amount: number | null
+          created_at: string | null
+          defects_liability_months: number | null
+          held_amount: number | null
+          id: string | null
+          project_title: string | null
+          quote_id: string | null
+          quote_request_id: string | null
+          release_due_date: string | null
+          release_invoice_id: string | null
+          released_amount: number | null
+          retention_percentage: number | null
+          retention_status: string | null
+          updated_at: string | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
+      document_number_gap_report: {
+        Row: {
+          allocated_count: number | null
+          document_type: string | null
+          first_allocated_at: string | null
+          last_allocated_at: string | null
+          last_number: number | null
+          missing_numbers: number[] | null
+          orphaned_numbers: string[] | null
+          prefix: string | null
+          series_id: string | null
+          vendor_id: string | null
+          vendor_name: string | null
+          year: number | null
+        }
+        Relationships: []
+      }
       invoice_analytics: {
         Row: {
           avg_days_to_pay: number | null
@@ -1241,14 +2584,169 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_vat_summary: {
+        Row: {
+          invoice_id: string | null
+          taxable_amount: number | null
+          vat_amount: number | null
+          vat_basis: string | null
+          vat_rate: number | null
+        }
+        Relationships: []
+      }
+      payout_reconciliation_report: {
+        Row: {
+          collected_fee_amount: number | null
+          expected_fee_amount: number | null
+          fee_difference: number | null
+          gross_amount: number | null
+          invoice_id: string | null
+          invoice_number: string | null
+          invoice_status: string | null
+          net_amount: number | null
+          paid_at: string | null
+          payout_arrival_date: string | null
+          reconciled_at: string | null
+          reconciliation_id: string | null
+          reconciliation_status: string | null
+          stripe_charge_id: string | null
+          stripe_fee_amount: number | null
+          stripe_payout_id: string | null
+          total_amount: number | null
+          vendor_id: string | null
+          vendor_name: string | null
+        }
+        Relationships: []
+      }
+      quote_billing_summary: {
+        Row: {
+          client_id: string | null
+          contract_amount: number | null
+          invoice_count: number | null
+          invoiced_amount: number | null
+          invoiced_percentage: number | null
+          outstanding_amount: number | null
+          paid_amount: number | null
+          quote_id: string | null
+          quote_request_id: string | null
+          uninvoiced_amount: number | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
+      vat_decision_overview: {
+        Row: {
+          calculator_version: string | null
+          client_id: string | null
+          decided_at: string | null
+          decision_id: string | null
+          evidence_count: number | null
+          invoice_id: string | null
+          invoice_number: string | null
+          invoice_status: string | null
+          review_outcome: string | null
+          reviewed_at: string | null
+          total_amount: number | null
+          vat_basis: string | null
+          vendor_id: string | null
+          vendor_name: string | null
+          warning_count: number | null
+        }
+        Relationships: []
+      }
+      vat_return_lines: {
+        Row: {
+          document_id: string | null
+          document_number: string | null
+          document_type: string | null
+          net_amount: number | null
+          period_start: string | null
+          tax_point: string | null
+          vat_amount: number | null
+          vat_basis: string | null
+          vat_rate: number | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
+      vat_return_periods: {
+        Row: {
+          box_1_output_vat: number | null
+          box_3_total_vat_due: number | null
+          box_6_total_outputs: number | null
+          credit_note_count: number | null
+          invoice_count: number | null
+          period_end: string | null
+          period_start: string | null
+          reverse_charge_outputs: number | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
+      vat_return_summary: {
+        Row: {
+          credit_note_count: number | null
+          invoice_count: number | null
+          net_amount: number | null
+          period_end: string | null
+          period_start: string | null
+          vat_amount: number | null
+          vat_basis: string | null
+          vat_rate: number | null
+          vendor_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      allocate_document_number: {
+        Args: { document_id_param: string; document_type_param: string; vendor_id_param: string }
+        Returns: string
+      }
+      check_invoice_issuable: {
+        Args: { invoice_id_param: string }
+        Returns: undefined
+      }
+      claim_payment_provider_event: {
+        Args: {
+          event_created_at_param: string
+          event_id_param: string
+          event_type_param: string
+          payload_param: Json
+          provider_param: string
+        }
+        Returns: boolean
+      }
+      claim_stripe_webhook_event: {
+        Args: {
+          event_created_at_param: string
+          event_id_param: string
+          event_type_param: string
+          force_param?: boolean
+          livemode_param: boolean
+          payload_param: Json
+          stripe_account_param: string
+        }
+        Returns: boolean
+      }
       create_invoice_from_quote: {
         Args: { quote_request_id_param: string }
         Returns: string
       }
-      generate_legal_invoice_number: {
-        Args: Record<PropertyKey, never>
+      create_invoice_with_vat_decision: {
+        Args: {
+          decision_param: Json
+          invoice_param: Json
+          items_param: Json
+        }
+        Returns: string
+      }
+      create_retention_release_invoice: {
+        Args: { quote_id_param: string }
+        Returns: string
+      }
+      extend_quote_validity: {
+        Args: { days_param?: number; quote_request_id_param: string }
         Returns: string
       }
       get_client_quote_details: {
@@ -1282,6 +2780,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      get_primary_residence_relief: {
+        Args: { client_id_param: string; project_id_param: string }
+        Returns: Json
+      }
       get_public_vendor_directory: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -1320,6 +2822,10 @@ export type Database = {
           years_experience: number
         }[]
       }
+      get_quote_invoiced_amount: {
+        Args: { quote_id_param: string }
+        Returns: number
+      }
       get_safe_vendor_profiles: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -1383,6 +2889,10 @@ export type Database = {
         Args: { vendor_user_id: string }
         Returns: number
       }
+      has_active_signature: {
+        Args: { document_type_param: string; document_id_param: string; signer_role_param: string; signed_at_param: string }
+        Returns: boolean
+      }
       is_admin: {
         Args: { user_id_param: string }
         Returns: boolean
@@ -1395,6 +2905,14 @@ export type Database = {
         Args: { _ticket_id: string; _user_id: string }
         Returns: boolean
       }
+      issue_credit_note_number: {
+        Args: { credit_note_id_param: string }
+        Returns: string
+      }
+      issue_invoice_number: {
+        Args: { invoice_id_param: string }
+        Returns: string
+      }
       log_admin_action: {
         Args: {
           p_action: string
@@ -1430,10 +2948,70 @@ export type Database = {
         }
         Returns: undefined
       }
+      open_quote_negotiation: {
+        Args: { notes_param: string; points_param: Json; quote_id_param: string }
+        Returns: string
+      }
+      price_credit_note: {
+        Args: { credit_note_id_param: string }
+        Returns: number
+      }
+      primary_residence_relief_used: {
+        Args: { client_id_param: string }
+        Returns: number
+      }
+      record_practical_completion: {
+        Args: { completion_date_param: string; quote_id_param: string }
+        Returns: undefined
+      }
+      release_due_retentions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      respond_to_quote_negotiation: {
+        Args: { notes_param: string; responses_param: Json; review_id_param: string }
+        Returns: Json
+      }
+      review_vat_decision: {
+        Args: { decision_id_param: string; notes_param: string; outcome_param: string }
+        Returns: string
+      }
+      revoke_document_signatures: {
+        Args: { document_type_param: string; document_id_param: string; reason_param: string }
+        Returns: undefined
+      }
+      save_quote_template: {
+        Args: { change_note_param: string; content_param: Json; description_param: string; name_param: string; template_id_param: string }
+        Returns: string
+      }
+      set_bank_transaction_ignored: {
+        Args: { ignored_param: boolean; transaction_id_param: string }
+        Returns: undefined
+      }
+      set_invoice_dunning_paused: {
+        Args: { invoice_id_param: string; paused_param: boolean }
+        Returns: undefined
+      }
+      sign_off_retention: {
+        Args: { quote_id_param: string }
+        Returns: string
+      }
       validate_input_security: {
         Args: { input_text: string; max_length?: number }
         Returns: boolean
       }
+      vat_period_start: {
+        Args: { tax_point_param: string; start_month_param: number }
+        Returns: string
+      }
+      void_draft_credit_note: {
+        Args: { credit_note_id_param: string }
+        Returns: undefined
+      }
+      void_unissued_invoice: {
+        Args: { invoice_id_param: string }
+        Returns: string
+      }
     }
     Enums: {
       message_type: "text" | "file" | "quote" | "system"
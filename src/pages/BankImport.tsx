@@ -0,0 +1,506 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Landmark, ArrowLeft, Upload, Loader2, Check, EyeOff, RotateCcw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { outstandingBalance } from '@/utils/invoicePayments';
+import {
+  STATEMENT_FORMAT_LABELS,
+  detectStatementFormat,
+  importBankStatement,
+  parseBankStatement,
+  type BankStatementFormat,
+} from '@/utils/bankStatements';
+
+interface MatchCandidate {
+  invoiceId: string;
+  invoiceNumber: string;
+  outstanding: number;
+  score: number;
+  reasons: string[];
+}
+
+interface BankTransaction {
+  id: string;
+  booking_date: string;
+  amount: number;
+  currency: string;
+  payer_name: string | null;
+  remittance_info: string | null;
+  bank_reference: string | null;
+  status: string;
+  match_candidates: MatchCandidate[];
+  invoice_id: string | null;
+  matched_at: string | null;
+}
+
+interface OpenInvoice {
+  id: string;
+  invoice_number: string;
+  legal_invoice_number: string | null;
+  total_amount: number;
+  credited_amount: number | null;
+  amount_paid: number;
+  vendor_id: string;
+}
+
+interface StatementImport {
+  id: string;
+  filename: string;
+  format: string;
+  transaction_count: number;
+  duplicate_count: number;
+  matched_count: number;
+  created_at: string;
+}
+
+const STATUS_FILTERS = [
+  { value: 'suggested', label: 'Needs review' },
+  { value: 'unmatched', label: 'No match found' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'ignored', label: 'Ignored' },
+];
+
+const PAYABLE_STATUSES = ['sent', 'overdue', 'payment_failed', 'uncollectible', 'partially_paid'];
+
+const BankImport = () => {
+  const { user } = useAuth();
+  const [format, setFormat] = useState<'auto' | BankStatementFormat>('auto');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [imports, setImports] = useState<StatementImport[]>([]);
+  const [statusFilter, setStatusFilter] = useState('suggested');
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [matchedNumbers, setMatchedNumbers] = useState<Record<string, string>>({});
+  const [selectedInvoices, setSelectedInvoices] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, statusFilter]);
+
+  const fetchData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const [
+        { data: transactionData, error: transactionError },
+        { data: invoiceData },
+        { data: importData },
+      ] = await Promise.all([
+        supabase
+          .from('bank_transactions')
+          .select('id, booking_date, amount, currency, payer_name, remittance_info, bank_reference, status, match_candidates, invoice_id, matched_at')
+          .eq('vendor_id', user.id)
+          .eq('status', statusFilter)
+          .order('booking_date', { ascending: false })
+          .limit(200),
+        supabase
+          .from('invoices')
+          .select('id, invoice_number, legal_invoice_number, total_amount, credited_amount, amount_paid, vendor_id')
+          .eq('vendor_id', user.id)
+          .in('status', PAYABLE_STATUSES)
+          .not('legal_invoice_number', 'is', null)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('bank_statement_imports')
+          .select('id, filename, format, transaction_count, duplicate_count, matched_count, created_at')
+          .eq('vendor_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(5),
+      ]);
+
+      if (transactionError) throw transactionError;
+
+      const rows = (transactionData || []) as unknown as BankTransaction[];
+      setTransactions(rows);
+      setOpenInvoices(invoiceData || []);
+      setImports(importData || []);
+
+      // Default each transfer to its best candidate
+      setSelectedInvoices(Object.fromEntries(
+        rows
+          .filter((row) => row.match_candidates.length > 0)
+          .map((row) => [row.id, row.match_candidates[0].invoiceId])
+      ));
+
+      const matchedIds = rows.map((row) => row.invoice_id).filter(Boolean);
+      if (matchedIds.length > 0) {
+        const { data: matchedInvoices } = await supabase
+          .from('invoices')
+          .select('id, legal_invoice_number')
+          .in('id', matchedIds);
+
+        setMatchedNumbers(Object.fromEntries(
+          (matchedInvoices || []).map((invoice) => [invoice.id, invoice.legal_invoice_number || ''])
+        ));
+      }
+    } catch (error: any) {
+      console.error('Error fetching bank transactions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load bank transactions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      const text = await file.text();
+      const statementFormat = format === 'auto' ? detectStatementFormat(text) : format;
+
+      if (!statementFormat) {
+        throw new Error('The statement format could not be recognised. Please choose it from the list.');
+      }
+
+      const statement = parseBankStatement(text, statementFormat);
+      if (statement.transactions.length === 0) {
+        throw new Error('The statement contains no incoming transfers');
+      }
+
+      const result = await importBankStatement(file.name, statement);
+
+      toast({
+        title: "Statement imported",
+        description: `${result.imported} new transfers: ${result.matched} matched automatically, ${result.suggested} to review, ${result.unmatched} without a match.`
+          + (result.duplicates > 0 ? ` ${result.duplicates} were already imported.` : ''),
+      });
+
+      if (result.syncErrors.length > 0) {
+        toast({
+          title: "Payment provider sync failed",
+          description: `Some matched invoices could not be updated with their payment provider: ${result.syncErrors.join('; ')}`,
+          variant: "destructive",
+        });
+      }
+
+      setFile(null);
+      fetchData();
+    } catch (error: any) {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleConfirm = async (transaction: BankTransaction) => {
+    const invoiceId = selectedInvoices[transaction.id];
+    if (!invoiceId) return;
+
+    try {
+      setProcessingId(transaction.id);
+      const { data, error } = await supabase.functions.invoke('record-offline-payment', {
+        body: { invoiceId, bankTransactionId: transaction.id }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({
+        title: "Payment recorded",
+        description: data.status === 'paid' ? "The invoice is now paid" : "The invoice is partially paid",
+      });
+
+      if (data.syncError) {
+        toast({
+          title: "Payment provider sync failed",
+          description: `${data.syncError}. You can retry from the invoice.`,
+          variant: "destructive",
+        });
+      }
+
+      fetchData();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleSetIgnored = async (transaction: BankTransaction, ignored: boolean) => {
+    setProcessingId(transaction.id);
+    const { error } = await supabase.rpc('set_bank_transaction_ignored', {
+      transaction_id_param: transaction.id,
+      ignored_param: ignored,
+    });
+    setProcessingId(null);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchData();
+  };
+
+  // Suggested invoices first, then every other open invoice
+  const invoiceOptions = (transaction: BankTransaction) => {
+    const candidateIds = transaction.match_candidates.map((candidate) => candidate.invoiceId);
+    return [
+      ...transaction.match_candidates.map((candidate) => ({
+        id: candidate.invoiceId,
+        label: `${candidate.invoiceNumber} · €${Number(candidate.outstanding).toFixed(2)} due · ${candidate.score}% match`,
+      })),
+      ...openInvoices
+        .filter((invoice) => !candidateIds.includes(invoice.id))
+        .map((invoice) => ({
+          id: invoice.id,
+          label: `${invoice.legal_invoice_number} · €${outstandingBalance(invoice).toFixed(2)} due`,
+        })),
+    ];
+  };
+
+  const isOpen = statusFilter === 'suggested' || statusFilter === 'unmatched';
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-12 h-12 bg-gradient-primary rounded-xl flex items-center justify-center">
+              <Landmark className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Bank Import</h1>
+              <p className="text-muted-foreground">Match bank transfers from your statements to open invoices</p>
+            </div>
+          </div>
+          <Button asChild variant="outline">
+            <Link to="/vendor-dashboard">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Statement</CardTitle>
+            <CardDescription>
+              Transfers quoting an invoice number for the exact balance are recorded straight away. Everything else
+              is listed below for you to check before the payment is recorded.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3 items-end">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as 'auto' | BankStatementFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect automatically</SelectItem>
+                    {Object.entries(STATEMENT_FORMAT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statement-file">Statement file</Label>
+                <Input
+                  id="statement-file"
+                  type="file"
+                  accept=".xml,.sta,.mt940,.940,.txt,.csv"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+              </div>
+              <Button onClick={handleImport} disabled={!file || importing}>
+                {importing
+                  ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  : <Upload className="w-4 h-4 mr-2" />}
+                Import
+              </Button>
+            </div>
+
+            {imports.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Recent imports</p>
+                {imports.map((statementImport) => (
+                  <p key={statementImport.id} className="text-sm text-muted-foreground">
+                    {new Date(statementImport.created_at).toLocaleDateString()} · {statementImport.filename} ·{' '}
+                    {statementImport.transaction_count} transfers, {statementImport.matched_count} matched automatically
+                    {statementImport.duplicate_count > 0 && `, ${statementImport.duplicate_count} already imported`}
+                  </p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Incoming Transfers</CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_FILTERS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            ) : transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No transfers here</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Payer / Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((transaction) => {
+                    const selected = transaction.match_candidates.find(
+                      (candidate) => candidate.invoiceId === selectedInvoices[transaction.id]
+                    );
+
+                    return (
+                      <TableRow key={transaction.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(transaction.booking_date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell className="max-w-sm">
+                          <p className="font-medium">{transaction.payer_name || 'Unknown payer'}</p>
+                          <p className="text-xs text-muted-foreground truncate" title={transaction.remittance_info || ''}>
+                            {transaction.remittance_info || transaction.bank_reference || '—'}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right font-medium whitespace-nowrap">
+                          {transaction.currency === 'EUR' ? '€' : `${transaction.currency} `}
+                          {Number(transaction.amount).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="min-w-[16rem]">
+                          {isOpen ? (
+                            <div className="space-y-1">
+                              <Select
+                                value={selectedInvoices[transaction.id] || ''}
+                                onValueChange={(value) => setSelectedInvoices({ ...selectedInvoices, [transaction.id]: value })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Choose an invoice" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {invoiceOptions(transaction).map((option) => (
+                                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {selected && (
+                                <div className="flex flex-wrap gap-1">
+                                  {selected.reasons.map((reason) => (
+                                    <Badge
+                                      key={reason}
+                                      variant={reason === 'Amount exceeds balance' ? 'destructive' : 'outline'}
+                                      className="text-xs"
+                                    >
+                                      {reason}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span>{transaction.invoice_id ? matchedNumbers[transaction.invoice_id] : '—'}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {isOpen && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => handleConfirm(transaction)}
+                                disabled={!selectedInvoices[transaction.id] || processingId === transaction.id}
+                              >
+                                {processingId === transaction.id
+                                  ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                  : <Check className="w-4 h-4 mr-1" />}
+                                Record
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Not an invoice payment"
+                                onClick={() => handleSetIgnored(transaction, true)}
+                                disabled={processingId === transaction.id}
+                              >
+                                <EyeOff className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                          {statusFilter === 'ignored' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSetIgnored(transaction, false)}
+                              disabled={processingId === transaction.id}
+                            >
+                              <RotateCcw className="w-4 h-4 mr-1" />
+                              Restore
+                            </Button>
+                          )}
+                          {statusFilter === 'matched' && transaction.matched_at && (
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(transaction.matched_at).toLocaleDateString()}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default BankImport;
@@ -12,8 +12,10 @@ import { toast } from '@/hooks/use-toast';
 import { Building, Upload, Plus, Trash2, Save, ArrowLeft, CheckCircle } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { validateInput, sanitizeInput, logSecurityEvent } from '@/utils/security';
+import { validateVatNumber } from '@/utils/vatNumber';
 import BusinessPortfolio from '@/components/BusinessPortfolio';
 import StripeConnectButton from '@/components/invoice/StripeConnectButton';
+import PaymentProviderSettings from '@/components/invoice/PaymentProviderSettings';
 
 interface VendorProfile {
   business_name: string;
@@ -34,6 +36,11 @@ interface VendorProfile {
   licenses_certifications: Array<{ name: string; issuer: string; year: number; etek_registered?: boolean }>;
   portfolio_images: Array<{ url: string; caption: string }>;
   about_business: string;
+  invoice_logo_url: string;
+  invoice_accent_color: string;
+  invoice_footer_text: string;
+  invoice_number_prefix: string;
+  credit_note_number_prefix: string;
 }
 
 const VENDOR_CATEGORIES = [
@@ -54,6 +61,19 @@ const VENDOR_CATEGORIES = [
   'Project Manager'
 ];
 
+const NUMBER_PREFIX_PATTERN = /^[A-Z0-9]{1,10}$/;
+
+// Invoices and credit notes are numbered in separate series, so their prefixes must differ
+const validateNumberPrefixes = (invoicePrefix: string, creditNotePrefix: string): string | null => {
+  if (!NUMBER_PREFIX_PATTERN.test(invoicePrefix) || !NUMBER_PREFIX_PATTERN.test(creditNotePrefix)) {
+    return 'Prefixes must be 1-10 capital letters or digits';
+  }
+  if (invoicePrefix === creditNotePrefix) {
+    return 'Invoices and credit notes need different prefixes';
+  }
+  return null;
+};
+
 const BusinessInformation = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -77,10 +97,18 @@ const BusinessInformation = () => {
     team_size: 1,
     licenses_certifications: [],
     portfolio_images: [],
-    about_business: ''
+    about_business: '',
+    invoice_logo_url: '',
+    invoice_accent_color: '#1e3a8a',
+    invoice_footer_text: '',
+    invoice_number_prefix: 'INV',
+    credit_note_number_prefix: 'CN'
   });
   
+  // VAT ID as last saved, which may predate validation
+  const [savedVatId, setSavedVatId] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
   const [portfolioImages, setPortfolioImages] = useState<{ [category: string]: Array<{ url: string; caption: string; category: string }> }>({});
 
   useEffect(() => {
@@ -103,6 +131,7 @@ const BusinessInformation = () => {
       if (data) {
         const categories = data.vendor_category ? data.vendor_category.split(',') : [];
         setSelectedCategories(categories);
+        setSavedVatId(data.vat_id || '');
         
         setFormData({
           business_name: data.business_name || '',
@@ -122,7 +151,12 @@ const BusinessInformation = () => {
           team_size: data.team_size || 1,
           licenses_certifications: (data.licenses_certifications as Array<{ name: string; issuer: string; year: number }>) || [],
           portfolio_images: (data.portfolio_images as Array<{ url: string; caption: string }>) || [],
-          about_business: data.about_business || ''
+          about_business: data.about_business || '',
+          invoice_logo_url: data.invoice_logo_url || '',
+          invoice_accent_color: data.invoice_accent_color || '#1e3a8a',
+          invoice_footer_text: data.invoice_footer_text || '',
+          invoice_number_prefix: data.invoice_number_prefix || 'INV',
+          credit_note_number_prefix: data.credit_note_number_prefix || 'CN'
         });
         
         // Organize portfolio images by category
@@ -148,6 +182,45 @@ const BusinessInformation = () => {
     setLoading(false);
   };
 
+  const handleLogoUpload = async (file: File) => {
+    if (!user) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type) || file.size > 2 * 1024 * 1024) {
+      toast({
+        title: "Invalid logo",
+        description: "Please upload a PNG or JPEG image of up to 2MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploadingLogo(true);
+    try {
+      const fileExt = file.type === 'image/png' ? 'png' : 'jpg';
+      const fileName = `${user.id}/branding/logo-${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('portfolio-images')
+        .upload(fileName, file);
+
+      if (uploadError) throw uploadError;
+
+      const { data: urlData } = supabase.storage
+        .from('portfolio-images')
+        .getPublicUrl(fileName);
+
+      setFormData(prev => ({ ...prev, invoice_logo_url: urlData.publicUrl }));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload logo",
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent, isDraft = false) => {
     e.preventDefault();
     e.stopPropagation();
@@ -189,12 +262,35 @@ const BusinessInformation = () => {
       }
     }
 
+    // VAT ID is optional, but when given it must be a valid EU VAT number. A VAT ID
+    // saved before validation is kept as it is until the vendor edits it.
+    const vatCheck = validateVatNumber(formData.vat_id);
+    const keepsSavedVatId = !!savedVatId && formData.vat_id.trim() === savedVatId.trim();
+    if (formData.vat_id.trim() && !vatCheck.valid && !keepsSavedVatId) {
+      toast({
+        title: 'Invalid VAT ID',
+        description: vatCheck.error,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const prefixError = validateNumberPrefixes(formData.invoice_number_prefix, formData.credit_note_number_prefix);
+    if (prefixError) {
+      toast({
+        title: 'Invalid numbering prefix',
+        description: prefixError,
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       const updateData = {
         user_id: user?.id,
         business_name: sanitizeInput(formData.business_name),
-        vat_id: sanitizeInput(formData.vat_id),
+        vat_id: !formData.vat_id.trim() ? '' : vatCheck.valid ? vatCheck.normalized : savedVatId,
         business_address: sanitizeInput(formData.business_address),
         location: sanitizeInput(formData.location),
         website: sanitizeInput(formData.website),
@@ -211,6 +307,11 @@ const BusinessInformation = () => {
         licenses_certifications: formData.licenses_certifications,
         portfolio_images: formData.portfolio_images,
         about_business: sanitizeInput(formData.about_business),
+        invoice_logo_url: formData.invoice_logo_url || null,
+        invoice_accent_color: /^#[0-9a-fA-F]{6}$/.test(formData.invoice_accent_color) ? formData.invoice_accent_color : '#1e3a8a',
+        invoice_footer_text: sanitizeInput(formData.invoice_footer_text) || null,
+        invoice_number_prefix: formData.invoice_number_prefix,
+        credit_note_number_prefix: formData.credit_note_number_prefix,
         updated_at: new Date().toISOString()
       };
 
@@ -227,6 +328,8 @@ const BusinessInformation = () => {
         throw error;
       }
 
+      setSavedVatId(updateData.vat_id);
+
       await logSecurityEvent('business_info_saved', 'vendor_profiles', null, {
         is_draft: isDraft
       });
@@ -273,6 +376,8 @@ const BusinessInformation = () => {
     }));
   };
 
+  const vatIdCheck = validateVatNumber(formData.vat_id);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -328,8 +433,17 @@ const BusinessInformation = () => {
                     id="vat_id"
                     value={formData.vat_id}
                     onChange={(e) => setFormData(prev => ({ ...prev, vat_id: e.target.value }))}
-                    placeholder="GB123456789"
+                    placeholder="CY12345678X"
                   />
+                  {formData.vat_id.trim() && !vatIdCheck.valid && (
+                    formData.vat_id.trim() === savedVatId.trim() ? (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Your saved VAT ID is not a valid EU VAT number ({vatIdCheck.error}). Update it before issuing reverse charge invoices.
+                      </p>
+                    ) : (
+                      <p className="text-xs text-destructive mt-1">{vatIdCheck.error}</p>
+                    )
+                  )}
                 </div>
               </div>
               
@@ -520,6 +634,104 @@ const BusinessInformation = () => {
             </CardContent>
           </Card>
 
+          {/* Invoice Branding */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoice Branding</CardTitle>
+              <CardDescription>Logo, colour, footer and numbering used on your invoices and credit notes</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-4">
+                {formData.invoice_logo_url ? (
+                  <img
+                    src={formData.invoice_logo_url}
+                    alt="Invoice logo"
+                    className="h-16 max-w-[160px] object-contain border rounded p-1"
+                  />
+                ) : (
+                  <div className="h-16 w-32 border-2 border-dashed rounded flex items-center justify-center text-xs text-muted-foreground">
+                    No logo
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <label className="inline-flex items-center gap-2 cursor-pointer text-sm border rounded-md px-3 py-2 hover:bg-muted">
+                    <Upload className="w-4 h-4" />
+                    {uploadingLogo ? 'Uploading...' : 'Upload Logo'}
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      className="hidden"
+                      disabled={uploadingLogo}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleLogoUpload(file);
+                      }}
+                    />
+                  </label>
+                  <p className="text-xs text-muted-foreground">PNG or JPEG, max 2MB</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="invoice_accent_color">Accent Colour</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="invoice_accent_color"
+                      type="color"
+                      value={formData.invoice_accent_color}
+                      onChange={(e) => setFormData(prev => ({ ...prev, invoice_accent_color: e.target.value }))}
+                      className="w-16 p-1"
+                    />
+                    <Input
+                      value={formData.invoice_accent_color}
+                      onChange={(e) => setFormData(prev => ({ ...prev, invoice_accent_color: e.target.value }))}
+                      placeholder="#1e3a8a"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="invoice_footer_text">Invoice Footer</Label>
+                  <Input
+                    id="invoice_footer_text"
+                    value={formData.invoice_footer_text}
+                    onChange={(e) => setFormData(prev => ({ ...prev, invoice_footer_text: e.target.value }))}
+                    placeholder="Bank: IBAN CY00 0000 0000 0000 · Registration HE123456"
+                    maxLength={140}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="invoice_number_prefix">Invoice Number Prefix</Label>
+                  <Input
+                    id="invoice_number_prefix"
+                    value={formData.invoice_number_prefix}
+                    onChange={(e) => setFormData(prev => ({ ...prev, invoice_number_prefix: e.target.value.toUpperCase() }))}
+                    placeholder="INV"
+                    maxLength={10}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="credit_note_number_prefix">Credit Note Number Prefix</Label>
+                  <Input
+                    id="credit_note_number_prefix"
+                    value={formData.credit_note_number_prefix}
+                    onChange={(e) => setFormData(prev => ({ ...prev, credit_note_number_prefix: e.target.value.toUpperCase() }))}
+                    placeholder="CN"
+                    maxLength={10}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Documents are numbered {formData.invoice_number_prefix || 'INV'}-{new Date().getFullYear()}-0001 onwards, without gaps,
+                restarting each year. The number is given when the document is issued. A prefix change applies from the next year
+                once you have issued a document this year.
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Business Portfolio */}
           <Card>
             <CardHeader>
@@ -662,7 +874,8 @@ const BusinessInformation = () => {
             onPortfolioUpdate={setPortfolioImages}
           />
 
-          {/* Stripe Connect Payment Setup */}
+          {/* Payment provider and Stripe Connect setup */}
+          <PaymentProviderSettings onSaved={fetchVendorProfile} />
           <StripeConnectButton onComplete={fetchVendorProfile} />
 
           {/* Action Buttons */}
@@ -1,94 +1,275 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { 
-  CreditCard, 
-  DollarSign, 
-  FileText, 
-  Shield, 
-  CheckCircle2,
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  CreditCard,
+  FileText,
   AlertCircle,
-  Clock,
+  CheckCircle2,
   Download,
+  ExternalLink,
+  Receipt,
   Loader2
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { exportToCSV } from '@/utils/csvExport';
+import { outstandingBalance } from '@/utils/invoicePayments';
+import { openInvoiceDocument, openInvoiceReceipt } from '@/utils/invoiceDocuments';
+import {
+  buildAccountStatement,
+  cardPaymentAmount,
+  hasReceipt,
+  isBilled,
+  type StatementCreditNote,
+  type StatementInvoice,
+  type StatementPayment
+} from '@/utils/accountStatement';
+
+interface BillingInvoice extends StatementInvoice {
+  vendor_id: string;
+  quote_id: string;
+  due_date: string | null;
+  credited_amount: number;
+  payment_url: string | null;
+  vendorName: string;
+  projectId: string | null;
+  projectTitle: string;
+}
+
+type InvoiceFilter = 'all' | 'open' | 'paid';
+
+// Card payment settles the full amount, so partially paid invoices are settled by transfer
+const PAYABLE_STATUSES = ['sent', 'overdue', 'payment_failed'];
+const OPEN_STATUSES = [...PAYABLE_STATUSES, 'partially_paid', 'uncollectible'];
+
+const STATUS_BADGES: Record<string, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label: string }> = {
+  sent: { variant: 'default', label: 'Awaiting Payment' },
+  overdue: { variant: 'destructive', label: 'Overdue' },
+  payment_failed: { variant: 'destructive', label: 'Payment Failed' },
+  partially_paid: { variant: 'default', label: 'Partially Paid' },
+  uncollectible: { variant: 'destructive', label: 'Unpaid' },
+  paid: { variant: 'secondary', label: 'Paid' },
+  credited: { variant: 'outline', label: 'Credited' },
+  partially_refunded: { variant: 'outline', label: 'Partially Refunded' },
+  refunded: { variant: 'outline', label: 'Refunded' },
+  disputed: { variant: 'destructive', label: 'Disputed' },
+  dispute_lost: { variant: 'destructive', label: 'Dispute Lost' },
+};
+
+const formatAmount = (amount: number) => `€${amount.toFixed(2)}`;
+
+const isOverdue = (invoice: BillingInvoice) =>
+  invoice.status === 'overdue' ||
+  (OPEN_STATUSES.includes(invoice.status) && !!invoice.due_date && new Date(invoice.due_date) < new Date(new Date().toDateString()));
 
 const PaymentBilling = () => {
-  const [subscriptionStatus, setSubscriptionStatus] = useState<any>(null);
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [invoices, setInvoices] = useState<BillingInvoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<StatementCreditNote[]>([]);
+  const [payments, setPayments] = useState<StatementPayment[]>([]);
   const [loading, setLoading] = useState(true);
-  const [upgrading, setUpgrading] = useState<string | null>(null);
+  const [filter, setFilter] = useState<InvoiceFilter>('all');
+  const [statementProjectId, setStatementProjectId] = useState<string>('');
+  const [openingId, setOpeningId] = useState<string | null>(null);
 
   useEffect(() => {
-    checkSubscriptionStatus();
-  }, []);
+    fetchBilling();
+  }, [user]);
 
-  const checkSubscriptionStatus = async () => {
-    try {
-      const { data, error } = await supabase.functions.invoke('check-subscription');
-      if (error) throw error;
-      setSubscriptionStatus(data);
-    } catch (error) {
-      console.error('Error checking subscription:', error);
+  // Payment pages return here with the outcome
+  useEffect(() => {
+    const outcome = searchParams.get('payment');
+    if (!outcome) return;
+
+    if (outcome === 'complete') {
       toast({
-        title: 'Error',
-        description: 'Failed to check subscription status',
+        title: 'Payment received',
+        description: 'Your invoice will show as paid once the payment has been confirmed.',
+      });
+    } else {
+      toast({
+        title: 'Payment not completed',
+        description: 'The payment did not go through. You can try again from the invoice below.',
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
     }
-  };
+    setSearchParams({}, { replace: true });
+  }, [searchParams]);
 
-  const handleUpgrade = async (planType: 'pro' | 'enterprise') => {
-    setUpgrading(planType);
+  const fetchBilling = async () => {
+    if (!user) return;
+
+    setLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('create-checkout', {
-        body: { planType }
-      });
-      
+      const { data: invoiceRows, error } = await supabase
+        .from('invoices')
+        .select('id, vendor_id, quote_id, invoice_number, legal_invoice_number, status, total_amount, amount_paid, credited_amount, refunded_amount, issued_at, created_at, due_date, paid_at, refunded_at, payment_url')
+        .eq('client_id', user.id)
+        .not('status', 'in', '(draft,cancelled,voided)')
+        .order('created_at', { ascending: false });
+
       if (error) throw error;
-      
-      // Open checkout in new tab
-      window.open(data.url, '_blank');
-    } catch (error) {
-      console.error('Error creating checkout:', error);
+
+      const invoiceIds = (invoiceRows || []).map((invoice) => invoice.id);
+      const quoteIds = [...new Set((invoiceRows || []).map((invoice) => invoice.quote_id))];
+      const vendorIds = [...new Set((invoiceRows || []).map((invoice) => invoice.vendor_id))];
+
+      const [quotesResult, creditNotesResult, paymentsResult, vendorsResult] = await Promise.all([
+        supabase.from('quotes').select('id, quote_request_id').in('id', quoteIds),
+        supabase
+          .from('credit_notes')
+          .select('id, invoice_id, credit_note_number, status, total_amount, issued_at')
+          .in('invoice_id', invoiceIds)
+          .eq('status', 'issued'),
+        supabase
+          .from('invoice_payments')
+          .select('id, invoice_id, amount, method, reference, paid_on')
+          .in('invoice_id', invoiceIds),
+        supabase.rpc('get_public_vendor_directory').then(result => ({
+          data: result.data?.filter(v => vendorIds.includes(v.user_id)) || [],
+          error: result.error
+        }))
+      ]);
+
+      if (creditNotesResult.error) throw creditNotesResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+
+      // Invoices reach their project through the accepted quote
+      const requestIds = [...new Set((quotesResult.data || []).map((quote) => quote.quote_request_id))];
+      const { data: requests } = await supabase
+        .from('quote_requests')
+        .select('id, project_id')
+        .in('id', requestIds);
+
+      const projectIds = [...new Set((requests || []).map((request) => request.project_id))];
+      const { data: projects } = await supabase
+        .from('projects')
+        .select('id, title')
+        .in('id', projectIds);
+
+      const requestByQuote = new Map((quotesResult.data || []).map((quote) => [quote.id, quote.quote_request_id]));
+      const projectByRequest = new Map((requests || []).map((request) => [request.id, request.project_id]));
+      const projectTitles = new Map((projects || []).map((project) => [project.id, project.title]));
+      const vendorNames = new Map(vendorsResult.data.map((vendor) => [vendor.user_id, vendor.business_name]));
+
+      setInvoices((invoiceRows || []).map((invoice) => {
+        const projectId = projectByRequest.get(requestByQuote.get(invoice.quote_id)) || null;
+        return {
+          ...invoice,
+          vendorName: vendorNames.get(invoice.vendor_id) || 'Vendor',
+          projectId,
+          projectTitle: (projectId && projectTitles.get(projectId)) || 'Other work',
+        };
+      }));
+      setCreditNotes(creditNotesResult.data || []);
+      setPayments(paymentsResult.data || []);
+    } catch (error: any) {
+      console.error('Error loading billing:', error);
       toast({
         title: 'Error',
-        description: 'Failed to start checkout process',
+        description: 'Failed to load your invoices',
         variant: 'destructive',
       });
     } finally {
-      setUpgrading(null);
+      setLoading(false);
     }
   };
 
-  const handleManageSubscription = async () => {
+  const projects = useMemo(() => {
+    const byId = new Map<string, string>();
+    invoices.forEach((invoice) => byId.set(invoice.projectId || 'none', invoice.projectTitle));
+    return Array.from(byId.entries()).map(([id, title]) => ({ id, title }));
+  }, [invoices]);
+
+  useEffect(() => {
+    if (!statementProjectId && projects.length > 0) {
+      setStatementProjectId(projects[0].id);
+    }
+  }, [projects]);
+
+  const summary = useMemo(() => {
+    const open = invoices.filter((invoice) => OPEN_STATUSES.includes(invoice.status));
+    const paidByCard = invoices.reduce((sum, invoice) => sum + cardPaymentAmount(invoice, creditNotes), 0);
+    const paidOffline = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const refunded = invoices.reduce((sum, invoice) => sum + Number(invoice.refunded_amount || 0), 0);
+
+    return {
+      outstanding: open.reduce((sum, invoice) => sum + outstandingBalance(invoice), 0),
+      overdue: open.filter(isOverdue).reduce((sum, invoice) => sum + outstandingBalance(invoice), 0),
+      overdueCount: open.filter(isOverdue).length,
+      paid: paidByCard + paidOffline - refunded,
+    };
+  }, [invoices, creditNotes, payments]);
+
+  const filteredInvoices = invoices.filter((invoice) => {
+    if (filter === 'open') return OPEN_STATUSES.includes(invoice.status);
+    if (filter === 'paid') return !OPEN_STATUSES.includes(invoice.status);
+    return true;
+  });
+
+  const statement = useMemo(() => {
+    const projectInvoices = invoices.filter(
+      (invoice) => isBilled(invoice) && (invoice.projectId || 'none') === statementProjectId
+    );
+    const ids = new Set(projectInvoices.map((invoice) => invoice.id));
+    return buildAccountStatement(
+      projectInvoices,
+      creditNotes.filter((note) => ids.has(note.invoice_id)),
+      payments.filter((payment) => ids.has(payment.invoice_id))
+    );
+  }, [invoices, creditNotes, payments, statementProjectId]);
+
+  const handleOpen = async (invoiceId: string, kind: 'invoice' | 'receipt') => {
+    setOpeningId(`${kind}:${invoiceId}`);
     try {
-      const { data, error } = await supabase.functions.invoke('customer-portal');
-      if (error) throw error;
-      window.open(data.url, '_blank');
-    } catch (error) {
-      console.error('Error opening customer portal:', error);
+      if (kind === 'invoice') {
+        await openInvoiceDocument({ invoiceId });
+      } else {
+        await openInvoiceReceipt(invoiceId);
+      }
+    } catch (error: any) {
+      console.error(`Error opening ${kind}:`, error);
       toast({
         title: 'Error',
-        description: 'Failed to open subscription management',
+        description: error.message || `Failed to open the ${kind}`,
         variant: 'destructive',
       });
+    } finally {
+      setOpeningId(null);
     }
   };
 
-  const getCurrentPlanName = () => {
-    if (!subscriptionStatus) return 'Free Plan';
-    if (!subscriptionStatus.subscribed) return 'Free Plan';
-    return subscriptionStatus.plan_type === 'pro' ? 'Pro Plan' : 'Enterprise Plan';
+  const handleExportStatement = () => {
+    const project = projects.find((p) => p.id === statementProjectId);
+    exportToCSV(
+      statement.map((entry) => ({
+        date: entry.date.slice(0, 10),
+        description: entry.description,
+        debit: entry.debit ? entry.debit.toFixed(2) : '',
+        credit: entry.credit ? entry.credit.toFixed(2) : '',
+        balance: entry.balance.toFixed(2),
+      })),
+      `statement_${(project?.title || 'project').replace(/[^a-z0-9]+/gi, '_').toLowerCase()}`,
+      [
+        { key: 'date', header: 'Date' },
+        { key: 'description', header: 'Description' },
+        { key: 'debit', header: 'Charged' },
+        { key: 'credit', header: 'Paid / Credited' },
+        { key: 'balance', header: 'Balance' },
+      ]
+    );
   };
 
-  const getCurrentPlanPrice = () => {
-    if (!subscriptionStatus?.subscribed) return '$0';
-    return subscriptionStatus.plan_type === 'pro' ? '$29' : '$99';
+  const getStatusBadge = (status: string) => {
+    const config = STATUS_BADGES[status] || { variant: 'outline' as const, label: status };
+    return <Badge variant={config.variant}>{config.label}</Badge>;
   };
 
   if (loading) {
@@ -101,268 +282,238 @@ const PaymentBilling = () => {
 
   return (
     <div className="min-h-screen bg-gradient-hero">
-      <div className="container max-w-4xl mx-auto py-8 px-4">
+      <div className="container max-w-6xl mx-auto py-8 px-4">
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
           <div className="flex items-center space-x-4">
             <CreditCard className="w-8 h-8 text-primary" />
             <div>
               <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-                Payment & Billing
+                Billing
               </h1>
               <p className="text-muted-foreground mt-1">
-                Manage your payments and billing information
+                Invoices from your vendors, payments and receipts
               </p>
             </div>
           </div>
         </div>
 
         <div className="space-y-6">
-          {/* Current Plan */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Shield className="w-5 h-5 text-primary" />
-                Current Plan
-              </CardTitle>
-              <CardDescription>
-                Your current subscription and usage details
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-between p-4 bg-primary/5 rounded-lg">
-                <div>
-                  <h3 className="font-semibold text-lg">{getCurrentPlanName()}</h3>
-                  <p className="text-muted-foreground">
-                    {subscriptionStatus?.subscribed 
-                      ? 'Your active subscription' 
-                      : 'Perfect for getting started'
-                    }
-                  </p>
-                  <div className="flex items-center gap-4 mt-2 text-sm">
-                    <span className="flex items-center gap-1">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      {subscriptionStatus?.subscribed 
-                        ? 'Unlimited Quote Requests' 
-                        : '5 Quote Requests'
-                      }
-                    </span>
-                    <span className="flex items-center gap-1">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      {subscriptionStatus?.subscribed 
-                        ? 'Priority Support' 
-                        : 'Basic Support'
-                      }
-                    </span>
-                  </div>
-                  {subscriptionStatus?.subscription_end && (
-                    <p className="text-sm text-muted-foreground mt-2">
-                      Renews on {new Date(subscriptionStatus.subscription_end).toLocaleDateString()}
-                    </p>
-                  )}
-                </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold">{getCurrentPlanPrice()}</div>
-                  <div className="text-sm text-muted-foreground">per month</div>
-                </div>
-              </div>
-              
-              <div className="mt-4 flex gap-2">
-                {!subscriptionStatus?.subscribed ? (
-                  <Button className="bg-gradient-primary">
-                    Upgrade Plan
-                  </Button>
-                ) : (
-                  <Button onClick={handleManageSubscription} variant="outline">
-                    Manage Subscription
-                  </Button>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Payment Methods */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <CreditCard className="w-5 h-5 text-primary" />
-                Payment Methods
-              </CardTitle>
-              <CardDescription>
-                Manage your payment methods and billing information
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8">
-                <CreditCard className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="font-medium mb-2">No payment methods added</h3>
-                <p className="text-muted-foreground mb-4">
-                  Add a payment method to upgrade your plan and access premium features
-                </p>
-                <Button variant="outline">
-                  Add Payment Method
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          {/* Summary */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Outstanding</CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(summary.outstanding)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4 text-destructive" />
+                  Overdue
+                </CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(summary.overdue)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                {summary.overdueCount === 1 ? '1 invoice' : `${summary.overdueCount} invoices`}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-1">
+                  <CheckCircle2 className="w-4 h-4 text-green-500" />
+                  Paid to date
+                </CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(summary.paid)}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
 
-          {/* Billing History */}
+          {/* Invoices */}
           <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="w-5 h-5 text-primary" />
-                Billing History
-              </CardTitle>
-              <CardDescription>
-                View and download your past invoices
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8">
-                <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="font-medium mb-2">No billing history</h3>
-                <p className="text-muted-foreground">
-                  Your billing history will appear here once you make your first payment
-                </p>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Invoices
+                </CardTitle>
+                <CardDescription>
+                  Every invoice addressed to you, across all vendors and projects
+                </CardDescription>
               </div>
-            </CardContent>
-          </Card>
-
-          {/* Usage Overview */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <DollarSign className="w-5 h-5 text-primary" />
-                Usage Overview
-              </CardTitle>
-              <CardDescription>
-                Track your current usage and limits
-              </CardDescription>
+              <Select value={filter} onValueChange={(value) => setFilter(value as InvoiceFilter)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All invoices</SelectItem>
+                  <SelectItem value="open">To pay</SelectItem>
+                  <SelectItem value="paid">Settled</SelectItem>
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between p-4 border rounded-lg">
-                  <div className="flex items-center gap-3">
-                    <div className="w-2 h-2 bg-primary rounded-full"></div>
-                    <div>
-                      <p className="font-medium">Quote Requests</p>
-                      <p className="text-sm text-muted-foreground">Current billing period</p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-semibold">0 / 5</p>
-                    <Badge variant="secondary" className="text-xs">
-                      Free Plan
-                    </Badge>
-                  </div>
+              {filteredInvoices.length === 0 ? (
+                <div className="text-center py-8">
+                  <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="font-medium mb-2">No invoices</h3>
+                  <p className="text-muted-foreground">
+                    Invoices from your vendors will appear here once they are issued
+                  </p>
                 </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Amount Due</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredInvoices.map((invoice) => {
+                      const due = OPEN_STATUSES.includes(invoice.status) ? outstandingBalance(invoice) : 0;
+                      const canPay = PAYABLE_STATUSES.includes(invoice.status) && !!invoice.payment_url && due > 0;
 
-                <div className="flex items-center justify-between p-4 border rounded-lg">
-                  <div className="flex items-center gap-3">
-                    <div className="w-2 h-2 bg-accent rounded-full"></div>
-                    <div>
-                      <p className="font-medium">Messages Sent</p>
-                      <p className="text-sm text-muted-foreground">Current billing period</p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-semibold">0 / Unlimited</p>
-                    <Badge variant="secondary" className="text-xs">
-                      Free Plan
-                    </Badge>
-                  </div>
-                </div>
-              </div>
+                      return (
+                        <TableRow key={invoice.id}>
+                          <TableCell className="whitespace-nowrap">
+                            <p className="font-medium">{invoice.legal_invoice_number || invoice.invoice_number}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(invoice.issued_at || invoice.created_at).toLocaleDateString()}
+                            </p>
+                          </TableCell>
+                          <TableCell>{invoice.vendorName}</TableCell>
+                          <TableCell>{invoice.projectTitle}</TableCell>
+                          <TableCell>{getStatusBadge(isOverdue(invoice) ? 'overdue' : invoice.status)}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {invoice.due_date ? new Date(invoice.due_date).toLocaleDateString() : '—'}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {formatAmount(Number(invoice.total_amount))}
+                          </TableCell>
+                          <TableCell className="text-right font-medium whitespace-nowrap">
+                            {formatAmount(due)}
+                            {invoice.status === 'partially_paid' && (
+                              <p className="text-xs font-normal text-muted-foreground">By bank transfer</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-2">
+                              {canPay && (
+                                <Button size="sm" asChild>
+                                  <a href={invoice.payment_url} target="_blank" rel="noopener noreferrer">
+                                    <ExternalLink className="w-4 h-4 mr-2" />
+                                    Pay Now
+                                  </a>
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleOpen(invoice.id, 'invoice')}
+                                disabled={openingId === `invoice:${invoice.id}`}
+                                title="Download invoice"
+                              >
+                                {openingId === `invoice:${invoice.id}`
+                                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                                  : <Download className="w-4 h-4" />}
+                              </Button>
+                              {hasReceipt(invoice, creditNotes, payments) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleOpen(invoice.id, 'receipt')}
+                                  disabled={openingId === `receipt:${invoice.id}`}
+                                  title="Download receipt"
+                                >
+                                  {openingId === `receipt:${invoice.id}`
+                                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                                    : <Receipt className="w-4 h-4" />}
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
           </Card>
 
-          {/* Upgrade Options */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Upgrade for More Features</CardTitle>
-              <CardDescription>
-                Get access to premium features and unlimited usage
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid md:grid-cols-2 gap-4">
-                <div className="p-4 border rounded-lg">
-                  <h3 className="font-semibold mb-2">Pro Plan</h3>
-                  <div className="text-2xl font-bold mb-2">$29<span className="text-sm font-normal">/month</span></div>
-                  <ul className="space-y-2 text-sm">
-                    <li className="flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      Unlimited Quote Requests
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      Priority Support
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      Advanced Analytics
-                    </li>
-                  </ul>
-                  <Button 
-                    className="w-full mt-4 bg-gradient-primary"
-                    onClick={() => handleUpgrade('pro')}
-                    disabled={upgrading === 'pro' || subscriptionStatus?.plan_type === 'pro'}
-                  >
-                    {upgrading === 'pro' ? (
-                      <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Processing...
-                      </>
-                    ) : subscriptionStatus?.plan_type === 'pro' ? (
-                      'Current Plan'
-                    ) : (
-                      'Upgrade to Pro'
-                    )}
-                  </Button>
+          {/* Account statement */}
+          {projects.length > 0 && (
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Account Statement</CardTitle>
+                  <CardDescription>
+                    Everything charged, credited and paid on a project, with the running balance
+                  </CardDescription>
                 </div>
-
-                <div className="p-4 border rounded-lg">
-                  <h3 className="font-semibold mb-2">Enterprise</h3>
-                  <div className="text-2xl font-bold mb-2">$99<span className="text-sm font-normal">/month</span></div>
-                  <ul className="space-y-2 text-sm">
-                    <li className="flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      Everything in Pro
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      Dedicated Account Manager
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                      Custom Integrations
-                    </li>
-                  </ul>
-                  <Button 
-                    variant="outline" 
-                    className="w-full mt-4"
-                    onClick={() => handleUpgrade('enterprise')}
-                    disabled={upgrading === 'enterprise' || subscriptionStatus?.plan_type === 'enterprise'}
-                  >
-                    {upgrading === 'enterprise' ? (
-                      <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Processing...
-                      </>
-                    ) : subscriptionStatus?.plan_type === 'enterprise' ? (
-                      'Current Plan'
-                    ) : (
-                      'Upgrade to Enterprise'
-                    )}
+                <div className="flex gap-2">
+                  <Select value={statementProjectId} onValueChange={setStatementProjectId}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="Select a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>{project.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleExportStatement} disabled={statement.length === 0}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
                   </Button>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Charged</TableHead>
+                      <TableHead className="text-right">Paid / Credited</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statement.map((entry, index) => (
+                      <TableRow key={`${entry.kind}-${entry.invoiceId}-${index}`}>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(entry.date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {entry.debit ? formatAmount(entry.debit) : ''}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {entry.credit ? formatAmount(entry.credit) : ''}
+                        </TableCell>
+                        <TableCell className="text-right font-medium whitespace-nowrap">
+                          {formatAmount(entry.balance)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default PaymentBilling;
\ No newline at end of file
+export default PaymentBilling;
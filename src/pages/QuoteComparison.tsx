@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowDown, ArrowUp, Columns3, Download, FileText, Loader2, Star } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import QuoteDetailsModal from '@/components/QuoteDetailsModal';
+import {
+  downloadQuoteComparisonPdf,
+  fetchQuoteComparison,
+  type ComparedQuote,
+  type Outlier,
+  type QuoteComparison as Comparison
+} from '@/utils/quoteComparison';
+
+interface MatrixRow {
+  label: string;
+  value: (quote: ComparedQuote, index: number) => React.ReactNode;
+  outlier?: (quote: ComparedQuote) => Outlier | undefined;
+}
+
+const formatAmount = (amount: number) =>
+  `€${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const OutlierCell = ({ outlier, children }: { outlier?: Outlier; children: React.ReactNode }) => {
+  if (!outlier) return <>{children}</>;
+  const Icon = outlier === 'high' ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded px-1.5 py-0.5 font-medium ${
+        outlier === 'high' ? 'bg-destructive/10 text-destructive' : 'bg-green-500/10 text-green-700'
+      }`}
+      title={outlier === 'high' ? 'Well above the other quotes' : 'Well below the other quotes'}
+    >
+      <Icon className="w-3 h-3" />
+      {children}
+    </span>
+  );
+};
+
+const QuoteComparison = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const serviceGroup = searchParams.get('group') || undefined;
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [openQuoteRequestId, setOpenQuoteRequestId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadComparison();
+  }, [projectId, serviceGroup]);
+
+  const loadComparison = async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    try {
+      setComparison(await fetchQuoteComparison(projectId, serviceGroup));
+    } catch (error: any) {
+      console.error('Error loading quote comparison:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load the quote comparison',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!comparison) return;
+
+    setExporting(true);
+    try {
+      const name = `${comparison.projectTitle}-${comparison.serviceGroup}`.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+      await downloadQuoteComparisonPdf(comparison.projectId, comparison.serviceGroup, `quote-comparison-${name}.pdf`);
+    } catch (error: any) {
+      console.error('Error exporting quote comparison:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export the comparison',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const sections = (data: Comparison): [string, MatrixRow[]][] => [
+    ['Price & timing', [
+      {
+        label: 'Total (excl. VAT)',
+        value: (q) => <span className="font-semibold">{formatAmount(q.totalAmount)}</span>,
+        outlier: (q) => q.outliers.total
+      },
+      {
+        label: 'Duration',
+        value: (q) => (q.durationWeeks !== null ? `${q.durationWeeks} weeks` : '—'),
+        outlier: (q) => q.outliers.duration
+      },
+      { label: 'Start date', value: (q) => formatDate(q.startDate) },
+      {
+        label: 'Valid until',
+        value: (q) => (
+          <span className={q.expired ? 'text-destructive' : ''}>
+            {formatDate(q.validityDate)}{q.expired && ' (expired)'}
+          </span>
+        )
+      },
+    ]],
+    ['Cost breakdown', [
+      ...data.categories.map((category): MatrixRow => ({
+        label: category,
+        value: (q) => (q.categories[category] !== undefined ? formatAmount(q.categories[category]) : '—'),
+        outlier: (q) => q.outliers[`category:${category}`]
+      })),
+      { label: 'Materials', value: (q) => formatAmount(q.materialsAmount) },
+      { label: 'Labour', value: (q) => formatAmount(q.labourAmount) },
+    ]],
+    ['Payment terms', [
+      { label: 'Deposit', value: (q) => (q.depositPercentage !== null ? `${q.depositPercentage}%` : '—') },
+      { label: 'Schedule', value: (q) => q.paymentSchedule || '—' },
+      {
+        label: 'Milestones',
+        value: (q) => q.milestones.length > 0
+          ? (
+            <ul className="space-y-0.5">
+              {q.milestones.map((milestone, i) => (
+                <li key={i}>{milestone.name} · {milestone.percentage}%</li>
+              ))}
+            </ul>
+          )
+          : '—'
+      },
+      { label: 'Payment days', value: (q) => (q.netDays !== null ? `Net ${q.netDays}` : '—') },
+      { label: 'Retention', value: (q) => `${q.retentionPercentage}% for ${q.defectsLiabilityMonths} months` },
+    ]],
+    ['Cover', [
+      { label: 'Insurance', value: (q) => q.insurance },
+    ]],
+    ['Scope differences', data.scopeDifferences.map((difference): MatrixRow => ({
+      label: difference.item,
+      value: (_q, index) => {
+        const mark = difference.marks[index];
+        if (mark === 'included') return <Badge variant="secondary">Included</Badge>;
+        if (mark === 'excluded') return <Badge variant="destructive">Excluded</Badge>;
+        return <span className="text-muted-foreground">Not mentioned</span>;
+      }
+    }))],
+  ];
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto py-8 px-4">
+        {/* Header */}
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Columns3 className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+                Compare Quotes
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                {comparison?.projectTitle || 'Project'}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link to="/tickets">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Tickets
+              </Link>
+            </Button>
+            <Button onClick={handleExport} disabled={exporting || !comparison || comparison.quotes.length === 0}>
+              {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export PDF
+            </Button>
+          </div>
+        </div>
+
+        {comparison && (
+          <Card>
+            <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>{comparison.serviceGroup}</CardTitle>
+                <CardDescription>
+                  Current version of every quote, lowest total first. Values more than 30% above or below the
+                  median of the quotes are highlighted.
+                </CardDescription>
+              </div>
+              {comparison.serviceGroups.length > 1 && (
+                <Select
+                  value={comparison.serviceGroup}
+                  onValueChange={(value) => setSearchParams({ group: value })}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {comparison.serviceGroups.map((group) => (
+                      <SelectItem key={group} value={group}>{group}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </CardHeader>
+            <CardContent>
+              {comparison.quotes.length === 0 ? (
+                <div className="text-center py-8">
+                  <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="font-medium mb-2">No quotes yet</h3>
+                  <p className="text-muted-foreground">
+                    Quotes will appear here side by side as vendors send them
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-[12rem]" />
+                        {comparison.quotes.map((quote) => (
+                          <TableHead key={quote.quoteRequestId} className="min-w-[12rem] align-top py-3">
+                            <div className="space-y-1">
+                              <p className="font-semibold text-foreground">{quote.vendorName}</p>
+                              <div className="flex items-center gap-2 text-xs">
+                                {quote.vendorRating !== null && (
+                                  <span className="flex items-center gap-0.5">
+                                    <Star className="w-3 h-3 fill-primary text-primary" />
+                                    {Number(quote.vendorRating).toFixed(1)}
+                                  </span>
+                                )}
+                                <span>v{quote.version}</span>
+                                {quote.requestStatus === 'accepted' && <Badge>Accepted</Badge>}
+                              </div>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7"
+                                onClick={() => setOpenQuoteRequestId(quote.quoteRequestId)}
+                              >
+                                View Quote
+                              </Button>
+                            </div>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sections(comparison).map(([section, rows]) => rows.length > 0 && (
+                        <React.Fragment key={section}>
+                          <TableRow className="bg-muted/50 hover:bg-muted/50">
+                            <TableCell colSpan={comparison.quotes.length + 1} className="font-semibold py-2">
+                              {section}
+                            </TableCell>
+                          </TableRow>
+                          {rows.map((row) => (
+                            <TableRow key={`${section}-${row.label}`}>
+                              <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                              {comparison.quotes.map((quote, index) => (
+                                <TableCell key={quote.quoteRequestId} className="align-top">
+                                  <OutlierCell outlier={row.outlier?.(quote)}>
+                                    {row.value(quote, index)}
+                                  </OutlierCell>
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </React.Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {openQuoteRequestId && (
+        <QuoteDetailsModal
+          isOpen={!!openQuoteRequestId}
+          onClose={() => setOpenQuoteRequestId(null)}
+          quoteRequestId={openQuoteRequestId}
+          onQuoteAction={() => {
+            setOpenQuoteRequestId(null);
+            loadComparison();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuoteComparison;
@@ -0,0 +1,594 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Library, ArrowLeft, Loader2, Plus, Pencil, Archive, ArchiveRestore, History, RotateCcw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import QuoteTemplateEditorModal from '@/components/QuoteTemplateEditorModal';
+import {
+  PRICE_UNITS,
+  areaSourceLabel,
+  fetchCurrentTemplateVersion,
+  fetchPriceBook,
+  fetchQuoteTemplates,
+  fetchTemplateVersions,
+  lineAmount,
+  saveQuoteTemplate,
+  type PriceBookItem,
+  type PriceUnit,
+  type QuoteTemplate,
+  type QuoteTemplateContent,
+  type QuoteTemplateVersion,
+} from '@/utils/quoteTemplates';
+import type { QuoteCostType } from '@/utils/invoiceStages';
+
+const emptyRate = {
+  name: '',
+  description: '',
+  unit: 'm2' as PriceUnit,
+  unitRate: '',
+  costType: 'labour' as QuoteCostType,
+};
+
+const contentTotal = (content: QuoteTemplateContent) =>
+  content.lines.reduce((sum, line) => sum + lineAmount(line), 0);
+
+const QuoteLibrary = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [priceBook, setPriceBook] = useState<PriceBookItem[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<QuoteTemplate | null>(null);
+  const [editingContent, setEditingContent] = useState<QuoteTemplateContent | null>(null);
+
+  const [historyTemplate, setHistoryTemplate] = useState<QuoteTemplate | null>(null);
+  const [versions, setVersions] = useState<QuoteTemplateVersion[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const [rateForm, setRateForm] = useState(emptyRate);
+  const [editingRateId, setEditingRateId] = useState<string | null>(null);
+  const [savingRate, setSavingRate] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, showArchived]);
+
+  const fetchData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [templateData, priceBookData] = await Promise.all([
+        fetchQuoteTemplates(user.id),
+        fetchPriceBook(user.id, showArchived),
+      ]);
+      setTemplates(templateData);
+      setPriceBook(priceBookData);
+    } catch (error: any) {
+      console.error('Error fetching quote library:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your quote library",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = async (template: QuoteTemplate | null) => {
+    try {
+      setEditingContent(template ? (await fetchCurrentTemplateVersion(template)).content : null);
+      setEditingTemplate(template);
+      setEditorOpen(true);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openHistory = async (template: QuoteTemplate) => {
+    try {
+      setVersions(await fetchTemplateVersions(template.id));
+      setHistoryTemplate(template);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Restoring saves the old content as the next version, so history is never rewritten
+  const handleRestore = async (version: QuoteTemplateVersion) => {
+    if (!historyTemplate) return;
+
+    try {
+      setProcessingId(version.id);
+      await saveQuoteTemplate(
+        historyTemplate.id,
+        historyTemplate.name,
+        historyTemplate.description || '',
+        version.content,
+        `Restored version ${version.version}`
+      );
+
+      toast({
+        title: "Version restored",
+        description: `Version ${version.version} is now version ${historyTemplate.current_version + 1}.`,
+      });
+
+      setHistoryTemplate(null);
+      fetchData();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleArchiveTemplate = async (template: QuoteTemplate) => {
+    setProcessingId(template.id);
+    const { error } = await supabase
+      .from('quote_templates')
+      .update({ archived_at: new Date().toISOString() })
+      .eq('id', template.id);
+    setProcessingId(null);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Template archived",
+      description: `${template.name} is no longer offered when sending quotes.`,
+    });
+    fetchData();
+  };
+
+  const handleSaveRate = async () => {
+    if (!user) return;
+
+    const unitRate = parseFloat(rateForm.unitRate);
+    if (!rateForm.name.trim() || isNaN(unitRate) || unitRate < 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a name and a valid rate",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const values = {
+      name: rateForm.name.trim(),
+      description: rateForm.description.trim() || null,
+      unit: rateForm.unit,
+      unit_rate: unitRate,
+      cost_type: rateForm.costType,
+    };
+
+    setSavingRate(true);
+    const { error } = editingRateId
+      ? await supabase.from('vendor_price_book_items').update(values).eq('id', editingRateId)
+      : await supabase.from('vendor_price_book_items').insert({ ...values, vendor_id: user.id });
+    setSavingRate(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRateForm(emptyRate);
+    setEditingRateId(null);
+    fetchData();
+  };
+
+  const handleEditRate = (item: PriceBookItem) => {
+    setEditingRateId(item.id);
+    setRateForm({
+      name: item.name,
+      description: item.description || '',
+      unit: item.unit,
+      unitRate: String(item.unit_rate),
+      costType: item.cost_type,
+    });
+  };
+
+  const handleSetRateArchived = async (item: PriceBookItem, archived: boolean) => {
+    setProcessingId(item.id);
+    const { error } = await supabase
+      .from('vendor_price_book_items')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', item.id);
+    setProcessingId(null);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchData();
+  };
+
+  const activeRates = priceBook.filter((item) => !item.archived_at);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-12 h-12 bg-gradient-primary rounded-xl flex items-center justify-center">
+              <Library className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Quote Library</h1>
+              <p className="text-muted-foreground">Reusable quote templates and the unit rates they are priced from</p>
+            </div>
+          </div>
+          <Button asChild variant="outline">
+            <Link to="/vendor-dashboard">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <Tabs defaultValue="templates">
+            <TabsList>
+              <TabsTrigger value="templates">Templates</TabsTrigger>
+              <TabsTrigger value="price-book">Price Book</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="templates">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <div>
+                    <CardTitle>Quote Templates</CardTitle>
+                    <CardDescription>
+                      Start a quote from a template when sending it. Lines priced per m² scale with the room sizes the
+                      client gave for their project.
+                    </CardDescription>
+                  </div>
+                  <Button onClick={() => openEditor(null)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Template
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  {templates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                      No templates yet. Create one for the jobs you quote most often.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Template</TableHead>
+                          <TableHead>Version</TableHead>
+                          <TableHead>Updated</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {templates.map((template) => (
+                          <TableRow key={template.id}>
+                            <TableCell>
+                              <p className="font-medium">{template.name}</p>
+                              {template.description && (
+                                <p className="text-xs text-muted-foreground">{template.description}</p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">v{template.current_version}</Badge>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {new Date(template.updated_at).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell className="text-right space-x-2 whitespace-nowrap">
+                              <Button size="sm" variant="outline" onClick={() => openEditor(template)}>
+                                <Pencil className="w-4 h-4 mr-1" />
+                                Edit
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => openHistory(template)}>
+                                <History className="w-4 h-4 mr-1" />
+                                History
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleArchiveTemplate(template)}
+                                disabled={processingId === template.id}
+                              >
+                                <Archive className="w-4 h-4 mr-1" />
+                                Archive
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="price-book" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{editingRateId ? 'Edit Rate' : 'Add Rate'}</CardTitle>
+                  <CardDescription>
+                    Changing a rate affects lines added from now on. Templates keep the rate they were saved with
+                    until you edit them.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-6 items-end">
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="rate-name">Name</Label>
+                      <Input
+                        id="rate-name"
+                        placeholder="e.g., Wall tiling"
+                        value={rateForm.name}
+                        onChange={(e) => setRateForm((prev) => ({ ...prev, name: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Unit</Label>
+                      <Select
+                        value={rateForm.unit}
+                        onValueChange={(value) => setRateForm((prev) => ({ ...prev, unit: value as PriceUnit }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PRICE_UNITS).map(([unit, { label }]) => (
+                            <SelectItem key={unit} value={unit}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rate-amount">Rate (€)</Label>
+                      <Input
+                        id="rate-amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={rateForm.unitRate}
+                        onChange={(e) => setRateForm((prev) => ({ ...prev, unitRate: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Type</Label>
+                      <Select
+                        value={rateForm.costType}
+                        onValueChange={(value) => setRateForm((prev) => ({ ...prev, costType: value as QuoteCostType }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="labour">Labour</SelectItem>
+                          <SelectItem value="material">Materials</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={handleSaveRate} disabled={savingRate} className="flex-1">
+                        {savingRate && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        {editingRateId ? 'Save' : 'Add'}
+                      </Button>
+                      {editingRateId && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setEditingRateId(null);
+                            setRateForm(emptyRate);
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                    <div className="space-y-2 md:col-span-6">
+                      <Label htmlFor="rate-description">Details</Label>
+                      <Input
+                        id="rate-description"
+                        placeholder="Shown on the quote line, e.g. supply and fix 60x60 porcelain"
+                        value={rateForm.description}
+                        onChange={(e) => setRateForm((prev) => ({ ...prev, description: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Price Book</CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+                    <Label htmlFor="show-archived">Show archived</Label>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {priceBook.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">No rates in your price book</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {priceBook.map((item) => (
+                          <TableRow key={item.id} className={item.archived_at ? 'opacity-60' : undefined}>
+                            <TableCell>
+                              <p className="font-medium">{item.name}</p>
+                              {item.description && (
+                                <p className="text-xs text-muted-foreground">{item.description}</p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="secondary">{item.cost_type === 'material' ? 'Materials' : 'Labour'}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap font-medium">
+                              €{Number(item.unit_rate).toFixed(2)} / {PRICE_UNITS[item.unit].suffix}
+                            </TableCell>
+                            <TableCell className="text-right space-x-2 whitespace-nowrap">
+                              {item.archived_at ? (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleSetRateArchived(item, false)}
+                                  disabled={processingId === item.id}
+                                >
+                                  <ArchiveRestore className="w-4 h-4 mr-1" />
+                                  Restore
+                                </Button>
+                              ) : (
+                                <>
+                                  <Button size="sm" variant="outline" onClick={() => handleEditRate(item)}>
+                                    <Pencil className="w-4 h-4 mr-1" />
+                                    Edit
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => handleSetRateArchived(item, true)}
+                                    disabled={processingId === item.id}
+                                  >
+                                    <Archive className="w-4 h-4 mr-1" />
+                                    Archive
+                                  </Button>
+                                </>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <QuoteTemplateEditorModal
+        isOpen={editorOpen}
+        onClose={() => setEditorOpen(false)}
+        template={editingTemplate}
+        content={editingContent}
+        priceBook={activeRates}
+        onSaved={fetchData}
+      />
+
+      <Dialog open={!!historyTemplate} onOpenChange={(open) => !open && setHistoryTemplate(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              {historyTemplate?.name} — Versions
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {versions.map((version) => (
+              <Card key={version.id}>
+                <CardContent className="pt-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={version.version === historyTemplate?.current_version ? 'default' : 'outline'}>
+                        v{version.version}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {new Date(version.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    {version.version !== historyTemplate?.current_version && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRestore(version)}
+                        disabled={processingId === version.id}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  {version.change_note && <p className="text-sm">{version.change_note}</p>}
+                  <p className="text-sm text-muted-foreground">
+                    {version.content.lines.length} cost lines · €{contentTotal(version.content).toFixed(2)} at base quantities
+                    {version.content.milestones.length > 0 && ` · ${version.content.milestones.length} milestones`}
+                  </p>
+                  <ul className="text-xs text-muted-foreground list-disc pl-5">
+                    {version.content.lines.map((line, index) => (
+                      <li key={index}>
+                        {line.item}: €{Number(line.unitRate).toFixed(2)}/{PRICE_UNITS[line.unit]?.suffix || line.unit}
+                        {line.scaleFrom
+                          ? ` × ${line.scaleFactor} per m² of ${areaSourceLabel(line.scaleFrom)}`
+                          : ` × ${line.quantity}`}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default QuoteLibrary;
@@ -39,11 +39,13 @@ import {
   Plus,
   Euro,
   Edit,
-  FileText
+  FileText,
+  Columns3
 } from 'lucide-react';
 
 interface Ticket {
   id: string;
+  projectId: string;
   groupName: string;
   vendor: {
     id: string;
@@ -58,7 +60,7 @@ interface Ticket {
   };
   projectDescription: string;
   formData?: any;
-  status: 'pending' | 'quoted' | 'accepted' | 'declined' | 'completed';
+  status: 'pending' | 'quoted' | 'accepted' | 'declined' | 'expired' | 'completed';
   createdAt: Date;
   quotedAmount?: string;
   notes?: string;
@@ -200,7 +202,8 @@ const ClientDashboard = () => {
         
         return {
           id: qr.id,
-          groupName: project?.service_groups?.[0] || 'General',
+          projectId: qr.project_id,
+          groupName: qr.service_group || project?.service_groups?.[0] || 'General',
           vendor: {
             id: qr.vendor_id,
             name: vendorProfile?.business_name || 'Unknown Vendor',
@@ -213,7 +216,7 @@ const ClientDashboard = () => {
             verified: vendorProfile?.verification_status === 'verified'
           },
           projectDescription: project?.description || project?.title || 'No description',
-          status: qr.status as 'pending' | 'quoted' | 'accepted' | 'declined' | 'completed',
+          status: qr.status as 'pending' | 'quoted' | 'accepted' | 'declined' | 'expired' | 'completed',
           createdAt: new Date(qr.created_at),
           quotedAmount: qr.quoted_amount ? `$${qr.quoted_amount}` : undefined,
           notes: qr.vendor_notes || undefined
@@ -239,12 +242,22 @@ const ClientDashboard = () => {
     return matchesSearch && matchesStatus;
   });
 
+  // Quotes can be compared once two vendors have quoted for the same project and service group
+  const canCompareQuotes = (ticket: Ticket) =>
+    tickets.filter(
+      (other) =>
+        other.projectId === ticket.projectId &&
+        other.groupName === ticket.groupName &&
+        (other.status === 'quoted' || other.status === 'accepted')
+    ).length >= 2;
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       pending: { variant: 'secondary' as const, text: 'Pending Quote', icon: Clock },
       quoted: { variant: 'default' as const, text: 'Quote Received', icon: CheckCircle2 },
       accepted: { variant: 'default' as const, text: 'Accepted', icon: CheckCircle2 },
       declined: { variant: 'destructive' as const, text: 'Declined', icon: AlertCircle },
+      expired: { variant: 'outline' as const, text: 'Expired', icon: Clock },
       completed: { variant: 'default' as const, text: 'Completed', icon: CheckCircle2 }
     };
     
@@ -376,7 +389,7 @@ const ClientDashboard = () => {
     } catch (error: any) {
       toast({
         title: "Error",
-        description: "Failed to accept quote",
+        description: error.message || "Failed to accept quote",
         variant: "destructive",
       });
     }
@@ -402,7 +415,9 @@ const ClientDashboard = () => {
             estimated_timeline: quote.estimated_timeline,
             start_date: quote.start_date,
             vendor_business_name: quote.vendor_business_name,
-            project_title: `Project ${ticketId.slice(-8)}`
+            project_title: `Project ${ticketId.slice(-8)}`,
+            cost_breakdown: quote.cost_breakdown,
+            milestones: quote.milestones
           }
         });
       } else {
@@ -477,6 +492,7 @@ const ClientDashboard = () => {
                   <SelectItem value="quoted">Quoted</SelectItem>
                   <SelectItem value="accepted">Accepted</SelectItem>
                   <SelectItem value="declined">Declined</SelectItem>
+                  <SelectItem value="expired">Expired</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                 </SelectContent>
               </Select>
@@ -753,7 +769,7 @@ const ClientDashboard = () => {
                          <span className="hidden sm:inline">Chat</span>
                        </Button>
                        
-                       {ticket.status === 'quoted' && (
+                       {(ticket.status === 'quoted' || (ticket.status === 'expired' && ticket.quotedAmount)) && (
                          <Button 
                            variant="outline" 
                            size="sm"
@@ -767,6 +783,18 @@ const ClientDashboard = () => {
                            <span className="hidden sm:inline">View Quote</span>
                          </Button>
                          )}
+
+                         {(ticket.status === 'quoted' || ticket.status === 'accepted') && canCompareQuotes(ticket) && (
+                           <Button
+                             variant="outline"
+                             size="sm"
+                             onClick={() => navigate(`/projects/${ticket.projectId}/compare?group=${encodeURIComponent(ticket.groupName)}`)}
+                             className="flex items-center gap-2"
+                           >
+                             <Columns3 className="w-4 h-4" />
+                             <span className="hidden sm:inline">Compare Quotes</span>
+                           </Button>
+                         )}
                          
                           <Button 
                             variant="outline" 
@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Receipt, ArrowLeft, Download, FileText, Loader2, Info } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { exportToCSV } from '@/utils/csvExport';
+import {
+  VAT4_BOXES,
+  VAT_RETURN_BASIS_LABELS,
+  buildVatReturnCsvRows,
+  formatVatPeriod,
+  generateVatReturnPdf,
+  type VatReturnPeriod,
+  type VatReturnRate,
+} from '@/utils/vatReturn';
+
+const START_MONTH_OPTIONS = [
+  { value: '1', label: 'Quarters ending Mar, Jun, Sep, Dec' },
+  { value: '2', label: 'Quarters ending Apr, Jul, Oct, Jan' },
+  { value: '3', label: 'Quarters ending May, Aug, Nov, Feb' },
+];
+
+const VatReturn = () => {
+  const { user } = useAuth();
+  const [periods, setPeriods] = useState<VatReturnPeriod[]>([]);
+  const [rates, setRates] = useState<VatReturnRate[]>([]);
+  const [selectedPeriod, setSelectedPeriod] = useState<string>('');
+  const [startMonth, setStartMonth] = useState('1');
+  const [lifetimeVat, setLifetimeVat] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchPeriods();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user && selectedPeriod) {
+      fetchRates(selectedPeriod);
+    }
+  }, [user, selectedPeriod]);
+
+  const fetchPeriods = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const [{ data: profile }, { data: periodData, error: periodError }, { data: analytics }] = await Promise.all([
+        supabase
+          .from('vendor_profiles')
+          .select('vat_period_start_month')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('vat_return_periods')
+          .select('*')
+          .eq('vendor_id', user.id)
+          .order('period_start', { ascending: false }),
+        supabase
+          .from('invoice_analytics')
+          .select('total_vat_collected')
+          .eq('vendor_id', user.id),
+      ]);
+
+      if (periodError) throw periodError;
+
+      setStartMonth(String(profile?.vat_period_start_month || 1));
+      setPeriods(periodData || []);
+      setSelectedPeriod(periodData?.[0]?.period_start || '');
+      setLifetimeVat(
+        analytics ? analytics.reduce((sum, row) => sum + Number(row.total_vat_collected || 0), 0) : null
+      );
+    } catch (error: any) {
+      console.error('Error fetching VAT periods:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load VAT return figures",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRates = async (periodStart: string) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('vat_return_summary')
+      .select('*')
+      .eq('vendor_id', user.id)
+      .eq('period_start', periodStart)
+      .order('vat_rate', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching VAT breakdown:', error);
+      return;
+    }
+    setRates(data || []);
+  };
+
+  const handleStartMonthChange = async (value: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('vendor_profiles')
+      .update({ vat_period_start_month: Number(value) })
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStartMonth(value);
+    fetchPeriods();
+  };
+
+  const period = periods.find((p) => p.period_start === selectedPeriod);
+
+  const handleExportCsv = () => {
+    if (!period) return;
+    exportToCSV(buildVatReturnCsvRows(period, rates), `vat_return_${period.period_start}`, [
+      { key: 'section', header: 'Section' },
+      { key: 'reference', header: 'Box / Rate' },
+      { key: 'description', header: 'Description' },
+      { key: 'net_amount', header: 'Net (EUR)' },
+      { key: 'vat_amount', header: 'VAT (EUR)' },
+    ]);
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!period?.period_start) return;
+
+    try {
+      setGeneratingPdf(true);
+      const url = await generateVatReturnPdf(period.period_start);
+      window.open(url, '_blank');
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setGeneratingPdf(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div>Loading VAT return...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-12 h-12 bg-gradient-primary rounded-xl flex items-center justify-center">
+              <Receipt className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">VAT Return</h1>
+              <p className="text-muted-foreground">Quarterly output figures for your Cyprus VAT4 return</p>
+            </div>
+          </div>
+          <Button asChild variant="outline">
+            <Link to="/vendor-dashboard">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tax Period</CardTitle>
+            <CardDescription>
+              Invoices and credit notes are assigned to a period by their tax point, not the date they were created.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>VAT quarters</Label>
+              <Select value={startMonth} onValueChange={handleStartMonthChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {START_MONTH_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">As assigned on your VAT registration certificate</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={selectedPeriod} onValueChange={setSelectedPeriod} disabled={periods.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No issued invoices yet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {periods.map((p) => (
+                    <SelectItem key={p.period_start} value={p.period_start || ''}>
+                      {formatVatPeriod(p)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {period && (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div>
+                  <CardTitle>VAT4 Boxes · {formatVatPeriod(period)}</CardTitle>
+                  <CardDescription>
+                    {period.invoice_count} invoices and {period.credit_note_count} credit notes issued in this period
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleExportCsv}>
+                    <Download className="w-4 h-4 mr-2" />
+                    CSV
+                  </Button>
+                  <Button size="sm" onClick={handleDownloadPdf} disabled={generatingPdf}>
+                    {generatingPdf
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      : <FileText className="w-4 h-4 mr-2" />}
+                    PDF
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Box</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {VAT4_BOXES.map(({ box, label, field, nil }) => (
+                      <TableRow key={box}>
+                        <TableCell className="font-semibold">{box}</TableCell>
+                        <TableCell>{label}</TableCell>
+                        <TableCell className="text-right">
+                          {field
+                            ? <span className="font-medium">€{Number(period[field] || 0).toFixed(2)}</span>
+                            : nil
+                              ? '€0.00'
+                              : <span className="text-xs text-muted-foreground">From your purchase records</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {Number(period.reverse_charge_outputs) !== 0 && (
+                  <Alert>
+                    <Info className="h-4 w-4" />
+                    <AlertDescription>
+                      Box 6 includes €{Number(period.reverse_charge_outputs).toFixed(2)} of domestic reverse charge
+                      supplies. Your customers account for the VAT on these, so it is not in Box 1.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Breakdown by Rate</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>VAT basis</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                      <TableHead className="text-right">VAT</TableHead>
+                      <TableHead className="text-right">Invoices / Credit notes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rates.map((rate) => (
+                      <TableRow key={`${rate.vat_basis}-${rate.vat_rate}`}>
+                        <TableCell>{VAT_RETURN_BASIS_LABELS[rate.vat_basis || ''] || rate.vat_basis || 'Unspecified'}</TableCell>
+                        <TableCell className="text-right">{Number(rate.vat_rate || 0)}%</TableCell>
+                        <TableCell className="text-right">€{Number(rate.net_amount || 0).toFixed(2)}</TableCell>
+                        <TableCell className="text-right">€{Number(rate.vat_amount || 0).toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{rate.invoice_count} / {rate.credit_note_count}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {lifetimeVat !== null && (
+          <p className="text-sm text-muted-foreground">
+            Output VAT across all your invoices to date: €{lifetimeVat.toFixed(2)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VatReturn;
@@ -3,7 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Building, Star, Clock, MessageSquare, Euro, User, MonitorSpeaker, Trash2, FileText } from 'lucide-react';
+import { Building, Star, Clock, MessageSquare, Euro, User, MonitorSpeaker, Trash2, FileText, PenLine, History, Handshake, CalendarPlus } from 'lucide-react';
 import InvoiceList from '@/components/invoice/InvoiceList';
 import { BsCardChecklist } from 'react-icons/bs';
 import { Link } from 'react-router-dom';
@@ -15,6 +15,12 @@ import { formatClientName } from '@/utils/formatters';
 import EnhancedChatModal from '@/components/EnhancedChatModal';
 import TicketDetailsModal from '@/components/TicketDetailsModal';
 import CreateInvoiceModal from '@/components/invoice/CreateInvoiceModal';
+import SignatureCaptureDialog from '@/components/SignatureCaptureDialog';
+import QuoteRevisionHistoryModal from '@/components/QuoteRevisionHistoryModal';
+import QuoteNegotiationModal from '@/components/QuoteNegotiationModal';
+import { signDocument, type SignatureInput } from '@/utils/documentSigning';
+import { QUOTE_EXTENSION_DAYS, canExtendQuote, extendQuoteValidity, isQuoteExpiringSoon } from '@/utils/quoteExpiry';
+import { quoteVersionMaterialsWarning } from '@/utils/invoiceStages';
 
 interface QuoteRequest {
   id: string;
@@ -31,6 +37,8 @@ interface QuoteRequest {
   };
   status: string;
   created_at: string;
+  awaitingNegotiationResponse?: boolean;
+  validityDate?: string | null;
 }
 
 const VendorDashboard = () => {
@@ -74,6 +82,13 @@ const VendorDashboard = () => {
     quoteRequestId: ''
   });
 
+  const [revisionHistory, setRevisionHistory] = useState<{ quoteRequestId: string; projectTitle: string } | null>(null);
+  const [extendingQuoteId, setExtendingQuoteId] = useState<string | null>(null);
+  const [negotiation, setNegotiation] = useState<{ quoteRequestId: string; projectTitle: string } | null>(null);
+
+  const [signQuote, setSignQuote] = useState<{ quoteId: string; businessName: string } | null>(null);
+  const [signingQuote, setSigningQuote] = useState(false);
+
 
   useEffect(() => {
     fetchQuoteRequests();
@@ -118,12 +133,43 @@ const VendorDashboard = () => {
         }
       }
 
+      // Negotiation rounds proposed by the client and not yet answered
+      const awaitingNegotiation = new Set<string>();
+      const quotedIds = data?.filter(item => item.status === 'quoted').map(item => item.id) || [];
+
+      if (quotedIds.length > 0) {
+        const { data: openRounds } = await supabase
+          .from('quote_reviews')
+          .select('quotes!inner(quote_request_id)')
+          .eq('status', 'open')
+          .eq('proposer_role', 'client')
+          .in('quotes.quote_request_id', quotedIds);
+
+        openRounds?.forEach(round => awaitingNegotiation.add(round.quotes.quote_request_id));
+      }
+
+      // Validity of the current quote, to offer an extension before or after it lapses
+      const validityDates = new Map<string, string | null>();
+      const extendableIds = data?.filter(item => item.status === 'quoted' || item.status === 'expired').map(item => item.id) || [];
+
+      if (extendableIds.length > 0) {
+        const { data: currentQuotes } = await supabase
+          .from('quotes')
+          .select('quote_request_id, validity_date')
+          .in('quote_request_id', extendableIds)
+          .eq('is_current_version', true);
+
+        currentQuotes?.forEach(quote => validityDates.set(quote.quote_request_id, quote.validity_date));
+      }
+
       const formattedData = data?.map(item => {
         const clientProfile = clientProfiles.find(p => p.user_id === item.client_id);
         return {
           id: item.id,
           status: item.status,
           created_at: item.created_at,
+          awaitingNegotiationResponse: awaitingNegotiation.has(item.id),
+          validityDate: validityDates.get(item.id),
           project: {
             title: item.projects?.title || 'Untitled Project',
             description: item.projects?.description || '',
@@ -152,16 +198,103 @@ const VendorDashboard = () => {
     setLoading(false);
   };
 
+  const handleOpenSignQuote = async (quoteRequestId: string) => {
+    const [{ data: quote, error }, { data: vendorProfile }] = await Promise.all([
+      supabase
+        .from('quotes')
+        .select('id, vendor_signed_at')
+        .eq('quote_request_id', quoteRequestId)
+        .eq('is_current_version', true)
+        .maybeSingle(),
+      supabase
+        .from('vendor_profiles')
+        .select('business_name')
+        .eq('user_id', user?.id)
+        .maybeSingle()
+    ]);
+
+    if (error || !quote) {
+      toast({
+        title: "Error",
+        description: "Could not load the accepted quote",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (quote.vendor_signed_at) {
+      toast({
+        title: "Already signed",
+        description: `You signed this quote on ${new Date(quote.vendor_signed_at).toLocaleDateString()}`,
+      });
+      return;
+    }
+
+    setSignQuote({ quoteId: quote.id, businessName: vendorProfile?.business_name || '' });
+  };
+
+  const handleSignQuote = async (input: SignatureInput) => {
+    if (!signQuote) return;
+
+    try {
+      setSigningQuote(true);
+      await signDocument('quote', signQuote.quoteId, input);
+      setSignQuote(null);
+      toast({
+        title: "Quote signed",
+        description: "Your signature has been recorded",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign quote",
+        variant: "destructive",
+      });
+    } finally {
+      setSigningQuote(false);
+    }
+  };
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case 'pending': return 'default';
       case 'quoted': return 'secondary';
       case 'accepted': return 'default';
       case 'declined': return 'destructive';
+      case 'expired': return 'outline';
       default: return 'default';
     }
   };
 
+  const handleExtendQuote = async (quoteRequestId: string) => {
+    try {
+      setExtendingQuoteId(quoteRequestId);
+      const newQuoteId = await extendQuoteValidity(quoteRequestId);
+      toast({
+        title: "Quote extended",
+        description: `The client has been sent a new version valid for another ${QUOTE_EXTENSION_DAYS} days`,
+      });
+
+      const materialsWarning = await quoteVersionMaterialsWarning(newQuoteId);
+      if (materialsWarning) {
+        toast({
+          title: "5% renovation rate no longer applies",
+          description: materialsWarning,
+          variant: "destructive",
+        });
+      }
+      fetchQuoteRequests();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to extend the quote",
+        variant: "destructive",
+      });
+    } finally {
+      setExtendingQuoteId(null);
+    }
+  };
+
   // Helper function removed - now using utility from formatters
 
   // Check if vendor is ETEK registered
@@ -402,6 +535,11 @@ const VendorDashboard = () => {
                             <Badge variant={getStatusBadgeVariant(quote.status)}>
                               {quote.status}
                             </Badge>
+                            {quote.status === 'quoted' && isQuoteExpiringSoon(quote.validityDate) && (
+                              <Badge variant="destructive">
+                                Expires {new Date(quote.validityDate).toLocaleDateString()}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-muted-foreground text-sm mb-2">
                             {quote.project.title}
@@ -469,6 +607,47 @@ const VendorDashboard = () => {
                               Invoice
                             </Button>
                           )}
+                          {quote.validityDate !== undefined && canExtendQuote(quote.status, quote.validityDate) && (
+                            <Button 
+                              size="sm" 
+                              variant="modern"
+                              onClick={() => handleExtendQuote(quote.id)}
+                              disabled={extendingQuoteId === quote.id}
+                            >
+                              <CalendarPlus className="w-4 h-4 mr-1" />
+                              Extend {QUOTE_EXTENSION_DAYS} Days
+                            </Button>
+                          )}
+                          {quote.status === 'quoted' && (
+                            <Button 
+                              size="sm" 
+                              variant={quote.awaitingNegotiationResponse ? 'default' : 'outline'}
+                              onClick={() => setNegotiation({ quoteRequestId: quote.id, projectTitle: quote.project.title })}
+                            >
+                              <Handshake className="w-4 h-4 mr-1" />
+                              {quote.awaitingNegotiationResponse ? 'Respond to Offer' : 'Negotiation'}
+                            </Button>
+                          )}
+                          {(quote.status === 'quoted' || quote.status === 'accepted') && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => setRevisionHistory({ quoteRequestId: quote.id, projectTitle: quote.project.title })}
+                            >
+                              <History className="w-4 h-4 mr-1" />
+                              History
+                            </Button>
+                          )}
+                          {quote.status === 'accepted' && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => handleOpenSignQuote(quote.id)}
+                            >
+                              <PenLine className="w-4 h-4 mr-1" />
+                              Sign Quote
+                            </Button>
+                          )}
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -518,6 +697,37 @@ const VendorDashboard = () => {
           onInvoiceCreated={fetchQuoteRequests}
         />
 
+        {revisionHistory && (
+          <QuoteRevisionHistoryModal
+            isOpen={!!revisionHistory}
+            onClose={() => setRevisionHistory(null)}
+            quoteRequestId={revisionHistory.quoteRequestId}
+            title={revisionHistory.projectTitle}
+          />
+        )}
+
+        {negotiation && (
+          <QuoteNegotiationModal
+            isOpen={!!negotiation}
+            onClose={() => setNegotiation(null)}
+            quoteRequestId={negotiation.quoteRequestId}
+            role="vendor"
+            title={negotiation.projectTitle}
+            onChanged={fetchQuoteRequests}
+          />
+        )}
+
+        <SignatureCaptureDialog
+          open={!!signQuote}
+          onOpenChange={(open) => !open && setSignQuote(null)}
+          title="Sign Quote"
+          description="Sign the accepted quote to confirm the agreed terms with the client"
+          confirmLabel="Sign Quote"
+          defaultName={signQuote?.businessName}
+          processing={signingQuote}
+          onSign={handleSignQuote}
+        />
+
         <TicketDetailsModal
           ticket={selectedTicket}
           isOpen={ticketDetailsOpen}
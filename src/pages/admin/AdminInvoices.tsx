@@ -17,6 +17,7 @@ interface Invoice {
   id: string;
   invoice_number: string;
   total_amount: number;
+  retention_amount: number;
   status: string;
   created_at: string;
   client_id: string;
@@ -65,6 +66,7 @@ const AdminInvoices = () => {
     exportToCSV(items, 'invoices', [
       { key: 'invoice_number', header: 'Invoice #' },
       { key: 'total_amount', header: 'Amount' },
+      { key: 'retention_amount', header: 'Retention Held' },
       { key: 'status', header: 'Status' },
       { key: 'created_at', header: 'Created' }
     ]);
@@ -82,6 +84,13 @@ const AdminInvoices = () => {
       header: 'Amount',
       render: (inv: Invoice) => <span className="font-medium">€{inv.total_amount.toLocaleString()}</span>
     },
+    {
+      key: 'retention',
+      header: 'Retention',
+      render: (inv: Invoice) => inv.retention_amount > 0
+        ? <span className="text-sm">€{inv.retention_amount.toLocaleString()}</span>
+        : <span className="text-muted-foreground">—</span>
+    },
     {
       key: 'status',
       header: 'Status',
@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { DataTable } from '@/components/admin/DataTable';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Hash, CheckCircle, AlertCircle, Download, Loader2 } from 'lucide-react';
+import { exportToCSV } from '@/utils/csvExport';
+import { logAdminAction } from '@/utils/auditLog';
+import type { Tables } from '@/integrations/supabase/types';
+
+type GapReportRow = Tables<'document_number_gap_report'>;
+type AllocationRow = Tables<'document_number_allocations'>;
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  invoice: 'Invoices',
+  credit_note: 'Credit notes'
+};
+
+const hasGaps = (row: GapReportRow) =>
+  (row.missing_numbers?.length || 0) > 0 || (row.orphaned_numbers?.length || 0) > 0;
+
+const AdminNumberingGaps = () => {
+  const [rows, setRows] = useState<GapReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [yearFilter, setYearFilter] = useState(String(new Date().getFullYear()));
+
+  useEffect(() => {
+    fetchRows();
+  }, [yearFilter]);
+
+  const fetchRows = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('document_number_gap_report')
+        .select('*')
+        .order('vendor_name')
+        .order('document_type');
+
+      if (yearFilter !== 'all') {
+        query = query.eq('year', Number(yearFilter));
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching numbering gap report:', error);
+      toast.error('Failed to load numbering report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Full list of numbers in a series, for handing to the tax authority
+  const handleExport = async (row: GapReportRow) => {
+    if (!row.series_id) return;
+
+    try {
+      setExportingId(row.series_id);
+      const { data, error } = await supabase
+        .from('document_number_allocations')
+        .select('*')
+        .eq('series_id', row.series_id)
+        .order('sequence_number');
+
+      if (error) throw error;
+
+      exportToCSV<AllocationRow>(data || [], `numbering_${row.prefix}_${row.year}_${row.vendor_id}`, [
+        { key: 'sequence_number', header: 'Sequence' },
+        { key: 'document_number', header: 'Number' },
+        { key: 'document_type', header: 'Document Type' },
+        { key: 'document_id', header: 'Document ID' },
+        { key: 'allocated_at', header: 'Allocated At' }
+      ]);
+
+      await logAdminAction('export_number_series', 'document_number_series', row.series_id, undefined, {
+        vendor_id: row.vendor_id,
+        document_type: row.document_type,
+        year: row.year,
+        count: data?.length || 0
+      });
+    } catch (error: any) {
+      console.error('Error exporting number series:', error);
+      toast.error(error.message || 'Export failed');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const gapCount = rows.filter(hasGaps).length;
+  const totalAllocated = rows.reduce((sum, row) => sum + Number(row.allocated_count || 0), 0);
+  const currentYear = new Date().getFullYear();
+
+  const columns = [
+    {
+      key: 'vendor',
+      header: 'Vendor',
+      render: (row: GapReportRow) => (
+        <div>
+          <p className="font-medium">{row.vendor_name || row.vendor_id}</p>
+          <p className="text-xs text-muted-foreground">{DOCUMENT_TYPE_LABELS[row.document_type || ''] || row.document_type}</p>
+        </div>
+      )
+    },
+    {
+      key: 'series',
+      header: 'Series',
+      render: (row: GapReportRow) => (
+        <span className="font-mono text-sm">{row.prefix}-{row.year}</span>
+      )
+    },
+    {
+      key: 'numbers',
+      header: 'Last / Recorded',
+      render: (row: GapReportRow) => (
+        <span className="text-sm">{row.last_number} / {row.allocated_count}</span>
+      )
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row: GapReportRow) => hasGaps(row) ? (
+        <div className="space-y-1">
+          <Badge variant="destructive">Gaps found</Badge>
+          {(row.missing_numbers?.length || 0) > 0 && (
+            <p className="text-xs text-destructive">Missing: {row.missing_numbers!.join(', ')}</p>
+          )}
+          {(row.orphaned_numbers?.length || 0) > 0 && (
+            <p className="text-xs text-destructive">Document missing: {row.orphaned_numbers!.join(', ')}</p>
+          )}
+        </div>
+      ) : (
+        <Badge variant="default">Complete</Badge>
+      )
+    },
+    {
+      key: 'period',
+      header: 'Issued',
+      render: (row: GapReportRow) => row.first_allocated_at ? (
+        <span className="text-sm">
+          {format(new Date(row.first_allocated_at), 'MMM dd')} – {format(new Date(row.last_allocated_at!), 'MMM dd, yyyy')}
+        </span>
+      ) : '—'
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (row: GapReportRow) => (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleExport(row)}
+          disabled={exportingId === row.series_id || !row.allocated_count}
+        >
+          {exportingId === row.series_id
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      )
+    }
+  ];
+
+  return (
+    <div className="container max-w-7xl mx-auto px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          Document Numbering
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Invoice and credit note number series per vendor and year, checked for gaps and missing documents.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-primary/10 rounded-lg">
+                <Hash className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{totalAllocated}</div>
+                <p className="text-sm text-muted-foreground">Numbers Issued</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-success/10 rounded-lg">
+                <CheckCircle className="h-6 w-6 text-success" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{rows.length - gapCount}</div>
+                <p className="text-sm text-muted-foreground">Complete Series</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-destructive/10 rounded-lg">
+                <AlertCircle className="h-6 w-6 text-destructive" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{gapCount}</div>
+                <p className="text-sm text-muted-foreground">Series With Gaps</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Number Series</CardTitle>
+          <Select value={yearFilter} onValueChange={setYearFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[currentYear, currentYear - 1, currentYear - 2].map((year) => (
+                <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+              ))}
+              <SelectItem value="all">All years</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading numbering report...</div>
+          ) : (
+            <DataTable
+              data={rows}
+              columns={columns}
+              searchPlaceholder="Search vendors..."
+              getItemId={(row) => row.series_id || ''}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminNumberingGaps;
@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { DataTable } from '@/components/admin/DataTable';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Scale, CheckCircle, AlertCircle, RefreshCw, Loader2 } from 'lucide-react';
+import { logAdminAction } from '@/utils/auditLog';
+import type { Tables } from '@/integrations/supabase/types';
+
+type ReconciliationRow = Tables<'payout_reconciliation_report'>;
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  matched: 'default',
+  fee_mismatch: 'destructive',
+  amount_mismatch: 'destructive',
+  unmatched: 'destructive',
+  not_reconciled: 'outline',
+  paid_offline: 'secondary'
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  matched: 'Matched',
+  fee_mismatch: 'Fee mismatch',
+  amount_mismatch: 'Amount mismatch',
+  unmatched: 'No invoice',
+  not_reconciled: 'Not reconciled',
+  paid_offline: 'Paid offline'
+};
+
+const formatAmount = (value: number | null) =>
+  value === null ? '—' : `€${Number(value).toFixed(2)}`;
+
+const AdminPayoutReconciliation = () => {
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('issues');
+
+  useEffect(() => {
+    fetchRows();
+  }, [statusFilter]);
+
+  const fetchRows = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('payout_reconciliation_report')
+        .select('*')
+        .order('paid_at', { ascending: false, nullsFirst: false })
+        .limit(500);
+
+      if (statusFilter === 'issues') {
+        query = query.not('reconciliation_status', 'in', '(matched,paid_offline)');
+      } else if (statusFilter !== 'all') {
+        query = query.eq('reconciliation_status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching reconciliation report:', error);
+      toast.error('Failed to load reconciliation report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const { data, error } = await supabase.functions.invoke('stripe-payout-reconciliation', {
+        body: {}
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      await logAdminAction('run_payout_reconciliation', 'invoice_payment_reconciliations', undefined, undefined, {
+        transactions: data.transactions,
+        mismatched: data.mismatched,
+        unmatched: data.unmatched
+      });
+
+      if (data.errors?.length) {
+        toast.warning(`Reconciled ${data.transactions} transactions, ${data.errors.length} accounts failed`);
+      } else {
+        toast.success(`Reconciled ${data.transactions} transactions across ${data.payouts} payouts`);
+      }
+      fetchRows();
+    } catch (error: any) {
+      console.error('Error running reconciliation:', error);
+      toast.error(error.message || 'Reconciliation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const totalExpected = rows.reduce((sum, row) => sum + Number(row.expected_fee_amount || 0), 0);
+  const totalCollected = rows.reduce((sum, row) => sum + Number(row.collected_fee_amount || 0), 0);
+  const issueCount = rows.filter(row => row.reconciliation_status !== 'matched').length;
+
+  const columns = [
+    {
+      key: 'invoice',
+      header: 'Invoice',
+      render: (row: ReconciliationRow) => (
+        <div>
+          <p className="font-medium">{row.invoice_number || row.stripe_charge_id || '—'}</p>
+          <p className="text-xs text-muted-foreground">{row.vendor_name || row.vendor_id}</p>
+        </div>
+      )
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row: ReconciliationRow) => (
+        <Badge variant={STATUS_VARIANTS[row.reconciliation_status || ''] || 'outline'}>
+          {STATUS_LABELS[row.reconciliation_status || ''] || row.reconciliation_status}
+        </Badge>
+      )
+    },
+    {
+      key: 'total',
+      header: 'Invoice / Charged',
+      render: (row: ReconciliationRow) => (
+        <div className="text-sm">
+          <p>{formatAmount(row.total_amount)}</p>
+          <p className="text-xs text-muted-foreground">{formatAmount(row.gross_amount)}</p>
+        </div>
+      )
+    },
+    {
+      key: 'fee',
+      header: 'Fee Expected / Collected',
+      render: (row: ReconciliationRow) => (
+        <div className="text-sm">
+          <p>{formatAmount(row.expected_fee_amount)}</p>
+          <p className={Math.abs(Number(row.fee_difference || 0)) > 0.01 ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+            {formatAmount(row.collected_fee_amount)}
+          </p>
+        </div>
+      )
+    },
+    {
+      key: 'payout',
+      header: 'Payout',
+      render: (row: ReconciliationRow) => row.stripe_payout_id ? (
+        <div>
+          <p className="font-mono text-xs">{row.stripe_payout_id}</p>
+          {row.payout_arrival_date && (
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(row.payout_arrival_date), 'MMM dd, yyyy')}
+            </p>
+          )}
+        </div>
+      ) : <span className="text-xs text-muted-foreground">Pending</span>
+    },
+    {
+      key: 'paid',
+      header: 'Paid',
+      render: (row: ReconciliationRow) => row.paid_at ? format(new Date(row.paid_at), 'MMM dd, yyyy') : '—'
+    }
+  ];
+
+  return (
+    <div className="container max-w-7xl mx-auto px-6 py-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Payout Reconciliation
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Stripe charges and payouts matched to invoices, with the platform fee expected and collected.
+          </p>
+        </div>
+        <Button onClick={handleRun} disabled={running}>
+          {running
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <RefreshCw className="h-4 w-4 mr-2" />}
+          Run Reconciliation
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-primary/10 rounded-lg">
+                <Scale className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{formatAmount(totalExpected)}</div>
+                <p className="text-sm text-muted-foreground">Fees Expected</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-success/10 rounded-lg">
+                <CheckCircle className="h-6 w-6 text-success" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{formatAmount(totalCollected)}</div>
+                <p className="text-sm text-muted-foreground">Fees Collected</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-destructive/10 rounded-lg">
+                <AlertCircle className="h-6 w-6 text-destructive" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{issueCount}</div>
+                <p className="text-sm text-muted-foreground">Needing Attention</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Invoices and Charges</CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="issues">Needing attention</SelectItem>
+              <SelectItem value="fee_mismatch">Fee mismatch</SelectItem>
+              <SelectItem value="amount_mismatch">Amount mismatch</SelectItem>
+              <SelectItem value="unmatched">No invoice</SelectItem>
+              <SelectItem value="not_reconciled">Not reconciled</SelectItem>
+              <SelectItem value="paid_offline">Paid offline</SelectItem>
+              <SelectItem value="matched">Matched</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading reconciliation...</div>
+          ) : (
+            <DataTable
+              data={rows}
+              columns={columns}
+              searchPlaceholder="Search invoices..."
+              getItemId={(row) => row.reconciliation_id || row.invoice_id || ''}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminPayoutReconciliation;
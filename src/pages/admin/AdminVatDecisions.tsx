@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { DataTable } from '@/components/admin/DataTable';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FileCheck, HelpCircle, Eye } from 'lucide-react';
+import VatDecisionModal from '@/components/invoice/VatDecisionModal';
+import { VAT_RETURN_BASIS_LABELS } from '@/utils/vatReturn';
+import type { Tables } from '@/integrations/supabase/types';
+
+type DecisionRow = Tables<'vat_decision_overview'>;
+
+const AdminVatDecisions = () => {
+  const [rows, setRows] = useState<DecisionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewFilter, setReviewFilter] = useState('needs_review');
+  const [basisFilter, setBasisFilter] = useState('reduced');
+  const [selected, setSelected] = useState<DecisionRow | null>(null);
+
+  useEffect(() => {
+    fetchRows();
+  }, [reviewFilter, basisFilter]);
+
+  const fetchRows = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('vat_decision_overview')
+        .select('*')
+        .order('decided_at', { ascending: false })
+        .limit(500);
+
+      // Standard-rated invoices carry no relief to justify, so they are hidden by default
+      if (basisFilter === 'reduced') {
+        query = query.neq('vat_basis', 'standard19');
+      } else if (basisFilter !== 'all') {
+        query = query.eq('vat_basis', basisFilter);
+      }
+
+      if (reviewFilter === 'needs_review') {
+        query = query.or('review_outcome.is.null,review_outcome.eq.queried');
+      } else if (reviewFilter !== 'all') {
+        query = query.eq('review_outcome', reviewFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching VAT decisions:', error);
+      toast.error('Failed to load VAT decisions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unreviewedCount = rows.filter(row => !row.review_outcome).length;
+  const queriedCount = rows.filter(row => row.review_outcome === 'queried').length;
+
+  const columns = [
+    {
+      key: 'invoice',
+      header: 'Invoice',
+      render: (row: DecisionRow) => (
+        <div>
+          <p className="font-medium">{row.invoice_number || '—'}</p>
+          <p className="text-xs text-muted-foreground">{row.vendor_name || row.vendor_id}</p>
+        </div>
+      )
+    },
+    {
+      key: 'basis',
+      header: 'Treatment',
+      render: (row: DecisionRow) => (
+        <div>
+          <Badge variant="outline">{VAT_RETURN_BASIS_LABELS[row.vat_basis || ''] || 'Mixed rates'}</Badge>
+          <p className="text-xs text-muted-foreground mt-1">Calculator {row.calculator_version}</p>
+        </div>
+      )
+    },
+    {
+      key: 'total',
+      header: 'Total',
+      render: (row: DecisionRow) => row.total_amount === null ? '—' : `€${Number(row.total_amount).toFixed(2)}`
+    },
+    {
+      key: 'warnings',
+      header: 'Warnings / Evidence',
+      render: (row: DecisionRow) => (
+        <div className="text-sm">
+          <p className={row.warning_count ? 'text-destructive' : 'text-muted-foreground'}>
+            {row.warning_count || 0} warnings
+          </p>
+          <p className="text-xs text-muted-foreground">{row.evidence_count || 0} documents</p>
+        </div>
+      )
+    },
+    {
+      key: 'review',
+      header: 'Review',
+      render: (row: DecisionRow) => row.review_outcome ? (
+        <div>
+          <Badge variant={row.review_outcome === 'accepted' ? 'default' : 'destructive'}>
+            {row.review_outcome === 'accepted' ? 'Accepted' : 'Queried'}
+          </Badge>
+          {row.reviewed_at && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {format(new Date(row.reviewed_at), 'MMM dd, yyyy')}
+            </p>
+          )}
+        </div>
+      ) : <Badge variant="outline">Not reviewed</Badge>
+    },
+    {
+      key: 'decided',
+      header: 'Decided',
+      render: (row: DecisionRow) => row.decided_at ? format(new Date(row.decided_at), 'MMM dd, yyyy') : '—'
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (row: DecisionRow) => (
+        <Button size="sm" variant="outline" onClick={() => setSelected(row)}>
+          <Eye className="h-4 w-4 mr-2" />
+          Review
+        </Button>
+      )
+    }
+  ];
+
+  return (
+    <div className="container max-w-7xl mx-auto px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          VAT Decisions
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          The VAT treatment recorded for each invoice, with the vendor's evidence, for review before a tax audit.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-primary/10 rounded-lg">
+                <FileCheck className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{unreviewedCount}</div>
+                <p className="text-sm text-muted-foreground">Not Reviewed</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-destructive/10 rounded-lg">
+                <HelpCircle className="h-6 w-6 text-destructive" />
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{queriedCount}</div>
+                <p className="text-sm text-muted-foreground">Queried</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Decisions</CardTitle>
+          <div className="flex gap-2">
+            <Select value={basisFilter} onValueChange={setBasisFilter}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reduced">Reduced rate and reverse charge</SelectItem>
+                {Object.entries(VAT_RETURN_BASIS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+                <SelectItem value="mixed">Mixed rates</SelectItem>
+                <SelectItem value="all">All treatments</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={reviewFilter} onValueChange={setReviewFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="needs_review">Needs review</SelectItem>
+                <SelectItem value="queried">Queried</SelectItem>
+                <SelectItem value="accepted">Accepted</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading VAT decisions...</div>
+          ) : (
+            <DataTable
+              data={rows}
+              columns={columns}
+              searchPlaceholder="Search invoices..."
+              getItemId={(row) => row.decision_id || ''}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <VatDecisionModal
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+        invoiceId={selected?.invoice_id || null}
+        invoiceNumber={selected?.invoice_number}
+        mode="admin"
+        onChanged={fetchRows}
+      />
+    </div>
+  );
+};
+
+export default AdminVatDecisions;
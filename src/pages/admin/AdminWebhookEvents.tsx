@@ -0,0 +1,314 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { DataTable } from '@/components/admin/DataTable';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Webhook, CheckCircle, AlertCircle, RotateCcw, Loader2 } from 'lucide-react';
+import { logAdminAction } from '@/utils/auditLog';
+import type { Json } from '@/integrations/supabase/types';
+
+interface WebhookEvent {
+  id: string;
+  event_type: string;
+  stripe_account: string | null;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  result: Json | null;
+  payload: Json;
+  event_created_at: string;
+  received_at: string;
+  processed_at: string | null;
+  replayed_at: string | null;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  processed: 'default',
+  ignored: 'secondary',
+  failed: 'destructive',
+  processing: 'outline',
+  received: 'outline'
+};
+
+const AdminWebhookEvents = () => {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('failed');
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [statusFilter]);
+
+  const fetchEvents = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('stripe_webhook_events')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(200);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      toast.error('Failed to load webhook events');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async (event: WebhookEvent) => {
+    try {
+      setReplayingId(event.id);
+      const { data, error } = await supabase.functions.invoke('stripe-webhook-replay', {
+        body: { eventId: event.id }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      await logAdminAction('replay_webhook_event', 'stripe_webhook_events', undefined, undefined, {
+        event_id: event.id,
+        event_type: event.event_type
+      });
+
+      toast.success(`Event ${event.id} replayed`);
+      setSelectedEvent(null);
+      fetchEvents();
+    } catch (error: any) {
+      console.error('Error replaying webhook event:', error);
+      toast.error(error.message || 'Replay failed');
+      fetchEvents();
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const columns = [
+    {
+      key: 'event_type',
+      header: 'Event',
+      render: (event: WebhookEvent) => (
+        <div>
+          <p className="font-medium">{event.event_type}</p>
+          <p className="font-mono text-xs text-muted-foreground">{event.id}</p>
+        </div>
+      )
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (event: WebhookEvent) => (
+        <Badge variant={STATUS_VARIANTS[event.status] || 'outline'}>{event.status}</Badge>
+      )
+    },
+    {
+      key: 'attempts',
+      header: 'Attempts',
+      render: (event: WebhookEvent) => event.attempts
+    },
+    {
+      key: 'error',
+      header: 'Last Error',
+      render: (event: WebhookEvent) => (
+        <span className="text-xs text-destructive line-clamp-2 max-w-[280px]">{event.last_error || '—'}</span>
+      )
+    },
+    {
+      key: 'received',
+      header: 'Received',
+      render: (event: WebhookEvent) => format(new Date(event.received_at), 'MMM dd, yyyy HH:mm:ss')
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (event: WebhookEvent) => event.status === 'failed' && (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={replayingId === event.id}
+          onClick={(e) => {
+            e.stopPropagation();
+            handleReplay(event);
+          }}
+        >
+          {replayingId === event.id
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <RotateCcw className="h-4 w-4 mr-2" />}
+          Replay
+        </Button>
+      )
+    }
+  ];
+
+  return (
+    <>
+      <div className="container max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Stripe Webhooks
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Ledger of received Stripe events. Replay events that failed to apply.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-lg">
+                  <Webhook className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">{events.length}</div>
+                  <p className="text-sm text-muted-foreground">Events Shown</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-success/10 rounded-lg">
+                  <CheckCircle className="h-6 w-6 text-success" />
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">
+                    {events.filter(e => e.replayed_at && e.status === 'processed').length}
+                  </div>
+                  <p className="text-sm text-muted-foreground">Replayed Successfully</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-destructive/10 rounded-lg">
+                  <AlertCircle className="h-6 w-6 text-destructive" />
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">{events.filter(e => e.status === 'failed').length}</div>
+                  <p className="text-sm text-muted-foreground">Failed</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Events</CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="processing">Processing</SelectItem>
+                <SelectItem value="processed">Processed</SelectItem>
+                <SelectItem value="ignored">Ignored</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">Loading webhook events...</div>
+            ) : (
+              <DataTable
+                data={events}
+                columns={columns}
+                onRowClick={(event) => setSelectedEvent(event)}
+                searchPlaceholder="Search events..."
+                getItemId={(event) => event.id}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEvent?.event_type}</DialogTitle>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Event ID</p>
+                  <p className="font-mono">{selectedEvent.id}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Connected Account</p>
+                  <p className="font-mono">{selectedEvent.stripe_account || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Created by Stripe</p>
+                  <p>{format(new Date(selectedEvent.event_created_at), 'MMM dd, yyyy HH:mm:ss')}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Processed</p>
+                  <p>
+                    {selectedEvent.processed_at
+                      ? format(new Date(selectedEvent.processed_at), 'MMM dd, yyyy HH:mm:ss')
+                      : '—'}
+                  </p>
+                </div>
+              </div>
+
+              {selectedEvent.last_error && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground">Last Error</p>
+                  <p className="text-destructive">{selectedEvent.last_error}</p>
+                </div>
+              )}
+
+              {selectedEvent.result && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground">Result</p>
+                  <pre className="bg-muted p-3 rounded text-xs overflow-x-auto">
+                    {JSON.stringify(selectedEvent.result, null, 2)}
+                  </pre>
+                </div>
+              )}
+
+              <ScrollArea className="h-[300px] rounded border">
+                <pre className="p-3 text-xs">{JSON.stringify(selectedEvent.payload, null, 2)}</pre>
+              </ScrollArea>
+
+              {selectedEvent.status === 'failed' && (
+                <div className="flex justify-end">
+                  <Button onClick={() => handleReplay(selectedEvent)} disabled={replayingId === selectedEvent.id}>
+                    {replayingId === selectedEvent.id
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Replay Event
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AdminWebhookEvents;
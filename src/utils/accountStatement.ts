@@ -0,0 +1,170 @@
+/**
+ * Client account statements
+ *
+ * A running balance per project built from what the client was invoiced,
+ * credited, paid and refunded. Offline payments are recorded individually;
+ * a card payment settles whatever was outstanding when the invoice was paid.
+ */
+
+import { PAYMENT_METHOD_LABELS } from '@/utils/invoicePayments';
+import { cardPaymentAmount } from '../../supabase/functions/_shared/cardPayments.ts';
+
+export { cardPaymentAmount };
+
+export interface StatementInvoice {
+  id: string;
+  invoice_number: string;
+  legal_invoice_number: string | null;
+  status: string;
+  total_amount: number;
+  amount_paid: number;
+  refunded_amount: number;
+  issued_at: string | null;
+  created_at: string;
+  paid_at: string | null;
+  refunded_at: string | null;
+}
+
+export interface StatementCreditNote {
+  id: string;
+  invoice_id: string;
+  credit_note_number: string | null;
+  status: string;
+  total_amount: number;
+  issued_at: string | null;
+}
+
+export interface StatementPayment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  method: string;
+  reference: string | null;
+  paid_on: string;
+}
+
+export type StatementEntryKind = 'invoice' | 'credit_note' | 'payment' | 'card_payment' | 'refund';
+
+export interface StatementEntry {
+  date: string;
+  kind: StatementEntryKind;
+  invoiceId: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+// Invoices that never became a claim on the client
+const NOT_BILLED_STATUSES = ['draft', 'cancelled', 'voided'];
+
+export const isBilled = (invoice: Pick<StatementInvoice, 'status'>) =>
+  !NOT_BILLED_STATUSES.includes(invoice.status);
+
+const invoiceLabel = (invoice: StatementInvoice) => invoice.legal_invoice_number || invoice.invoice_number;
+
+/** Whether the client has paid anything towards the invoice, and so can download a receipt */
+export const hasReceipt = (
+  invoice: StatementInvoice,
+  creditNotes: StatementCreditNote[],
+  payments: StatementPayment[]
+) =>
+  payments.some((payment) => payment.invoice_id === invoice.id) ||
+  cardPaymentAmount(invoice, creditNotes) > 0;
+
+/**
+ * Chronological statement with a running balance. A positive balance is owed by the client.
+ */
+export const buildAccountStatement = (
+  invoices: StatementInvoice[],
+  creditNotes: StatementCreditNote[],
+  payments: StatementPayment[]
+): StatementEntry[] => {
+  const billed = invoices.filter(isBilled);
+  const billedIds = new Set(billed.map((invoice) => invoice.id));
+  const numbers = new Map(billed.map((invoice) => [invoice.id, invoiceLabel(invoice)]));
+  const entries: Omit<StatementEntry, 'balance'>[] = [];
+
+  billed.forEach((invoice) => {
+    entries.push({
+      date: invoice.issued_at || invoice.created_at,
+      kind: 'invoice',
+      invoiceId: invoice.id,
+      description: `Invoice ${invoiceLabel(invoice)}`,
+      debit: Number(invoice.total_amount),
+      credit: 0
+    });
+
+    const cardAmount = cardPaymentAmount(invoice, creditNotes);
+    if (cardAmount > 0) {
+      entries.push({
+        date: invoice.paid_at,
+        kind: 'card_payment',
+        invoiceId: invoice.id,
+        description: `Card payment for ${invoiceLabel(invoice)}`,
+        debit: 0,
+        credit: cardAmount
+      });
+    }
+
+    if (Number(invoice.refunded_amount) > 0) {
+      entries.push({
+        date: invoice.refunded_at || invoice.paid_at || invoice.created_at,
+        kind: 'refund',
+        invoiceId: invoice.id,
+        description: `Refund on ${invoiceLabel(invoice)}`,
+        debit: Number(invoice.refunded_amount),
+        credit: 0
+      });
+    }
+  });
+
+  creditNotes
+    .filter((note) => note.status === 'issued' && billedIds.has(note.invoice_id))
+    .forEach((note) => {
+      entries.push({
+        date: note.issued_at,
+        kind: 'credit_note',
+        invoiceId: note.invoice_id,
+        description: note.credit_note_number
+          ? `Credit note ${note.credit_note_number} against ${numbers.get(note.invoice_id)}`
+          : `Credit note against ${numbers.get(note.invoice_id)}`,
+        debit: 0,
+        credit: Number(note.total_amount)
+      });
+    });
+
+  payments
+    .filter((payment) => billedIds.has(payment.invoice_id))
+    .forEach((payment) => {
+      const method = PAYMENT_METHOD_LABELS[payment.method] || payment.method;
+      entries.push({
+        date: payment.paid_on,
+        kind: 'payment',
+        invoiceId: payment.invoice_id,
+        description: `${method} for ${numbers.get(payment.invoice_id)}${payment.reference ? ` (${payment.reference})` : ''}`,
+        debit: 0,
+        credit: Number(payment.amount)
+      });
+    });
+
+  // Invoices come before the payments and credits dated the same day
+  const kindOrder: Record<StatementEntryKind, number> = {
+    invoice: 0,
+    refund: 1,
+    credit_note: 2,
+    payment: 3,
+    card_payment: 3
+  };
+
+  entries.sort((a, b) => {
+    const byDay = a.date.slice(0, 10).localeCompare(b.date.slice(0, 10));
+    return byDay !== 0 ? byDay : kindOrder[a.kind] - kindOrder[b.kind];
+  });
+
+  let balance = 0;
+  return entries.map((entry) => {
+    balance = Math.round((balance + entry.debit - entry.credit) * 100) / 100;
+    return { ...entry, balance };
+  });
+};
@@ -0,0 +1,470 @@
+/**
+ * Bank statement parsing
+ *
+ * Statements are parsed in the browser and only incoming transfers (credits) are
+ * sent to the import-bank-statement function, which matches them to invoices.
+ * Supported formats:
+ * - ISO 20022 CAMT.053 (XML), as exported by most EU banks
+ * - SWIFT MT940
+ * - CSV exports from Bank of Cyprus and Hellenic Bank. Columns are located by
+ *   their header, so reordered or extra columns are handled.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type BankStatementFormat = 'camt053' | 'mt940' | 'boc_csv' | 'hellenic_csv';
+
+export const STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  camt053: 'ISO 20022 CAMT.053 (XML)',
+  mt940: 'SWIFT MT940',
+  boc_csv: 'Bank of Cyprus CSV',
+  hellenic_csv: 'Hellenic Bank CSV',
+};
+
+export interface StatementTransaction {
+  bookingDate: string;
+  amount: number;
+  currency: string;
+  payerName: string | null;
+  payerIban: string | null;
+  remittanceInfo: string | null;
+  bankReference: string | null;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  accountIban: string | null;
+  transactions: StatementTransaction[];
+  /** Outgoing payments in the file, which are not imported */
+  debitCount: number;
+}
+
+export interface StatementImportResult {
+  importId: string;
+  imported: number;
+  duplicates: number;
+  matched: number;
+  suggested: number;
+  unmatched: number;
+  syncErrors: string[];
+}
+
+export type DecimalSeparator = ',' | '.';
+
+/**
+ * Parse an amount written either way round: 1,234.56 or 1.234,56. Pass the
+ * statement's decimal separator when it is known, since 1.234 or 1,234 alone
+ * could be either. A trailing minus or brackets mark a negative amount.
+ */
+export const parseStatementAmount = (raw: string, decimalSeparator?: DecimalSeparator): number => {
+  let value = raw.replace(/[^\d,.\-()]/g, '');
+  const negative = value.startsWith('-') || value.endsWith('-') || value.startsWith('(');
+  value = value.replace(/[-()]/g, '');
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (decimalSeparator === ',') {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else if (decimalSeparator === '.') {
+    value = value.replace(/,/g, '');
+  } else if (lastComma > lastDot) {
+    // Comma is the decimal separator unless it only groups thousands (1,234 or 1,234,567)
+    const groupsThousands = lastDot === -1 && (value.indexOf(',') !== lastComma || value.length - lastComma === 4);
+    value = groupsThousands ? value.replace(/,/g, '') : value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = Number(value);
+  if (Number.isNaN(amount)) throw new Error(`Unreadable amount "${raw}"`);
+  return negative ? -amount : amount;
+};
+
+/**
+ * The decimal separator used by a file's amounts: the one followed by one or two
+ * digits at the end of an amount. Files whose amounts are all ambiguous (1.234)
+ * fall back to the separator that goes with the CSV delimiter.
+ */
+export const detectDecimalSeparator = (amounts: string[], csvDelimiter: string): DecimalSeparator => {
+  const values = amounts.map((amount) => amount.replace(/[^\d,.]/g, ''));
+  if (values.some((value) => /,\d{1,2}$/.test(value))) return ',';
+  if (values.some((value) => /\.\d{1,2}$/.test(value))) return '.';
+  return csvDelimiter === ';' ? ',' : '.';
+};
+
+/** Dates as DD/MM/YYYY (Cypriot banks), DD.MM.YYYY, DD-MM-YYYY or YYYY-MM-DD */
+export const parseStatementDate = (raw: string): string => {
+  const value = raw.trim();
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (dayFirst) {
+    const year = dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3];
+    return `${year}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  }
+
+  throw new Error(`Unreadable date "${raw}"`);
+};
+
+const clean = (value: string | null | undefined) => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text : null;
+};
+
+// ---------------------------------------------------------------------------
+// CAMT.053
+
+const childByName = (parent: Element | null, name: string): Element | null => {
+  if (!parent) return null;
+  for (const child of Array.from(parent.children)) {
+    if (child.localName === name) return child;
+  }
+  return null;
+};
+
+const childrenByName = (parent: Element | null, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter((child) => child.localName === name) : [];
+
+const pathText = (parent: Element | null, path: string[]): string | null => {
+  let node = parent;
+  for (const name of path) node = childByName(node, name);
+  return clean(node?.textContent);
+};
+
+const parseCamt053 = (text: string): ParsedStatement => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML');
+
+  const statements = Array.from(xml.getElementsByTagNameNS('*', 'Stmt'));
+  if (statements.length === 0) throw new Error('No CAMT.053 statement found in the file');
+
+  const transactions: StatementTransaction[] = [];
+  let debitCount = 0;
+  const accountIban = pathText(statements[0], ['Acct', 'Id', 'IBAN']);
+
+  for (const statement of statements) {
+    for (const entry of childrenByName(statement, 'Ntry')) {
+      const reversal = pathText(entry, ['RvslInd']) === 'true';
+      if (pathText(entry, ['CdtDbtInd']) !== 'CRDT' || reversal) {
+        debitCount++;
+        continue;
+      }
+
+      const entryAmount = childByName(entry, 'Amt');
+      const bookingDate = pathText(entry, ['BookgDt', 'Dt']) || pathText(entry, ['BookgDt', 'DtTm'])?.slice(0, 10);
+      const entryReference = pathText(entry, ['AcctSvcrRef']);
+      const details = childrenByName(childByName(entry, 'NtryDtls'), 'TxDtls');
+
+      // A batched entry has one TxDtls per transfer, each with its own amount
+      const parts = details.length > 0 ? details : [null];
+      for (const detail of parts) {
+        const amountNode = parts.length > 1
+          ? childByName(childByName(childByName(detail, 'AmtDtls'), 'TxAmt'), 'Amt') || childByName(detail, 'Amt')
+          : entryAmount;
+        const debtor = childByName(childByName(detail, 'RltdPties'), 'Dbtr');
+        const remittance = childByName(detail, 'RmtInf');
+        const endToEndId = pathText(detail, ['Refs', 'EndToEndId']);
+
+        transactions.push({
+          bookingDate: parseStatementDate(bookingDate || ''),
+          amount: parseStatementAmount(amountNode?.textContent || '', '.'),
+          currency: amountNode?.getAttribute('Ccy') || 'EUR',
+          payerName: pathText(debtor, ['Nm']) || pathText(debtor, ['Pty', 'Nm']),
+          payerIban: pathText(childByName(detail, 'RltdPties'), ['DbtrAcct', 'Id', 'IBAN']),
+          remittanceInfo: clean([
+            ...childrenByName(remittance, 'Ustrd').map((node) => node.textContent),
+            pathText(remittance, ['Strd', 'CdtrRefInf', 'Ref']),
+            pathText(entry, ['AddtlNtryInf']),
+          ].filter(Boolean).join(' ')),
+          bankReference: pathText(detail, ['Refs', 'AcctSvcrRef'])
+            || (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null)
+            || entryReference,
+        });
+      }
+    }
+  }
+
+  return { format: 'camt053', accountIban, transactions, debitCount };
+};
+
+// ---------------------------------------------------------------------------
+// MT940
+
+// :61: value date, optional entry date, C/D mark, funds code, amount, type, reference
+const MT940_STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+,\d{0,2})[A-Z0-9]{4}([^/\n]*)(?:\/\/(\S*))?/;
+
+const parseMt940Details = (details: string) => {
+  // German-style structured :86: with ?20-?29 remittance and ?32-?33 payer name
+  if (/\?\d{2}/.test(details)) {
+    const fields: Record<string, string> = {};
+    for (const match of details.replace(/\n/g, '').matchAll(/\?(\d{2})([^?]*)/g)) {
+      fields[match[1]] = (fields[match[1]] || '') + match[2];
+    }
+    const remittance = Object.keys(fields)
+      .filter((key) => Number(key) >= 20 && Number(key) <= 29)
+      .sort()
+      .map((key) => fields[key])
+      .join('');
+    return {
+      payerName: clean(`${fields['32'] || ''}${fields['33'] || ''}`),
+      payerIban: clean(fields['31']),
+      remittanceInfo: clean(remittance) || clean(details),
+    };
+  }
+
+  // SWIFT-style /ORDP/ and /REMI/ codes
+  const coded = (code: string) => details.replace(/\n/g, '').match(new RegExp(`/${code}/([^/]*)`))?.[1];
+  return {
+    payerName: clean(coded('ORDP') || coded('NAME')),
+    payerIban: clean(coded('IBAN')),
+    remittanceInfo: clean(coded('REMI')) || clean(details),
+  };
+};
+
+const parseMt940 = (text: string): ParsedStatement => {
+  const fields: { tag: string; value: string }[] = [];
+  for (const line of text.replace(/\r/g, '').split('\n')) {
+    const tag = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tag) {
+      fields.push({ tag: tag[1], value: tag[2] });
+    } else if (fields.length > 0 && line.trim() !== '-' && line.trim() !== '') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  if (!fields.some((field) => field.tag === '61')) throw new Error('No MT940 statement lines (:61:) found in the file');
+
+  const transactions: StatementTransaction[] = [];
+  let debitCount = 0;
+  let accountIban: string | null = null;
+  let currency = 'EUR';
+
+  fields.forEach((field, index) => {
+    if (field.tag === '25' && !accountIban) {
+      accountIban = clean(field.value.split('/').pop()?.replace(/\s/g, ''));
+    } else if (field.tag === '60F' || field.tag === '60M') {
+      currency = field.value.slice(7, 10) || currency;
+    } else if (field.tag === '61') {
+      const line = field.value.split('\n')[0].match(MT940_STATEMENT_LINE);
+      if (!line) throw new Error(`Unreadable MT940 statement line "${field.value.split('\n')[0]}"`);
+
+      if (line[5] !== 'C') {
+        debitCount++;
+        return;
+      }
+
+      // The booking date is the entry date when given, in the value date's year,
+      // or the year either side when the two dates fall across New Year
+      let year = 2000 + Number(line[1]);
+      let month = line[2];
+      let day = line[3];
+      if (line[4]) {
+        if (line[4].slice(0, 2) === '01' && line[2] === '12') year++;
+        if (line[4].slice(0, 2) === '12' && line[2] === '01') year--;
+        month = line[4].slice(0, 2);
+        day = line[4].slice(2, 4);
+      }
+
+      const next = fields[index + 1];
+      const details = next?.tag === '86' ? parseMt940Details(next.value) : null;
+      const customerReference = clean(line[7]);
+
+      transactions.push({
+        bookingDate: `${year}-${month}-${day}`,
+        amount: parseStatementAmount(line[6], ','),
+        currency,
+        payerName: details?.payerName || null,
+        payerIban: details?.payerIban || null,
+        remittanceInfo: clean([
+          customerReference !== 'NONREF' ? customerReference : null,
+          details?.remittanceInfo,
+        ].filter(Boolean).join(' ')),
+        bankReference: clean(line[8]),
+      });
+    }
+  });
+
+  return { format: 'mt940', accountIban, transactions, debitCount };
+};
+
+// ---------------------------------------------------------------------------
+// Bank CSV exports
+
+interface CsvLayout {
+  date: string[];
+  description: string[];
+  reference: string[];
+  payer: string[];
+  credit: string[];
+  debit: string[];
+  amount: string[];
+}
+
+// Header names as they appear in each bank's export, in English or Greek
+const CSV_LAYOUTS: Record<'boc_csv' | 'hellenic_csv', CsvLayout> = {
+  boc_csv: {
+    date: ['date', 'transaction date', 'posting date', 'ημερομηνία', 'ημερομηνία συναλλαγής'],
+    description: ['description', 'details', 'transaction description', 'περιγραφή'],
+    reference: ['reference', 'reference number', 'bank reference', 'αριθμός αναφοράς'],
+    payer: ['ordering party', 'payer', 'remitter', 'εντολέας'],
+    credit: ['credit', 'credit amount', 'πίστωση'],
+    debit: ['debit', 'debit amount', 'χρέωση'],
+    amount: ['amount', 'ποσό'],
+  },
+  hellenic_csv: {
+    date: ['booking date', 'transaction date', 'date', 'ημερομηνία καταχώρησης', 'ημερομηνία'],
+    description: ['narrative', 'description', 'transaction details', 'αιτιολογία', 'περιγραφή'],
+    reference: ['reference', 'transaction reference', 'bank reference', 'αρ. αναφοράς', 'αριθμός αναφοράς'],
+    payer: ['counterparty', 'beneficiary/ordering party', 'ordering customer', 'αντισυμβαλλόμενος', 'εντολέας'],
+    credit: ['credit', 'deposits', 'πίστωση'],
+    debit: ['debit', 'withdrawals', 'χρέωση'],
+    amount: ['amount', 'ποσό'],
+  },
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseBankCsv = (text: string, format: 'boc_csv' | 'hellenic_csv'): ParsedStatement => {
+  const layout = CSV_LAYOUTS[format];
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r/g, '').split('\n').filter((line) => line.trim() !== '');
+
+  // Exports start with account details above the column headers
+  const headerIndex = lines.findIndex((line) => {
+    const cells = line.toLowerCase();
+    return layout.date.some((name) => cells.includes(name))
+      && [...layout.credit, ...layout.amount].some((name) => cells.includes(name));
+  });
+  if (headerIndex === -1) throw new Error('No transaction header row found in the CSV file');
+
+  const headerLine = lines[headerIndex];
+  const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+  const headers = splitCsvLine(headerLine, delimiter).map((header) => header.toLowerCase());
+  const column = (names: string[]) => {
+    for (const name of names) {
+      const index = headers.indexOf(name);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const columns = {
+    date: column(layout.date),
+    description: column(layout.description),
+    reference: column(layout.reference),
+    payer: column(layout.payer),
+    credit: column(layout.credit),
+    debit: column(layout.debit),
+    amount: column(layout.amount),
+  };
+  if (columns.credit === -1 && columns.amount === -1) throw new Error('No credit or amount column found in the CSV file');
+
+  const ibanLine = lines.slice(0, headerIndex).join(' ').match(/\b(CY\d{2}[A-Z0-9 ]{11,30})\b/);
+  const transactions: StatementTransaction[] = [];
+  let debitCount = 0;
+
+  const rows = lines.slice(headerIndex + 1).map((line) => splitCsvLine(line, delimiter));
+  const amountColumns = [columns.credit, columns.debit, columns.amount].filter((index) => index !== -1);
+  const decimalSeparator = detectDecimalSeparator(
+    rows.flatMap((cells) => amountColumns.map((index) => cells[index] || '')),
+    delimiter
+  );
+
+  for (const cells of rows) {
+    const cell = (index: number) => (index === -1 ? '' : cells[index] || '');
+    if (!cell(columns.date)) continue;
+
+    const amount = columns.credit !== -1
+      ? (cell(columns.credit) ? parseStatementAmount(cell(columns.credit), decimalSeparator) : -1)
+      : parseStatementAmount(cell(columns.amount), decimalSeparator);
+
+    if (!(amount > 0)) {
+      debitCount++;
+      continue;
+    }
+
+    transactions.push({
+      bookingDate: parseStatementDate(cell(columns.date)),
+      amount,
+      currency: 'EUR',
+      payerName: clean(cell(columns.payer)),
+      payerIban: null,
+      remittanceInfo: clean(cell(columns.description)),
+      bankReference: clean(cell(columns.reference)),
+    });
+  }
+
+  return {
+    format,
+    accountIban: ibanLine ? ibanLine[1].replace(/\s/g, '') : null,
+    transactions,
+    debitCount,
+  };
+};
+
+// ---------------------------------------------------------------------------
+
+/** Best guess at the format from the file contents, or null for an unrecognised file */
+export const detectStatementFormat = (text: string): BankStatementFormat | null => {
+  const head = text.slice(0, 4000);
+  if (/<Document[^>]*camt\.053/i.test(head) || /<BkToCstmrStmt>/.test(head)) return 'camt053';
+  if (/^:20:/m.test(head) && /^:61:/m.test(text)) return 'mt940';
+
+  const lower = head.toLowerCase();
+  if (lower.includes('hellenic') || lower.includes('ελληνική τράπεζα') || lower.includes('narrative')) return 'hellenic_csv';
+  if (lower.includes('bank of cyprus') || lower.includes('τράπεζα κύπρου') || /[,;]/.test(lower)) return 'boc_csv';
+
+  return null;
+};
+
+export const parseBankStatement = (text: string, format: BankStatementFormat): ParsedStatement => {
+  switch (format) {
+    case 'camt053':
+      return parseCamt053(text);
+    case 'mt940':
+      return parseMt940(text);
+    case 'boc_csv':
+    case 'hellenic_csv':
+      return parseBankCsv(text, format);
+  }
+};
+
+/** Send the incoming transfers for matching. Certain matches are recorded straight away. */
+export const importBankStatement = async (filename: string, statement: ParsedStatement): Promise<StatementImportResult> => {
+  const { data, error } = await supabase.functions.invoke('import-bank-statement', {
+    body: {
+      filename,
+      format: statement.format,
+      accountIban: statement.accountIban,
+      transactions: statement.transactions,
+    }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as StatementImportResult;
+};
@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type SignableDocumentType = 'invoice' | 'quote';
+export type SignatureMethod = 'drawn' | 'typed';
+
+/**
+ * Consent shown next to the signature. The sign-document function stores its own
+ * copy (supabase/functions/_shared/signing.ts); keep the two in sync.
+ */
+export const SIGNING_CONSENT_TEXT =
+  'I agree that this electronic signature is the legal equivalent of my handwritten signature on this document, ' +
+  'that I have reviewed the document in full, and that my IP address and the time of signing will be recorded as evidence.';
+
+export interface SignatureInput {
+  method: SignatureMethod;
+  /** Typed name, or the drawn signature as a PNG data URL */
+  signature: string;
+  signerName: string;
+}
+
+export interface SignatureReceipt {
+  signatureId: string;
+  documentHash: string;
+  signedAt: string;
+}
+
+/**
+ * Sign an invoice or accepted quote. The document is hashed server-side and the
+ * hash, IP address and time are stored with the signature.
+ */
+export const signDocument = async (
+  documentType: SignableDocumentType,
+  documentId: string,
+  input: SignatureInput
+): Promise<SignatureReceipt> => {
+  const { data, error } = await supabase.functions.invoke('sign-document', {
+    body: { documentType, documentId, ...input, consentAccepted: true }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as SignatureReceipt;
+};
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type InvoiceDocumentTarget = { invoiceId: string } | { creditNoteId: string };
+
+/**
+ * Render (or reuse) the platform PDF of an invoice or credit note.
+ * Issued documents are stored once in the invoice-documents bucket and never replaced;
+ * drafts are re-rendered.
+ *
+ * @returns Short-lived signed URL of the stored PDF
+ */
+export const generateInvoiceDocument = async (target: InvoiceDocumentTarget): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('generate-invoice-pdf', {
+    body: target
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data.url as string;
+};
+
+export const openInvoiceDocument = async (target: InvoiceDocumentTarget) => {
+  const url = await generateInvoiceDocument(target);
+  window.open(url, '_blank');
+};
+
+/**
+ * Render and open the receipt of everything received against an invoice so far.
+ * Receipts are re-rendered on every request because later payments change them.
+ */
+export const openInvoiceReceipt = async (invoiceId: string) => {
+  const { data, error } = await supabase.functions.invoke('generate-receipt-pdf', {
+    body: { invoiceId }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  window.open(data.url as string, '_blank');
+};
+
+export interface EInvoiceViolation {
+  /** EN 16931 (BR-*) or Peppol (PEPPOL-EN16931-*) rule id */
+  rule: string;
+  message: string;
+}
+
+export type EInvoiceExport =
+  | { valid: true; xml: string; filename: string }
+  | { valid: false; violations: EInvoiceViolation[] };
+
+/**
+ * Build the UBL 2.1 (Peppol BIS Billing 3.0) e-invoice of an issued invoice or credit note.
+ * Documents that break a business rule come back with the violations instead of XML.
+ */
+export const exportEInvoice = async (target: InvoiceDocumentTarget): Promise<EInvoiceExport> => {
+  const { data, error } = await supabase.functions.invoke('generate-einvoice', {
+    body: target
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as EInvoiceExport;
+};
+
+export const downloadEInvoice = (xml: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([xml], { type: 'application/xml;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
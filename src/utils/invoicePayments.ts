@@ -0,0 +1,30 @@
+/**
+ * Offline payments recorded against invoices
+ *
+ * Card payments through Stripe settle an invoice in full. Payments received by
+ * bank transfer, cheque or cash are recorded by the vendor and may be partial.
+ */
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Bank transfer',
+  cheque: 'Cheque',
+  cash: 'Cash',
+  other: 'Other'
+};
+
+export interface PayableInvoice {
+  id: string;
+  invoice_number: string;
+  legal_invoice_number: string | null;
+  total_amount: number;
+  credited_amount?: number | null;
+  amount_paid?: number | null;
+  vendor_id: string;
+}
+
+/** What the client still owes once credit notes and offline payments are taken off */
+export const outstandingBalance = (invoice: PayableInvoice) =>
+  Math.max(
+    0,
+    Number(invoice.total_amount) - Number(invoice.credited_amount || 0) - Number(invoice.amount_paid || 0)
+  );
@@ -0,0 +1,227 @@
+/**
+ * Staged invoicing from accepted quotes
+ *
+ * A quote can be billed in one go or in stages taken from its payment terms:
+ * - Deposit: payment_schedule.depositPercentage of the contract
+ * - Milestones: each quotes.milestones entry, as a percentage of the contract
+ * - Balance: whatever remains once deposit and milestones are billed
+ *
+ * Amounts are net of VAT. VAT is calculated per stage invoice by the VAT wizard.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  RENOVATION_MAX_MATERIALS_PERCENTAGE,
+  calculateMaterialsPercentage,
+  type InvoiceLineInput
+} from '@/utils/vatCalculator';
+
+export type InvoiceStageType = 'full' | 'deposit' | 'milestone' | 'balance';
+
+export interface InvoiceStage {
+  type: InvoiceStageType;
+  index: number | null;
+  label: string;
+  percentage: number;
+  amount: number;
+  invoiced: boolean;
+  available: boolean;
+}
+
+export interface BilledStage {
+  stage_type: string;
+  stage_index: number | null;
+}
+
+export type QuoteCostType = 'labour' | 'material';
+
+export interface QuoteCostItem {
+  item?: string;
+  description?: string;
+  amount?: number | string;
+  type?: QuoteCostType;
+}
+
+interface QuoteMilestone {
+  name?: string;
+  percentage?: number | string;
+}
+
+interface StagedQuote {
+  total_amount: number;
+  cost_breakdown?: unknown;
+  milestones?: unknown;
+  payment_schedule?: unknown;
+}
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Build invoice lines from the quote cost breakdown.
+ * Any part of the quote total not covered by the breakdown is added as a balancing line.
+ */
+export const buildInvoiceLines = (quote: StagedQuote | undefined): Omit<InvoiceLineInput, 'vatBasis'>[] => {
+  const costBreakdown = (quote?.cost_breakdown as QuoteCostItem[]) || [];
+  const lines = costBreakdown
+    .filter((item) => Number(item.amount) > 0)
+    .map((item) => ({
+      description: item.description || item.item || 'Service',
+      quantity: 1,
+      unitAmount: Number(item.amount),
+      isMaterial: item.type === 'material'
+    }));
+
+  const breakdownTotal = lines.reduce((sum, line) => sum + line.unitAmount, 0);
+  const remainder = Number(quote?.total_amount || 0) - breakdownTotal;
+  if (remainder > 0.005) {
+    lines.push({
+      description: lines.length > 0 ? 'Other contract works' : 'Construction services',
+      quantity: 1,
+      unitAmount: round2(remainder),
+      isMaterial: false
+    });
+  }
+
+  return lines;
+};
+
+/**
+ * Materials share of the quote, for the 5% renovation rate. Any part of the total
+ * not covered by the breakdown counts as labour. Null when the cost breakdown was
+ * entered before lines were classified as labour or materials.
+ */
+export const quoteMaterialsPercentage = (quote: StagedQuote | undefined): number | null => {
+  const costBreakdown = (quote?.cost_breakdown as QuoteCostItem[]) || [];
+  if (!costBreakdown.some((item) => item.type === 'labour' || item.type === 'material')) return null;
+
+  return calculateMaterialsPercentage(buildInvoiceLines(quote));
+};
+
+/**
+ * Warning for a quote version whose materials share rules out the 5% renovation
+ * rate, naming the increase when the version before it was still within the limit.
+ */
+export const materialsThresholdWarning = (
+  materialsPercentage: number | null,
+  previousMaterialsPercentage: number | null
+): string | null => {
+  if (materialsPercentage === null || materialsPercentage <= RENOVATION_MAX_MATERIALS_PERCENTAGE) return null;
+
+  const share = previousMaterialsPercentage !== null && previousMaterialsPercentage <= RENOVATION_MAX_MATERIALS_PERCENTAGE
+    ? `This revision raises materials from ${previousMaterialsPercentage}% to ${materialsPercentage}% of the quote value.`
+    : `Materials are ${materialsPercentage}% of the quote value.`;
+
+  return `${share} Above ${RENOVATION_MAX_MATERIALS_PERCENTAGE}% the work no longer qualifies for the 5% renovation rate and will be invoiced at 19% VAT.`;
+};
+
+/**
+ * The materials warning for a quote version the database created (an agreed
+ * negotiation or a validity extension), against the version it replaced.
+ */
+export const quoteVersionMaterialsWarning = async (quoteId: string): Promise<string | null> => {
+  const { data: quote } = await supabase
+    .from('quotes')
+    .select('quote_request_id, version, total_amount, cost_breakdown')
+    .eq('id', quoteId)
+    .maybeSingle();
+
+  if (!quote) return null;
+
+  const { data: previous } = await supabase
+    .from('quotes')
+    .select('total_amount, cost_breakdown')
+    .eq('quote_request_id', quote.quote_request_id)
+    .lt('version', quote.version)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return materialsThresholdWarning(
+    quoteMaterialsPercentage(quote),
+    previous ? quoteMaterialsPercentage(previous) : null
+  );
+};
+
+/**
+ * Scale quote lines down to a stage amount, keeping each line's share of the contract.
+ * The last line absorbs rounding so the lines always add up to the stage amount.
+ */
+export const scaleInvoiceLines = (
+  lines: Omit<InvoiceLineInput, 'vatBasis'>[],
+  stageAmount: number,
+  stageLabel?: string
+): Omit<InvoiceLineInput, 'vatBasis'>[] => {
+  const contractTotal = lines.reduce((sum, line) => sum + line.quantity * line.unitAmount, 0);
+  if (contractTotal <= 0 || Math.abs(contractTotal - stageAmount) < 0.005) return lines;
+
+  const fraction = stageAmount / contractTotal;
+  let allocated = 0;
+
+  return lines.map((line, index) => {
+    const isLast = index === lines.length - 1;
+    const lineAmount = isLast
+      ? round2(stageAmount - allocated)
+      : round2(line.quantity * line.unitAmount * fraction);
+    allocated = round2(allocated + lineAmount);
+
+    return {
+      description: stageLabel ? `${line.description} (${stageLabel})` : line.description,
+      quantity: 1,
+      unitAmount: lineAmount,
+      isMaterial: line.isMaterial
+    };
+  });
+};
+
+const isBilled = (billed: BilledStage[], type: InvoiceStageType, index: number | null) =>
+  billed.some((stage) => stage.stage_type === type && (stage.stage_index ?? null) === index);
+
+/**
+ * List the billing stages of a quote and which of them can still be invoiced
+ *
+ * @param quote - Accepted quote with milestones and payment schedule
+ * @param billed - Stages of the active (not credited or voided) invoices for the quote
+ * @param invoicedAmount - Net amount already invoiced against the quote
+ */
+export const buildInvoiceStages = (
+  quote: StagedQuote,
+  billed: BilledStage[],
+  invoicedAmount: number
+): InvoiceStage[] => {
+  const contractAmount = Number(quote.total_amount) || 0;
+  const remaining = round2(Math.max(0, contractAmount - invoicedAmount));
+  const stages: InvoiceStage[] = [];
+
+  const addStage = (type: InvoiceStageType, index: number | null, label: string, percentage: number) => {
+    const invoiced = isBilled(billed, type, index);
+    const amount = round2(Math.min((contractAmount * percentage) / 100, remaining));
+    stages.push({ type, index, label, percentage, amount, invoiced, available: !invoiced && amount > 0 });
+  };
+
+  const schedule = (quote.payment_schedule as { depositPercentage?: string | number; schedule?: string }) || {};
+  const depositPercentage = Number(schedule.depositPercentage) || 0;
+  const milestones = ((quote.milestones as QuoteMilestone[]) || []).filter((m) => Number(m.percentage) > 0);
+
+  let plannedPercentage = 0;
+
+  if (depositPercentage > 0) {
+    addStage('deposit', null, `Deposit (${depositPercentage}%)`, depositPercentage);
+    plannedPercentage += depositPercentage;
+  }
+
+  if (schedule.schedule !== 'upfront' && schedule.schedule !== 'completion') {
+    milestones.forEach((milestone, index) => {
+      const percentage = Number(milestone.percentage);
+      addStage('milestone', index, `${milestone.name || `Milestone ${index + 1}`} (${percentage}%)`, percentage);
+      plannedPercentage += percentage;
+    });
+  }
+
+  if (plannedPercentage < 100) {
+    const balancePercentage = round2(100 - plannedPercentage);
+    const label = plannedPercentage > 0 ? `Balance (${balancePercentage}%)` : 'Full contract (100%)';
+    addStage(plannedPercentage > 0 ? 'balance' : 'full', null, label, balancePercentage);
+  }
+
+  return stages;
+};
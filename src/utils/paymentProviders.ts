@@ -0,0 +1,24 @@
+/**
+ * Payment providers a vendor can issue invoices through. The provider is
+ * chosen per vendor; issuing and webhooks are handled by the edge functions.
+ */
+
+export type PaymentProviderName = 'stripe' | 'jcc';
+
+export const PAYMENT_PROVIDER_LABELS: Record<PaymentProviderName, string> = {
+  stripe: 'Stripe',
+  jcc: 'JCC Payment Systems'
+};
+
+export interface VendorPaymentSetup {
+  payment_provider?: string | null;
+  stripe_onboarding_complete?: boolean | null;
+  stripe_charges_enabled?: boolean | null;
+  jcc_merchant_login?: string | null;
+}
+
+/** Whether the vendor can issue invoices with their chosen provider */
+export const isPaymentSetupComplete = (vendor: VendorPaymentSetup) =>
+  vendor.payment_provider === 'jcc'
+    ? !!vendor.jcc_merchant_login
+    : !!(vendor.stripe_onboarding_complete && vendor.stripe_charges_enabled);
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Quote comparison matrix, built by the compare-quotes edge function.
+ * The shapes mirror supabase/functions/_shared/quoteComparison.ts.
+ */
+
+export type Outlier = 'high' | 'low';
+
+export type ScopeMark = 'included' | 'excluded' | null;
+
+export interface ComparedQuote {
+  quoteRequestId: string;
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  vendorRating: number | null;
+  requestStatus: string | null;
+  version: number;
+  totalAmount: number;
+  durationWeeks: number | null;
+  startDate: string | null;
+  validityDate: string | null;
+  expired: boolean;
+  categories: Record<string, number>;
+  materialsAmount: number;
+  labourAmount: number;
+  inclusions: string[];
+  exclusions: string[];
+  depositPercentage: number | null;
+  paymentSchedule: string | null;
+  netDays: number | null;
+  milestones: { name: string; percentage: number }[];
+  retentionPercentage: number;
+  defectsLiabilityMonths: number;
+  insurance: string;
+  /** Keyed by 'total', 'duration' or 'category:<name>' */
+  outliers: Record<string, Outlier>;
+}
+
+export interface QuoteComparison {
+  projectId: string;
+  projectTitle: string;
+  serviceGroup: string;
+  serviceGroups: string[];
+  quotes: ComparedQuote[];
+  categories: string[];
+  scopeDifferences: { item: string; marks: ScopeMark[] }[];
+}
+
+export const fetchQuoteComparison = async (projectId: string, serviceGroup?: string): Promise<QuoteComparison> => {
+  const { data, error } = await supabase.functions.invoke('compare-quotes', {
+    body: { projectId, serviceGroup }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data.comparison as QuoteComparison;
+};
+
+export const downloadQuoteComparisonPdf = async (projectId: string, serviceGroup: string, filename: string) => {
+  const { data, error } = await supabase.functions.invoke('compare-quotes', {
+    body: { projectId, serviceGroup, format: 'pdf' }
+  });
+
+  if (error) throw error;
+
+  const url = URL.createObjectURL(new Blob([data as Blob], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Quote expiry. The quote-expiry job moves lapsed requests to 'expired', but a
+ * quote past its validity date counts as expired straight away so it cannot be
+ * accepted between runs.
+ */
+
+/** Days a one-click extension adds to the quote's validity */
+export const QUOTE_EXTENSION_DAYS = 30;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const isQuoteExpired = (requestStatus: string | null, validityDate: string | null) =>
+  requestStatus === 'expired' || (!!validityDate && validityDate < today());
+
+/** Valid until today or the next few days, while still open */
+export const isQuoteExpiringSoon = (validityDate: string | null, withinDays = 3) => {
+  if (!validityDate || validityDate < today()) return false;
+  const limit = new Date(Date.now() + withinDays * 86400000).toISOString().slice(0, 10);
+  return validityDate <= limit;
+};
+
+/** Open or expired quotes can be extended once lapsed, including before the job marks them expired */
+export const canExtendQuote = (requestStatus: string, validityDate: string | null) =>
+  (requestStatus === 'quoted' || requestStatus === 'expired') &&
+  (isQuoteExpired(requestStatus, validityDate) || isQuoteExpiringSoon(validityDate));
+
+/** Issues the current quote again as a new version; returns the new quote id */
+export const extendQuoteValidity = async (quoteRequestId: string, days = QUOTE_EXTENSION_DAYS) => {
+  const { data, error } = await supabase.rpc('extend_quote_validity', {
+    quote_request_id_param: quoteRequestId,
+    days_param: days
+  });
+
+  if (error) throw error;
+  return data;
+};
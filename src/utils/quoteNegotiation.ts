@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * Structured quote negotiation
+ *
+ * A negotiation is a chain of quote_reviews rounds on one quote version. The
+ * client opens it with proposed values; each reply accepts, rejects or counters
+ * every open point of the round before it. When a reply leaves nothing
+ * countered, the accepted values become the next quote version (see
+ * respond_to_quote_negotiation).
+ */
+
+export type NegotiationRole = 'client' | 'vendor';
+
+export type NegotiationPointType = 'cost_item' | 'milestones' | 'start_date' | 'duration_weeks';
+
+export type NegotiationPointStatus = 'proposed' | 'accepted' | 'rejected' | 'countered';
+
+export type NegotiationValue = number | number[] | string | null;
+
+export interface NegotiationPoint {
+  key: string;
+  type: NegotiationPointType;
+  index: number | null;
+  label: string;
+  current: NegotiationValue;
+  proposed: NegotiationValue;
+  status: NegotiationPointStatus;
+  note: string | null;
+}
+
+export type NegotiationRoundStatus = 'open' | 'answered' | 'agreed' | 'closed' | 'superseded';
+
+export interface NegotiationRound {
+  id: string;
+  quoteId: string;
+  negotiationId: string;
+  roundNumber: number;
+  proposerRole: NegotiationRole;
+  status: NegotiationRoundStatus;
+  notes: string | null;
+  points: NegotiationPoint[];
+  resultingQuoteId: string | null;
+  createdAt: string;
+}
+
+export interface Negotiation {
+  id: string;
+  quoteId: string;
+  rounds: NegotiationRound[];
+  /** The round waiting for an answer, if any */
+  openRound: NegotiationRound | null;
+  status: NegotiationRoundStatus;
+}
+
+/** A change the client proposes when opening a negotiation */
+export interface ProposedChange {
+  type: NegotiationPointType;
+  index?: number;
+  proposed: NegotiationValue;
+  note?: string;
+}
+
+/** An answer to one open point */
+export interface PointResponse {
+  key: string;
+  response: Exclude<NegotiationPointStatus, 'proposed'>;
+  counter?: NegotiationValue;
+  note?: string;
+}
+
+export const isOpenPoint = (point: NegotiationPoint) => point.status === 'proposed' || point.status === 'countered';
+
+export const formatNegotiationValue = (type: NegotiationPointType, value: NegotiationValue) => {
+  if (value === null || value === undefined) return '—';
+  switch (type) {
+    case 'cost_item':
+      return `€${Number(value).toFixed(2)}`;
+    case 'milestones':
+      return (value as number[]).map((share) => `${share}%`).join(' / ');
+    case 'start_date':
+      return new Date(value as string).toLocaleDateString();
+    case 'duration_weeks':
+      return `${value} weeks`;
+  }
+};
+
+/** Whether it is this party's turn to answer the negotiation */
+export const isAwaitingResponse = (negotiation: Negotiation, role: NegotiationRole) =>
+  !!negotiation.openRound && negotiation.openRound.proposerRole !== role;
+
+/** All negotiations on any version of a quote request, newest first */
+export const fetchNegotiations = async (quoteRequestId: string): Promise<Negotiation[]> => {
+  const { data: versions, error: versionsError } = await supabase
+    .from('quotes')
+    .select('id')
+    .eq('quote_request_id', quoteRequestId);
+
+  if (versionsError) throw versionsError;
+  if (!versions || versions.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('quote_reviews')
+    .select('id, quote_id, negotiation_id, round_number, proposer_role, status, review_notes, requested_changes, resulting_quote_id, created_at')
+    .in('quote_id', versions.map((version) => version.id))
+    .not('negotiation_id', 'is', null)
+    .order('round_number', { ascending: true });
+
+  if (error) throw error;
+
+  const negotiations = new Map<string, Negotiation>();
+  (data || []).forEach((row) => {
+    const round: NegotiationRound = {
+      id: row.id,
+      quoteId: row.quote_id,
+      negotiationId: row.negotiation_id,
+      roundNumber: row.round_number,
+      proposerRole: row.proposer_role as NegotiationRole,
+      status: row.status as NegotiationRoundStatus,
+      notes: row.review_notes,
+      points: (Array.isArray(row.requested_changes) ? row.requested_changes : []) as unknown as NegotiationPoint[],
+      resultingQuoteId: row.resulting_quote_id,
+      createdAt: row.created_at
+    };
+
+    const negotiation = negotiations.get(round.negotiationId) || {
+      id: round.negotiationId,
+      quoteId: round.quoteId,
+      rounds: [],
+      openRound: null,
+      status: round.status
+    };
+    negotiation.rounds.push(round);
+    negotiation.status = round.status;
+    if (round.status === 'open') negotiation.openRound = round;
+    negotiations.set(round.negotiationId, negotiation);
+  });
+
+  return Array.from(negotiations.values()).sort(
+    (a, b) => new Date(b.rounds[0].createdAt).getTime() - new Date(a.rounds[0].createdAt).getTime()
+  );
+};
+
+export const openQuoteNegotiation = async (quoteId: string, changes: ProposedChange[], notes: string) => {
+  const { data, error } = await supabase.rpc('open_quote_negotiation', {
+    quote_id_param: quoteId,
+    points_param: changes as unknown as Json,
+    notes_param: notes
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const respondToQuoteNegotiation = async (roundId: string, responses: PointResponse[], notes: string) => {
+  const { data, error } = await supabase.rpc('respond_to_quote_negotiation', {
+    review_id_param: roundId,
+    responses_param: responses as unknown as Json,
+    notes_param: notes
+  });
+
+  if (error) throw error;
+  return data as { review_id: string; status: NegotiationRoundStatus; quote_id?: string };
+};
@@ -0,0 +1,313 @@
+/**
+ * Quote revision diffs
+ *
+ * Each quote a vendor sends for a request is kept as a numbered version. Two
+ * versions are compared field by field, cost line by cost line (matched on the
+ * line's item name), milestone by milestone (matched on name) and scope item by
+ * scope item.
+ */
+
+import type { QuoteCostItem } from '@/utils/invoiceStages';
+
+export interface QuoteRevision {
+  id: string;
+  version: number;
+  created_at: string;
+  change_note: string | null;
+  is_current_version: boolean | null;
+  total_amount: number;
+  estimated_timeline: string | null;
+  start_date: string | null;
+  duration_weeks: number | null;
+  validity_date: string | null;
+  cost_breakdown: unknown;
+  milestones: unknown;
+  payment_schedule: unknown;
+  inclusions: string[] | null;
+  exclusions: string[] | null;
+  retention_percentage: number;
+  defects_liability_months: number;
+  insurance_will_be_used: boolean | null;
+  insurance_provider_used: string | null;
+  site_visit_required: boolean | null;
+  assumptions_dependencies: string | null;
+  notes_to_client: string | null;
+}
+
+export const QUOTE_REVISION_COLUMNS =
+  'id, version, created_at, change_note, is_current_version, total_amount, estimated_timeline, start_date, ' +
+  'duration_weeks, validity_date, cost_breakdown, milestones, payment_schedule, inclusions, exclusions, ' +
+  'retention_percentage, defects_liability_months, insurance_will_be_used, insurance_provider_used, ' +
+  'site_visit_required, assumptions_dependencies, notes_to_client';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  label: string;
+  from: string;
+  to: string;
+  /** Signed difference for numeric fields */
+  delta: number | null;
+}
+
+export interface CostItemChange {
+  item: string;
+  change: ChangeKind;
+  from: number | null;
+  to: number | null;
+  fromType: string | null;
+  toType: string | null;
+}
+
+export interface MilestoneChange {
+  name: string;
+  change: ChangeKind;
+  from: number | null;
+  to: number | null;
+  /** 1-based place in the payment schedule */
+  fromPosition: number | null;
+  toPosition: number | null;
+  fromDescription: string | null;
+  toDescription: string | null;
+}
+
+export interface ScopeChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface QuoteDiff {
+  fields: FieldChange[];
+  costItems: CostItemChange[];
+  milestones: MilestoneChange[];
+  inclusions: ScopeChange;
+  exclusions: ScopeChange;
+}
+
+interface PaymentSchedule {
+  depositPercentage?: string | number;
+  schedule?: string;
+  netDays?: string | number;
+}
+
+const SCHEDULE_LABELS: Record<string, string> = {
+  'milestone-based': 'Milestone based',
+  upfront: 'Full upfront',
+  completion: 'On completion',
+  monthly: 'Monthly'
+};
+
+const key = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const money = (value: number) => `€${value.toFixed(2)}`;
+
+const date = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const yesNo = (value: boolean | null) => (value ? 'Yes' : 'No');
+
+const text = (value: string | null | undefined) => (value && value.trim() ? value.trim() : '—');
+
+interface FieldSpec {
+  label: string;
+  display: (revision: QuoteRevision) => string;
+  numeric?: (revision: QuoteRevision) => number | null;
+}
+
+const schedule = (revision: QuoteRevision) => (revision.payment_schedule || {}) as PaymentSchedule;
+
+const optionalNumber = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+const FIELDS: FieldSpec[] = [
+  { label: 'Total amount', display: (r) => money(Number(r.total_amount)), numeric: (r) => Number(r.total_amount) },
+  { label: 'Estimated timeline', display: (r) => text(r.estimated_timeline) },
+  { label: 'Start date', display: (r) => date(r.start_date) },
+  {
+    label: 'Duration',
+    display: (r) => (r.duration_weeks !== null ? `${r.duration_weeks} weeks` : '—'),
+    numeric: (r) => r.duration_weeks
+  },
+  { label: 'Valid until', display: (r) => date(r.validity_date) },
+  {
+    label: 'Deposit',
+    display: (r) => (optionalNumber(schedule(r).depositPercentage) !== null ? `${Number(schedule(r).depositPercentage)}%` : '—'),
+    numeric: (r) => optionalNumber(schedule(r).depositPercentage)
+  },
+  {
+    label: 'Payment schedule',
+    display: (r) => (schedule(r).schedule ? SCHEDULE_LABELS[schedule(r).schedule] || schedule(r).schedule : '—')
+  },
+  {
+    label: 'Payment days',
+    display: (r) => (optionalNumber(schedule(r).netDays) !== null ? `Net ${schedule(r).netDays}` : '—'),
+    numeric: (r) => optionalNumber(schedule(r).netDays)
+  },
+  {
+    label: 'Retention',
+    display: (r) => `${Number(r.retention_percentage || 0)}%`,
+    numeric: (r) => Number(r.retention_percentage || 0)
+  },
+  {
+    label: 'Defects liability',
+    display: (r) => `${Number(r.defects_liability_months || 0)} months`,
+    numeric: (r) => Number(r.defects_liability_months || 0)
+  },
+  {
+    label: 'Insurance',
+    display: (r) => (r.insurance_will_be_used ? r.insurance_provider_used || 'Yes' : 'No')
+  },
+  { label: 'Site visit required', display: (r) => yesNo(r.site_visit_required) },
+  { label: 'Assumptions & dependencies', display: (r) => text(r.assumptions_dependencies) },
+  { label: 'Notes to client', display: (r) => text(r.notes_to_client) }
+];
+
+const diffFields = (from: QuoteRevision, to: QuoteRevision): FieldChange[] =>
+  FIELDS.flatMap((field) => {
+    const before = field.display(from);
+    const after = field.display(to);
+    if (before === after) return [];
+
+    const fromNumber = field.numeric?.(from) ?? null;
+    const toNumber = field.numeric?.(to) ?? null;
+    const delta = fromNumber !== null && toNumber !== null ? Math.round((toNumber - fromNumber) * 100) / 100 : null;
+
+    return [{ label: field.label, from: before, to: after, delta }];
+  });
+
+// Lines with the same item name are added together
+const costLines = (revision: QuoteRevision) => {
+  const lines = new Map<string, { item: string; amount: number; type: string | null }>();
+  ((Array.isArray(revision.cost_breakdown) ? revision.cost_breakdown : []) as QuoteCostItem[]).forEach((line) => {
+    const name = (line.item || line.description || '').trim();
+    if (!name) return;
+    const existing = lines.get(key(name));
+    lines.set(key(name), {
+      item: existing?.item || name,
+      amount: (existing?.amount || 0) + Number(line.amount || 0),
+      type: line.type || existing?.type || null
+    });
+  });
+  return lines;
+};
+
+const diffCostItems = (from: QuoteRevision, to: QuoteRevision): CostItemChange[] => {
+  const before = costLines(from);
+  const after = costLines(to);
+  const changes: CostItemChange[] = [];
+
+  after.forEach((line, name) => {
+    const previous = before.get(name);
+    if (!previous) {
+      changes.push({ item: line.item, change: 'added', from: null, to: line.amount, fromType: null, toType: line.type });
+    } else if (Math.abs(previous.amount - line.amount) >= 0.005 || previous.type !== line.type) {
+      changes.push({
+        item: line.item,
+        change: 'changed',
+        from: previous.amount,
+        to: line.amount,
+        fromType: previous.type,
+        toType: line.type
+      });
+    }
+  });
+
+  before.forEach((line, name) => {
+    if (!after.has(name)) {
+      changes.push({ item: line.item, change: 'removed', from: line.amount, to: null, fromType: line.type, toType: null });
+    }
+  });
+
+  return changes;
+};
+
+const milestoneShares = (revision: QuoteRevision) =>
+  new Map(
+    ((Array.isArray(revision.milestones) ? revision.milestones : []) as { name?: string; percentage?: number | string; description?: string }[])
+      .filter((milestone) => milestone.name)
+      .map((milestone, index) => [key(milestone.name), {
+        name: milestone.name.trim(),
+        percentage: Number(milestone.percentage || 0),
+        position: index + 1,
+        description: milestone.description?.trim() || ''
+      }])
+  );
+
+const diffMilestones = (from: QuoteRevision, to: QuoteRevision): MilestoneChange[] => {
+  const before = milestoneShares(from);
+  const after = milestoneShares(to);
+  const changes: MilestoneChange[] = [];
+
+  after.forEach((milestone, name) => {
+    const previous = before.get(name);
+    if (!previous) {
+      changes.push({
+        name: milestone.name,
+        change: 'added',
+        from: null,
+        to: milestone.percentage,
+        fromPosition: null,
+        toPosition: milestone.position,
+        fromDescription: null,
+        toDescription: milestone.description
+      });
+    } else if (
+      previous.percentage !== milestone.percentage ||
+      previous.position !== milestone.position ||
+      previous.description !== milestone.description
+    ) {
+      changes.push({
+        name: milestone.name,
+        change: 'changed',
+        from: previous.percentage,
+        to: milestone.percentage,
+        fromPosition: previous.position,
+        toPosition: milestone.position,
+        fromDescription: previous.description,
+        toDescription: milestone.description
+      });
+    }
+  });
+
+  before.forEach((milestone, name) => {
+    if (!after.has(name)) {
+      changes.push({
+        name: milestone.name,
+        change: 'removed',
+        from: milestone.percentage,
+        to: null,
+        fromPosition: milestone.position,
+        toPosition: null,
+        fromDescription: milestone.description,
+        toDescription: null
+      });
+    }
+  });
+
+  return changes;
+};
+
+const diffScope = (from: string[] | null, to: string[] | null): ScopeChange => {
+  const before = new Set((from || []).map(key));
+  const after = new Set((to || []).map(key));
+  return {
+    added: (to || []).filter((item) => item.trim() && !before.has(key(item))),
+    removed: (from || []).filter((item) => item.trim() && !after.has(key(item)))
+  };
+};
+
+export const diffQuoteRevisions = (from: QuoteRevision, to: QuoteRevision): QuoteDiff => ({
+  fields: diffFields(from, to),
+  costItems: diffCostItems(from, to),
+  milestones: diffMilestones(from, to),
+  inclusions: diffScope(from.inclusions, to.inclusions),
+  exclusions: diffScope(from.exclusions, to.exclusions)
+});
+
+export const isEmptyDiff = (diff: QuoteDiff) =>
+  diff.fields.length === 0 &&
+  diff.costItems.length === 0 &&
+  diff.milestones.length === 0 &&
+  diff.inclusions.added.length === 0 &&
+  diff.inclusions.removed.length === 0 &&
+  diff.exclusions.added.length === 0 &&
+  diff.exclusions.removed.length === 0;
@@ -0,0 +1,243 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { QuoteCostType } from '@/utils/invoiceStages';
+
+/**
+ * Quote library
+ *
+ * A vendor's price book holds unit rates; a template holds priced cost lines
+ * (quantity × unit rate), scope, milestones and payment terms. Template content
+ * is saved as immutable numbered versions. A line can take its quantity from
+ * one of the room sizes the client gave in the project questionnaire, so a
+ * bathroom template scales to the bathrooms of each project.
+ */
+
+export type PriceUnit = 'm2' | 'm' | 'point' | 'item' | 'hour' | 'day';
+
+export const PRICE_UNITS: Record<PriceUnit, { label: string; suffix: string }> = {
+  m2: { label: 'Square metre', suffix: 'm²' },
+  m: { label: 'Linear metre', suffix: 'm' },
+  point: { label: 'Point', suffix: 'point' },
+  item: { label: 'Item', suffix: 'item' },
+  hour: { label: 'Hour', suffix: 'hour' },
+  day: { label: 'Day', suffix: 'day' }
+};
+
+export interface PriceBookItem {
+  id: string;
+  name: string;
+  description: string | null;
+  unit: PriceUnit;
+  unit_rate: number;
+  cost_type: QuoteCostType;
+  archived_at: string | null;
+}
+
+export interface TemplateLine {
+  item: string;
+  description: string;
+  type: QuoteCostType;
+  unit: PriceUnit;
+  quantity: number;
+  unitRate: number;
+  priceBookItemId: string | null;
+  /** Area the quantity is taken from when the project gives it (m² lines only) */
+  scaleFrom: string | null;
+  /** Quantity per m² of that area, e.g. 2.5 m² of wall tiles per m² of floor */
+  scaleFactor: number;
+}
+
+export interface TemplateMilestone {
+  name: string;
+  percentage: number;
+  description: string;
+}
+
+export interface QuoteTemplateContent {
+  lines: TemplateLine[];
+  inclusions: string[];
+  exclusions: string[];
+  milestones: TemplateMilestone[];
+  paymentTerms: { depositPercentage: string; schedule: string; netDays: string };
+  retentionTerms: { retentionPercentage: string; defectsLiabilityMonths: string };
+  durationWeeks: string;
+  assumptionsDependencies: string;
+}
+
+export interface QuoteTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  updated_at: string;
+}
+
+export interface QuoteTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  content: QuoteTemplateContent;
+  change_note: string | null;
+  created_at: string;
+}
+
+export const emptyTemplateContent = (): QuoteTemplateContent => ({
+  lines: [],
+  inclusions: [],
+  exclusions: [],
+  milestones: [],
+  paymentTerms: { depositPercentage: '25', schedule: 'milestone-based', netDays: '30' },
+  retentionTerms: { retentionPercentage: '0', defectsLiabilityMonths: '12' },
+  durationWeeks: '',
+  assumptionsDependencies: ''
+});
+
+export const lineAmount = (line: Pick<TemplateLine, 'quantity' | 'unitRate'>) =>
+  Math.round(Number(line.quantity || 0) * Number(line.unitRate || 0) * 100) / 100;
+
+export const formatQuantity = (quantity: number, unit: PriceUnit) =>
+  `${Number(quantity).toLocaleString('en-GB', { maximumFractionDigits: 2 })} ${PRICE_UNITS[unit]?.suffix || unit}`;
+
+// Areas from the project questionnaire (EnhancedQuestionnaireForm), in m²
+
+type FormData = Record<string, unknown>;
+
+const sumSizes = (sizes: unknown) =>
+  sizes && typeof sizes === 'object'
+    ? Object.values(sizes as Record<string, unknown>).reduce<number>((sum, size) => sum + (Number(size) || 0), 0)
+    : 0;
+
+const FIXED_AREAS: { key: string; label: string; area: (formData: FormData) => number }[] = [
+  { key: 'total', label: 'Total floor area', area: (f) => Number(f.totalSqm) || 0 },
+  { key: 'bathrooms', label: 'All bathrooms', area: (f) => sumSizes(f.bathroomSizes) },
+  { key: 'bedrooms', label: 'All bedrooms', area: (f) => sumSizes(f.bedroomSizes) },
+  { key: 'renovation_rooms', label: 'All rooms being renovated', area: (f) => sumSizes(f.roomSizes) },
+  { key: 'pool', label: 'Pool', area: (f) => Number(f.poolSize) || 0 },
+  { key: 'garden', label: 'Garden', area: (f) => Number(f.gardenSize) || 0 },
+  { key: 'balcony', label: 'Balcony', area: (f) => Number(f.balconySize) || 0 },
+  { key: 'plot', label: 'Plot', area: (f) => Number(f.plotSize) || 0 }
+];
+
+/** Room names the questionnaire offers for renovations */
+export const RENOVATION_ROOMS = [
+  'Kitchen', 'Living Room', 'Dining Room', 'Master Bedroom', 'Bedroom',
+  'Bathroom', 'Guest Bathroom', 'Office', 'Basement', 'Attic', 'Garage',
+  'Laundry Room', 'Walk-in Closet', 'Balcony', 'Terrace'
+];
+
+/** Every area a template line can scale from */
+export const AREA_SOURCES: { key: string; label: string }[] = [
+  ...FIXED_AREAS.map(({ key, label }) => ({ key, label })),
+  ...RENOVATION_ROOMS.map((room) => ({ key: `room:${room}`, label: `Renovation: ${room}` }))
+];
+
+export const areaSourceLabel = (key: string | null) =>
+  AREA_SOURCES.find((source) => source.key === key)?.label || key || '';
+
+/** Size of an area in the project, or null when the client did not give it */
+export const projectArea = (formData: unknown, key: string): number | null => {
+  if (!formData || typeof formData !== 'object') return null;
+  const data = formData as FormData;
+
+  const area = key.startsWith('room:')
+    ? Number((data.roomSizes as Record<string, unknown> | undefined)?.[key.slice(5)]) || 0
+    : FIXED_AREAS.find((source) => source.key === key)?.area(data) || 0;
+
+  return area > 0 ? area : null;
+};
+
+export interface AppliedLine {
+  item: string;
+  description: string;
+  type: QuoteCostType;
+  amount: number;
+  /** Set when the quantity came from the project's room sizes */
+  scaledFrom: string | null;
+}
+
+/** Prices every template line for a project, scaling quantities where the project gives the area */
+export const applyTemplateLines = (lines: TemplateLine[], formData: unknown): AppliedLine[] =>
+  lines.map((line) => {
+    const area = line.unit === 'm2' && line.scaleFrom ? projectArea(formData, line.scaleFrom) : null;
+    const quantity = area !== null ? Math.round(area * (line.scaleFactor || 1) * 100) / 100 : line.quantity;
+    const rate = `${formatQuantity(quantity, line.unit)} × €${Number(line.unitRate).toFixed(2)}`;
+
+    return {
+      item: line.item,
+      description: [line.description, rate].filter(Boolean).join(' · '),
+      type: line.type,
+      amount: lineAmount({ quantity, unitRate: line.unitRate }),
+      scaledFrom: area !== null ? `${areaSourceLabel(line.scaleFrom)} (${area} m²)` : null
+    };
+  });
+
+export const fetchPriceBook = async (vendorId: string, includeArchived = false): Promise<PriceBookItem[]> => {
+  let query = supabase
+    .from('vendor_price_book_items')
+    .select('id, name, description, unit, unit_rate, cost_type, archived_at')
+    .eq('vendor_id', vendorId)
+    .order('name');
+
+  if (!includeArchived) query = query.is('archived_at', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as PriceBookItem[];
+};
+
+export const fetchQuoteTemplates = async (vendorId: string): Promise<QuoteTemplate[]> => {
+  const { data, error } = await supabase
+    .from('quote_templates')
+    .select('id, name, description, current_version, updated_at')
+    .eq('vendor_id', vendorId)
+    .is('archived_at', null)
+    .gt('current_version', 0)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** Versions of a template, newest first */
+export const fetchTemplateVersions = async (templateId: string): Promise<QuoteTemplateVersion[]> => {
+  const { data, error } = await supabase
+    .from('quote_template_versions')
+    .select('id, template_id, version, content, change_note, created_at')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as QuoteTemplateVersion[];
+};
+
+export const fetchCurrentTemplateVersion = async (template: QuoteTemplate): Promise<QuoteTemplateVersion> => {
+  const { data, error } = await supabase
+    .from('quote_template_versions')
+    .select('id, template_id, version, content, change_note, created_at')
+    .eq('template_id', template.id)
+    .eq('version', template.current_version)
+    .single();
+
+  if (error) throw error;
+  return data as unknown as QuoteTemplateVersion;
+};
+
+/** Saves content as the next version, creating the template when templateId is null */
+export const saveQuoteTemplate = async (
+  templateId: string | null,
+  name: string,
+  description: string,
+  content: QuoteTemplateContent,
+  changeNote: string
+) => {
+  const { data, error } = await supabase.rpc('save_quote_template', {
+    template_id_param: templateId,
+    name_param: name,
+    description_param: description,
+    content_param: content as unknown as Json,
+    change_note_param: changeNote
+  });
+
+  if (error) throw error;
+  return data;
+};
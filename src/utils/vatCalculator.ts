@@ -4,8 +4,10 @@
  * Implements Cyprus VAT rules for construction and renovation services:
  * - Standard rate: 19%
  * - Reduced rate (renovation): 5% for private dwellings ≥3 years old, materials ≤50%
- * - Reduced rate (primary residence): 5% for first 130m², 19% for remainder
+ * - Reduced rate (primary residence): 5% for first 130m², 19% for remainder,
+ *   within the area, value and once-per-beneficiary caps
  * - Reverse charge: B2B construction services (0% with mandatory note)
+ * - Mixed: any combination of the above, computed line by line
  * 
  * References:
  * - Cyprus VAT Act
@@ -13,15 +15,24 @@
  * - Cyprus Ministry of Finance circulars on reduced rates
  */
 
+import { validateVatNumber } from '@/utils/vatNumber';
+
+export type LineVATBasis = 'standard19' | 'reduced5_renovation' | 'reduced5_primary_residence' | 'reverse_charge';
+
 export interface VATResult {
   subtotal: number;
   vatRate: number;
   vatAmount: number;
   total: number;
-  vatBasis: 'standard19' | 'reduced5_renovation' | 'reduced5_primary_residence' | 'reverse_charge';
+  vatBasis: LineVATBasis | 'mixed';
   breakdown?: VATBreakdown[];
+  lines?: LineVATResult[];
+  rateSummary?: VATRateSummary[];
   warnings?: string[];
   reverseChargeNote?: string;
+  retentionPercentage?: number;
+  retentionAmount?: number;
+  primaryResidenceEvidence?: PrimaryResidenceEvidence;
 }
 
 export interface VATBreakdown {
@@ -31,6 +42,40 @@ export interface VATBreakdown {
   vatAmount: number;
 }
 
+export interface InvoiceLineInput {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  isMaterial: boolean;
+  vatBasis: LineVATBasis;
+}
+
+export interface LineVATResult {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  lineTotal: number;
+  isMaterial: boolean;
+  vatBasis: LineVATBasis;
+  vatRate: number;
+  vatAmount: number;
+  isRetention?: boolean;
+}
+
+export interface VATRateSummary {
+  vatBasis: LineVATBasis;
+  vatRate: number;
+  taxableAmount: number;
+  vatAmount: number;
+}
+
+export interface LineItemsVATParams {
+  lines: InvoiceLineInput[];
+  renovation?: Omit<RenovationVATParams, 'amount'>;
+  primaryResidence?: Omit<PrimaryResidenceVATParams, 'amount' | 'pricePerSqm'>;
+  vatNumbers?: { supplier: string; customer: string };
+}
+
 export interface RenovationVATParams {
   amount: number;
   dwellingAgeYears: number;
@@ -41,8 +86,95 @@ export interface PrimaryResidenceVATParams {
   amount: number;
   totalAreaSqm: number;
   pricePerSqm?: number;
+  /** Total value of the dwelling (contract price), checked against maxTotalValue */
+  propertyValue?: number;
+  reliefUsed?: PrimaryResidenceReliefUsage;
+  thresholds?: Partial<PrimaryResidenceThresholds>;
 }
 
+export interface PrimaryResidenceThresholds {
+  /** Area charged at 5% */
+  reducedAreaSqm: number;
+  /** Dwellings larger than this do not qualify at all */
+  maxTotalAreaSqm: number;
+  /** Lifetime cap on the value charged at 5% per beneficiary */
+  maxReducedValue: number;
+  /** Dwellings worth more than this do not qualify at all */
+  maxTotalValue: number;
+}
+
+export interface PrimaryResidenceReliefUsage {
+  /** Net amount already invoiced at 5% to this client under the relief */
+  reducedValueUsed: number;
+  /** The client has already claimed the relief for a different dwelling */
+  claimedForOtherProperty: boolean;
+}
+
+export interface PrimaryResidenceEligibility {
+  eligible: boolean;
+  /** Share of the primary residence amount that may be charged at 5% */
+  reducedShare: number;
+  remainingReducedValue: number;
+  warnings: string[];
+  evidence: PrimaryResidenceEvidence;
+}
+
+/** Snapshot stored on the invoice so the 5% decision can be audited later */
+export interface PrimaryResidenceEvidence {
+  eligible: boolean;
+  total_area_sqm: number;
+  property_value: number | null;
+  amount: number;
+  reduced_amount: number;
+  reduced_value_used_before: number;
+  claimed_for_other_property: boolean;
+  thresholds: PrimaryResidenceThresholds;
+  warnings: string[];
+  assessed_at: string;
+  /** Vendor confirmed the client's declaration that this is their primary residence */
+  client_declaration_confirmed?: boolean;
+}
+
+export const DEFAULT_PRIMARY_RESIDENCE_THRESHOLDS: PrimaryResidenceThresholds = {
+  reducedAreaSqm: 130,
+  maxTotalAreaSqm: 190,
+  maxReducedValue: 350000,
+  maxTotalValue: 475000
+};
+
+/** Materials above this share of the supply rule out the 5% renovation rate */
+export const RENOVATION_MAX_MATERIALS_PERCENTAGE = 50;
+
+/**
+ * Version of the rules implemented here, stored with every VAT decision.
+ * Bump it whenever a rate, threshold or eligibility check changes.
+ */
+export const VAT_CALCULATOR_VERSION = '2025.10.1';
+
+/** Article of the Cyprus VAT Law for the domestic reverse charge on construction services */
+export const REVERSE_CHARGE_ARTICLE = 'Article 11B';
+
+/** Legal basis of each VAT treatment, stored with every VAT decision */
+export const VAT_LEGAL_REFERENCES: Record<LineVATBasis, string> = {
+  standard19: 'Cyprus VAT Law N.95(I)/2000, standard rate of 19%',
+  reduced5_renovation:
+    'Cyprus VAT Law N.95(I)/2000, Fifth Schedule, Table B, paragraph 10 (renovation and repair of private dwellings)',
+  reduced5_primary_residence:
+    'Cyprus VAT Law N.95(I)/2000, Fifth Schedule, Table B, paragraph 13 (construction of a primary residence)',
+  reverse_charge: `Cyprus VAT Law N.95(I)/2000, ${REVERSE_CHARGE_ARTICLE} (domestic reverse charge on construction services)`
+};
+
+export const PLACE_OF_SUPPLY_REFERENCE =
+  'EU VAT Directive 2006/112/EC, Article 47 (services connected with immovable property)';
+
+const REVERSE_CHARGE_NOTE =
+  `VAT to be accounted for by the recipient under the domestic reverse charge mechanism (${REVERSE_CHARGE_ARTICLE} of the Cyprus VAT Law). Both parties must be registered for VAT in Cyprus.`;
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+const formatEuro = (value: number) =>
+  `€${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 /**
  * Calculate standard 19% VAT
  */
@@ -61,6 +193,21 @@ export function calculateStandardVAT(amount: number): VATResult {
   };
 }
 
+/**
+ * Materials as a percentage of the total value of the lines, rounded to 2 decimals
+ */
+export function calculateMaterialsPercentage(
+  lines: Pick<InvoiceLineInput, 'quantity' | 'unitAmount' | 'isMaterial'>[]
+): number {
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitAmount, 0);
+  if (total <= 0) return 0;
+
+  const materials = lines
+    .filter(line => line.isMaterial)
+    .reduce((sum, line) => sum + line.quantity * line.unitAmount, 0);
+  return round2((materials / total) * 100);
+}
+
 /**
  * Calculate 5% reduced VAT for renovation of private dwellings
  * 
@@ -83,8 +230,8 @@ export function calculateRenovationVAT(params: RenovationVATParams): VATResult {
     return { ...calculateStandardVAT(amount), warnings };
   }
 
-  if (materialsPercentage > 50) {
-    warnings.push('Materials exceed 50% of total value. Using standard 19% rate.');
+  if (materialsPercentage > RENOVATION_MAX_MATERIALS_PERCENTAGE) {
+    warnings.push(`Materials exceed ${RENOVATION_MAX_MATERIALS_PERCENTAGE}% of total value. Using standard 19% rate.`);
     return { ...calculateStandardVAT(amount), warnings };
   }
 
@@ -104,60 +251,134 @@ export function calculateRenovationVAT(params: RenovationVATParams): VATResult {
   };
 }
 
+/**
+ * Check the statutory conditions for the 5% primary residence rate
+ * 
+ * Conditions (thresholds are configurable, defaults shown):
+ * - Relief is once per beneficiary: a client who claimed it for another
+ *   dwelling gets 19%
+ * - Total area up to 190 m² and total value up to €475,000, otherwise 19% on all of it
+ * - 5% applies to the first 130 m² only
+ * - The value charged at 5% is capped at €350,000 per beneficiary, across all invoices
+ * 
+ * @param amount - Amount of this invoice claimed under the relief
+ * @param params - Property details and the client's relief used so far
+ * @returns Share of the amount allowed at 5%, warnings and an evidence snapshot
+ */
+export function assessPrimaryResidenceEligibility(
+  amount: number,
+  params: Omit<PrimaryResidenceVATParams, 'amount' | 'pricePerSqm'>
+): PrimaryResidenceEligibility {
+  const thresholds = { ...DEFAULT_PRIMARY_RESIDENCE_THRESHOLDS, ...params.thresholds };
+  const { totalAreaSqm, propertyValue, reliefUsed } = params;
+  const reducedValueUsed = reliefUsed?.reducedValueUsed ?? 0;
+  const remainingReducedValue = Math.max(0, thresholds.maxReducedValue - reducedValueUsed);
+  const warnings: string[] = [];
+
+  let reducedShare = 0;
+  if (reliefUsed?.claimedForOtherProperty) {
+    warnings.push('Client has already used the 5% primary residence relief for another dwelling. Charged at standard 19% rate.');
+  } else if (totalAreaSqm > thresholds.maxTotalAreaSqm) {
+    warnings.push(
+      `Total area of ${totalAreaSqm} m² exceeds the ${thresholds.maxTotalAreaSqm} m² limit for the primary residence rate. Charged at standard 19% rate.`
+    );
+  } else if (propertyValue && propertyValue > thresholds.maxTotalValue) {
+    warnings.push(
+      `Property value of ${formatEuro(propertyValue)} exceeds the ${formatEuro(thresholds.maxTotalValue)} limit for the primary residence rate. Charged at standard 19% rate.`
+    );
+  } else if (remainingReducedValue <= 0) {
+    warnings.push(
+      `Client has used the full ${formatEuro(thresholds.maxReducedValue)} primary residence relief. Charged at standard 19% rate.`
+    );
+  } else {
+    reducedShare = 1;
+    if (totalAreaSqm > thresholds.reducedAreaSqm) {
+      reducedShare = thresholds.reducedAreaSqm / totalAreaSqm;
+      warnings.push(
+        `Property exceeds ${thresholds.reducedAreaSqm} m². Primary residence lines split: ${(reducedShare * 100).toFixed(1)}% at 5%, remainder at 19%.`
+      );
+    }
+    if (amount > 0 && amount * reducedShare > remainingReducedValue) {
+      reducedShare = remainingReducedValue / amount;
+      warnings.push(
+        `Only ${formatEuro(remainingReducedValue)} of the ${formatEuro(thresholds.maxReducedValue)} primary residence relief remains for this client. The excess is charged at 19%.`
+      );
+    }
+  }
+
+  const reducedAmount = round2(amount * reducedShare);
+
+  return {
+    eligible: reducedShare > 0,
+    reducedShare,
+    remainingReducedValue,
+    warnings,
+    evidence: {
+      eligible: reducedShare > 0,
+      total_area_sqm: totalAreaSqm,
+      property_value: propertyValue ?? null,
+      amount: round2(amount),
+      reduced_amount: reducedAmount,
+      reduced_value_used_before: reducedValueUsed,
+      claimed_for_other_property: reliefUsed?.claimedForOtherProperty ?? false,
+      thresholds,
+      warnings,
+      assessed_at: new Date().toISOString()
+    }
+  };
+}
+
 /**
  * Calculate VAT for primary residence construction (mixed rates)
  * 
  * Conditions:
  * - First 130 m² at 5%
  * - Remainder at 19%
- * - Subject to value/size limits
+ * - Subject to the area, value and once-per-beneficiary limits
+ *   (see assessPrimaryResidenceEligibility)
  * 
  * @param params - Primary residence parameters
  * @returns VAT calculation result with breakdown
  */
 export function calculatePrimaryResidenceVAT(params: PrimaryResidenceVATParams): VATResult {
   const { amount, totalAreaSqm, pricePerSqm } = params;
-  const warnings: string[] = [];
   const breakdown: VATBreakdown[] = [];
 
-  const REDUCED_AREA_LIMIT = 130; // m²
-  const reducedAreaApplicable = Math.min(totalAreaSqm, REDUCED_AREA_LIMIT);
-  const standardAreaApplicable = Math.max(0, totalAreaSqm - REDUCED_AREA_LIMIT);
+  const eligibility = assessPrimaryResidenceEligibility(amount, params);
+  const warnings = [...eligibility.warnings];
 
-  // Calculate price per sqm if not provided
-  const effectivePricePerSqm = pricePerSqm || (amount / totalAreaSqm);
+  // A price per m² prices the reduced area directly; otherwise split pro rata
+  let reducedAmount = amount * eligibility.reducedShare;
+  if (pricePerSqm && eligibility.eligible) {
+    const reducedArea = Math.min(totalAreaSqm, eligibility.evidence.thresholds.reducedAreaSqm);
+    reducedAmount = Math.min(reducedArea * pricePerSqm, eligibility.remainingReducedValue, amount);
+  }
+  reducedAmount = round2(reducedAmount);
+  const standardAmount = round2(amount - reducedAmount);
 
-  // Amount for first 130m² (5% VAT)
-  const reducedAmount = reducedAreaApplicable * effectivePricePerSqm;
   const reducedVat = (reducedAmount * 5) / 100;
+  if (reducedAmount > 0) {
+    breakdown.push({
+      description: 'Primary residence relief @ 5% VAT',
+      amount: reducedAmount,
+      vatRate: 5,
+      vatAmount: reducedVat
+    });
+  }
 
-  breakdown.push({
-    description: `First ${reducedAreaApplicable.toFixed(0)} m² @ 5% VAT`,
-    amount: reducedAmount,
-    vatRate: 5,
-    vatAmount: reducedVat
-  });
-
-  // Amount for remainder (19% VAT)
   let standardVat = 0;
-  if (standardAreaApplicable > 0) {
-    const standardAmount = standardAreaApplicable * effectivePricePerSqm;
+  if (standardAmount > 0) {
     standardVat = (standardAmount * 19) / 100;
-
     breakdown.push({
-      description: `Remaining ${standardAreaApplicable.toFixed(0)} m² @ 19% VAT`,
+      description: reducedAmount > 0 ? 'Remainder @ 19% VAT' : 'Standard rate @ 19% VAT',
       amount: standardAmount,
       vatRate: 19,
       vatAmount: standardVat
     });
-
-    warnings.push(
-      `Property exceeds 130 m². First 130 m² charged at 5%, remaining ${standardAreaApplicable.toFixed(0)} m² at 19%.`
-    );
   }
 
   const totalVat = reducedVat + standardVat;
-  const effectiveVatRate = (totalVat / amount) * 100;
+  const effectiveVatRate = amount > 0 ? (totalVat / amount) * 100 : 0;
 
   return {
     subtotal: amount,
@@ -166,7 +387,8 @@ export function calculatePrimaryResidenceVAT(params: PrimaryResidenceVATParams):
     total: parseFloat((amount + totalVat).toFixed(2)),
     vatBasis: 'reduced5_primary_residence',
     breakdown,
-    warnings
+    warnings,
+    primaryResidenceEvidence: { ...eligibility.evidence, reduced_amount: reducedAmount }
   };
 }
 
@@ -176,26 +398,252 @@ export function calculatePrimaryResidenceVAT(params: PrimaryResidenceVATParams):
  * When applicable, VAT is accounted for by the recipient (B2B construction services).
  * Invoice shows 0% VAT with mandatory note.
  * 
- * Conditions (vendor should verify):
- * - Both parties registered for VAT
- * - Specific construction services
+ * Conditions:
+ * - Both parties registered for VAT in Cyprus (checked offline when the
+ *   VAT numbers are passed, and again server-side before the invoice is sent)
+ * - Specific construction services (vendor should verify)
  * - Domestic (Cyprus) supply
  * 
  * @param amount - Invoice amount
+ * @param vatNumbers - Supplier and customer VAT numbers to validate
  * @returns VAT result with reverse charge note
  */
-export function applyReverseCharge(amount: number): VATResult {
+export function applyReverseCharge(
+  amount: number,
+  vatNumbers?: { supplier: string; customer: string }
+): VATResult {
+  const warnings = vatNumbers
+    ? reverseChargeVatNumberWarnings(vatNumbers.supplier, vatNumbers.customer)
+    : ['Reverse charge: Ensure both parties are VAT-registered and service qualifies for reverse charge.'];
+
   return {
     subtotal: amount,
     vatRate: 0,
     vatAmount: 0,
     total: amount,
     vatBasis: 'reverse_charge',
-    reverseChargeNote:
-      'VAT to be accounted for by the recipient under the domestic reverse charge mechanism (Article 13(2)(b) of the Cyprus VAT Law). Both parties must be registered for VAT in Cyprus.',
-    warnings: [
-      'Reverse charge: Ensure both parties are VAT-registered and service qualifies for reverse charge.'
-    ]
+    reverseChargeNote: REVERSE_CHARGE_NOTE,
+    warnings
+  };
+}
+
+/**
+ * Problems with the VAT numbers of a domestic reverse charge supply
+ */
+export function reverseChargeVatNumberWarnings(supplierVatId: string, customerVatId: string): string[] {
+  const warnings: string[] = [];
+  const parties = [
+    { label: 'supplier', result: validateVatNumber(supplierVatId) },
+    { label: 'customer', result: validateVatNumber(customerVatId) }
+  ];
+
+  for (const { label, result } of parties) {
+    if (!result.valid) {
+      warnings.push(`Reverse charge: ${label} VAT number is invalid (${result.error}).`);
+    } else if (result.countryCode !== 'CY') {
+      warnings.push(`Reverse charge: ${label} VAT number ${result.normalized} is not a Cyprus VAT number.`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Group VAT lines into a per-rate summary, highest rate first
+ */
+export function summariseVATLines(lines: LineVATResult[]): VATRateSummary[] {
+  const summaryByKey = new Map<string, VATRateSummary>();
+  for (const line of lines) {
+    const key = `${line.vatBasis}:${line.vatRate}`;
+    const entry = summaryByKey.get(key) || { vatBasis: line.vatBasis, vatRate: line.vatRate, taxableAmount: 0, vatAmount: 0 };
+    entry.taxableAmount = round2(entry.taxableAmount + line.lineTotal);
+    entry.vatAmount = round2(entry.vatAmount + line.vatAmount);
+    summaryByKey.set(key, entry);
+  }
+  return Array.from(summaryByKey.values()).sort((a, b) => b.vatRate - a.vatRate);
+}
+
+/**
+ * Calculate VAT line by line for invoices that mix VAT treatments
+ * 
+ * Each line carries its own VAT basis:
+ * - Renovation lines get 5% only if the dwelling and materials conditions hold,
+ *   otherwise they fall back to 19%
+ * - Primary residence lines are split into a 5% part (first 130 m², within the
+ *   client's remaining relief) and a 19% part
+ * - Reverse charge lines are 0% and add the mandatory note
+ * 
+ * VAT is rounded per line and the invoice totals are the sum of the rounded lines,
+ * so the per-rate summary always reconciles with the line items.
+ * 
+ * @param params - Invoice lines and the eligibility inputs for reduced rates
+ * @returns VAT result with per-line results and a per-rate summary
+ */
+export function calculateLineItemsVAT(params: LineItemsVATParams): VATResult {
+  const { lines, renovation, primaryResidence } = params;
+  const warnings: string[] = [];
+  const results: LineVATResult[] = [];
+
+  const hasBasis = (basis: LineVATBasis) => lines.some(line => line.vatBasis === basis);
+
+  let renovationEligible = true;
+  if (hasBasis('reduced5_renovation')) {
+    const dwellingAgeYears = renovation?.dwellingAgeYears ?? 0;
+    const materialsPercentage = renovation?.materialsPercentage ?? 0;
+
+    if (dwellingAgeYears < 3) {
+      renovationEligible = false;
+      warnings.push('Dwelling must be at least 3 years old for reduced rate. Renovation lines charged at standard 19% rate.');
+    } else if (materialsPercentage > RENOVATION_MAX_MATERIALS_PERCENTAGE) {
+      renovationEligible = false;
+      warnings.push(`Materials exceed ${RENOVATION_MAX_MATERIALS_PERCENTAGE}% of total value. Renovation lines charged at standard 19% rate.`);
+    }
+  }
+
+  let reducedShare = 1;
+  let primaryResidenceEvidence: PrimaryResidenceEvidence | undefined;
+  if (hasBasis('reduced5_primary_residence')) {
+    const primaryAmount = lines
+      .filter(line => line.vatBasis === 'reduced5_primary_residence')
+      .reduce((sum, line) => sum + line.quantity * line.unitAmount, 0);
+    const eligibility = assessPrimaryResidenceEligibility(primaryAmount, {
+      totalAreaSqm: DEFAULT_PRIMARY_RESIDENCE_THRESHOLDS.reducedAreaSqm,
+      ...primaryResidence
+    });
+    reducedShare = eligibility.reducedShare;
+    primaryResidenceEvidence = eligibility.evidence;
+    warnings.push(...eligibility.warnings);
+  }
+
+  const pushLine = (line: InvoiceLineInput, lineTotal: number, vatBasis: LineVATBasis, vatRate: number, description = line.description) => {
+    results.push({
+      description,
+      quantity: line.quantity,
+      unitAmount: round2(lineTotal / (line.quantity || 1)),
+      lineTotal: round2(lineTotal),
+      isMaterial: line.isMaterial,
+      vatBasis,
+      vatRate,
+      vatAmount: round2((lineTotal * vatRate) / 100)
+    });
+  };
+
+  for (const line of lines) {
+    const lineTotal = line.quantity * line.unitAmount;
+
+    switch (line.vatBasis) {
+      case 'reduced5_renovation':
+        if (renovationEligible) {
+          pushLine(line, lineTotal, 'reduced5_renovation', 5);
+        } else {
+          pushLine(line, lineTotal, 'standard19', 19);
+        }
+        break;
+
+      case 'reduced5_primary_residence': {
+        if (reducedShare >= 1) {
+          pushLine(line, lineTotal, 'reduced5_primary_residence', 5);
+          break;
+        }
+        if (reducedShare <= 0) {
+          pushLine(line, lineTotal, 'standard19', 19);
+          break;
+        }
+        const reducedAmount = round2(lineTotal * reducedShare);
+        pushLine(line, reducedAmount, 'reduced5_primary_residence', 5, `${line.description} (primary residence relief @ 5%)`);
+        pushLine(line, lineTotal - reducedAmount, 'standard19', 19, `${line.description} (remainder @ 19%)`);
+        break;
+      }
+
+      case 'reverse_charge':
+        pushLine(line, lineTotal, 'reverse_charge', 0);
+        break;
+
+      default:
+        pushLine(line, lineTotal, 'standard19', 19);
+    }
+  }
+
+  const rateSummary = summariseVATLines(results);
+  const subtotal = round2(results.reduce((sum, line) => sum + line.lineTotal, 0));
+  const vatAmount = round2(results.reduce((sum, line) => sum + line.vatAmount, 0));
+  const bases = new Set(results.map(line => line.vatBasis));
+  const hasReverseCharge = bases.has('reverse_charge');
+
+  if (hasReverseCharge) {
+    warnings.push(...(params.vatNumbers
+      ? reverseChargeVatNumberWarnings(params.vatNumbers.supplier, params.vatNumbers.customer)
+      : ['Reverse charge: Ensure both parties are VAT-registered and service qualifies for reverse charge.']));
+  }
+
+  return {
+    subtotal,
+    vatRate: subtotal > 0 ? round2((vatAmount / subtotal) * 100) : 0,
+    vatAmount,
+    total: round2(subtotal + vatAmount),
+    vatBasis: bases.size === 1 ? results[0].vatBasis : 'mixed',
+    lines: results,
+    rateSummary,
+    warnings,
+    reverseChargeNote: hasReverseCharge ? REVERSE_CHARGE_NOTE : undefined,
+    primaryResidenceEvidence: primaryResidenceEvidence && {
+      ...primaryResidenceEvidence,
+      reduced_amount: round2(
+        results
+          .filter(line => line.vatBasis === 'reduced5_primary_residence')
+          .reduce((sum, line) => sum + line.lineTotal, 0)
+      )
+    }
+  };
+}
+
+/**
+ * Hold back retention on a stage invoice
+ * 
+ * Construction contracts withhold a percentage of each stage until the defects
+ * liability period ends. The retained amount is deducted before VAT, one negative
+ * line per VAT rate, so VAT on the retention becomes due when it is released.
+ * 
+ * @param result - Line-by-line VAT result for the stage
+ * @param retentionPercentage - Percentage of the stage held back (e.g. 5 or 10)
+ * @returns VAT result including retention lines and the retained amount
+ */
+export function applyRetention(result: VATResult, retentionPercentage: number): VATResult {
+  if (!retentionPercentage || retentionPercentage <= 0 || !result.rateSummary) {
+    return result;
+  }
+
+  const retentionLines: LineVATResult[] = result.rateSummary
+    .filter(entry => entry.taxableAmount > 0)
+    .map(entry => {
+      const lineTotal = -round2((entry.taxableAmount * retentionPercentage) / 100);
+      return {
+        description: `Retention held back (${retentionPercentage}%) - ${entry.vatRate}% VAT`,
+        quantity: 1,
+        unitAmount: lineTotal,
+        lineTotal,
+        isMaterial: false,
+        vatBasis: entry.vatBasis,
+        vatRate: entry.vatRate,
+        vatAmount: round2((lineTotal * entry.vatRate) / 100),
+        isRetention: true
+      };
+    });
+
+  const lines = [...(result.lines || []), ...retentionLines];
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const vatAmount = round2(lines.reduce((sum, line) => sum + line.vatAmount, 0));
+
+  return {
+    ...result,
+    subtotal,
+    vatAmount,
+    vatRate: subtotal > 0 ? round2((vatAmount / subtotal) * 100) : 0,
+    total: round2(subtotal + vatAmount),
+    lines,
+    rateSummary: summariseVATLines(lines),
+    retentionPercentage,
+    retentionAmount: -round2(retentionLines.reduce((sum, line) => sum + line.lineTotal, 0))
   };
 }
 
@@ -235,10 +683,25 @@ export function validateVATCalculation(result: VATResult): { valid: boolean; err
   const errors: string[] = [];
 
   // VAT rates must be exactly 0%, 5%, or 19%
-  if (![0, 5, 19].includes(result.vatRate) && result.vatBasis !== 'reduced5_primary_residence') {
+  if (![0, 5, 19].includes(result.vatRate) && result.vatBasis !== 'reduced5_primary_residence' && result.vatBasis !== 'mixed') {
     errors.push(`Invalid VAT rate: ${result.vatRate}%. Must be 0%, 5%, or 19%.`);
   }
 
+  // Every line rate must be exactly 0%, 5%, or 19%
+  result.lines?.forEach(line => {
+    if (![0, 5, 19].includes(line.vatRate)) {
+      errors.push(`Invalid VAT rate on "${line.description}": ${line.vatRate}%. Must be 0%, 5%, or 19%.`);
+    }
+  });
+
+  // Per-rate summary must reconcile with the invoice VAT
+  if (result.rateSummary) {
+    const summaryVat = result.rateSummary.reduce((sum, entry) => sum + entry.vatAmount, 0);
+    if (Math.abs(summaryVat - result.vatAmount) > 0.01) {
+      errors.push(`VAT summary mismatch: ${summaryVat.toFixed(2)} ≠ ${result.vatAmount.toFixed(2)}`);
+    }
+  }
+
   // Total must equal subtotal + VAT
   const calculatedTotal = result.subtotal + result.vatAmount;
   if (Math.abs(calculatedTotal - result.total) > 0.01) {
@@ -270,6 +733,13 @@ export function formatVATResult(result: VATResult): string {
   output += `Total: €${result.total.toFixed(2)}\n`;
   output += `Basis: ${result.vatBasis}\n`;
 
+  if (result.rateSummary && result.rateSummary.length > 0) {
+    output += '\nVAT Summary:\n';
+    result.rateSummary.forEach(entry => {
+      output += `  ${entry.vatRate}% (${entry.vatBasis}): €${entry.taxableAmount.toFixed(2)} + €${entry.vatAmount.toFixed(2)} VAT\n`;
+    });
+  }
+
   if (result.breakdown && result.breakdown.length > 0) {
     output += '\nBreakdown:\n';
     result.breakdown.forEach(item => {
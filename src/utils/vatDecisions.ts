@@ -0,0 +1,177 @@
+/**
+ * VAT decision records
+ *
+ * Every VAT wizard run that creates an invoice is stored as an immutable decision:
+ * the answers given, the calculator version, the result with its warnings and the
+ * legal references for the treatments used. Vendors attach supporting evidence
+ * and admins review the decision, both as append-only records.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  PLACE_OF_SUPPLY_REFERENCE,
+  VAT_CALCULATOR_VERSION,
+  VAT_LEGAL_REFERENCES,
+  type LineVATBasis,
+  type VATResult
+} from '@/utils/vatCalculator';
+
+export type VatEvidenceType =
+  | 'title_deed'
+  | 'final_approval_certificate'
+  | 'building_permit'
+  | 'primary_residence_declaration'
+  | 'vat_registration'
+  | 'other';
+
+export const VAT_EVIDENCE_TYPE_LABELS: Record<VatEvidenceType, string> = {
+  title_deed: 'Title deed',
+  final_approval_certificate: 'Certificate of final approval',
+  building_permit: 'Building permit',
+  primary_residence_declaration: 'Primary residence declaration',
+  vat_registration: 'Customer VAT registration',
+  other: 'Other'
+};
+
+/** Evidence usually asked for by the tax authority for each treatment */
+export const SUGGESTED_VAT_EVIDENCE: Partial<Record<LineVATBasis, VatEvidenceType[]>> = {
+  reduced5_renovation: ['final_approval_certificate', 'title_deed'],
+  reduced5_primary_residence: ['primary_residence_declaration', 'building_permit', 'title_deed'],
+  reverse_charge: ['vat_registration']
+};
+
+export type VatReviewOutcome = 'accepted' | 'queried';
+
+/** Everything the vendor answered in the VAT wizard */
+export interface VatDecisionInputs {
+  propertyLocation: string;
+  defaultBasis: LineVATBasis;
+  lines: {
+    description: string;
+    quantity: number;
+    unitAmount: number;
+    isMaterial: boolean;
+    vatBasis: LineVATBasis;
+  }[];
+  retentionPercentage: number;
+  renovation: {
+    dwellingAgeYears: number;
+    materialsPercentage: number;
+    materialsPercentageDerived: boolean;
+    privateResidenceConfirmed: boolean;
+  } | null;
+  primaryResidence: {
+    totalAreaSqm: number;
+    propertyValue: number | null;
+    clientDeclarationConfirmed: boolean;
+  } | null;
+  reverseCharge: {
+    businessToBusiness: boolean;
+    bothVatRegistered: boolean;
+    supplierVatId: string;
+    customerVatId: string;
+  } | null;
+}
+
+export interface VatDecisionDraft {
+  vatBasis: string;
+  calculatorVersion: string;
+  inputs: VatDecisionInputs;
+  result: VATResult;
+  warnings: string[];
+  legalReferences: string[];
+}
+
+export const buildVatDecision = (inputs: VatDecisionInputs, result: VATResult): VatDecisionDraft => {
+  const bases = Array.from(new Set(inputs.lines.map((line) => line.vatBasis)));
+  const warnings = Array.from(new Set([
+    ...(result.warnings || []),
+    ...(result.primaryResidenceEvidence?.warnings || [])
+  ]));
+
+  return {
+    vatBasis: result.vatBasis,
+    calculatorVersion: VAT_CALCULATOR_VERSION,
+    inputs,
+    result,
+    warnings,
+    legalReferences: [...bases.map((basis) => VAT_LEGAL_REFERENCES[basis]), PLACE_OF_SUPPLY_REFERENCE]
+  };
+};
+
+/**
+ * Create a draft invoice with its items and VAT decision in one transaction.
+ * The database fills in the vendor, decision parties and time, and refuses to
+ * issue an invoice that has no decision.
+ */
+export const createInvoiceWithVatDecision = async (
+  invoice: Record<string, unknown>,
+  items: Record<string, unknown>[],
+  decision: VatDecisionDraft
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_invoice_with_vat_decision', {
+    invoice_param: invoice as Json,
+    items_param: items as Json,
+    decision_param: {
+      vat_basis: decision.vatBasis,
+      calculator_version: decision.calculatorVersion,
+      inputs: decision.inputs as unknown as Json,
+      result: decision.result as unknown as Json,
+      warnings: decision.warnings,
+      legal_references: decision.legalReferences
+    }
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const attachVatEvidence = async (
+  decision: { decision_id: string; vendor_id: string; invoice_id: string },
+  file: File,
+  evidenceType: VatEvidenceType,
+  description: string
+) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'pdf';
+  const filePath = `${decision.vendor_id}/${decision.invoice_id}/${Date.now()}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('vat-evidence')
+    .upload(filePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase
+    .from('vat_decision_evidence')
+    .insert({
+      decision_id: decision.decision_id,
+      vendor_id: decision.vendor_id,
+      uploaded_by: decision.vendor_id,
+      evidence_type: evidenceType,
+      file_path: filePath,
+      file_name: file.name,
+      description: description.trim() || null
+    });
+
+  if (error) throw error;
+};
+
+export const getVatEvidenceUrl = async (filePath: string) => {
+  const { data, error } = await supabase.storage
+    .from('vat-evidence')
+    .createSignedUrl(filePath, 300);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const reviewVatDecision = async (decisionId: string, outcome: VatReviewOutcome, notes: string) => {
+  const { error } = await supabase.rpc('review_vat_decision', {
+    decision_id_param: decisionId,
+    outcome_param: outcome,
+    notes_param: notes
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,9 @@
+/**
+ * EU VAT Number Validation
+ *
+ * The browser and the edge functions validate VAT numbers with the same
+ * module, which lives with the edge functions because they cannot import from
+ * src/.
+ */
+
+export * from '../../supabase/functions/_shared/vatNumber.ts';
@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { REVERSE_CHARGE_ARTICLE } from '@/utils/vatCalculator';
+import { VAT4_BOXES } from '../../supabase/functions/_shared/vat4.ts';
+
+export { VAT4_BOXES };
+
+export type VatReturnPeriod = Database['public']['Views']['vat_return_periods']['Row'];
+export type VatReturnRate = Database['public']['Views']['vat_return_summary']['Row'];
+
+export const VAT_RETURN_BASIS_LABELS: Record<string, string> = {
+  standard19: 'Standard rate 19%',
+  reduced5_renovation: 'Reduced 5% - renovation',
+  reduced5_primary_residence: 'Reduced 5% - primary residence',
+  reverse_charge: `Reverse charge 0% (${REVERSE_CHARGE_ARTICLE})`,
+};
+
+export const formatVatPeriod = (period: Pick<VatReturnPeriod, 'period_start' | 'period_end'>) => {
+  const format = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' }) : '—';
+  return `${format(period.period_start)} – ${format(period.period_end)}`;
+};
+
+/**
+ * Flatten a period into CSV rows: the VAT4 boxes followed by the per-rate breakdown.
+ */
+export const buildVatReturnCsvRows = (period: VatReturnPeriod, rates: VatReturnRate[]) => {
+  const boxRows = VAT4_BOXES.map(({ box, label, field, nil }) => {
+    const amount = field ? Number(period[field] || 0).toFixed(2) : nil ? '0.00' : 'not recorded';
+    // Boxes 6 and 7 are values excluding VAT, the others are VAT amounts
+    const isValueBox = box === '6' || box === '7';
+    return {
+      section: 'VAT4',
+      reference: `Box ${box}`,
+      description: label,
+      net_amount: isValueBox ? amount : '',
+      vat_amount: isValueBox ? '' : amount,
+    };
+  });
+
+  const rateRows = rates.map((rate) => ({
+    section: 'By rate',
+    reference: `${Number(rate.vat_rate || 0)}%`,
+    description: VAT_RETURN_BASIS_LABELS[rate.vat_basis || ''] || rate.vat_basis || 'Unspecified',
+    net_amount: Number(rate.net_amount || 0).toFixed(2),
+    vat_amount: Number(rate.vat_amount || 0).toFixed(2),
+  }));
+
+  return [...boxRows, ...rateRows];
+};
+
+/**
+ * Render the VAT return of a period to PDF and return a short-lived signed URL.
+ */
+export const generateVatReturnPdf = async (periodStart: string, vendorId?: string): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('generate-vat-return-pdf', {
+    body: { periodStart, vendorId }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data.url as string;
+};
@@ -0,0 +1,42 @@
+/**
+ * Card payments taken through the payment provider are not itemised like
+ * offline payments. Shared by the account statement in the browser (through
+ * src/utils/accountStatement.ts) and the receipt PDF, so it must not depend on
+ * Deno APIs.
+ */
+
+export interface CardPaymentInvoice {
+  id: string;
+  paid_at: string | null;
+  total_amount: number;
+  amount_paid: number;
+}
+
+export interface CardPaymentCreditNote {
+  invoice_id: string;
+  status: string;
+  issued_at: string | null;
+  total_amount: number;
+}
+
+/**
+ * The amount collected by card, if the invoice was settled through the payment provider.
+ * This is what was left after offline payments and the credit notes issued before the
+ * invoice was paid.
+ */
+export const cardPaymentAmount = (invoice: CardPaymentInvoice, creditNotes: CardPaymentCreditNote[]) => {
+  if (!invoice.paid_at) return 0;
+
+  const paidAt = new Date(invoice.paid_at).getTime();
+  const creditedBeforePayment = creditNotes
+    .filter((note) =>
+      note.invoice_id === invoice.id &&
+      note.status === 'issued' &&
+      note.issued_at &&
+      new Date(note.issued_at).getTime() <= paidAt
+    )
+    .reduce((sum, note) => sum + Number(note.total_amount), 0);
+
+  const amount = Number(invoice.total_amount) - Number(invoice.amount_paid || 0) - creditedBeforePayment;
+  return amount > 0.005 ? Math.round(amount * 100) / 100 : 0;
+};
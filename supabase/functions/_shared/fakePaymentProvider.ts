@@ -0,0 +1,140 @@
+import type {
+  PaymentProvider,
+  ProviderEvent,
+  ProviderInvoiceInput,
+} from './paymentProvider.ts';
+import { formatDueDate } from './paymentProvider.ts';
+import { hmacSha256Hex } from './signing.ts';
+
+export type FakePaymentOutcome = 'paid' | 'failed' | 'refunded';
+
+interface FakeInvoice {
+  id: string;
+  account: string;
+  input: ProviderInvoiceInput;
+  status: 'open' | 'paid' | 'refunded' | 'voided';
+}
+
+const secret = () => Deno.env.get('FAKE_PAYMENTS_SECRET') || 'local-fake-payments';
+
+const webhookUrl = () =>
+  Deno.env.get('FAKE_PAYMENTS_WEBHOOK_URL') ||
+  `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/payment-webhooks`;
+
+const signedMessage = (invoiceId: string, outcome: string, amount: string) => `${invoiceId}:${outcome}:${amount}`;
+
+/**
+ * The query string of a signed fake webhook. The payment link is the "paid"
+ * webhook itself, so opening it settles the invoice; other outcomes can be
+ * posted to payment-webhooks?provider=fake to exercise failures and refunds.
+ */
+export const fakeWebhookPayload = async (invoiceId: string, outcome: FakePaymentOutcome, amount: number) => {
+  const params = new URLSearchParams({
+    invoice: invoiceId,
+    outcome,
+    amount: String(amount),
+    signature: await hmacSha256Hex(secret(), signedMessage(invoiceId, outcome, String(amount))),
+  });
+  return params.toString();
+};
+
+/**
+ * In-memory provider for running the invoice-to-paid lifecycle locally without
+ * network. Customers and invoices live for the lifetime of the function
+ * instance; webhooks are self-signed with FAKE_PAYMENTS_SECRET.
+ */
+export const createFakePaymentProvider = (): PaymentProvider => {
+  const customers = new Map<string, string>();
+  const invoices = new Map<string, FakeInvoice>();
+  let sequence = 0;
+
+  const nextId = (prefix: string) => `${prefix}_fake_${Date.now().toString(36)}${(++sequence).toString(36)}`;
+
+  return {
+    name: 'fake',
+
+    async findOrCreateCustomer(account, input) {
+      const key = `${account}:${input.email}`;
+      let customerId = customers.get(key);
+      if (!customerId) {
+        customerId = nextId('cus');
+        customers.set(key, customerId);
+      }
+      return customerId;
+    },
+
+    async createInvoice(account, input) {
+      const id = nextId('in');
+      invoices.set(id, { id, account, input, status: 'open' });
+
+      const payload = await fakeWebhookPayload(id, 'paid', input.totalAmount);
+      console.log('Fake invoice', id, 'for', input.invoiceId, 'total', input.totalAmount);
+
+      return {
+        id,
+        paymentUrl: `${webhookUrl()}?provider=fake&${payload}`,
+        pdfUrl: null,
+        dueDate: formatDueDate(input.daysUntilDue),
+        lineTaxRates: Object.fromEntries(
+          input.lines.map((line) => [line.id, `txr_fake_${line.vatBasis}_${line.vatRate}`])
+        ),
+        // Nothing is charged, so the fee is recorded as owed like JCC's
+        applicationFeeCollected: false,
+      };
+    },
+
+    async voidInvoice(_account, providerInvoiceId) {
+      const invoice = invoices.get(providerInvoiceId);
+      if (invoice && invoice.status === 'open') invoice.status = 'voided';
+    },
+
+    async verifyWebhook(payload) {
+      const params = new URLSearchParams(payload);
+      const invoiceId = params.get('invoice') || '';
+      const outcome = params.get('outcome') || '';
+      const amount = params.get('amount') || '';
+
+      const expected = await hmacSha256Hex(secret(), signedMessage(invoiceId, outcome, amount));
+      if (expected !== params.get('signature')) throw new Error('Invalid signature');
+
+      const invoice = invoices.get(invoiceId);
+      if (invoice?.status === 'voided' && outcome === 'paid') throw new Error('Invoice has been voided');
+      if (invoice && outcome !== 'failed') {
+        invoice.status = outcome === 'paid' ? 'paid' : 'refunded';
+      }
+
+      const event: ProviderEvent = {
+        id: `fake:${invoiceId}:${outcome}`,
+        provider: 'fake',
+        type: outcome === 'paid'
+          ? 'invoice.paid'
+          : outcome === 'refunded'
+            ? 'invoice.refunded'
+            : 'invoice.payment_failed',
+        createdAt: new Date().toISOString(),
+        providerInvoiceId: invoiceId,
+        account: invoice?.account || null,
+        amount: Number(amount) || null,
+        raw: Object.fromEntries(params.entries()),
+      };
+      return [event];
+    },
+
+    async createPayoutAccount(input) {
+      return `fake_${input.vendorId}`;
+    },
+
+    // Onboarding completes immediately
+    async createOnboardingLink(_account, { returnUrl }) {
+      return returnUrl;
+    },
+
+    async getPayoutAccountStatus() {
+      return { chargesEnabled: true, payoutsEnabled: true, detailsSubmitted: true };
+    },
+
+    async createDashboardLink() {
+      return Deno.env.get('FRONTEND_URL') || '/';
+    },
+  };
+};
@@ -0,0 +1,201 @@
+import type {
+  PaymentProvider,
+  ProviderEvent,
+  ProviderEventType,
+} from './paymentProvider.ts';
+import { formatDueDate } from './paymentProvider.ts';
+import { hmacSha256Hex } from './signing.ts';
+
+// ISO 4217 numeric codes, as the gateway expects them
+const CURRENCY_CODES: Record<string, string> = {
+  EUR: '978',
+  USD: '840',
+  GBP: '826',
+};
+
+// Order numbers are unique per merchant and at most 32 characters
+const MAX_ORDER_NUMBER_LENGTH = 32;
+
+const config = () => ({
+  apiUrl: Deno.env.get('JCC_API_URL') || 'https://gateway-test.jcc.com.cy/payment/rest',
+  userName: Deno.env.get('JCC_API_USERNAME') || '',
+  password: Deno.env.get('JCC_API_PASSWORD') || '',
+  callbackKey: Deno.env.get('JCC_CALLBACK_KEY') || '',
+  portalUrl: Deno.env.get('JCC_MERCHANT_PORTAL_URL') || 'https://gateway.jcc.com.cy/mportal/',
+  frontendUrl: Deno.env.get('FRONTEND_URL') || '',
+});
+
+/**
+ * Callback status for a gateway operation. Two-phase authorisations ("approved")
+ * are not used for invoices, so only a completed deposit counts as paid.
+ */
+const eventType = (operation: string, status: string): ProviderEventType => {
+  if (status !== '1') {
+    return operation === 'deposited' || operation === 'approved' ? 'invoice.payment_failed' : 'other';
+  }
+  switch (operation) {
+    case 'deposited':
+      return 'invoice.paid';
+    case 'declinedByTimeout':
+      return 'invoice.payment_failed';
+    case 'reversed':
+      return 'invoice.voided';
+    case 'refunded':
+      // Narrowed to a full or partial refund from the order's amounts
+      return 'invoice.refunded';
+    default:
+      return 'other';
+  }
+};
+
+/**
+ * JCC Payment Systems gateway. JCC has no customer or invoice objects: the
+ * payable invoice is a registered order on the vendor's merchant account and
+ * its payment page is the payment link. Vendors get their merchant account from
+ * JCC directly and are paid out by their acquiring bank, so the platform fee is
+ * not split from the charge; it is recorded as owed by the vendor instead.
+ */
+export const createJccProvider = (): PaymentProvider => {
+  const request = async (method: string, params: Record<string, string>) => {
+    const { apiUrl, userName, password } = config();
+    if (!userName || !password) throw new Error('JCC gateway credentials are not configured');
+
+    const response = await fetch(`${apiUrl}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ userName, password, ...params }),
+    });
+
+    if (!response.ok) throw new Error(`JCC gateway returned ${response.status}`);
+
+    const data = await response.json();
+    if (data.errorCode && data.errorCode !== '0') {
+      throw new Error(`JCC gateway error ${data.errorCode}: ${data.errorMessage || 'unknown error'}`);
+    }
+    return data;
+  };
+
+  return {
+    name: 'jcc',
+
+    async findOrCreateCustomer(_merchantLogin, input) {
+      return input.clientId;
+    },
+
+    async createInvoice(merchantLogin, input) {
+      const currency = CURRENCY_CODES[input.currency.toUpperCase()];
+      if (!currency) throw new Error(`JCC does not accept ${input.currency} invoices`);
+
+      const dueDate = formatDueDate(input.daysUntilDue);
+      const { frontendUrl } = config();
+      // A suffix keeps the order number unique when issuing is retried
+      const suffix = `-${Date.now().toString(36)}`;
+      const orderNumber = input.invoiceNumber.slice(0, MAX_ORDER_NUMBER_LENGTH - suffix.length) + suffix;
+
+      const order = await request('register.do', {
+        merchantLogin,
+        orderNumber,
+        amount: String(input.totalAmount),
+        currency,
+        clientId: input.customerId,
+        description: `Invoice ${input.invoiceNumber}`.slice(0, 99),
+        returnUrl: `${frontendUrl}/billing?payment=complete`,
+        failUrl: `${frontendUrl}/billing?payment=failed`,
+        // The payment page stays open until the invoice is well past due
+        expirationDate: `${formatDueDate(input.daysUntilDue + 60)}T23:59:59`,
+        jsonParams: JSON.stringify({ invoice_id: input.invoiceId }),
+      });
+
+      console.log('Registered JCC order:', order.orderId, 'for invoice', input.invoiceId);
+
+      return {
+        id: order.orderId,
+        paymentUrl: order.formUrl,
+        pdfUrl: null,
+        dueDate,
+        lineTaxRates: {},
+        applicationFeeCollected: false,
+      };
+    },
+
+    // Declining an unpaid order closes its payment page
+    async voidInvoice(merchantLogin, orderId) {
+      await request('decline.do', { merchantLogin, orderId });
+      console.log('Declined JCC order:', orderId);
+    },
+
+    // Callbacks carry the order, operation and status, signed with the shared callback key
+    async verifyWebhook(payload) {
+      const { callbackKey } = config();
+      if (!callbackKey) throw new Error('JCC callback key not configured');
+
+      const params = new URLSearchParams(payload);
+      const checksum = params.get('checksum');
+      if (!checksum) throw new Error('No checksum');
+
+      const signed = Array.from(params.entries())
+        .filter(([name]) => name !== 'checksum')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => `${name};${value};`)
+        .join('');
+
+      const expected = await hmacSha256Hex(callbackKey, signed);
+      if (expected.toUpperCase() !== checksum.toUpperCase()) throw new Error('Invalid checksum');
+
+      const orderId = params.get('mdOrder') || '';
+      const operation = params.get('operation') || '';
+      const status = params.get('status') || '';
+      if (!orderId) throw new Error('No order');
+
+      // Callbacks carry no time, so events are dated with the gateway's payment time
+      // for the order rather than their delivery: a replay is never newer than what
+      // was already applied, and the transition rules keep it from undoing it
+      const order = await request('getOrderStatusExtended.do', { orderId });
+      const gatewayTime = Number(order.authDateTime || order.date);
+      if (!gatewayTime) throw new Error(`JCC order ${orderId} has no payment time`);
+
+      const paymentAmounts = order.paymentAmountInfo || {};
+      const paidAmount = Number(paymentAmounts.depositedAmount || order.amount || 0);
+      const refundedAmount = Number(paymentAmounts.refundedAmount || 0);
+
+      let type = eventType(operation, status);
+      if (type === 'invoice.refunded' && refundedAmount < paidAmount) {
+        type = 'invoice.partially_refunded';
+      }
+
+      const isRefund = type === 'invoice.refunded' || type === 'invoice.partially_refunded';
+      const amount = params.get('amount');
+
+      const event: ProviderEvent = {
+        // Each refund raises the refunded total, so successive partial refunds are separate events
+        id: `jcc:${orderId}:${operation}:${status}${isRefund ? `:${refundedAmount}` : ''}`,
+        provider: 'jcc',
+        type,
+        createdAt: new Date(gatewayTime).toISOString(),
+        providerInvoiceId: orderId,
+        account: null,
+        // Refund events carry the total refunded so far, like Stripe's amount_refunded
+        amount: isRefund ? refundedAmount : amount ? Number(amount) : null,
+        raw: { callback: Object.fromEntries(params.entries()), order },
+      };
+      return [event];
+    },
+
+    async createPayoutAccount() {
+      throw new Error('JCC merchant accounts are opened with JCC. Enter the merchant login JCC issued to you.');
+    },
+
+    async createOnboardingLink() {
+      throw new Error('JCC merchant accounts are opened with JCC. Enter the merchant login JCC issued to you.');
+    },
+
+    async getPayoutAccountStatus(merchantLogin) {
+      const configured = !!merchantLogin;
+      return { chargesEnabled: configured, payoutsEnabled: configured, detailsSubmitted: configured };
+    },
+
+    async createDashboardLink() {
+      return config().portalUrl;
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { Resend } from "npm:resend@4.0.0";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+const FROM_ADDRESS = "BuildEasy <onboarding@resend.dev>";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+/**
+ * Send a transactional email. Goes through Resend unless SMTP_HOST is set, in
+ * which case it is delivered over plain SMTP (e.g. to inbucket when running
+ * `supabase start` locally, with SMTP_HOST=inbucket and SMTP_PORT=2500).
+ */
+export const sendEmail = async ({ to, subject, html }: EmailMessage) => {
+  const smtpHost = Deno.env.get("SMTP_HOST");
+
+  if (smtpHost) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: smtpHost,
+        port: Number(Deno.env.get("SMTP_PORT") ?? 2500),
+        tls: false,
+      },
+    });
+
+    try {
+      await client.send({ from: FROM_ADDRESS, to, subject, html });
+    } finally {
+      await client.close();
+    }
+    return;
+  }
+
+  const resend = new Resend(Deno.env.get("RESEND_API_KEY") as string);
+  const { error } = await resend.emails.send({ from: FROM_ADDRESS, to: [to], subject, html });
+
+  if (error) {
+    console.error('Email error:', error);
+    throw error;
+  }
+};
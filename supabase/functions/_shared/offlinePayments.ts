@@ -0,0 +1,116 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+import { getInvoicePaymentProvider } from './paymentProviders.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+});
+
+export const PAYMENT_METHODS = ['bank_transfer', 'cheque', 'cash', 'other'];
+
+export interface OfflinePaymentInput {
+  invoiceId: string;
+  amount: number;
+  paidOn: string;
+  method: string;
+  reference: string | null;
+  notes: string | null;
+  proofPath: string | null;
+  recordedBy: string;
+}
+
+/**
+ * Bring the provider invoice in line with the payments recorded here. Stripe has
+ * no partial out-of-band payments, so a settled invoice is marked paid out of
+ * band and a partial payment is only noted in the invoice metadata. Other
+ * providers have no out-of-band payments at all: once the invoice is settled
+ * here its payment link is closed so the client cannot pay twice.
+ */
+export const syncToPaymentProvider = async (supabaseClient: SupabaseClient, paymentId: string, invoiceId: string): Promise<string | null> => {
+  const { data: invoice, error: invoiceError } = await supabaseClient
+    .from('invoices')
+    .select('id, vendor_id, status, amount_paid, stripe_invoice_id, payment_provider, provider_invoice_id')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError) throw invoiceError;
+  if (!invoice.stripe_invoice_id && (!invoice.provider_invoice_id || invoice.status !== 'paid')) return null;
+
+  let syncError: string | null = null;
+  try {
+    if (!invoice.stripe_invoice_id) {
+      const { provider, account } = await getInvoicePaymentProvider(supabaseClient, invoice);
+      await provider.voidInvoice(account, invoice.provider_invoice_id);
+      console.log('Closed', provider.name, 'payment link of invoice paid offline:', invoice.provider_invoice_id);
+    } else {
+      const { data: vendorProfile } = await supabaseClient
+        .from('vendor_profiles')
+        .select('stripe_connect_id')
+        .eq('user_id', invoice.vendor_id)
+        .single();
+
+      if (!vendorProfile?.stripe_connect_id) throw new Error('Vendor Stripe Connect account not found');
+      const stripeAccount = vendorProfile.stripe_connect_id;
+
+      if (invoice.status === 'paid') {
+        const stripeInvoice = await stripe.invoices.retrieve(invoice.stripe_invoice_id, {}, { stripeAccount });
+        if (stripeInvoice.status === 'open' || stripeInvoice.status === 'uncollectible') {
+          await stripe.invoices.pay(invoice.stripe_invoice_id, { paid_out_of_band: true }, { stripeAccount });
+          console.log('Marked Stripe invoice paid out of band:', invoice.stripe_invoice_id);
+        } else if (stripeInvoice.status !== 'paid') {
+          throw new Error(`Stripe invoice is ${stripeInvoice.status} and cannot be marked paid`);
+        }
+      } else {
+        await stripe.invoices.update(
+          invoice.stripe_invoice_id,
+          { metadata: { offline_amount_paid: Number(invoice.amount_paid).toFixed(2) } },
+          { stripeAccount }
+        );
+      }
+    }
+  } catch (error: any) {
+    console.error('Payment provider sync failed for payment:', paymentId, error.message);
+    syncError = error.message;
+  }
+
+  // The sync columns keep their Stripe names but record the sync with any provider
+  await supabaseClient
+    .from('invoice_payments')
+    .update({
+      stripe_synced_at: syncError ? null : new Date().toISOString(),
+      stripe_sync_error: syncError,
+    })
+    .eq('id', paymentId)
+    .eq('invoice_id', invoiceId);
+
+  return syncError;
+};
+
+/**
+ * Record a payment received outside the payment provider and sync it. The
+ * insert trigger fills in the invoice parties, checks the balance and moves the
+ * invoice to partially paid or paid.
+ */
+export const recordOfflinePayment = async (supabaseClient: SupabaseClient, input: OfflinePaymentInput) => {
+  const { data: payment, error: paymentError } = await supabaseClient
+    .from('invoice_payments')
+    .insert({
+      invoice_id: input.invoiceId,
+      amount: input.amount,
+      paid_on: input.paidOn,
+      method: input.method,
+      reference: input.reference,
+      notes: input.notes,
+      proof_path: input.proofPath,
+      recorded_by: input.recordedBy,
+    })
+    .select('id')
+    .single();
+
+  if (paymentError) throw paymentError;
+
+  console.log('Recorded offline payment', payment.id, 'of', input.amount, 'on invoice', input.invoiceId);
+
+  const syncError = await syncToPaymentProvider(supabaseClient, payment.id, input.invoiceId);
+  return { paymentId: payment.id as string, syncError };
+};
@@ -0,0 +1,152 @@
+/**
+ * Matching of incoming bank transfers to open invoices.
+ *
+ * Each open invoice is scored against a transfer on three signals:
+ * - Reference: the legal invoice number appears in the remittance information
+ *   or bank reference. Separators and leading zeros are ignored, so
+ *   "INV 2025/12" matches INV-2025-0012.
+ * - Amount: the transfer equals the outstanding balance, or pays part of it.
+ * - Payer: the payer name shares words with the client's name or company.
+ *
+ * A transfer is recorded automatically only when its reference matches exactly
+ * one invoice and the amount settles that invoice. Anything less certain is left
+ * for the vendor to review.
+ */
+
+export interface MatchableTransaction {
+  amount: number;
+  currency: string;
+  payerName: string | null;
+  remittanceInfo: string | null;
+  bankReference: string | null;
+}
+
+export interface MatchableInvoice {
+  id: string;
+  legalInvoiceNumber: string;
+  currency: string;
+  outstanding: number;
+  clientNames: string[];
+}
+
+export interface MatchCandidate {
+  invoiceId: string;
+  invoiceNumber: string;
+  outstanding: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface MatchResult {
+  candidates: MatchCandidate[];
+  /** Set when the top candidate is certain enough to record without review */
+  autoMatch: MatchCandidate | null;
+}
+
+const REFERENCE_SCORE = 50;
+const EXACT_AMOUNT_SCORE = 35;
+const PARTIAL_AMOUNT_SCORE = 10;
+const PAYER_SCORE = 25;
+const MIN_CANDIDATE_SCORE = 30;
+const MAX_CANDIDATES = 3;
+const AMOUNT_TOLERANCE = 0.01;
+
+// PREFIX-YYYY-NNNN as allocated by allocate_document_number, with any separator
+const DOCUMENT_NUMBER_PATTERN = /(?<![A-Z0-9])([A-Z0-9]{1,10}?)[\s\-/.]*((?:19|20)\d{2})[\s\-/.]*(\d{1,6})(?!\d)/g;
+
+const documentNumberKey = (prefix: string, year: string, sequence: string) =>
+  `${prefix}-${year}-${Number(sequence)}`;
+
+/** Invoice numbers mentioned in free text, as normalised keys */
+export const extractDocumentNumbers = (text: string): Set<string> => {
+  const keys = new Set<string>();
+  for (const match of text.toUpperCase().matchAll(DOCUMENT_NUMBER_PATTERN)) {
+    keys.add(documentNumberKey(match[1], match[2], match[3]));
+  }
+  return keys;
+};
+
+const normaliseName = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .split(/[^A-Z0-9\u0370-\u03ff]+/)
+    .filter((word) => word.length >= 2 && !['LTD', 'LIMITED', 'THE', 'AND', 'CO'].includes(word));
+
+/** Share of the shorter name's words found in the other, from 0 to 1 */
+export const nameSimilarity = (a: string, b: string): number => {
+  const wordsA = new Set(normaliseName(a));
+  const wordsB = new Set(normaliseName(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / Math.min(wordsA.size, wordsB.size);
+};
+
+export const matchTransaction = (transaction: MatchableTransaction, invoices: MatchableInvoice[]): MatchResult => {
+  const referenceText = [transaction.remittanceInfo, transaction.bankReference].filter(Boolean).join(' ');
+  const mentionedNumbers = extractDocumentNumbers(referenceText);
+  // Payer names are often only in the description on CSV exports
+  const payerText = transaction.payerName || transaction.remittanceInfo || '';
+
+  const candidates: MatchCandidate[] = [];
+  const referenceMatches: MatchCandidate[] = [];
+  let settlingReference = false;
+
+  for (const invoice of invoices) {
+    if (invoice.currency !== transaction.currency || invoice.outstanding <= 0) continue;
+
+    const reasons: string[] = [];
+    let score = 0;
+
+    const [invoiceKey] = extractDocumentNumbers(invoice.legalInvoiceNumber);
+    const referenceMatched = !!invoiceKey && mentionedNumbers.has(invoiceKey);
+    if (referenceMatched) {
+      score += REFERENCE_SCORE;
+      reasons.push('Invoice number in reference');
+    }
+
+    const exactAmount = Math.abs(transaction.amount - invoice.outstanding) <= AMOUNT_TOLERANCE;
+    if (exactAmount) {
+      score += EXACT_AMOUNT_SCORE;
+      reasons.push('Amount equals balance');
+    } else if (transaction.amount < invoice.outstanding) {
+      score += PARTIAL_AMOUNT_SCORE;
+      reasons.push('Part payment');
+    } else {
+      reasons.push('Amount exceeds balance');
+    }
+
+    const similarity = Math.max(0, ...invoice.clientNames.map((name) => nameSimilarity(payerText, name)));
+    if (similarity >= 0.5) {
+      score += Math.round(PAYER_SCORE * similarity);
+      reasons.push('Payer name matches client');
+    }
+
+    if (score >= MIN_CANDIDATE_SCORE) {
+      const candidate = {
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.legalInvoiceNumber,
+        outstanding: invoice.outstanding,
+        score: Math.min(score, 100),
+        reasons,
+      };
+      candidates.push(candidate);
+
+      if (referenceMatched) {
+        referenceMatches.push(candidate);
+        settlingReference = exactAmount;
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const autoMatch = referenceMatches.length === 1 && settlingReference ? referenceMatches[0] : null;
+
+  return { candidates: candidates.slice(0, MAX_CANDIDATES), autoMatch };
+};
@@ -0,0 +1,124 @@
+/**
+ * Payment providers behind one interface, so invoices can be collected through
+ * Stripe Connect or JCC, or through the fake provider when running locally.
+ *
+ * A provider owns everything that happens on its side: the customer, the
+ * payable invoice and its payment link, verifying its webhooks and the vendor's
+ * payout account. Invoice state stays in our database; webhooks are turned into
+ * provider-neutral events and applied the same way for every provider.
+ */
+
+export type PaymentProviderName = 'stripe' | 'jcc' | 'fake';
+
+export interface ProviderCustomerInput {
+  clientId: string;
+  email: string;
+  name: string;
+}
+
+export interface ProviderInvoiceLine {
+  id: string;
+  description: string;
+  quantity: number;
+  /** Minor units; negative for retention held back */
+  unitAmount: number;
+  vatBasis: string;
+  vatRate: number;
+  isMaterial: boolean;
+  isRetention: boolean;
+}
+
+export interface ProviderInvoiceInput {
+  invoiceId: string;
+  invoiceNumber: string;
+  customerId: string;
+  currency: string;
+  /** Minor units, VAT included */
+  totalAmount: number;
+  lines: ProviderInvoiceLine[];
+  /** Platform commission in minor units, taken from the charge where the provider supports it */
+  applicationFeeAmount: number;
+  daysUntilDue: number;
+  footer: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface ProviderInvoice {
+  id: string;
+  /** Where the client pays */
+  paymentUrl: string | null;
+  pdfUrl: string | null;
+  /** YYYY-MM-DD */
+  dueDate: string | null;
+  /** Provider tax rate used for each invoice line, keyed by line id */
+  lineTaxRates: Record<string, string>;
+  /** Whether the platform fee is taken from the charge; if not it is recorded as owed by the vendor */
+  applicationFeeCollected: boolean;
+}
+
+export type ProviderEventType =
+  | 'invoice.sent'
+  | 'invoice.paid'
+  | 'invoice.payment_failed'
+  | 'invoice.voided'
+  | 'invoice.refunded'
+  | 'invoice.partially_refunded'
+  | 'account.updated'
+  | 'other';
+
+export interface ProviderEvent {
+  id: string;
+  provider: PaymentProviderName;
+  type: ProviderEventType;
+  /** ISO timestamp of when the provider created the event */
+  createdAt: string;
+  providerInvoiceId: string | null;
+  account: string | null;
+  /** Minor units, when the event carries an amount */
+  amount: number | null;
+  /** The provider's own event, e.g. the Stripe.Event for the webhook ledger */
+  raw: unknown;
+}
+
+export interface PayoutAccountStatus {
+  chargesEnabled: boolean;
+  payoutsEnabled: boolean;
+  detailsSubmitted: boolean;
+}
+
+export interface PayoutAccountInput {
+  vendorId: string;
+  email: string;
+  businessName: string;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+
+  findOrCreateCustomer(account: string, input: ProviderCustomerInput): Promise<string>;
+
+  /** Create, finalise and return the payable invoice with its payment link */
+  createInvoice(account: string, input: ProviderInvoiceInput): Promise<ProviderInvoice>;
+
+  /** Close an unpaid invoice so its payment link can no longer be paid */
+  voidInvoice(account: string, providerInvoiceId: string): Promise<void>;
+
+  /** Verify a webhook delivery and turn it into events. Throws when the signature is wrong. */
+  verifyWebhook(payload: string, headers: Headers): Promise<ProviderEvent[]>;
+
+  createPayoutAccount(input: PayoutAccountInput): Promise<string>;
+  createOnboardingLink(account: string, urls: { refreshUrl: string; returnUrl: string }): Promise<string>;
+  getPayoutAccountStatus(account: string): Promise<PayoutAccountStatus>;
+  createDashboardLink(account: string): Promise<string>;
+}
+
+export const PAYMENT_PROVIDERS: PaymentProviderName[] = ['stripe', 'jcc', 'fake'];
+
+// The fake provider keeps its state in memory and must never take real invoices
+export const fakePaymentsAllowed = () => Deno.env.get('ALLOW_FAKE_PAYMENTS') === 'true';
+
+export const formatDueDate = (daysUntilDue: number, from = new Date()) => {
+  const due = new Date(from);
+  due.setUTCDate(due.getUTCDate() + daysUntilDue);
+  return due.toISOString().slice(0, 10);
+};
@@ -0,0 +1,94 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createStripeProvider } from './stripeProvider.ts';
+import { createJccProvider } from './jccProvider.ts';
+import { createFakePaymentProvider } from './fakePaymentProvider.ts';
+import {
+  PAYMENT_PROVIDERS,
+  fakePaymentsAllowed,
+  type PaymentProvider,
+  type PaymentProviderName,
+} from './paymentProvider.ts';
+
+// One instance per provider per function instance
+const providers = new Map<PaymentProviderName, PaymentProvider>();
+
+export const getPaymentProvider = (name: string): PaymentProvider => {
+  if (!PAYMENT_PROVIDERS.includes(name as PaymentProviderName)) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  if (name === 'fake' && !fakePaymentsAllowed()) {
+    throw new Error('The fake payment provider is only available when ALLOW_FAKE_PAYMENTS is set');
+  }
+
+  const providerName = name as PaymentProviderName;
+  let provider = providers.get(providerName);
+  if (!provider) {
+    provider = providerName === 'stripe'
+      ? createStripeProvider()
+      : providerName === 'jcc'
+        ? createJccProvider()
+        : createFakePaymentProvider();
+    providers.set(providerName, provider);
+  }
+  return provider;
+};
+
+/**
+ * The provider a vendor collects payments through and their account with it.
+ * PAYMENT_PROVIDER_OVERRIDE=fake routes every vendor to the fake provider locally.
+ */
+export const getVendorPaymentProvider = async (supabaseClient: SupabaseClient, vendorId: string) => {
+  const { data: vendorProfile, error } = await supabaseClient
+    .from('vendor_profiles')
+    .select('payment_provider, stripe_connect_id, jcc_merchant_login')
+    .eq('user_id', vendorId)
+    .single();
+
+  if (error) throw error;
+
+  const override = Deno.env.get('PAYMENT_PROVIDER_OVERRIDE');
+  if (override === 'fake') {
+    return { provider: getPaymentProvider('fake'), account: `fake_${vendorId}` };
+  }
+
+  const provider = getPaymentProvider(vendorProfile.payment_provider || 'stripe');
+  const account = provider.name === 'jcc' ? vendorProfile.jcc_merchant_login : vendorProfile.stripe_connect_id;
+
+  if (!account) {
+    throw new Error(
+      provider.name === 'jcc'
+        ? 'Add your JCC merchant login before issuing invoices'
+        : 'Please complete Stripe Connect onboarding first'
+    );
+  }
+
+  return { provider, account };
+};
+
+/**
+ * The provider an invoice was issued through and the vendor's account with it,
+ * which may no longer be the vendor's current provider.
+ */
+export const getInvoicePaymentProvider = async (
+  supabaseClient: SupabaseClient,
+  invoice: { vendor_id: string; payment_provider: string | null }
+) => {
+  const { data: vendorProfile, error } = await supabaseClient
+    .from('vendor_profiles')
+    .select('stripe_connect_id, jcc_merchant_login')
+    .eq('user_id', invoice.vendor_id)
+    .single();
+
+  if (error) throw error;
+
+  const provider = getPaymentProvider(invoice.payment_provider || 'stripe');
+  const account = provider.name === 'fake'
+    ? `fake_${invoice.vendor_id}`
+    : provider.name === 'jcc'
+      ? vendorProfile.jcc_merchant_login
+      : vendorProfile.stripe_connect_id;
+
+  if (!account) throw new Error(`Vendor ${provider.name} account not found`);
+
+  return { provider, account };
+};
@@ -0,0 +1,69 @@
+import { PDFDocument, PDFFont, rgb, RGB } from 'https://esm.sh/pdf-lib@1.17.1';
+import fontkit from 'https://esm.sh/@pdf-lib/fontkit@1.1.1';
+
+// Noto Sans covers Greek and Latin, which the standard PDF fonts do not. The
+// files ship with the functions (static_files in config.toml) under the OFL.
+const FONT_FILES = {
+  regular: new URL('./fonts/NotoSans-Regular.ttf', import.meta.url),
+  bold: new URL('./fonts/NotoSans-Bold.ttf', import.meta.url),
+};
+
+// Read once per function instance and reused by every render
+let fontBytes: Promise<{ regular: Uint8Array; bold: Uint8Array }> | null = null;
+
+const loadFontBytes = () => {
+  if (!fontBytes) {
+    fontBytes = Promise.all([Deno.readFile(FONT_FILES.regular), Deno.readFile(FONT_FILES.bold)])
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch((error) => {
+        fontBytes = null;
+        throw error;
+      });
+  }
+  return fontBytes;
+};
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+export const MARGIN = 50;
+
+export const formatMoney = (amount: number) => `€${amount.toFixed(2)}`;
+
+export const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '—';
+
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+export const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Register fontkit and embed the Noto Sans regular and bold faces (subset).
+ */
+export const embedFonts = async (pdfDoc: PDFDocument): Promise<{ regularFont: PDFFont; boldFont: PDFFont }> => {
+  pdfDoc.registerFontkit(fontkit);
+
+  const { regular, bold } = await loadFontBytes();
+  const [regularFont, boldFont] = await Promise.all([
+    pdfDoc.embedFont(regular, { subset: true }),
+    pdfDoc.embedFont(bold, { subset: true }),
+  ]);
+
+  return { regularFont, boldFont };
+};
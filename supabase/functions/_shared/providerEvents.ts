@@ -0,0 +1,102 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ProviderEvent } from './paymentProvider.ts';
+import { applyInvoiceEvent, type EventResult } from './stripeEvents.ts';
+
+/**
+ * Apply a provider-neutral event to the invoice it belongs to, with the same
+ * transition and staleness rules as Stripe events. Stripe events keep going
+ * through their own webhook ledger in stripeEvents.ts; other providers' events
+ * go through handleLedgeredProviderEvent below.
+ */
+export const applyProviderEvent = async (
+  supabaseClient: SupabaseClient,
+  event: ProviderEvent
+): Promise<EventResult> => {
+  if (!event.providerInvoiceId) {
+    return { action: 'none', skipped: `Event ${event.id} has no invoice` };
+  }
+
+  const match = { column: 'provider_invoice_id' as const, value: event.providerInvoiceId };
+
+  switch (event.type) {
+    case 'invoice.sent':
+      return await applyInvoiceEvent(supabaseClient, match, 'sent', event.createdAt);
+
+    case 'invoice.paid':
+      return await applyInvoiceEvent(supabaseClient, match, 'paid', event.createdAt, { paid_at: event.createdAt });
+
+    case 'invoice.payment_failed':
+      return await applyInvoiceEvent(supabaseClient, match, 'payment_failed', event.createdAt);
+
+    case 'invoice.voided':
+      return await applyInvoiceEvent(supabaseClient, match, 'voided', event.createdAt);
+
+    case 'invoice.refunded':
+    case 'invoice.partially_refunded':
+      return await applyInvoiceEvent(
+        supabaseClient,
+        match,
+        event.type === 'invoice.refunded' ? 'refunded' : 'partially_refunded',
+        event.createdAt,
+        {
+          refunded_at: event.createdAt,
+          ...(event.amount === null ? {} : { refunded_amount: event.amount / 100 }),
+        }
+      );
+
+    default:
+      console.log('Unhandled provider event:', event.provider, event.id);
+      return { action: 'ignored' };
+  }
+};
+
+/**
+ * Record a provider event in the ledger and apply it at most once.
+ * Redeliveries of a processed event return `duplicate: true` without side effects.
+ */
+export const handleLedgeredProviderEvent = async (
+  supabaseClient: SupabaseClient,
+  event: ProviderEvent
+) => {
+  const { data: claimed, error: claimError } = await supabaseClient.rpc('claim_payment_provider_event', {
+    event_id_param: event.id,
+    provider_param: event.provider,
+    event_type_param: event.type,
+    event_created_at_param: event.createdAt,
+    payload_param: event.raw,
+  });
+
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    console.log('Event already handled or in progress:', event.id);
+    return { duplicate: true };
+  }
+
+  try {
+    const result = await applyProviderEvent(supabaseClient, event);
+
+    await supabaseClient
+      .from('payment_provider_events')
+      .update({
+        status: result.action === 'ignored' ? 'ignored' : 'processed',
+        result,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', event.id);
+
+    return { duplicate: false, result };
+  } catch (error: any) {
+    console.error('Event processing failed:', event.id, error.message);
+
+    await supabaseClient
+      .from('payment_provider_events')
+      .update({
+        status: 'failed',
+        last_error: error.message,
+      })
+      .eq('id', event.id);
+
+    throw error;
+  }
+};
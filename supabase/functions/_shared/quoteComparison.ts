@@ -0,0 +1,288 @@
+/**
+ * Side-by-side comparison of the current quote versions vendors sent for one
+ * project and service group.
+ *
+ * Vendors itemise their cost breakdowns in their own words, so each line is
+ * put into a common category by keyword before the quotes are lined up. Any
+ * part of a quote total not covered by its breakdown is shown as not itemised.
+ *
+ * Numbers are flagged as outliers when at least three quotes are compared and
+ * the value is more than OUTLIER_THRESHOLD away from the median of the group.
+ */
+
+export const OUTLIER_THRESHOLD = 0.3;
+
+export const NOT_ITEMISED = 'Not itemised';
+
+// First match wins, so the more specific trades come first
+const COST_CATEGORIES: [string, RegExp][] = [
+  ['Design, Permits & Fees', /design|architect|permit|licen[cs]|survey|engineer|planning|fee/i],
+  ['Demolition & Site Preparation', /demoli|strip|excavat|site prep|clearing|earthwork/i],
+  ['Kitchen & Bathroom', /kitchen|bathroom|sanitary|shower|toilet|\bwc\b|vanity|basin/i],
+  ['Roofing & Waterproofing', /roof|waterproof|membrane|gutter/i],
+  ['Windows & Glazing', /window|glaz|glass|alumin|shutter/i],
+  ['Electrical', /electric|wiring|lighting|socket|cabl|switchboard/i],
+  ['Plumbing', /plumb|pipe|drain|sewage|boiler|water heater|water supply/i],
+  ['HVAC & Insulation', /hvac|air.?condition|\ba\/c\b|heating|ventilat|insulat|solar/i],
+  ['Tiling & Flooring', /tile|tiling|floor|marble|parquet|screed/i],
+  ['Carpentry & Joinery', /carpent|joiner|timber|wood|cabinet|wardrobe|\bdoors?\b/i],
+  ['Structural & Masonry', /concrete|structur|foundation|beam|column|masonry|brick|block|steel/i],
+  ['Painting & Finishes', /paint|plaster|render|decorat|finish/i],
+  ['Waste & Cleanup', /waste|skip|clean|disposal|debris/i],
+];
+
+const SCHEDULE_LABELS: Record<string, string> = {
+  'milestone-based': 'Milestone based',
+  upfront: 'Full upfront',
+  completion: 'On completion',
+  monthly: 'Monthly',
+};
+
+export interface CostLine {
+  item?: string;
+  description?: string;
+  amount?: number | string;
+  type?: string;
+}
+
+export interface QuoteRecord {
+  quoteRequestId: string;
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  vendorRating: number | null;
+  requestStatus: string | null;
+  version: number;
+  totalAmount: number;
+  durationWeeks: number | null;
+  startDate: string | null;
+  validityDate: string | null;
+  costBreakdown: unknown;
+  inclusions: string[] | null;
+  exclusions: string[] | null;
+  paymentSchedule: unknown;
+  milestones: unknown;
+  retentionPercentage: number;
+  defectsLiabilityMonths: number;
+  insuranceWillBeUsed: boolean | null;
+  insuranceProviderUsed: string | null;
+}
+
+export type Outlier = 'high' | 'low';
+
+export interface ComparedQuote {
+  quoteRequestId: string;
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  vendorRating: number | null;
+  requestStatus: string | null;
+  version: number;
+  totalAmount: number;
+  durationWeeks: number | null;
+  startDate: string | null;
+  validityDate: string | null;
+  expired: boolean;
+  categories: Record<string, number>;
+  materialsAmount: number;
+  labourAmount: number;
+  inclusions: string[];
+  exclusions: string[];
+  depositPercentage: number | null;
+  paymentSchedule: string | null;
+  netDays: number | null;
+  milestones: { name: string; percentage: number }[];
+  retentionPercentage: number;
+  defectsLiabilityMonths: number;
+  insurance: string;
+  /** Keyed by 'total', 'duration' or 'category:<name>' */
+  outliers: Record<string, Outlier>;
+}
+
+export type ScopeMark = 'included' | 'excluded' | null;
+
+export interface ScopeDifference {
+  item: string;
+  /** One mark per compared quote, in the order of QuoteComparison.quotes */
+  marks: ScopeMark[];
+}
+
+export interface QuoteComparison {
+  projectId: string;
+  projectTitle: string;
+  serviceGroup: string;
+  serviceGroups: string[];
+  quotes: ComparedQuote[];
+  categories: string[];
+  scopeDifferences: ScopeDifference[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const categoriseCostLine = (line: CostLine): string => {
+  const text = `${line.item || ''} ${line.description || ''}`;
+  const match = COST_CATEGORIES.find(([, pattern]) => pattern.test(text));
+  if (match) return match[0];
+  return line.type === 'material' ? 'Other materials' : 'Other labour';
+};
+
+const normaliseCosts = (costBreakdown: unknown, totalAmount: number) => {
+  const lines = (Array.isArray(costBreakdown) ? costBreakdown : []) as CostLine[];
+  const categories: Record<string, number> = {};
+  let materialsAmount = 0;
+  let itemised = 0;
+
+  lines.forEach((line) => {
+    const amount = Number(line.amount || 0);
+    if (!(amount > 0)) return;
+    const category = categoriseCostLine(line);
+    categories[category] = round2((categories[category] || 0) + amount);
+    if (line.type === 'material') materialsAmount += amount;
+    itemised += amount;
+  });
+
+  const remainder = totalAmount - itemised;
+  if (remainder > 0.005) categories[NOT_ITEMISED] = round2(remainder);
+
+  return {
+    categories,
+    materialsAmount: round2(materialsAmount),
+    labourAmount: round2(totalAmount - materialsAmount),
+  };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Flag the values more than OUTLIER_THRESHOLD from the median. Missing values are
+ * left out; fewer than three values are never flagged.
+ */
+export const findOutliers = (values: (number | null)[]): (Outlier | null)[] => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 3) return values.map(() => null);
+
+  const mid = median(present);
+  if (mid <= 0) return values.map(() => null);
+
+  return values.map((value) => {
+    if (value === null) return null;
+    const deviation = (value - mid) / mid;
+    if (deviation > OUTLIER_THRESHOLD) return 'high';
+    if (deviation < -OUTLIER_THRESHOLD) return 'low';
+    return null;
+  });
+};
+
+const scopeKey = (item: string) => item.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Scope items that not every vendor treats the same way. Items every vendor
+ * includes, or every vendor excludes, are left out.
+ */
+const findScopeDifferences = (quotes: ComparedQuote[]): ScopeDifference[] => {
+  const labels = new Map<string, string>();
+  quotes.forEach((quote) => {
+    [...quote.inclusions, ...quote.exclusions].forEach((item) => {
+      const key = scopeKey(item);
+      if (key && !labels.has(key)) labels.set(key, item.trim());
+    });
+  });
+
+  const differences: ScopeDifference[] = [];
+  labels.forEach((label, key) => {
+    const marks: ScopeMark[] = quotes.map((quote) => {
+      if (quote.inclusions.some((item) => scopeKey(item) === key)) return 'included';
+      if (quote.exclusions.some((item) => scopeKey(item) === key)) return 'excluded';
+      return null;
+    });
+    if (marks.every((mark) => mark === marks[0])) return;
+    differences.push({ item: label, marks });
+  });
+
+  return differences.sort((a, b) => a.item.localeCompare(b.item));
+};
+
+export const buildQuoteComparison = (
+  project: { id: string; title: string },
+  serviceGroup: string,
+  serviceGroups: string[],
+  records: QuoteRecord[],
+  today = new Date().toISOString().slice(0, 10)
+): QuoteComparison => {
+  const quotes: ComparedQuote[] = records.map((record) => {
+    const totalAmount = Number(record.totalAmount);
+    const schedule = (record.paymentSchedule || {}) as {
+      depositPercentage?: string | number;
+      schedule?: string;
+      netDays?: string | number;
+    };
+    const milestones = ((Array.isArray(record.milestones) ? record.milestones : []) as { name?: string; percentage?: number | string }[])
+      .filter((milestone) => Number(milestone.percentage) > 0)
+      .map((milestone) => ({ name: milestone.name || 'Milestone', percentage: Number(milestone.percentage) }));
+
+    return {
+      quoteRequestId: record.quoteRequestId,
+      quoteId: record.quoteId,
+      vendorId: record.vendorId,
+      vendorName: record.vendorName,
+      vendorRating: record.vendorRating,
+      requestStatus: record.requestStatus,
+      version: record.version,
+      totalAmount,
+      durationWeeks: record.durationWeeks,
+      startDate: record.startDate,
+      validityDate: record.validityDate,
+      expired: !!record.validityDate && record.validityDate < today,
+      ...normaliseCosts(record.costBreakdown, totalAmount),
+      inclusions: record.inclusions || [],
+      exclusions: record.exclusions || [],
+      depositPercentage: schedule.depositPercentage !== undefined ? Number(schedule.depositPercentage) : null,
+      paymentSchedule: schedule.schedule ? SCHEDULE_LABELS[schedule.schedule] || schedule.schedule : null,
+      netDays: schedule.netDays !== undefined ? Number(schedule.netDays) : null,
+      milestones,
+      retentionPercentage: Number(record.retentionPercentage || 0),
+      defectsLiabilityMonths: Number(record.defectsLiabilityMonths || 0),
+      insurance: record.insuranceWillBeUsed
+        ? record.insuranceProviderUsed || 'Insured'
+        : record.insuranceWillBeUsed === false ? 'Not insured' : 'Not stated',
+      outliers: {},
+    };
+  });
+
+  // Lowest total first
+  quotes.sort((a, b) => a.totalAmount - b.totalAmount);
+
+  const flag = (key: string, values: (number | null)[]) => {
+    findOutliers(values).forEach((outlier, index) => {
+      if (outlier) quotes[index].outliers[key] = outlier;
+    });
+  };
+
+  flag('total', quotes.map((quote) => quote.totalAmount));
+  flag('duration', quotes.map((quote) => quote.durationWeeks));
+
+  const categories = Array.from(new Set(quotes.flatMap((quote) => Object.keys(quote.categories))))
+    .sort((a, b) => {
+      // Catch-all categories go last
+      const rank = (name: string) => (name === NOT_ITEMISED ? 2 : name.startsWith('Other ') ? 1 : 0);
+      return rank(a) - rank(b) || a.localeCompare(b);
+    });
+
+  categories.forEach((category) => {
+    flag(`category:${category}`, quotes.map((quote) => quote.categories[category] ?? null));
+  });
+
+  return {
+    projectId: project.id,
+    projectTitle: project.title,
+    serviceGroup,
+    serviceGroups,
+    quotes,
+    categories,
+    scopeDifferences: findScopeDifferences(quotes),
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * Signing evidence shared by the signing flow.
+ *
+ * The consent text is the one shown in the signature dialog
+ * (src/utils/documentSigning.ts); keep the two in sync and bump the version
+ * whenever the wording changes.
+ */
+
+export const SIGNING_CONSENT_VERSION = '2025-10-1';
+
+export const SIGNING_CONSENT_TEXT =
+  'I agree that this electronic signature is the legal equivalent of my handwritten signature on this document, ' +
+  'that I have reviewed the document in full, and that my IP address and the time of signing will be recorded as evidence.';
+
+// Stable JSON: object keys sorted at every level, so the same content always hashes the same
+export const canonicalJson = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const hmacSha256Hex = async (key: string, message: string): Promise<string> => {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+type Row = Record<string, unknown>;
+
+const money = (value: unknown) => (value === null || value === undefined ? null : Number(value).toFixed(2));
+
+/**
+ * The invoice content a signature covers. Numbering, status and payment fields
+ * are left out: they change after signing without changing what was agreed.
+ */
+export const invoiceSigningContent = (invoice: Row, items: Row[]) => ({
+  id: invoice.id,
+  vendor_id: invoice.vendor_id,
+  client_id: invoice.client_id,
+  quote_id: invoice.quote_id,
+  currency: invoice.currency,
+  subtotal_amount: money(invoice.subtotal_amount),
+  vat_amount: money(invoice.vat_amount),
+  vat_rate: invoice.vat_rate === null ? null : Number(invoice.vat_rate),
+  vat_basis: invoice.vat_basis,
+  total_amount: money(invoice.total_amount),
+  retention_percentage: Number(invoice.retention_percentage || 0),
+  retention_amount: money(invoice.retention_amount),
+  stage_type: invoice.stage_type,
+  stage_index: invoice.stage_index,
+  stage_label: invoice.stage_label,
+  stage_percentage: invoice.stage_percentage === null ? null : Number(invoice.stage_percentage),
+  reverse_charge_note: invoice.reverse_charge_note,
+  customer_vat_id: invoice.customer_vat_id,
+  property_location: invoice.property_location,
+  items: [...items]
+    .sort((a, b) => String(a.id).localeCompare(String(b.id)))
+    .map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity ?? 1),
+      unit_amount: money(item.unit_amount),
+      line_total: money(item.line_total),
+      vat_basis: item.vat_basis,
+      vat_rate: item.vat_rate === null ? null : Number(item.vat_rate),
+      vat_amount: money(item.vat_amount),
+      is_material: !!item.is_material,
+      is_retention: !!item.is_retention,
+    })),
+});
+
+/** The quote terms a signature covers */
+export const quoteSigningContent = (quote: Row) => ({
+  id: quote.id,
+  quote_request_id: quote.quote_request_id,
+  version: quote.version,
+  total_amount: money(quote.total_amount),
+  cost_breakdown: quote.cost_breakdown,
+  milestones: quote.milestones,
+  payment_schedule: quote.payment_schedule,
+  inclusions: quote.inclusions,
+  exclusions: quote.exclusions,
+  start_date: quote.start_date,
+  duration_weeks: quote.duration_weeks,
+  validity_date: quote.validity_date,
+  retention_percentage: Number(quote.retention_percentage || 0),
+  defects_liability_months: quote.defects_liability_months,
+  assumptions_dependencies: quote.assumptions_dependencies,
+  notes_to_client: quote.notes_to_client,
+});
@@ -0,0 +1,349 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+
+/**
+ * Invoice status changes a Stripe event may make. Anything else is a late or
+ * out-of-order event (e.g. invoice.sent arriving after invoice.paid) and only
+ * updates the non-status fields.
+ */
+const ALLOWED_TRANSITIONS: Record<string, string[]> = {
+  draft: ['sent', 'paid', 'payment_failed', 'voided'],
+  sent: ['paid', 'payment_failed', 'voided', 'uncollectible', 'overdue'],
+  overdue: ['paid', 'payment_failed', 'voided', 'uncollectible'],
+  payment_failed: ['sent', 'paid', 'voided', 'uncollectible'],
+  uncollectible: ['paid', 'voided'],
+  partially_paid: ['paid', 'voided', 'uncollectible'],
+  paid: ['partially_refunded', 'refunded', 'disputed'],
+  partially_refunded: ['refunded', 'disputed'],
+  disputed: ['paid', 'refunded', 'dispute_lost'],
+};
+
+export const canTransitionInvoice = (from: string, to: string) =>
+  (ALLOWED_TRANSITIONS[from] || []).includes(to);
+
+export interface InvoiceMatch {
+  column: 'stripe_invoice_id' | 'payment_intent_id' | 'provider_invoice_id';
+  value: string;
+}
+
+export interface EventResult {
+  action: string;
+  invoiceId?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  skipped?: string;
+}
+
+/**
+ * Apply an event to an invoice. An event older than the last one applied changes
+ * nothing; otherwise its fields are written, and the status too when the
+ * transition is allowed. The update is conditional on the status and event time
+ * read, so two deliveries racing each other cannot both win.
+ */
+export const applyInvoiceEvent = async (
+  supabaseClient: SupabaseClient,
+  match: InvoiceMatch,
+  nextStatus: string | null,
+  eventCreatedAt: string,
+  fields: Record<string, unknown> = {}
+): Promise<EventResult> => {
+  const { data: invoice, error } = await supabaseClient
+    .from('invoices')
+    .select('id, status, last_stripe_event_at')
+    .eq(match.column, match.value)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!invoice) {
+    return { action: 'none', skipped: `No invoice with ${match.column} ${match.value}` };
+  }
+
+  if (invoice.last_stripe_event_at && new Date(invoice.last_stripe_event_at) > new Date(eventCreatedAt)) {
+    console.log(`Skipped invoice ${invoice.id} event from ${eventCreatedAt} (stale event)`);
+    return {
+      action: 'none',
+      invoiceId: invoice.id,
+      fromStatus: invoice.status,
+      skipped: 'Older than the last applied event',
+    };
+  }
+
+  const changesStatus = !!nextStatus && nextStatus !== invoice.status;
+  const statusAllowed = changesStatus && canTransitionInvoice(invoice.status, nextStatus!);
+
+  const update: Record<string, unknown> = { ...fields, last_stripe_event_at: eventCreatedAt };
+  if (statusAllowed) update.status = nextStatus;
+
+  let conditionalUpdate = supabaseClient
+    .from('invoices')
+    .update(update)
+    .eq('id', invoice.id)
+    .eq('status', invoice.status);
+  conditionalUpdate = invoice.last_stripe_event_at
+    ? conditionalUpdate.eq('last_stripe_event_at', invoice.last_stripe_event_at)
+    : conditionalUpdate.is('last_stripe_event_at', null);
+
+  const { data: updated, error: updateError } = await conditionalUpdate.select('id');
+
+  if (updateError) throw updateError;
+  if (!updated || updated.length === 0) {
+    throw new Error(`Invoice ${invoice.id} changed while applying the event, retry`);
+  }
+
+  if (changesStatus && !statusAllowed) {
+    console.log(`Skipped invoice ${invoice.id} status ${invoice.status} -> ${nextStatus} (not allowed)`);
+    return {
+      action: 'fields_only',
+      invoiceId: invoice.id,
+      fromStatus: invoice.status,
+      skipped: `Transition ${invoice.status} -> ${nextStatus} not allowed`,
+    };
+  }
+
+  return {
+    action: statusAllowed ? 'status_changed' : 'fields_updated',
+    invoiceId: invoice.id,
+    fromStatus: invoice.status,
+    toStatus: statusAllowed ? nextStatus! : invoice.status,
+  };
+};
+
+/**
+ * Find the invoice a charge or dispute belongs to. Disputes only carry the charge,
+ * so the charge is fetched from the connected account when the payment intent is unknown.
+ */
+const matchForCharge = async (
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  chargeOrId: Stripe.Charge | string,
+  paymentIntentId: string | null,
+  stripeAccount?: string
+): Promise<InvoiceMatch | null> => {
+  if (paymentIntentId) {
+    const { data } = await supabaseClient
+      .from('invoices')
+      .select('id')
+      .eq('payment_intent_id', paymentIntentId)
+      .maybeSingle();
+    if (data) return { column: 'payment_intent_id', value: paymentIntentId };
+  }
+
+  const charge = typeof chargeOrId === 'string'
+    ? await stripe.charges.retrieve(chargeOrId, {}, stripeAccount ? { stripeAccount } : undefined)
+    : chargeOrId;
+
+  if (charge.invoice) {
+    return { column: 'stripe_invoice_id', value: typeof charge.invoice === 'string' ? charge.invoice : charge.invoice.id };
+  }
+
+  return null;
+};
+
+/**
+ * Apply a single Stripe event. Throws when it could not be applied so the
+ * ledger records the failure and the event can be retried or replayed.
+ */
+export const processStripeEvent = async (
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  event: Stripe.Event
+): Promise<EventResult> => {
+  const eventCreatedAt = new Date(event.created * 1000).toISOString();
+
+  switch (event.type) {
+    case 'invoice.finalized': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Invoice finalized:', invoice.id);
+
+      return await applyInvoiceEvent(
+        supabaseClient,
+        { column: 'stripe_invoice_id', value: invoice.id },
+        'sent',
+        eventCreatedAt,
+        { stripe_pdf_url: invoice.invoice_pdf || null }
+      );
+    }
+
+    case 'invoice.sent': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Invoice sent:', invoice.id);
+
+      return await applyInvoiceEvent(supabaseClient, { column: 'stripe_invoice_id', value: invoice.id }, 'sent', eventCreatedAt);
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Invoice paid:', invoice.id, 'Amount:', invoice.amount_paid);
+
+      return await applyInvoiceEvent(
+        supabaseClient,
+        { column: 'stripe_invoice_id', value: invoice.id },
+        'paid',
+        eventCreatedAt,
+        {
+          paid_at: eventCreatedAt,
+          payment_intent_id: invoice.payment_intent as string || null,
+        }
+      );
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Invoice payment failed:', invoice.id);
+
+      return await applyInvoiceEvent(supabaseClient, { column: 'stripe_invoice_id', value: invoice.id }, 'payment_failed', eventCreatedAt);
+    }
+
+    case 'invoice.voided': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Invoice voided:', invoice.id);
+
+      return await applyInvoiceEvent(supabaseClient, { column: 'stripe_invoice_id', value: invoice.id }, 'voided', eventCreatedAt);
+    }
+
+    case 'invoice.marked_uncollectible': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('Invoice marked uncollectible:', invoice.id);
+
+      return await applyInvoiceEvent(supabaseClient, { column: 'stripe_invoice_id', value: invoice.id }, 'uncollectible', eventCreatedAt);
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      console.log('Charge refunded:', charge.id, 'Refunded:', charge.amount_refunded, 'of', charge.amount);
+
+      const match = await matchForCharge(stripe, supabaseClient, charge, charge.payment_intent as string || null, event.account);
+      if (!match) return { action: 'none', skipped: `No invoice for charge ${charge.id}` };
+
+      const fullyRefunded = charge.refunded || charge.amount_refunded >= charge.amount;
+      return await applyInvoiceEvent(
+        supabaseClient,
+        match,
+        fullyRefunded ? 'refunded' : 'partially_refunded',
+        eventCreatedAt,
+        {
+          refunded_amount: charge.amount_refunded / 100,
+          refunded_at: eventCreatedAt,
+        }
+      );
+    }
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated':
+    case 'charge.dispute.closed': {
+      const dispute = event.data.object as Stripe.Dispute;
+      console.log('Dispute event:', event.type, dispute.id, 'Status:', dispute.status);
+
+      const match = await matchForCharge(
+        stripe,
+        supabaseClient,
+        dispute.charge as string,
+        dispute.payment_intent as string || null,
+        event.account
+      );
+      if (!match) return { action: 'none', skipped: `No invoice for dispute ${dispute.id}` };
+
+      let nextStatus: string | null = null;
+      const fields: Record<string, unknown> = { dispute_status: dispute.status };
+
+      if (event.type === 'charge.dispute.created') {
+        nextStatus = 'disputed';
+        fields.disputed_at = eventCreatedAt;
+      } else if (event.type === 'charge.dispute.closed') {
+        nextStatus = dispute.status === 'lost' ? 'dispute_lost' : 'paid';
+      }
+
+      return await applyInvoiceEvent(supabaseClient, match, nextStatus, eventCreatedAt, fields);
+    }
+
+    case 'account.updated': {
+      const account = event.data.object as Stripe.Account;
+      console.log('Account updated:', account.id);
+
+      // Update vendor stripe capabilities
+      const { error } = await supabaseClient
+        .from('vendor_profiles')
+        .update({
+          stripe_charges_enabled: account.charges_enabled,
+          stripe_payouts_enabled: account.payouts_enabled,
+          stripe_onboarding_complete: account.details_submitted,
+        })
+        .eq('stripe_connect_id', account.id);
+
+      if (error) throw error;
+      return { action: 'vendor_updated' };
+    }
+
+    default:
+      console.log('Unhandled event type:', event.type);
+      return { action: 'ignored' };
+  }
+};
+
+interface LedgerOptions {
+  force?: boolean;
+  replayedBy?: string;
+}
+
+/**
+ * Record an event in the ledger and apply it at most once.
+ * Redeliveries of a processed event return `duplicate: true` without side effects.
+ */
+export const handleLedgeredEvent = async (
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  event: Stripe.Event,
+  options: LedgerOptions = {}
+) => {
+  const { data: claimed, error: claimError } = await supabaseClient.rpc('claim_stripe_webhook_event', {
+    event_id_param: event.id,
+    event_type_param: event.type,
+    stripe_account_param: event.account || null,
+    livemode_param: event.livemode,
+    event_created_at_param: new Date(event.created * 1000).toISOString(),
+    payload_param: event,
+    force_param: options.force || false,
+  });
+
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    console.log('Event already handled or in progress:', event.id);
+    return { duplicate: true };
+  }
+
+  const replayFields = options.replayedBy
+    ? { replayed_by: options.replayedBy, replayed_at: new Date().toISOString() }
+    : {};
+
+  try {
+    const result = await processStripeEvent(stripe, supabaseClient, event);
+
+    await supabaseClient
+      .from('stripe_webhook_events')
+      .update({
+        status: result.action === 'ignored' ? 'ignored' : 'processed',
+        result,
+        processed_at: new Date().toISOString(),
+        ...replayFields,
+      })
+      .eq('id', event.id);
+
+    return { duplicate: false, result };
+  } catch (error: any) {
+    console.error('Event processing failed:', event.id, error.message);
+
+    await supabaseClient
+      .from('stripe_webhook_events')
+      .update({
+        status: 'failed',
+        last_error: error.message,
+        ...replayFields,
+      })
+      .eq('id', event.id);
+
+    throw error;
+  }
+};
@@ -0,0 +1,246 @@
+import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+import type {
+  PaymentProvider,
+  ProviderEvent,
+  ProviderEventType,
+  ProviderInvoiceInput,
+} from './paymentProvider.ts';
+
+const VAT_BASIS_DESCRIPTIONS: Record<string, string> = {
+  standard19: 'Cyprus VAT standard rate',
+  reduced5_renovation: 'Cyprus VAT reduced rate - renovation of private dwelling',
+  reduced5_primary_residence: 'Cyprus VAT reduced rate - primary residence',
+  reverse_charge: 'Domestic reverse charge - VAT accounted for by the recipient',
+};
+
+const EVENT_TYPES: Record<string, ProviderEventType> = {
+  'invoice.finalized': 'invoice.sent',
+  'invoice.sent': 'invoice.sent',
+  'invoice.paid': 'invoice.paid',
+  'invoice.payment_failed': 'invoice.payment_failed',
+  'invoice.voided': 'invoice.voided',
+  'charge.refunded': 'invoice.refunded',
+  'account.updated': 'account.updated',
+};
+
+/**
+ * Stripe Connect: customers, invoices and tax rates live on the vendor's
+ * connected account and the platform fee is taken as an application fee.
+ */
+export const createStripeProvider = (): PaymentProvider => {
+  const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+    apiVersion: '2023-10-16',
+  });
+
+  // Find or create the tax rate for a VAT basis/rate pair on the connected account
+  const getOrCreateTaxRate = async (
+    vatBasis: string,
+    vatRate: number,
+    stripeAccount: string,
+    cache: Map<string, string>
+  ): Promise<string> => {
+    const key = `${vatBasis}:${vatRate}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const existing = await stripe.taxRates.list(
+      { active: true, inclusive: false, limit: 100 },
+      { stripeAccount }
+    );
+    let taxRate = existing.data.find(
+      (rate) => rate.percentage === vatRate && rate.metadata?.vat_basis === vatBasis
+    );
+
+    if (!taxRate) {
+      taxRate = await stripe.taxRates.create(
+        {
+          display_name: 'VAT',
+          description: VAT_BASIS_DESCRIPTIONS[vatBasis] || 'Cyprus VAT',
+          percentage: vatRate,
+          inclusive: false,
+          country: 'CY',
+          jurisdiction: 'CY',
+          tax_type: 'vat',
+          metadata: { vat_basis: vatBasis, platform: 'BuildEasy' },
+        },
+        { stripeAccount }
+      );
+      console.log('Created tax rate:', taxRate.id, key);
+    }
+
+    cache.set(key, taxRate.id);
+    return taxRate.id;
+  };
+
+  return {
+    name: 'stripe',
+
+    async findOrCreateCustomer(stripeAccount, input) {
+      const customers = await stripe.customers.list(
+        { email: input.email, limit: 1 },
+        { stripeAccount }
+      );
+
+      if (customers.data.length > 0) {
+        console.log('Using existing customer:', customers.data[0].id);
+        return customers.data[0].id;
+      }
+
+      const customer = await stripe.customers.create(
+        {
+          email: input.email,
+          name: input.name,
+          metadata: {
+            client_id: input.clientId,
+            platform: 'BuildEasy'
+          },
+        },
+        { stripeAccount }
+      );
+      console.log('Created new customer:', customer.id);
+      return customer.id;
+    },
+
+    async createInvoice(stripeAccount, input: ProviderInvoiceInput) {
+      const stripeInvoice = await stripe.invoices.create(
+        {
+          customer: input.customerId,
+          auto_advance: false,
+          collection_method: 'send_invoice',
+          days_until_due: input.daysUntilDue,
+          application_fee_amount: input.applicationFeeAmount > 0 ? input.applicationFeeAmount : undefined,
+          metadata: input.metadata,
+          footer: input.footer || undefined,
+        },
+        { stripeAccount }
+      );
+
+      console.log('Created Stripe invoice:', stripeInvoice.id, 'application fee:', input.applicationFeeAmount);
+
+      // Add line items, each with its own VAT rate
+      const taxRateCache = new Map<string, string>();
+      const lineTaxRates: Record<string, string> = {};
+      for (const line of input.lines) {
+        const taxRateId = await getOrCreateTaxRate(line.vatBasis, line.vatRate, stripeAccount, taxRateCache);
+
+        await stripe.invoiceItems.create(
+          {
+            customer: input.customerId,
+            invoice: stripeInvoice.id,
+            description: line.description,
+            quantity: line.quantity,
+            unit_amount: line.unitAmount,
+            tax_rates: [taxRateId],
+            metadata: {
+              is_material: line.isMaterial ? 'true' : 'false',
+              is_retention: line.isRetention ? 'true' : 'false',
+              vat_basis: line.vatBasis
+            }
+          },
+          { stripeAccount }
+        );
+
+        lineTaxRates[line.id] = taxRateId;
+        console.log('Added line item:', line.description, `@ ${line.vatRate}%`);
+      }
+
+      const finalizedInvoice = await stripe.invoices.finalizeInvoice(
+        stripeInvoice.id,
+        {},
+        { stripeAccount }
+      );
+
+      console.log('Finalized invoice, PDF:', finalizedInvoice.invoice_pdf);
+
+      return {
+        id: finalizedInvoice.id,
+        paymentUrl: finalizedInvoice.hosted_invoice_url || null,
+        pdfUrl: finalizedInvoice.invoice_pdf || null,
+        dueDate: finalizedInvoice.due_date
+          ? new Date(finalizedInvoice.due_date * 1000).toISOString().slice(0, 10)
+          : null,
+        lineTaxRates,
+        applicationFeeCollected: true,
+      };
+    },
+
+    async voidInvoice(stripeAccount, providerInvoiceId) {
+      await stripe.invoices.voidInvoice(providerInvoiceId, {}, { stripeAccount });
+      console.log('Voided Stripe invoice:', providerInvoiceId);
+    },
+
+    async verifyWebhook(payload, headers) {
+      const signature = headers.get('stripe-signature');
+      if (!signature) throw new Error('No signature');
+
+      const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+      if (!webhookSecret) throw new Error('Webhook secret not configured');
+
+      const event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+      const object = event.data.object as { id?: string; invoice?: string | { id: string } | null; amount?: number };
+
+      let providerInvoiceId: string | null = null;
+      if (event.type.startsWith('invoice.')) {
+        providerInvoiceId = object.id || null;
+      } else if (object.invoice) {
+        providerInvoiceId = typeof object.invoice === 'string' ? object.invoice : object.invoice.id;
+      }
+
+      const normalized: ProviderEvent = {
+        id: event.id,
+        provider: 'stripe',
+        type: EVENT_TYPES[event.type] || 'other',
+        createdAt: new Date(event.created * 1000).toISOString(),
+        providerInvoiceId,
+        account: event.account || null,
+        amount: typeof object.amount === 'number' ? object.amount : null,
+        raw: event,
+      };
+      return [normalized];
+    },
+
+    async createPayoutAccount(input) {
+      const account = await stripe.accounts.create({
+        type: 'express',
+        country: 'CY',
+        email: input.email,
+        capabilities: {
+          card_payments: { requested: true },
+          transfers: { requested: true },
+        },
+        business_type: 'company',
+        metadata: {
+          vendor_id: input.vendorId,
+          business_name: input.businessName
+        }
+      });
+
+      console.log('Created Stripe account:', account.id);
+      return account.id;
+    },
+
+    async createOnboardingLink(account, { refreshUrl, returnUrl }) {
+      const accountLink = await stripe.accountLinks.create({
+        account,
+        refresh_url: refreshUrl,
+        return_url: returnUrl,
+        type: 'account_onboarding',
+      });
+      return accountLink.url;
+    },
+
+    async getPayoutAccountStatus(accountId) {
+      const account = await stripe.accounts.retrieve(accountId);
+      return {
+        chargesEnabled: account.charges_enabled,
+        payoutsEnabled: account.payouts_enabled,
+        detailsSubmitted: account.details_submitted,
+      };
+    },
+
+    async createDashboardLink(account) {
+      const loginLink = await stripe.accounts.createLoginLink(account);
+      return loginLink.url;
+    },
+  };
+};
@@ -0,0 +1,361 @@
+/**
+ * UBL 2.1 e-invoices following EN 16931 and Peppol BIS Billing 3.0.
+ *
+ * The document is checked against the EN 16931 and Peppol business rules that
+ * our data can break before any XML is written. The full Schematron still runs
+ * at the receiving access point; these checks catch what we can fix ourselves.
+ */
+
+import { validateVatNumber } from './vatNumber.ts';
+
+export const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+export const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+// Peppol electronic address schemes (EAS) for VAT numbers, by VAT prefix
+const VAT_ENDPOINT_SCHEMES: Record<string, string> = {
+  AT: '9914', BE: '9925', BG: '9926', CY: '9928', CZ: '9929', DE: '9930', EE: '9931',
+  EL: '9933', ES: '9920', FR: '9957', HR: '9934', HU: '9910', IE: '9935', IT: '0211',
+  LT: '9937', LU: '9938', LV: '9939', MT: '9943', NL: '9944', PL: '9945', PT: '9946',
+  RO: '9947', SI: '9949', SK: '9950',
+};
+
+export type VatCategory = 'S' | 'Z' | 'AE';
+
+export interface EInvoiceParty {
+  name: string;
+  vatId: string | null;
+  address: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface EInvoiceLine {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  lineTotal: number;
+  vatBasis: string | null;
+  vatRate: number;
+}
+
+export interface EInvoiceDocument {
+  kind: 'invoice' | 'credit_note';
+  number: string | null;
+  issueDate: string;
+  dueDate: string | null;
+  taxPointDate: string | null;
+  currency: string;
+  orderReference: string | null;
+  precedingInvoiceNumber: string | null;
+  note: string | null;
+  paymentUrl: string | null;
+  supplier: EInvoiceParty;
+  customer: EInvoiceParty;
+  lines: EInvoiceLine[];
+  /** Total stored on the invoice or credit note, compared with the computed total */
+  storedTotal: number;
+}
+
+export interface EInvoiceViolation {
+  rule: string;
+  message: string;
+}
+
+interface VatBreakdown {
+  category: VatCategory;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+interface PartyDetails {
+  vatId: string | null;
+  countryCode: string;
+  endpoint: { scheme: string; id: string } | null;
+  street: string | null;
+  city: string | null;
+  postalZone: string | null;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const amount = (value: number) => round2(value).toFixed(2);
+
+export const vatCategoryFor = (vatBasis: string | null, vatRate: number): VatCategory => {
+  if (vatBasis === 'reverse_charge') return 'AE';
+  return vatRate > 0 ? 'S' : 'Z';
+};
+
+const partyDetails = (party: EInvoiceParty): PartyDetails => {
+  const vat = party.vatId ? validateVatNumber(party.vatId) : null;
+  const vatId = vat?.valid ? vat.normalized : null;
+  // VIES uses EL for Greece, ISO 3166 uses GR
+  const countryCode = vat?.valid && vat.countryCode ? (vat.countryCode === 'EL' ? 'GR' : vat.countryCode) : 'CY';
+
+  let endpoint: PartyDetails['endpoint'] = null;
+  if (vatId && vat?.countryCode && VAT_ENDPOINT_SCHEMES[vat.countryCode]) {
+    endpoint = { scheme: VAT_ENDPOINT_SCHEMES[vat.countryCode], id: vatId };
+  } else if (party.email) {
+    endpoint = { scheme: 'EM', id: party.email };
+  }
+
+  // Free-text address: first part is the street, the last part the town, a 4 or 5 digit group the postcode
+  const parts = (party.address || '')
+    .split(/[\n,]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const postalZone = (party.address || '').match(/\b\d{4,5}\b/)?.[0] || null;
+  const city = parts.length > 1 ? parts[parts.length - 1].replace(/\b\d{4,5}\b/, '').trim() || null : null;
+
+  return { vatId, countryCode, endpoint, street: parts[0] || null, city, postalZone };
+};
+
+const vatBreakdown = (lines: EInvoiceLine[]): VatBreakdown[] => {
+  const groups = new Map<string, VatBreakdown>();
+
+  for (const line of lines) {
+    const category = vatCategoryFor(line.vatBasis, line.vatRate);
+    const rate = category === 'S' ? line.vatRate : 0;
+    const key = `${category}:${rate}`;
+    const group = groups.get(key) || { category, rate, taxableAmount: 0, taxAmount: 0 };
+    group.taxableAmount = round2(group.taxableAmount + line.lineTotal);
+    groups.set(key, group);
+  }
+
+  // EN 16931 computes VAT per category from the taxable amount, not per line (BR-S-09)
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    taxAmount: round2((group.taxableAmount * group.rate) / 100),
+  }));
+};
+
+const computeTotals = (doc: EInvoiceDocument) => {
+  const breakdown = vatBreakdown(doc.lines);
+  const lineExtensionAmount = round2(doc.lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const taxAmount = round2(breakdown.reduce((sum, group) => sum + group.taxAmount, 0));
+  return {
+    breakdown,
+    lineExtensionAmount,
+    taxExclusiveAmount: lineExtensionAmount,
+    taxAmount,
+    taxInclusiveAmount: round2(lineExtensionAmount + taxAmount),
+  };
+};
+
+/**
+ * Business rules checked before export. Rule ids are those of EN 16931
+ * (BR-*) and Peppol BIS 3.0 (PEPPOL-EN16931-*).
+ */
+export const validateEInvoice = (doc: EInvoiceDocument): EInvoiceViolation[] => {
+  const violations: EInvoiceViolation[] = [];
+  const add = (rule: string, message: string) => violations.push({ rule, message });
+
+  const supplier = partyDetails(doc.supplier);
+  const customer = partyDetails(doc.customer);
+  const totals = computeTotals(doc);
+  const categories = new Set(totals.breakdown.map((group) => group.category));
+
+  if (!doc.number) add('BR-02', 'The document has no legal number. Issue it before exporting');
+  if (!doc.issueDate) add('BR-03', 'The issue date is missing');
+  if (!doc.currency) add('BR-05', 'The currency is missing');
+  if (!doc.supplier.name.trim()) add('BR-06', 'The seller name is missing. Complete your business information');
+  if (!doc.customer.name.trim()) add('BR-07', 'The buyer name is missing');
+  if (!supplier.street) add('BR-08', 'The seller address is missing. Complete your business information');
+  if (!customer.street) add('BR-10', 'The buyer address is missing from the client profile');
+  if (doc.lines.length === 0) add('BR-16', 'The document has no lines');
+
+  if (doc.kind === 'credit_note' && !doc.precedingInvoiceNumber) {
+    add('BR-55', 'The credit note does not reference the invoice it corrects');
+  }
+
+  if (doc.kind === 'invoice' && totals.taxInclusiveAmount > 0 && !doc.dueDate && !doc.paymentUrl) {
+    add('BR-CO-25', 'A payable invoice needs a due date or payment terms');
+  }
+
+  if (!doc.orderReference) {
+    add('PEPPOL-EN16931-R003', 'A buyer reference or order reference is required');
+  }
+
+  if (!supplier.endpoint) add('PEPPOL-EN16931-R020', 'The seller has no VAT number or email to use as electronic address');
+  if (!customer.endpoint) add('PEPPOL-EN16931-R010', 'The buyer has no VAT number or email to use as electronic address');
+
+  if (doc.supplier.vatId && !supplier.vatId) {
+    add('BR-CO-09', `The seller VAT number ${doc.supplier.vatId} is not a valid EU VAT number`);
+  }
+  if (doc.customer.vatId && !customer.vatId) {
+    add('BR-CO-09', `The buyer VAT number ${doc.customer.vatId} is not a valid EU VAT number`);
+  }
+
+  if (categories.has('S') && !supplier.vatId) {
+    add('BR-S-02', 'Standard or reduced rated supplies need the seller VAT number');
+  }
+  if (categories.has('Z') && !supplier.vatId) {
+    add('BR-Z-02', 'Zero rated supplies need the seller VAT number');
+  }
+  if (categories.has('AE')) {
+    if (!supplier.vatId) add('BR-AE-02', 'Reverse charge needs the seller VAT number');
+    if (!customer.vatId) add('BR-AE-02', 'Reverse charge needs the buyer VAT number');
+  }
+
+  doc.lines.forEach((line, index) => {
+    const position = `Line ${index + 1}`;
+    if (!line.description.trim()) add('BR-25', `${position} has no item name`);
+    if (!line.quantity) add('BR-22', `${position} has no quantity`);
+    if (line.vatBasis === 'reverse_charge' && line.vatRate !== 0) add('BR-AE-05', `${position} is reverse charged but carries ${line.vatRate}% VAT`);
+
+    // The price is always positive; a negative line (retention held) uses a negative quantity
+    const quantity = Math.sign(line.lineTotal || 1) * Math.abs(line.quantity);
+    if (Math.abs(round2(quantity * Math.abs(line.unitAmount)) - round2(line.lineTotal)) > 0.01) {
+      add('PEPPOL-EN16931-R120', `${position} total does not equal quantity times price`);
+    }
+  });
+
+  // Per-category VAT may differ from per-line rounding by a cent a line, not more
+  const tolerance = 0.01 * Math.max(doc.lines.length, 1);
+  if (Math.abs(totals.taxInclusiveAmount - round2(doc.storedTotal)) > tolerance) {
+    add(
+      'BR-CO-15',
+      `Computed total ${amount(totals.taxInclusiveAmount)} does not match the stored total ${amount(doc.storedTotal)}`
+    );
+  }
+
+  return violations;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Peppol forbids empty elements, so a missing value drops the element
+const el = (name: string, value: string | null | undefined, attributes: Record<string, string> = {}) => {
+  if (value === null || value === undefined || value === '') return '';
+  const attrs = Object.entries(attributes)
+    .map(([key, attr]) => ` ${key}="${escapeXml(attr)}"`)
+    .join('');
+  return `<${name}${attrs}>${escapeXml(value)}</${name}>`;
+};
+
+const group = (name: string, ...children: string[]) => {
+  const content = children.filter(Boolean).join('');
+  return content ? `<${name}>${content}</${name}>` : '';
+};
+
+const money = (tag: string, value: number, currency: string) => el(tag, amount(value), { currencyID: currency });
+
+const taxCategory = (tag: string, category: VatCategory, rate: number, withExemption: boolean) =>
+  group(
+    tag,
+    el('cbc:ID', category),
+    el('cbc:Percent', String(category === 'S' ? rate : 0)),
+    withExemption && category === 'AE' ? el('cbc:TaxExemptionReasonCode', 'VATEX-EU-AE') : '',
+    withExemption && category === 'AE' ? el('cbc:TaxExemptionReason', 'Reverse charge') : '',
+    group('cac:TaxScheme', el('cbc:ID', 'VAT'))
+  );
+
+const partyXml = (tag: string, party: EInvoiceParty) => {
+  const details = partyDetails(party);
+  return group(
+    tag,
+    group(
+      'cac:Party',
+      details.endpoint ? el('cbc:EndpointID', details.endpoint.id, { schemeID: details.endpoint.scheme }) : '',
+      group('cac:PartyName', el('cbc:Name', party.name)),
+      group(
+        'cac:PostalAddress',
+        el('cbc:StreetName', details.street),
+        el('cbc:CityName', details.city),
+        el('cbc:PostalZone', details.postalZone),
+        group('cac:Country', el('cbc:IdentificationCode', details.countryCode))
+      ),
+      details.vatId
+        ? group('cac:PartyTaxScheme', el('cbc:CompanyID', details.vatId), group('cac:TaxScheme', el('cbc:ID', 'VAT')))
+        : '',
+      group('cac:PartyLegalEntity', el('cbc:RegistrationName', party.name)),
+      group('cac:Contact', el('cbc:Telephone', party.phone), el('cbc:ElectronicMail', party.email))
+    )
+  );
+};
+
+/** Serialize a validated document as a UBL 2.1 Invoice or CreditNote */
+export const buildUbl = (doc: EInvoiceDocument): string => {
+  const isCreditNote = doc.kind === 'credit_note';
+  const root = isCreditNote ? 'CreditNote' : 'Invoice';
+  const lineTag = isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine';
+  const quantityTag = isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity';
+  const currency = doc.currency;
+  const totals = computeTotals(doc);
+  const taxPointDate = el('cbc:TaxPointDate', doc.taxPointDate?.slice(0, 10));
+
+  const lines = doc.lines.map((line, index) => {
+    const quantity = Math.sign(line.lineTotal || 1) * Math.abs(line.quantity);
+    const category = vatCategoryFor(line.vatBasis, line.vatRate);
+    return group(
+      lineTag,
+      el('cbc:ID', String(index + 1)),
+      el(quantityTag, String(quantity), { unitCode: 'C62' }),
+      money('cbc:LineExtensionAmount', line.lineTotal, currency),
+      group(
+        'cac:Item',
+        el('cbc:Name', line.description.slice(0, 100)),
+        taxCategory('cac:ClassifiedTaxCategory', category, line.vatRate, false)
+      ),
+      group('cac:Price', money('cbc:PriceAmount', Math.abs(line.unitAmount), currency))
+    );
+  });
+
+  const body = [
+    el('cbc:CustomizationID', CUSTOMIZATION_ID),
+    el('cbc:ProfileID', PROFILE_ID),
+    el('cbc:ID', doc.number),
+    el('cbc:IssueDate', doc.issueDate.slice(0, 10)),
+    // Element order differs between the two UBL document types
+    isCreditNote ? taxPointDate : el('cbc:DueDate', doc.dueDate?.slice(0, 10)),
+    el(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', isCreditNote ? '381' : '380'),
+    el('cbc:Note', doc.note),
+    isCreditNote ? '' : taxPointDate,
+    el('cbc:DocumentCurrencyCode', currency),
+    group('cac:OrderReference', el('cbc:ID', doc.orderReference)),
+    doc.precedingInvoiceNumber
+      ? group('cac:BillingReference', group('cac:InvoiceDocumentReference', el('cbc:ID', doc.precedingInvoiceNumber)))
+      : '',
+    partyXml('cac:AccountingSupplierParty', doc.supplier),
+    partyXml('cac:AccountingCustomerParty', doc.customer),
+    doc.paymentUrl && !isCreditNote
+      ? group('cac:PaymentMeans', el('cbc:PaymentMeansCode', '48', { name: 'Online card payment' }), el('cbc:PaymentID', doc.number))
+      : '',
+    doc.paymentUrl && !isCreditNote ? group('cac:PaymentTerms', el('cbc:Note', `Pay online: ${doc.paymentUrl}`)) : '',
+    group(
+      'cac:TaxTotal',
+      money('cbc:TaxAmount', totals.taxAmount, currency),
+      ...totals.breakdown.map((vat) =>
+        group(
+          'cac:TaxSubtotal',
+          money('cbc:TaxableAmount', vat.taxableAmount, currency),
+          money('cbc:TaxAmount', vat.taxAmount, currency),
+          taxCategory('cac:TaxCategory', vat.category, vat.rate, true)
+        )
+      )
+    ),
+    group(
+      'cac:LegalMonetaryTotal',
+      money('cbc:LineExtensionAmount', totals.lineExtensionAmount, currency),
+      money('cbc:TaxExclusiveAmount', totals.taxExclusiveAmount, currency),
+      money('cbc:TaxInclusiveAmount', totals.taxInclusiveAmount, currency),
+      money('cbc:PayableAmount', totals.taxInclusiveAmount, currency)
+    ),
+    ...lines,
+  ].filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2"` +
+      ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"' +
+      ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    ...body.map((part) => `  ${part}`),
+    `</${root}>`,
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,22 @@
+/**
+ * VAT4 return boxes, shared by the VAT return page in the browser (through
+ * src/utils/vatReturn.ts) and the VAT return PDF, so it must not depend on
+ * Deno APIs.
+ */
+
+export type Vat4AmountField = 'box_1_output_vat' | 'box_3_total_vat_due' | 'box_6_total_outputs';
+
+/**
+ * VAT4 boxes with the wording on the form. Boxes without a field are inputs
+ * (purchases) that BuildEasy does not record; box 2 is always nil because no
+ * intra-EU acquisitions are invoiced through the platform.
+ */
+export const VAT4_BOXES: { box: string; label: string; field?: Vat4AmountField; nil?: boolean }[] = [
+  { box: '1', label: 'VAT due on sales and other outputs', field: 'box_1_output_vat' },
+  { box: '2', label: 'VAT due on acquisitions from other EU member states', nil: true },
+  { box: '3', label: 'Total VAT due (1 + 2)', field: 'box_3_total_vat_due' },
+  { box: '4', label: 'VAT reclaimed on purchases and other inputs' },
+  { box: '5', label: 'Net VAT to be paid or reclaimed' },
+  { box: '6', label: 'Total value of sales and other outputs excluding VAT', field: 'box_6_total_outputs' },
+  { box: '7', label: 'Total value of purchases and other inputs excluding VAT' },
+];
@@ -0,0 +1,236 @@
+/**
+ * EU VAT Number Validation
+ *
+ * Offline structural and checksum validation of EU VAT identification numbers.
+ * Cyprus numbers (CY + 8 digits + check letter) are validated in full; other
+ * member states use the published check-digit algorithms where one exists and
+ * the format alone otherwise. A number that passes here may still not be
+ * registered - only VIES can confirm that.
+ *
+ * Also used in the browser through src/utils/vatNumber.ts, so it must not
+ * depend on Deno APIs.
+ */
+
+export interface VatNumberResult {
+  valid: boolean;
+  /** Country prefix as used by VIES (EL for Greece) */
+  countryCode: string | null;
+  /** Number without the country prefix */
+  number: string;
+  /** Prefix + number, uppercase, no separators */
+  normalized: string;
+  error?: string;
+}
+
+type CountryRule = {
+  pattern: RegExp;
+  checksum?: (number: string) => boolean;
+};
+
+const digits = (value: string) => value.split('').map(Number);
+
+const weightedSum = (value: string, weights: number[]) =>
+  digits(value).reduce((sum, digit, index) => sum + digit * (weights[index] ?? 0), 0);
+
+const luhn = (value: string) => {
+  let sum = 0;
+  digits(value).reverse().forEach((digit, index) => {
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  });
+  return sum % 10 === 0;
+};
+
+// ISO 7064 MOD 11,10 (Germany, Croatia)
+const mod11_10 = (value: string) => {
+  let product = 10;
+  for (const digit of digits(value.slice(0, -1))) {
+    let sum = (digit + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = (11 - product) % 10;
+  return check === Number(value.slice(-1));
+};
+
+// Cyprus: odd positions are substituted, the sum mod 26 gives the check letter A-Z
+const CY_ODD_VALUES = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21];
+
+const cyprusCheckLetter = (value: string) => {
+  const sum = digits(value.slice(0, 8)).reduce(
+    (total, digit, index) => total + (index % 2 === 0 ? CY_ODD_VALUES[digit] : digit),
+    0
+  );
+  return String.fromCharCode(65 + (sum % 26));
+};
+
+const RULES: Record<string, CountryRule> = {
+  AT: {
+    pattern: /^U\d{8}$/,
+    checksum: (n) => {
+      const values = digits(n.slice(1, 8));
+      const sum = values.reduce((total, digit, index) => {
+        if (index % 2 === 0) return total + digit;
+        const doubled = digit * 2;
+        return total + Math.floor(doubled / 10) + (doubled % 10);
+      }, 0);
+      return (10 - ((sum + 4) % 10)) % 10 === Number(n[8]);
+    },
+  },
+  BE: {
+    pattern: /^[01]\d{9}$/,
+    checksum: (n) => 97 - (Number(n.slice(0, 8)) % 97) === Number(n.slice(8)),
+  },
+  BG: {
+    pattern: /^\d{9,10}$/,
+    checksum: (n) => {
+      if (n.length === 10) return true;
+      let check = weightedSum(n, [1, 2, 3, 4, 5, 6, 7, 8]) % 11;
+      if (check === 10) check = (weightedSum(n, [3, 4, 5, 6, 7, 8, 9, 10]) % 11) % 10;
+      return check === Number(n[8]);
+    },
+  },
+  CY: {
+    pattern: /^[0-59]\d{7}[A-Z]$/,
+    checksum: (n) => !n.startsWith('12') && cyprusCheckLetter(n) === n[8],
+  },
+  CZ: {
+    pattern: /^\d{8,10}$/,
+    checksum: (n) => {
+      if (n.length !== 8) return true;
+      const remainder = weightedSum(n, [8, 7, 6, 5, 4, 3, 2]) % 11;
+      return (11 - remainder) % 10 === Number(n[7]);
+    },
+  },
+  DE: { pattern: /^[1-9]\d{8}$/, checksum: mod11_10 },
+  DK: {
+    pattern: /^[1-9]\d{7}$/,
+    checksum: (n) => weightedSum(n, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  },
+  EE: {
+    pattern: /^10\d{7}$/,
+    checksum: (n) => (10 - (weightedSum(n, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 === Number(n[8]),
+  },
+  EL: {
+    pattern: /^\d{9}$/,
+    checksum: (n) => (weightedSum(n, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === Number(n[8]),
+  },
+  ES: { pattern: /^[A-Z0-9]\d{7}[A-Z0-9]$/ },
+  FI: {
+    pattern: /^\d{8}$/,
+    checksum: (n) => {
+      const remainder = weightedSum(n, [7, 9, 10, 5, 8, 4, 2]) % 11;
+      if (remainder === 1) return false;
+      return (remainder === 0 ? 0 : 11 - remainder) === Number(n[7]);
+    },
+  },
+  FR: {
+    pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+    checksum: (n) => {
+      if (!/^\d{2}/.test(n)) return true;
+      return (12 + 3 * (Number(n.slice(2)) % 97)) % 97 === Number(n.slice(0, 2));
+    },
+  },
+  HR: { pattern: /^\d{11}$/, checksum: mod11_10 },
+  HU: {
+    pattern: /^\d{8}$/,
+    checksum: (n) => (10 - (weightedSum(n, [9, 7, 3, 1, 9, 7, 3]) % 10)) % 10 === Number(n[7]),
+  },
+  IE: {
+    pattern: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+    checksum: (n) => {
+      if (!/^\d{7}/.test(n)) return true;
+      const extra = n.length === 9 ? (n[8] === 'W' ? 0 : n.charCodeAt(8) - 64) * 9 : 0;
+      const remainder = (weightedSum(n.slice(0, 7), [8, 7, 6, 5, 4, 3, 2]) + extra) % 23;
+      return (remainder === 0 ? 'W' : String.fromCharCode(64 + remainder)) === n[7];
+    },
+  },
+  IT: { pattern: /^\d{11}$/, checksum: luhn },
+  LT: { pattern: /^(\d{9}|\d{12})$/ },
+  LU: {
+    pattern: /^\d{8}$/,
+    checksum: (n) => Number(n.slice(0, 6)) % 89 === Number(n.slice(6)),
+  },
+  LV: { pattern: /^\d{11}$/ },
+  MT: {
+    pattern: /^[1-9]\d{7}$/,
+    checksum: (n) => 37 - (weightedSum(n, [3, 4, 6, 7, 8, 9]) % 37) === Number(n.slice(6)),
+  },
+  NL: { pattern: /^\d{9}B\d{2}$/ },
+  PL: {
+    pattern: /^\d{10}$/,
+    checksum: (n) => weightedSum(n, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === Number(n[9]),
+  },
+  PT: {
+    pattern: /^\d{9}$/,
+    checksum: (n) => {
+      const check = 11 - (weightedSum(n, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+      return (check > 9 ? 0 : check) === Number(n[8]);
+    },
+  },
+  RO: {
+    pattern: /^[1-9]\d{1,9}$/,
+    checksum: (n) => {
+      const body = n.slice(0, -1).padStart(9, '0');
+      return ((weightedSum(body, [7, 5, 3, 2, 1, 7, 5, 3, 2]) * 10) % 11) % 10 === Number(n.slice(-1));
+    },
+  },
+  SE: { pattern: /^\d{10}01$/, checksum: (n) => luhn(n.slice(0, 10)) },
+  SI: {
+    pattern: /^[1-9]\d{7}$/,
+    checksum: (n) => {
+      const check = 11 - (weightedSum(n, [8, 7, 6, 5, 4, 3, 2]) % 11);
+      if (check === 11) return false;
+      return (check === 10 ? 0 : check) === Number(n[7]);
+    },
+  },
+  SK: { pattern: /^[1-9]\d{9}$/, checksum: (n) => BigInt(n) % 11n === 0n },
+  XI: { pattern: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/ },
+};
+
+export const SUPPORTED_VAT_COUNTRIES = Object.keys(RULES);
+
+/**
+ * Validate an EU VAT number offline.
+ *
+ * @param value - VAT number as entered; spaces, dots and dashes are ignored
+ * @param defaultCountry - Prefix assumed when the value has none (Cyprus by default)
+ */
+export function validateVatNumber(value: string, defaultCountry = 'CY'): VatNumberResult {
+  const cleaned = (value || '').toUpperCase().replace(/[\s.\-/]/g, '');
+
+  if (!cleaned) {
+    return { valid: false, countryCode: null, number: '', normalized: '', error: 'VAT number is required' };
+  }
+
+  let countryCode = defaultCountry;
+  let number = cleaned;
+  if (/^[A-Z]{2}/.test(cleaned)) {
+    countryCode = cleaned.slice(0, 2);
+    number = cleaned.slice(2);
+  }
+
+  // Greece uses EL in VAT numbers, not its ISO code
+  if (countryCode === 'GR') countryCode = 'EL';
+
+  const normalized = `${countryCode}${number}`;
+  const rule = RULES[countryCode];
+
+  if (!rule) {
+    return { valid: false, countryCode, number, normalized, error: `${countryCode} is not an EU VAT prefix` };
+  }
+
+  if (!rule.pattern.test(number)) {
+    const hint = countryCode === 'CY' ? ' (expected CY + 8 digits + check letter, e.g. CY10259033P)' : '';
+    return { valid: false, countryCode, number, normalized, error: `Invalid ${countryCode} VAT number format${hint}` };
+  }
+
+  if (rule.checksum && !rule.checksum(number)) {
+    return { valid: false, countryCode, number, normalized, error: `${normalized} fails the ${countryCode} check digit` };
+  }
+
+  return { valid: true, countryCode, number, normalized };
+}
@@ -0,0 +1,77 @@
+/**
+ * Online VAT number check against VIES.
+ *
+ * Off unless VIES_MODE=live. VIES_API_URL defaults to the European Commission
+ * REST API; point it at the vies-stub function to run the check locally, e.g.
+ * VIES_API_URL=http://kong:8000/functions/v1/vies-stub
+ */
+
+const DEFAULT_VIES_API_URL = 'https://ec.europa.eu/taxation_customs/vies/rest-api';
+
+export interface ViesResult {
+  status: 'valid' | 'invalid' | 'unavailable' | 'skipped';
+  vatNumber: string;
+  requestIdentifier?: string | null;
+  name?: string | null;
+  address?: string | null;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface ViesRequester {
+  countryCode: string;
+  number: string;
+}
+
+/**
+ * Ask VIES whether a VAT number is registered. Passing the requester's own
+ * number makes VIES return a consultation number that serves as evidence.
+ * Never throws: an unreachable service is reported as `unavailable`.
+ */
+export const checkVies = async (
+  countryCode: string,
+  number: string,
+  requester?: ViesRequester
+): Promise<ViesResult> => {
+  const vatNumber = `${countryCode}${number}`;
+  const checkedAt = new Date().toISOString();
+
+  if (Deno.env.get('VIES_MODE') !== 'live') {
+    return { status: 'skipped', vatNumber, checkedAt };
+  }
+
+  const baseUrl = Deno.env.get('VIES_API_URL') || DEFAULT_VIES_API_URL;
+
+  try {
+    const response = await fetch(`${baseUrl}/check-vat-number`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({
+        countryCode,
+        vatNumber: number,
+        requesterMemberStateCode: requester?.countryCode,
+        requesterNumber: requester?.number,
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok || (body.userError && !['VALID', 'INVALID'].includes(body.userError))) {
+      console.error('VIES unavailable:', response.status, body.userError);
+      return { status: 'unavailable', vatNumber, error: body.userError || `HTTP ${response.status}`, checkedAt };
+    }
+
+    return {
+      status: body.valid ? 'valid' : 'invalid',
+      vatNumber,
+      requestIdentifier: body.requestIdentifier || null,
+      name: body.name && body.name !== '---' ? body.name : null,
+      address: body.address && body.address !== '---' ? body.address : null,
+      checkedAt,
+    };
+  } catch (error: any) {
+    console.error('VIES request failed:', error.message);
+    return { status: 'unavailable', vatNumber, error: error.message, checkedAt };
+  }
+};
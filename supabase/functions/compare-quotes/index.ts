@@ -0,0 +1,297 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PDFDocument, PDFPage, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import {
+  MARGIN,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  embedFonts,
+  formatDate,
+  formatMoney,
+  wrapText,
+} from '../_shared/pdf.ts';
+import {
+  buildQuoteComparison,
+  type ComparedQuote,
+  type Outlier,
+  type QuoteComparison,
+  type QuoteRecord,
+} from '../_shared/quoteComparison.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Vendors per page; wider comparisons continue on the next page
+const QUOTES_PER_PAGE = 5;
+const LABEL_WIDTH = 170;
+
+interface MatrixRow {
+  label: string;
+  values: (quote: ComparedQuote) => string;
+  outlier?: (quote: ComparedQuote) => Outlier | undefined;
+}
+
+const optional = (value: number | null, suffix = '') => (value === null ? '—' : `${value}${suffix}`);
+
+const matrixSections = (comparison: QuoteComparison): [string, MatrixRow[]][] => [
+  ['Price & timing', [
+    { label: 'Total (excl. VAT)', values: (q) => formatMoney(q.totalAmount), outlier: (q) => q.outliers.total },
+    { label: 'Duration', values: (q) => optional(q.durationWeeks, ' weeks'), outlier: (q) => q.outliers.duration },
+    { label: 'Start date', values: (q) => formatDate(q.startDate) },
+    { label: 'Valid until', values: (q) => (q.expired ? `${formatDate(q.validityDate)} (expired)` : formatDate(q.validityDate)) },
+  ]],
+  ['Cost breakdown', [
+    ...comparison.categories.map((category): MatrixRow => ({
+      label: category,
+      values: (q) => (q.categories[category] !== undefined ? formatMoney(q.categories[category]) : '—'),
+      outlier: (q) => q.outliers[`category:${category}`],
+    })),
+    { label: 'Materials', values: (q) => formatMoney(q.materialsAmount) },
+    { label: 'Labour', values: (q) => formatMoney(q.labourAmount) },
+  ]],
+  ['Payment terms', [
+    { label: 'Deposit', values: (q) => optional(q.depositPercentage, '%') },
+    { label: 'Schedule', values: (q) => q.paymentSchedule || '—' },
+    { label: 'Milestones', values: (q) => (q.milestones.length ? q.milestones.map((m) => `${m.name} ${m.percentage}%`).join(', ') : '—') },
+    { label: 'Payment days', values: (q) => optional(q.netDays) },
+    { label: 'Retention', values: (q) => `${q.retentionPercentage}% for ${q.defectsLiabilityMonths} months` },
+  ]],
+  ['Cover', [
+    { label: 'Insurance', values: (q) => q.insurance },
+  ]],
+  ['Scope differences', comparison.scopeDifferences.map((difference): MatrixRow => ({
+    label: difference.item,
+    values: (q) => {
+      const mark = difference.marks[comparison.quotes.indexOf(q)];
+      return mark === 'included' ? 'Included' : mark === 'excluded' ? 'Excluded' : 'Not mentioned';
+    },
+  }))],
+];
+
+const renderComparison = async (comparison: QuoteComparison): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const { regularFont, boldFont } = await embedFonts(pdfDoc);
+  pdfDoc.setTitle(`Quote comparison - ${comparison.projectTitle}`);
+
+  // Landscape
+  const width = PAGE_HEIGHT;
+  const height = PAGE_WIDTH;
+  const accent = rgb(0.12, 0.23, 0.54);
+  const muted = rgb(0.4, 0.4, 0.4);
+  const black = rgb(0, 0, 0);
+  const high = rgb(0.75, 0.1, 0.1);
+  const low = rgb(0.05, 0.5, 0.2);
+
+  let page: PDFPage;
+  let y = 0;
+
+  const text = (value: string, x: number, yPos: number, size = 8, font = regularFont, color = black) => {
+    page.drawText(value, { x, y: yPos, size, font, color });
+  };
+
+  const chunks: ComparedQuote[][] = [];
+  for (let i = 0; i < comparison.quotes.length; i += QUOTES_PER_PAGE) {
+    chunks.push(comparison.quotes.slice(i, i + QUOTES_PER_PAGE));
+  }
+
+  chunks.forEach((quotes) => {
+    const columnWidth = (width - MARGIN * 2 - LABEL_WIDTH) / quotes.length;
+    const columnX = (index: number) => MARGIN + LABEL_WIDTH + index * columnWidth;
+
+    const drawHeader = () => {
+      page = pdfDoc.addPage([width, height]);
+      y = height - MARGIN;
+      text(`Quote comparison: ${comparison.projectTitle}`.slice(0, 90), MARGIN, y, 14, boldFont, accent);
+      y -= 16;
+      text(comparison.serviceGroup, MARGIN, y, 9, regularFont, muted);
+      y -= 24;
+
+      page.drawRectangle({ x: MARGIN, y: y - 6, width: width - MARGIN * 2, height: 20, color: accent });
+      quotes.forEach((quote, index) => {
+        const name = wrapText(quote.vendorName, boldFont, 8, columnWidth - 8)[0] || '';
+        text(name, columnX(index) + 4, y, 8, boldFont, rgb(1, 1, 1));
+      });
+      y -= 24;
+    };
+
+    drawHeader();
+
+    matrixSections(comparison).forEach(([section, rows]) => {
+      if (rows.length === 0) return;
+      if (y < MARGIN + 40) drawHeader();
+
+      text(section, MARGIN, y, 9, boldFont, accent);
+      y -= 14;
+
+      rows.forEach((row) => {
+        const labelLines = wrapText(row.label, regularFont, 8, LABEL_WIDTH - 8);
+        const cells = quotes.map((quote) => wrapText(row.values(quote), regularFont, 8, columnWidth - 8));
+        const lineCount = Math.max(labelLines.length, ...cells.map((lines) => lines.length));
+        const rowHeight = lineCount * 10 + 4;
+
+        if (y - rowHeight < MARGIN) drawHeader();
+
+        labelLines.forEach((line, i) => text(line, MARGIN, y - i * 10, 8, regularFont, muted));
+        cells.forEach((lines, index) => {
+          const outlier = row.outlier?.(quotes[index]);
+          const color = outlier === 'high' ? high : outlier === 'low' ? low : black;
+          const font = outlier ? boldFont : regularFont;
+          lines.forEach((line, i) => text(line, columnX(index) + 4, y - i * 10, 8, font, color));
+        });
+
+        y -= rowHeight;
+        page.drawLine({
+          start: { x: MARGIN, y: y + 6 },
+          end: { x: width - MARGIN, y: y + 6 },
+          thickness: 0.3,
+          color: rgb(0.85, 0.85, 0.85),
+        });
+      });
+      y -= 8;
+    });
+  });
+
+  const pages = pdfDoc.getPages();
+  pages.forEach((p, index) => {
+    page = p;
+    text(
+      'Red: more than 30% above the median of the quotes compared. Green: more than 30% below.',
+      MARGIN, MARGIN - 20, 7, regularFont, muted
+    );
+    text(`${index + 1}/${pages.length}`, width - MARGIN - 20, MARGIN - 20, 7, regularFont, muted);
+  });
+
+  return await pdfDoc.save();
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { projectId, serviceGroup, format = 'json' } = await req.json();
+    if (!projectId) throw new Error('projectId is required');
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from('projects')
+      .select('id, title, client_id, service_groups')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError) throw projectError;
+
+    if (user.id !== project.client_id) {
+      const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+      if (!isAdmin) throw new Error('Unauthorized');
+    }
+
+    const { data: requests, error: requestsError } = await supabaseClient
+      .from('quote_requests')
+      .select('id, vendor_id, status, service_group')
+      .eq('project_id', projectId)
+      .is('deleted_at', null)
+      .neq('status', 'declined');
+
+    if (requestsError) throw requestsError;
+
+    const requestIds = (requests || []).map((request) => request.id);
+    const { data: quotes, error: quotesError } = await supabaseClient
+      .from('quotes')
+      .select('*')
+      .in('quote_request_id', requestIds)
+      .eq('is_current_version', true);
+
+    if (quotesError) throw quotesError;
+
+    // Requests sent before the service group was recorded belong to the project's main group
+    const defaultGroup = project.service_groups?.[0] || 'General';
+    const groupOf = (request: { service_group: string | null }) => request.service_group || defaultGroup;
+    const requestsById = new Map((requests || []).map((request) => [request.id, request]));
+
+    const quotedGroups = Array.from(new Set(
+      (quotes || []).map((quote) => groupOf(requestsById.get(quote.quote_request_id)))
+    ));
+    const group = serviceGroup && quotedGroups.includes(serviceGroup) ? serviceGroup : quotedGroups[0] || defaultGroup;
+
+    const groupQuotes = (quotes || []).filter((quote) => groupOf(requestsById.get(quote.quote_request_id)) === group);
+    const vendorIds = groupQuotes.map((quote) => requestsById.get(quote.quote_request_id).vendor_id);
+
+    const { data: vendors } = await supabaseClient
+      .from('vendor_profiles')
+      .select('user_id, business_name, rating')
+      .in('user_id', vendorIds);
+
+    const vendorsById = new Map((vendors || []).map((vendor) => [vendor.user_id, vendor]));
+
+    const records: QuoteRecord[] = groupQuotes.map((quote) => {
+      const request = requestsById.get(quote.quote_request_id);
+      const vendor = vendorsById.get(request.vendor_id);
+      return {
+        quoteRequestId: request.id,
+        quoteId: quote.id,
+        vendorId: request.vendor_id,
+        vendorName: vendor?.business_name || 'Vendor',
+        vendorRating: vendor?.rating ?? null,
+        requestStatus: request.status,
+        version: quote.version,
+        totalAmount: Number(quote.total_amount),
+        durationWeeks: quote.duration_weeks,
+        startDate: quote.start_date,
+        validityDate: quote.validity_date,
+        costBreakdown: quote.cost_breakdown,
+        inclusions: quote.inclusions,
+        exclusions: quote.exclusions,
+        paymentSchedule: quote.payment_schedule,
+        milestones: quote.milestones,
+        retentionPercentage: Number(quote.retention_percentage || 0),
+        defectsLiabilityMonths: Number(quote.defects_liability_months || 0),
+        insuranceWillBeUsed: quote.insurance_will_be_used,
+        insuranceProviderUsed: quote.insurance_provider_used,
+      };
+    });
+
+    const comparison = buildQuoteComparison(
+      { id: project.id, title: project.title },
+      group,
+      quotedGroups,
+      records
+    );
+
+    console.log('Compared', comparison.quotes.length, 'quotes for project', projectId, 'group', group);
+
+    if (format === 'pdf') {
+      if (comparison.quotes.length === 0) throw new Error('There are no quotes to compare yet');
+
+      const pdfBytes = await renderComparison(comparison);
+      return new Response(pdfBytes, {
+        headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, comparison }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in compare-quotes:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,141 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildUbl, validateEInvoice, type EInvoiceDocument, type EInvoiceLine } from '../_shared/ubl.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface StoredLine {
+  description: string;
+  quantity: number | null;
+  unit_amount: number;
+  line_total: number;
+  vat_basis: string | null;
+  vat_rate: number | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { invoiceId, creditNoteId } = await req.json();
+    if (!invoiceId && !creditNoteId) throw new Error('invoiceId or creditNoteId is required');
+
+    console.log('Generating e-invoice for', creditNoteId ? 'credit note' : 'invoice', creditNoteId || invoiceId);
+
+    const { data: record, error: recordError } = creditNoteId
+      ? await supabaseClient
+          .from('credit_notes')
+          .select('*, credit_note_items(*), invoices!inner(quote_id, customer_vat_id, reverse_charge_note)')
+          .eq('id', creditNoteId)
+          .single()
+      : await supabaseClient
+          .from('invoices')
+          .select('*, invoice_items(*)')
+          .eq('id', invoiceId)
+          .single();
+
+    if (recordError) throw recordError;
+
+    if (user.id !== record.vendor_id && user.id !== record.client_id) {
+      const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+      if (!isAdmin) throw new Error('Unauthorized');
+    }
+
+    if (record.status === 'draft') throw new Error('Only issued documents can be exported as e-invoices');
+
+    const [{ data: vendorProfile }, { data: clientProfile }] = await Promise.all([
+      supabaseClient
+        .from('vendor_profiles')
+        .select('business_name, business_address, vat_id, email, phone')
+        .eq('user_id', record.vendor_id)
+        .maybeSingle(),
+      supabaseClient
+        .from('profiles')
+        .select('full_name, company_name, address, phone_number')
+        .eq('user_id', record.client_id)
+        .maybeSingle(),
+    ]);
+
+    const { data: clientUser } = await supabaseClient.auth.admin.getUserById(record.client_id);
+
+    const sourceInvoice = creditNoteId ? record.invoices : record;
+    const rawLines = (creditNoteId ? record.credit_note_items : record.invoice_items) as StoredLine[] | null;
+    const lines: EInvoiceLine[] = (rawLines || []).map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity || 1),
+      unitAmount: Number(item.unit_amount),
+      lineTotal: Number(item.line_total),
+      vatBasis: item.vat_basis,
+      vatRate: Number(item.vat_rate || 0),
+    }));
+
+    const document: EInvoiceDocument = {
+      kind: creditNoteId ? 'credit_note' : 'invoice',
+      number: creditNoteId ? record.credit_note_number : record.legal_invoice_number,
+      issueDate: record.issued_at || record.created_at,
+      dueDate: creditNoteId ? null : record.due_date,
+      taxPointDate: record.tax_point,
+      currency: record.currency || 'EUR',
+      orderReference: sourceInvoice.quote_id,
+      precedingInvoiceNumber: creditNoteId ? record.original_legal_invoice_number : null,
+      note: creditNoteId ? record.reason : sourceInvoice.reverse_charge_note,
+      paymentUrl: creditNoteId ? null : record.payment_url,
+      supplier: {
+        name: vendorProfile?.business_name || '',
+        vatId: vendorProfile?.vat_id || null,
+        address: vendorProfile?.business_address || null,
+        email: vendorProfile?.email || null,
+        phone: vendorProfile?.phone || null,
+      },
+      customer: {
+        name: clientProfile?.company_name || clientProfile?.full_name || '',
+        vatId: sourceInvoice.customer_vat_id || null,
+        address: clientProfile?.address || null,
+        email: clientUser?.user?.email || null,
+        phone: clientProfile?.phone_number || null,
+      },
+      lines,
+      storedTotal: Number(record.total_amount),
+    };
+
+    // Rule failures are returned for the user to fix, not raised as errors
+    const violations = validateEInvoice(document);
+    if (violations.length > 0) {
+      console.log('E-invoice failed validation:', violations.map((violation) => violation.rule).join(', '));
+      return new Response(
+        JSON.stringify({ valid: false, violations }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const xml = buildUbl(document);
+    const filename = `${document.number!.replace(/[^A-Za-z0-9-]/g, '_')}.xml`;
+
+    return new Response(
+      JSON.stringify({ valid: true, xml, filename }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in generate-einvoice:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
@@ -0,0 +1,553 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PDFDocument, PDFImage, PDFPage, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import {
+  MARGIN,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  embedFonts,
+  formatDate,
+  formatMoney,
+  hexToRgb,
+  wrapText,
+} from '../_shared/pdf.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'invoice-documents';
+// Vendors upload their invoice logo here from Business Information
+const LOGO_BUCKET = 'portfolio-images';
+
+const LABELS = {
+  invoice: 'ΤΙΜΟΛΟΓΙΟ / INVOICE',
+  creditNote: 'ΠΙΣΤΩΤΙΚΟ ΣΗΜΕΙΩΜΑ / CREDIT NOTE',
+  draft: 'ΠΡΟΣΧΕΔΙΟ / DRAFT',
+  number: 'Αριθμός / Number',
+  issueDate: 'Ημερομηνία έκδοσης / Issue date',
+  taxPoint: 'Φορολογικό σημείο / Tax point',
+  placeOfSupply: 'Τόπος παροχής / Place of supply',
+  originalInvoice: 'Σχετικό τιμολόγιο / Original invoice',
+  stage: 'Στάδιο / Stage',
+  supplier: 'Προμηθευτής / Supplier',
+  customer: 'Πελάτης / Customer',
+  vatNumber: 'Αρ. Εγγραφής ΦΠΑ / VAT Reg. No.',
+  description: 'Περιγραφή / Description',
+  quantity: 'Ποσ. / Qty',
+  unitPrice: 'Τιμή / Price',
+  vatRate: 'ΦΠΑ / VAT',
+  amount: 'Ποσό / Amount',
+  subtotal: 'Σύνολο χωρίς ΦΠΑ / Subtotal',
+  vat: 'ΦΠΑ / VAT',
+  total: 'Σύνολο / Total',
+  vatSummary: 'Ανάλυση ΦΠΑ / VAT summary',
+  taxable: 'Φορολογητέο / Taxable',
+  reason: 'Αιτιολογία / Reason',
+  retention: 'Παρακράτηση / Retention held',
+  page: 'Σελίδα / Page',
+};
+
+const VAT_BASIS_WORDING: Record<string, string> = {
+  standard19: 'Κανονικός συντελεστής ΦΠΑ 19% / Standard VAT rate 19%',
+  reduced5_renovation: 'Μειωμένος συντελεστής 5% για ανακαίνιση ιδιωτικής κατοικίας / Reduced rate 5% for renovation of a private dwelling',
+  reduced5_primary_residence: 'Μειωμένος συντελεστής 5% για κύρια κατοικία (πρώτα 130 m²) / Reduced rate 5% for a primary residence (first 130 m²)',
+  // The legal reference is in the invoice's stored reverse charge note, printed below this
+  reverse_charge: 'Αντίστροφη επιβάρυνση - ο λήπτης λογοδοτεί για τον ΦΠΑ / Reverse charge - VAT to be accounted for by the recipient',
+  mixed: 'Πολλαπλοί συντελεστές ΦΠΑ, βλ. ανάλυση / Multiple VAT rates, see VAT summary',
+};
+
+interface DocumentLine {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  lineTotal: number;
+  vatBasis: string | null;
+  vatRate: number;
+  vatAmount: number;
+}
+
+interface StoredLine {
+  description: string;
+  quantity: number | null;
+  unit_amount: number;
+  line_total: number;
+  vat_basis: string | null;
+  vat_rate: number | null;
+  vat_amount: number | null;
+}
+
+interface Party {
+  name: string;
+  address: string | null;
+  vatId: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+interface DocumentData {
+  kind: 'invoice' | 'credit_note';
+  isDraft: boolean;
+  number: string;
+  issueDate: string;
+  taxPoint: string | null;
+  placeOfSupply: string | null;
+  originalInvoiceNumber: string | null;
+  stageLabel: string | null;
+  reason: string | null;
+  vatBasis: string | null;
+  reverseChargeNote: string | null;
+  retentionAmount: number;
+  supplier: Party;
+  customer: Party;
+  lines: DocumentLine[];
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+}
+
+interface Branding {
+  logo: { bytes: Uint8Array; isPng: boolean } | null;
+  accentColor: string;
+  footerText: string | null;
+}
+
+/**
+ * Download the vendor's logo from the bucket Business Information uploads it to.
+ * The stored URL is vendor-controlled, so anything but a public URL of an object
+ * in the vendor's own branding folder is ignored rather than fetched.
+ */
+const loadLogo = async (
+  supabaseClient: SupabaseClient,
+  vendorId: string,
+  logoUrl: string | null
+): Promise<Branding['logo']> => {
+  if (!logoUrl) return null;
+
+  const publicPrefix = `${Deno.env.get('SUPABASE_URL') ?? ''}/storage/v1/object/public/${LOGO_BUCKET}/`;
+  const path = logoUrl.startsWith(publicPrefix)
+    ? decodeURIComponent(logoUrl.slice(publicPrefix.length).split('?')[0])
+    : null;
+
+  if (!path || !path.startsWith(`${vendorId}/branding/`) || path.includes('..')) {
+    console.error('Ignoring vendor logo outside the logo bucket:', logoUrl);
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabaseClient.storage.from(LOGO_BUCKET).download(path);
+    if (error) throw error;
+    return {
+      bytes: new Uint8Array(await data.arrayBuffer()),
+      isPng: data.type.includes('png') || path.toLowerCase().endsWith('.png'),
+    };
+  } catch (error) {
+    // The document is still valid without the logo
+    console.error('Could not download vendor logo:', error);
+    return null;
+  }
+};
+
+const embedLogo = async (pdfDoc: PDFDocument, logo: Branding['logo']): Promise<PDFImage | null> => {
+  if (!logo) return null;
+  try {
+    return logo.isPng ? await pdfDoc.embedPng(logo.bytes) : await pdfDoc.embedJpg(logo.bytes);
+  } catch (error) {
+    // The document is still valid without the logo
+    console.error('Could not embed vendor logo:', error);
+    return null;
+  }
+};
+
+const renderDocument = async (data: DocumentData, branding: Branding): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+
+  const { regularFont, boldFont } = await embedFonts(pdfDoc);
+  const logo = await embedLogo(pdfDoc, branding.logo);
+
+  const accent = hexToRgb(branding.accentColor);
+  const muted = rgb(0.4, 0.4, 0.4);
+  const black = rgb(0, 0, 0);
+  const title = data.kind === 'invoice' ? LABELS.invoice : LABELS.creditNote;
+  const pdfTitle = `${data.kind === 'invoice' ? 'Invoice' : 'Credit note'} ${data.number}`;
+  pdfDoc.setTitle(pdfTitle);
+  pdfDoc.setAuthor(data.supplier.name);
+
+  const pages: PDFPage[] = [];
+  let page: PDFPage;
+  let y = 0;
+
+  const text = (value: string, x: number, yPos: number, size = 9, font = regularFont, color = black) => {
+    page.drawText(value, { x, y: yPos, size, font, color });
+  };
+
+  const textRight = (value: string, right: number, yPos: number, size = 9, font = regularFont, color = black) => {
+    text(value, right - font.widthOfTextAtSize(value, size), yPos, size, font, color);
+  };
+
+  const columns = { description: MARGIN, quantity: 330, unitPrice: 410, vatRate: 460, amount: PAGE_WIDTH - MARGIN };
+
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 6, width: PAGE_WIDTH - MARGIN * 2, height: 20, color: accent });
+    const white = rgb(1, 1, 1);
+    text(LABELS.description, columns.description + 4, y, 8, boldFont, white);
+    textRight(LABELS.quantity, columns.quantity, y, 8, boldFont, white);
+    textRight(LABELS.unitPrice, columns.unitPrice, y, 8, boldFont, white);
+    textRight(LABELS.vatRate, columns.vatRate, y, 8, boldFont, white);
+    textRight(LABELS.amount, columns.amount - 4, y, 8, boldFont, white);
+    y -= 24;
+  };
+
+  const newPage = () => {
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number, withTableHeader = false) => {
+    if (y - height < MARGIN + 40) {
+      newPage();
+      text(`${title} ${data.number}`, MARGIN, y, 10, boldFont, accent);
+      y -= 24;
+      if (withTableHeader) drawTableHeader();
+    }
+  };
+
+  newPage();
+
+  // Header: vendor branding and document title
+  if (logo) {
+    const scaled = logo.scaleToFit(140, 50);
+    page.drawImage(logo, { x: MARGIN, y: y - scaled.height + 10, width: scaled.width, height: scaled.height });
+  } else {
+    text(data.supplier.name, MARGIN, y - 10, 16, boldFont, accent);
+  }
+  textRight(title, PAGE_WIDTH - MARGIN, y - 4, 14, boldFont, accent);
+  if (data.isDraft) {
+    textRight(LABELS.draft, PAGE_WIDTH - MARGIN, y - 20, 10, boldFont, rgb(0.8, 0.1, 0.1));
+  }
+  y -= 60;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1.5, color: accent });
+  y -= 20;
+
+  // Document particulars
+  const particulars: [string, string][] = [
+    [LABELS.number, data.number],
+    [LABELS.issueDate, formatDate(data.issueDate)],
+    [LABELS.taxPoint, formatDate(data.taxPoint)],
+  ];
+  if (data.placeOfSupply) particulars.push([LABELS.placeOfSupply, data.placeOfSupply]);
+  if (data.originalInvoiceNumber) particulars.push([LABELS.originalInvoice, data.originalInvoiceNumber]);
+  if (data.stageLabel) particulars.push([LABELS.stage, data.stageLabel]);
+
+  const particularsTop = y;
+  for (const [label, value] of particulars) {
+    text(label, 330, y, 8, regularFont, muted);
+    textRight(value, PAGE_WIDTH - MARGIN, y, 9, boldFont);
+    y -= 14;
+  }
+  const particularsBottom = y;
+
+  // Supplier and customer blocks
+  const drawParty = (heading: string, party: Party, x: number, top: number) => {
+    let partyY = top;
+    text(heading, x, partyY, 8, boldFont, accent);
+    partyY -= 13;
+    text(party.name, x, partyY, 10, boldFont);
+    partyY -= 13;
+    const details = [
+      ...(party.address ? wrapText(party.address, regularFont, 9, 240) : []),
+      party.vatId ? `${LABELS.vatNumber}: ${party.vatId}` : null,
+      party.email,
+      party.phone,
+    ].filter(Boolean) as string[];
+    for (const detail of details) {
+      text(detail, x, partyY, 9);
+      partyY -= 12;
+    }
+    return partyY;
+  };
+
+  y = particularsTop;
+  const supplierBottom = drawParty(LABELS.supplier, data.supplier, MARGIN, y);
+  y = Math.min(supplierBottom, particularsBottom) - 12;
+  y = drawParty(LABELS.customer, data.customer, MARGIN, y) - 16;
+
+  // Line items
+  drawTableHeader();
+  for (const line of data.lines) {
+    const descriptionLines = wrapText(line.description, regularFont, 9, columns.quantity - columns.description - 50);
+    ensureSpace(descriptionLines.length * 12 + 6, true);
+    const rowTop = y;
+    descriptionLines.forEach((descriptionLine, index) => {
+      text(descriptionLine, columns.description + 4, rowTop - index * 12);
+    });
+    textRight(String(line.quantity), columns.quantity, rowTop);
+    textRight(formatMoney(line.unitAmount), columns.unitPrice, rowTop);
+    textRight(`${line.vatRate}%`, columns.vatRate, rowTop);
+    textRight(formatMoney(line.lineTotal), columns.amount - 4, rowTop);
+    y = rowTop - descriptionLines.length * 12 - 6;
+    page.drawLine({
+      start: { x: MARGIN, y: y + 3 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y + 3 },
+      thickness: 0.3,
+      color: rgb(0.85, 0.85, 0.85),
+    });
+  }
+
+  // Totals
+  ensureSpace(70);
+  y -= 10;
+  const totals: [string, string, boolean][] = [
+    [LABELS.subtotal, formatMoney(data.subtotal), false],
+    [LABELS.vat, formatMoney(data.vatAmount), false],
+    [LABELS.total, formatMoney(data.total), true],
+  ];
+  for (const [label, value, isTotal] of totals) {
+    text(label, 330, y, isTotal ? 10 : 9, isTotal ? boldFont : regularFont);
+    textRight(value, PAGE_WIDTH - MARGIN, y, isTotal ? 11 : 9, isTotal ? boldFont : regularFont, isTotal ? accent : black);
+    y -= isTotal ? 18 : 14;
+  }
+
+  if (data.retentionAmount > 0) {
+    text(`${LABELS.retention}: ${formatMoney(data.retentionAmount)}`, 330, y, 8, regularFont, muted);
+    y -= 14;
+  }
+
+  // VAT summary per rate, as required for invoices with more than one rate
+  const summary = new Map<string, { basis: string | null; rate: number; taxable: number; vat: number }>();
+  for (const line of data.lines) {
+    const key = `${line.vatBasis}-${line.vatRate}`;
+    const entry = summary.get(key) || { basis: line.vatBasis, rate: line.vatRate, taxable: 0, vat: 0 };
+    entry.taxable += line.lineTotal;
+    entry.vat += line.vatAmount;
+    summary.set(key, entry);
+  }
+
+  ensureSpace(30 + summary.size * 12);
+  y -= 6;
+  text(LABELS.vatSummary, MARGIN, y, 9, boldFont, accent);
+  y -= 14;
+  text(`${LABELS.vatRate} %`, MARGIN, y, 8, boldFont, muted);
+  textRight(LABELS.taxable, 400, y, 8, boldFont, muted);
+  textRight(LABELS.vat, PAGE_WIDTH - MARGIN, y, 8, boldFont, muted);
+  y -= 12;
+  for (const entry of summary.values()) {
+    text(`${entry.rate}%`, MARGIN, y);
+    textRight(formatMoney(entry.taxable), 400, y);
+    textRight(formatMoney(entry.vat), PAGE_WIDTH - MARGIN, y);
+    y -= 12;
+  }
+
+  // VAT basis wording and legal notes
+  const notes: string[] = [];
+  const basisWording = VAT_BASIS_WORDING[data.vatBasis || 'standard19'];
+  if (basisWording) notes.push(basisWording);
+  if (data.reverseChargeNote) notes.push(data.reverseChargeNote);
+  if (data.reason) notes.push(`${LABELS.reason}: ${data.reason}`);
+
+  y -= 10;
+  for (const note of notes) {
+    const noteLines = wrapText(note, regularFont, 8, PAGE_WIDTH - MARGIN * 2);
+    ensureSpace(noteLines.length * 11 + 4);
+    for (const noteLine of noteLines) {
+      text(noteLine, MARGIN, y, 8, regularFont, muted);
+      y -= 11;
+    }
+    y -= 4;
+  }
+
+  // Footer on every page
+  pages.forEach((footerPage, index) => {
+    page = footerPage;
+    if (branding.footerText) {
+      text(branding.footerText.slice(0, 140), MARGIN, MARGIN - 10, 7, regularFont, muted);
+    }
+    textRight(`${LABELS.page} ${index + 1}/${pages.length}`, PAGE_WIDTH - MARGIN, MARGIN - 10, 7, regularFont, muted);
+  });
+
+  return await pdfDoc.save();
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { invoiceId, creditNoteId } = await req.json();
+    if (!invoiceId && !creditNoteId) throw new Error('invoiceId or creditNoteId is required');
+
+    const table = creditNoteId ? 'credit_notes' : 'invoices';
+    const documentId = creditNoteId || invoiceId;
+    console.log('Generating PDF for', table, documentId);
+
+    // Load the document with its lines
+    const { data: record, error: recordError } = creditNoteId
+      ? await supabaseClient
+          .from('credit_notes')
+          .select('*, credit_note_items(*), invoices!inner(place_of_supply, vat_basis, reverse_charge_note, customer_vat_id)')
+          .eq('id', creditNoteId)
+          .single()
+      : await supabaseClient
+          .from('invoices')
+          .select('*, invoice_items(*)')
+          .eq('id', invoiceId)
+          .single();
+
+    if (recordError) {
+      console.error('Error fetching document:', recordError);
+      throw recordError;
+    }
+
+    if (user.id !== record.vendor_id && user.id !== record.client_id) {
+      const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+      if (!isAdmin) throw new Error('Unauthorized');
+    }
+
+    const isDraft = record.status === 'draft';
+
+    // Issued documents are immutable: the PDF on record is rendered once after
+    // issue and never replaced. One stored before issue (older drafts) is not it.
+    const issuedPdfStored = !!record.pdf_storage_path
+      && !!record.pdf_generated_at
+      && (!record.issued_at || Date.parse(record.pdf_generated_at) >= Date.parse(record.issued_at));
+
+    if (!isDraft && issuedPdfStored) {
+      const { data: signed, error: signedError } = await supabaseClient.storage
+        .from(BUCKET)
+        .createSignedUrl(record.pdf_storage_path, 3600);
+      if (signedError) throw signedError;
+
+      return new Response(
+        JSON.stringify({ success: true, path: record.pdf_storage_path, url: signed.signedUrl }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const [{ data: vendorProfile }, { data: clientProfile }] = await Promise.all([
+      supabaseClient
+        .from('vendor_profiles')
+        .select('business_name, business_address, vat_id, email, phone, invoice_logo_url, invoice_accent_color, invoice_footer_text')
+        .eq('user_id', record.vendor_id)
+        .maybeSingle(),
+      supabaseClient
+        .from('profiles')
+        .select('full_name, company_name, address, phone_number')
+        .eq('user_id', record.client_id)
+        .maybeSingle(),
+    ]);
+
+    const { data: clientUser } = await supabaseClient.auth.admin.getUserById(record.client_id);
+
+    const rawLines = creditNoteId ? record.credit_note_items : record.invoice_items;
+    const lines: DocumentLine[] = ((rawLines || []) as StoredLine[]).map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity || 1),
+      unitAmount: Number(item.unit_amount),
+      lineTotal: Number(item.line_total),
+      vatBasis: item.vat_basis,
+      vatRate: Number(item.vat_rate || 0),
+      vatAmount: Number(item.vat_amount || 0),
+    }));
+
+    const sourceInvoice = creditNoteId ? record.invoices : record;
+
+    const documentData: DocumentData = {
+      kind: creditNoteId ? 'credit_note' : 'invoice',
+      isDraft,
+      number: creditNoteId
+        ? record.credit_note_number
+        : record.legal_invoice_number || record.invoice_number,
+      issueDate: record.issued_at || record.created_at,
+      taxPoint: record.tax_point,
+      placeOfSupply: sourceInvoice.place_of_supply,
+      originalInvoiceNumber: creditNoteId ? record.original_legal_invoice_number : null,
+      stageLabel: creditNoteId ? null : record.stage_label,
+      reason: creditNoteId ? record.reason : null,
+      vatBasis: sourceInvoice.vat_basis,
+      reverseChargeNote: sourceInvoice.reverse_charge_note,
+      retentionAmount: creditNoteId ? 0 : Number(record.retention_amount || 0),
+      supplier: {
+        name: vendorProfile?.business_name || 'Vendor',
+        address: vendorProfile?.business_address || null,
+        vatId: vendorProfile?.vat_id || null,
+        email: vendorProfile?.email || null,
+        phone: vendorProfile?.phone || null,
+      },
+      customer: {
+        name: clientProfile?.company_name || clientProfile?.full_name || clientUser?.user?.email || 'Client',
+        address: clientProfile?.address || null,
+        vatId: sourceInvoice.customer_vat_id || null,
+        email: clientUser?.user?.email || null,
+        phone: clientProfile?.phone_number || null,
+      },
+      lines,
+      subtotal: Number(record.subtotal_amount || 0),
+      vatAmount: Number(record.vat_amount || 0),
+      total: Number(record.total_amount),
+    };
+
+    const pdfBytes = await renderDocument(documentData, {
+      logo: await loadLogo(supabaseClient, record.vendor_id, vendorProfile?.invoice_logo_url || null),
+      accentColor: vendorProfile?.invoice_accent_color || '#1e3a8a',
+      footerText: vendorProfile?.invoice_footer_text || null,
+    });
+
+    // Drafts are re-rendered on every request to a separate path and never put on record
+    const folder = creditNoteId ? 'credit-notes' : 'invoices';
+    const path = isDraft
+      ? `${record.vendor_id}/${folder}/drafts/${documentId}.pdf`
+      : `${record.vendor_id}/${folder}/${documentId}.pdf`;
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from(BUCKET)
+      .upload(path, pdfBytes, { contentType: 'application/pdf', upsert: true });
+
+    if (uploadError) throw uploadError;
+
+    if (!isDraft) {
+      const { error: updateError } = await supabaseClient
+        .from(table)
+        .update({
+          pdf_storage_path: path,
+          pdf_generated_at: new Date().toISOString(),
+        })
+        .eq('id', documentId);
+
+      if (updateError) throw updateError;
+    }
+
+    const { data: signed, error: signedError } = await supabaseClient.storage
+      .from(BUCKET)
+      .createSignedUrl(path, 3600);
+
+    if (signedError) throw signedError;
+
+    console.log('PDF stored at', path);
+
+    return new Response(
+      JSON.stringify({ success: true, path, url: signed.signedUrl }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in generate-invoice-pdf:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,315 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PDFDocument, PDFPage, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import {
+  MARGIN,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  embedFonts,
+  formatDate,
+  formatMoney,
+  hexToRgb,
+} from '../_shared/pdf.ts';
+import { cardPaymentAmount } from '../_shared/cardPayments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'invoice-documents';
+
+const LABELS = {
+  receipt: 'ΑΠΟΔΕΙΞΗ ΕΙΣΠΡΑΞΗΣ / RECEIPT',
+  invoice: 'Τιμολόγιο / Invoice',
+  receivedFrom: 'Εισπράχθηκε από / Received from',
+  receivedBy: 'Εισπράχθηκε από τον / Received by',
+  vatNumber: 'Αρ. Εγγραφής ΦΠΑ / VAT Reg. No.',
+  date: 'Ημερομηνία / Date',
+  method: 'Τρόπος / Method',
+  reference: 'Αναφορά / Reference',
+  amount: 'Ποσό / Amount',
+  totalReceived: 'Σύνολο εισπράξεων / Total received',
+  invoiceTotal: 'Σύνολο τιμολογίου / Invoice total',
+  credited: 'Πιστώσεις / Credited',
+  refunded: 'Επιστροφές / Refunded',
+  balance: 'Υπόλοιπο / Balance due',
+  issued: 'Εκδόθηκε / Issued',
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  card: 'Κάρτα / Card',
+  bank_transfer: 'Τραπεζικό έμβασμα / Bank transfer',
+  cheque: 'Επιταγή / Cheque',
+  cash: 'Μετρητά / Cash',
+  other: 'Άλλο / Other',
+};
+
+interface ReceiptPayment {
+  date: string;
+  method: string;
+  reference: string | null;
+  amount: number;
+}
+
+interface ReceiptData {
+  invoiceNumber: string;
+  issuedAt: string;
+  supplierName: string;
+  supplierVatId: string | null;
+  supplierAddress: string | null;
+  customerName: string;
+  customerEmail: string | null;
+  payments: ReceiptPayment[];
+  invoiceTotal: number;
+  credited: number;
+  refunded: number;
+}
+
+const renderReceipt = async (data: ReceiptData, accentColor: string): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const { regularFont, boldFont } = await embedFonts(pdfDoc);
+
+  const accent = hexToRgb(accentColor);
+  const muted = rgb(0.4, 0.4, 0.4);
+  const black = rgb(0, 0, 0);
+  pdfDoc.setTitle(`Receipt for invoice ${data.invoiceNumber}`);
+  pdfDoc.setAuthor(data.supplierName);
+
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (value: string, x: number, yPos: number, size = 9, font = regularFont, color = black) => {
+    page.drawText(value, { x, y: yPos, size, font, color });
+  };
+
+  const textRight = (value: string, right: number, yPos: number, size = 9, font = regularFont, color = black) => {
+    text(value, right - font.widthOfTextAtSize(value, size), yPos, size, font, color);
+  };
+
+  const columns = { date: MARGIN, method: 140, reference: 300, amount: PAGE_WIDTH - MARGIN };
+
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 6, width: PAGE_WIDTH - MARGIN * 2, height: 20, color: accent });
+    const white = rgb(1, 1, 1);
+    text(LABELS.date, columns.date + 4, y, 8, boldFont, white);
+    text(LABELS.method, columns.method, y, 8, boldFont, white);
+    text(LABELS.reference, columns.reference, y, 8, boldFont, white);
+    textRight(LABELS.amount, columns.amount - 4, y, 8, boldFont, white);
+    y -= 24;
+  };
+
+  // Header
+  text(data.supplierName, MARGIN, y - 10, 16, boldFont, accent);
+  textRight(LABELS.receipt, PAGE_WIDTH - MARGIN, y - 4, 14, boldFont, accent);
+  y -= 40;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1.5, color: accent });
+  y -= 24;
+
+  // Particulars
+  const particulars: [string, string][] = [
+    [LABELS.invoice, data.invoiceNumber],
+    [LABELS.issued, formatDate(data.issuedAt)],
+  ];
+  particulars.forEach(([label, value]) => {
+    text(label, MARGIN, y, 9, regularFont, muted);
+    text(value, MARGIN + 200, y, 9, boldFont);
+    y -= 14;
+  });
+  y -= 10;
+
+  // Parties
+  const partyTop = y;
+  text(LABELS.receivedBy, MARGIN, y, 8, boldFont, muted);
+  y -= 14;
+  text(data.supplierName, MARGIN, y, 10, boldFont);
+  y -= 13;
+  if (data.supplierAddress) {
+    text(data.supplierAddress.slice(0, 60), MARGIN, y);
+    y -= 12;
+  }
+  if (data.supplierVatId) {
+    text(`${LABELS.vatNumber}: ${data.supplierVatId}`, MARGIN, y);
+    y -= 12;
+  }
+  const supplierBottom = y;
+
+  y = partyTop;
+  const customerX = PAGE_WIDTH / 2 + 10;
+  text(LABELS.receivedFrom, customerX, y, 8, boldFont, muted);
+  y -= 14;
+  text(data.customerName, customerX, y, 10, boldFont);
+  y -= 13;
+  if (data.customerEmail) {
+    text(data.customerEmail, customerX, y);
+    y -= 12;
+  }
+
+  y = Math.min(y, supplierBottom) - 24;
+
+  // Payments received
+  drawTableHeader();
+  data.payments.forEach((payment) => {
+    if (y < MARGIN + 120) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      drawTableHeader();
+    }
+    text(formatDate(payment.date), columns.date + 4, y);
+    text(METHOD_LABELS[payment.method] || payment.method, columns.method, y);
+    text((payment.reference || '—').slice(0, 40), columns.reference, y);
+    textRight(formatMoney(payment.amount), columns.amount - 4, y);
+    y -= 16;
+  });
+
+  y -= 8;
+  page.drawLine({ start: { x: MARGIN, y: y + 6 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 6 }, thickness: 0.5, color: muted });
+  y -= 10;
+
+  // Totals
+  const totalReceived = data.payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const balance = Math.max(0, data.invoiceTotal - data.credited - totalReceived + data.refunded);
+  const totals: [string, number, boolean][] = [
+    [LABELS.invoiceTotal, data.invoiceTotal, false],
+    [LABELS.credited, -data.credited, false],
+    [LABELS.totalReceived, -totalReceived, true],
+  ];
+  if (data.refunded > 0) totals.push([LABELS.refunded, data.refunded, false]);
+  totals.push([LABELS.balance, balance, true]);
+
+  totals.forEach(([label, value, bold]) => {
+    const font = bold ? boldFont : regularFont;
+    text(label, PAGE_WIDTH / 2, y, 9, font);
+    textRight(formatMoney(value), columns.amount - 4, y, 9, font);
+    y -= 16;
+  });
+
+  return await pdfDoc.save();
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { invoiceId } = await req.json();
+    if (!invoiceId) throw new Error('invoiceId is required');
+
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from('invoices')
+      .select('id, vendor_id, client_id, status, invoice_number, legal_invoice_number, issued_at, created_at, total_amount, amount_paid, credited_amount, refunded_amount, paid_at')
+      .eq('id', invoiceId)
+      .single();
+
+    if (invoiceError) throw invoiceError;
+
+    if (user.id !== invoice.vendor_id && user.id !== invoice.client_id) {
+      const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+      if (!isAdmin) throw new Error('Unauthorized');
+    }
+
+    const [{ data: payments, error: paymentsError }, { data: creditNotes, error: creditNotesError }] = await Promise.all([
+      supabaseClient
+        .from('invoice_payments')
+        .select('amount, method, reference, paid_on')
+        .eq('invoice_id', invoiceId)
+        .order('paid_on', { ascending: true }),
+      supabaseClient
+        .from('credit_notes')
+        .select('invoice_id, status, issued_at, total_amount')
+        .eq('invoice_id', invoiceId),
+    ]);
+
+    if (paymentsError) throw paymentsError;
+    if (creditNotesError) throw creditNotesError;
+
+    const received: ReceiptPayment[] = (payments || []).map((payment) => ({
+      date: payment.paid_on,
+      method: payment.method,
+      reference: payment.reference,
+      amount: Number(payment.amount),
+    }));
+
+    const cardAmount = cardPaymentAmount(invoice, creditNotes || []);
+    if (cardAmount > 0) {
+      received.push({ date: invoice.paid_at, method: 'card', reference: null, amount: cardAmount });
+    }
+
+    if (received.length === 0) throw new Error('No payments have been received for this invoice');
+
+    received.sort((a, b) => a.date.localeCompare(b.date));
+
+    const [{ data: vendorProfile }, { data: clientProfile }] = await Promise.all([
+      supabaseClient
+        .from('vendor_profiles')
+        .select('business_name, business_address, vat_id, invoice_accent_color')
+        .eq('user_id', invoice.vendor_id)
+        .maybeSingle(),
+      supabaseClient
+        .from('profiles')
+        .select('full_name, company_name')
+        .eq('user_id', invoice.client_id)
+        .maybeSingle(),
+    ]);
+
+    const { data: clientUser } = await supabaseClient.auth.admin.getUserById(invoice.client_id);
+
+    const pdfBytes = await renderReceipt(
+      {
+        invoiceNumber: invoice.legal_invoice_number || invoice.invoice_number,
+        issuedAt: invoice.issued_at || invoice.created_at,
+        supplierName: vendorProfile?.business_name || 'Vendor',
+        supplierVatId: vendorProfile?.vat_id || null,
+        supplierAddress: vendorProfile?.business_address || null,
+        customerName: clientProfile?.company_name || clientProfile?.full_name || clientUser?.user?.email || 'Client',
+        customerEmail: clientUser?.user?.email || null,
+        payments: received,
+        invoiceTotal: Number(invoice.total_amount),
+        credited: Number(invoice.credited_amount || 0),
+        refunded: Number(invoice.refunded_amount || 0),
+      },
+      vendorProfile?.invoice_accent_color || '#1e3a8a'
+    );
+
+    // Receipts change as payments come in, so the stored copy is always replaced
+    const path = `${invoice.vendor_id}/receipts/${invoice.id}.pdf`;
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from(BUCKET)
+      .upload(path, pdfBytes, { contentType: 'application/pdf', upsert: true });
+
+    if (uploadError) throw uploadError;
+
+    const { data: signed, error: signedError } = await supabaseClient.storage
+      .from(BUCKET)
+      .createSignedUrl(path, 3600);
+
+    if (signedError) throw signedError;
+
+    console.log('Receipt stored at', path, 'payments:', received.length);
+
+    return new Response(
+      JSON.stringify({ success: true, path, url: signed.signedUrl }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in generate-receipt-pdf:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,333 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PDFDocument, PDFPage, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import {
+  MARGIN,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  embedFonts,
+  formatDate,
+  formatMoney,
+  hexToRgb,
+  wrapText,
+} from '../_shared/pdf.ts';
+import { VAT4_BOXES } from '../_shared/vat4.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'invoice-documents';
+
+const LABELS = {
+  title: 'ΔΗΛΩΣΗ ΦΠΑ / VAT RETURN (VAT4)',
+  period: 'Φορολογική περίοδος / Tax period',
+  vatNumber: 'Αρ. Εγγραφής ΦΠΑ / VAT Reg. No.',
+  boxes: 'Τετραγωνίδια εκροών / Output boxes',
+  byRate: 'Ανάλυση ανά συντελεστή / Breakdown by rate',
+  documents: 'Παραστατικά / Documents',
+  notRecorded: 'Από τα δικά σας αρχεία / From your own records',
+  page: 'Σελίδα / Page',
+};
+
+const VAT_BASIS_LABELS: Record<string, string> = {
+  standard19: 'Standard rate 19%',
+  reduced5_renovation: 'Reduced 5% - renovation',
+  reduced5_primary_residence: 'Reduced 5% - primary residence',
+  reverse_charge: 'Reverse charge',
+};
+
+interface PeriodRow {
+  period_start: string;
+  period_end: string;
+  box_1_output_vat: number;
+  box_3_total_vat_due: number;
+  box_6_total_outputs: number;
+  reverse_charge_outputs: number;
+}
+
+interface RateRow {
+  vat_basis: string | null;
+  vat_rate: number;
+  net_amount: number;
+  vat_amount: number;
+  invoice_count: number;
+  credit_note_count: number;
+}
+
+interface DocumentRow {
+  document_type: string;
+  document_id: string;
+  document_number: string;
+  tax_point: string;
+  net_amount: number;
+  vat_amount: number;
+}
+
+interface ReturnData {
+  vendorName: string;
+  vatId: string | null;
+  accentColor: string;
+  period: PeriodRow;
+  rates: RateRow[];
+  documents: DocumentRow[];
+}
+
+const renderReturn = async (data: ReturnData): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const { regularFont, boldFont } = await embedFonts(pdfDoc);
+
+  const accent = hexToRgb(data.accentColor);
+  const muted = rgb(0.4, 0.4, 0.4);
+  const black = rgb(0, 0, 0);
+  const periodLabel = `${formatDate(data.period.period_start)} - ${formatDate(data.period.period_end)}`;
+  pdfDoc.setTitle(`VAT return ${periodLabel}`);
+  pdfDoc.setAuthor(data.vendorName);
+
+  const pages: PDFPage[] = [];
+  let page: PDFPage;
+  let y = 0;
+
+  const text = (value: string, x: number, yPos: number, size = 9, font = regularFont, color = black) => {
+    page.drawText(value, { x, y: yPos, size, font, color });
+  };
+
+  const textRight = (value: string, right: number, yPos: number, size = 9, font = regularFont, color = black) => {
+    text(value, right - font.widthOfTextAtSize(value, size), yPos, size, font, color);
+  };
+
+  const newPage = () => {
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + 40) {
+      newPage();
+      text(`${LABELS.title} ${periodLabel}`, MARGIN, y, 10, boldFont, accent);
+      y -= 24;
+    }
+  };
+
+  const sectionTitle = (value: string) => {
+    ensureSpace(40);
+    text(value, MARGIN, y, 11, boldFont, accent);
+    y -= 6;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.75, color: accent });
+    y -= 16;
+  };
+
+  newPage();
+
+  // Header
+  text(data.vendorName, MARGIN, y - 10, 16, boldFont, accent);
+  textRight(LABELS.title, PAGE_WIDTH - MARGIN, y - 4, 14, boldFont, accent);
+  y -= 60;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1.5, color: accent });
+  y -= 20;
+
+  text(LABELS.period, MARGIN, y, 9, boldFont);
+  text(periodLabel, MARGIN + 200, y);
+  y -= 14;
+  text(LABELS.vatNumber, MARGIN, y, 9, boldFont);
+  text(data.vatId || '—', MARGIN + 200, y);
+  y -= 30;
+
+  // Boxes
+  sectionTitle(LABELS.boxes);
+  for (const box of VAT4_BOXES) {
+    ensureSpace(18);
+    page.drawRectangle({ x: MARGIN, y: y - 5, width: 24, height: 16, borderColor: accent, borderWidth: 1 });
+    text(box.box, MARGIN + 9, y, 9, boldFont, accent);
+    text(box.label, MARGIN + 34, y);
+    if (box.field) {
+      textRight(formatMoney(Number(data.period[box.field])), PAGE_WIDTH - MARGIN, y, 9, boldFont);
+    } else if (box.nil) {
+      textRight(formatMoney(0), PAGE_WIDTH - MARGIN, y, 9, boldFont);
+    } else {
+      textRight(LABELS.notRecorded, PAGE_WIDTH - MARGIN, y, 8, regularFont, muted);
+    }
+    y -= 20;
+  }
+
+  if (Number(data.period.reverse_charge_outputs) !== 0) {
+    y -= 4;
+    const note = `Box 6 includes ${formatMoney(Number(data.period.reverse_charge_outputs))} of domestic reverse charge supplies, on which the customer accounts for the VAT.`;
+    for (const line of wrapText(note, regularFont, 8, PAGE_WIDTH - MARGIN * 2)) {
+      ensureSpace(12);
+      text(line, MARGIN, y, 8, regularFont, muted);
+      y -= 11;
+    }
+  }
+  y -= 16;
+
+  // Breakdown by rate
+  sectionTitle(LABELS.byRate);
+  const rateColumns = { basis: MARGIN, rate: 300, net: 390, vat: 460, documents: PAGE_WIDTH - MARGIN };
+  text('VAT basis', rateColumns.basis, y, 8, boldFont, muted);
+  textRight('Rate', rateColumns.rate, y, 8, boldFont, muted);
+  textRight('Net', rateColumns.net, y, 8, boldFont, muted);
+  textRight('VAT', rateColumns.vat, y, 8, boldFont, muted);
+  textRight('Invoices / Credits', rateColumns.documents, y, 8, boldFont, muted);
+  y -= 16;
+
+  for (const rate of data.rates) {
+    ensureSpace(16);
+    text(VAT_BASIS_LABELS[rate.vat_basis || ''] || rate.vat_basis || 'Unspecified', rateColumns.basis, y);
+    textRight(`${Number(rate.vat_rate)}%`, rateColumns.rate, y);
+    textRight(formatMoney(Number(rate.net_amount)), rateColumns.net, y);
+    textRight(formatMoney(Number(rate.vat_amount)), rateColumns.vat, y);
+    textRight(`${rate.invoice_count} / ${rate.credit_note_count}`, rateColumns.documents, y);
+    y -= 14;
+  }
+  y -= 16;
+
+  // Documents in the period
+  sectionTitle(LABELS.documents);
+  const docColumns = { number: MARGIN, type: 220, taxPoint: 320, net: 440, vat: PAGE_WIDTH - MARGIN };
+  text('Number', docColumns.number, y, 8, boldFont, muted);
+  text('Type', docColumns.type, y, 8, boldFont, muted);
+  text('Tax point', docColumns.taxPoint, y, 8, boldFont, muted);
+  textRight('Net', docColumns.net, y, 8, boldFont, muted);
+  textRight('VAT', docColumns.vat, y, 8, boldFont, muted);
+  y -= 16;
+
+  for (const document of data.documents) {
+    ensureSpace(14);
+    text(document.document_number || '—', docColumns.number, y, 8);
+    text(document.document_type === 'credit_note' ? 'Credit note' : 'Invoice', docColumns.type, y, 8);
+    text(formatDate(document.tax_point), docColumns.taxPoint, y, 8);
+    textRight(formatMoney(Number(document.net_amount)), docColumns.net, y, 8);
+    textRight(formatMoney(Number(document.vat_amount)), docColumns.vat, y, 8);
+    y -= 12;
+  }
+
+  // Footer on every page
+  const footer = 'Prepared by BuildEasy from issued invoices and credit notes by tax point. Check against your records before filing.';
+  pages.forEach((p, index) => {
+    p.drawText(footer, { x: MARGIN, y: MARGIN - 10, size: 7, font: regularFont, color: muted });
+    const pageLabel = `${LABELS.page} ${index + 1}/${pages.length}`;
+    p.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - regularFont.widthOfTextAtSize(pageLabel, 7),
+      y: MARGIN - 10,
+      size: 7,
+      font: regularFont,
+      color: muted,
+    });
+  });
+
+  return await pdfDoc.save();
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { periodStart, vendorId } = await req.json();
+    if (!periodStart) throw new Error('periodStart is required');
+
+    // Vendors export their own returns; admins may export any vendor's
+    const targetVendorId = vendorId || user.id;
+    if (targetVendorId !== user.id) {
+      const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+      if (!isAdmin) throw new Error('Unauthorized');
+    }
+
+    console.log('Generating VAT return PDF for', targetVendorId, periodStart);
+
+    const [periodResult, ratesResult, documentsResult, vendorResult] = await Promise.all([
+      supabaseClient
+        .from('vat_return_periods')
+        .select('*')
+        .eq('vendor_id', targetVendorId)
+        .eq('period_start', periodStart)
+        .maybeSingle(),
+      supabaseClient
+        .from('vat_return_summary')
+        .select('vat_basis, vat_rate, net_amount, vat_amount, invoice_count, credit_note_count')
+        .eq('vendor_id', targetVendorId)
+        .eq('period_start', periodStart)
+        .order('vat_rate', { ascending: false }),
+      supabaseClient
+        .from('vat_return_lines')
+        .select('document_type, document_id, document_number, tax_point, net_amount, vat_amount')
+        .eq('vendor_id', targetVendorId)
+        .eq('period_start', periodStart)
+        .order('tax_point', { ascending: true }),
+      supabaseClient
+        .from('vendor_profiles')
+        .select('business_name, vat_id, invoice_accent_color')
+        .eq('user_id', targetVendorId)
+        .maybeSingle(),
+    ]);
+
+    if (periodResult.error) throw periodResult.error;
+    if (ratesResult.error) throw ratesResult.error;
+    if (documentsResult.error) throw documentsResult.error;
+    if (!periodResult.data) throw new Error('No issued invoices or credit notes in this period');
+
+    // The lines view has one row per document line; the PDF lists each document once
+    const documents = new Map<string, DocumentRow>();
+    for (const line of (documentsResult.data || []) as DocumentRow[]) {
+      const existing = documents.get(line.document_id);
+      if (existing) {
+        existing.net_amount = Number(existing.net_amount) + Number(line.net_amount);
+        existing.vat_amount = Number(existing.vat_amount) + Number(line.vat_amount);
+      } else {
+        documents.set(line.document_id, { ...line });
+      }
+    }
+
+    const pdfBytes = await renderReturn({
+      vendorName: vendorResult.data?.business_name || 'Vendor',
+      vatId: vendorResult.data?.vat_id || null,
+      accentColor: vendorResult.data?.invoice_accent_color || '#1e3a8a',
+      period: periodResult.data as PeriodRow,
+      rates: (ratesResult.data || []) as RateRow[],
+      documents: Array.from(documents.values()),
+    });
+
+    const path = `${targetVendorId}/vat-returns/${periodStart}.pdf`;
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from(BUCKET)
+      .upload(path, pdfBytes, { contentType: 'application/pdf', upsert: true });
+
+    if (uploadError) throw uploadError;
+
+    const { data: signed, error: signedError } = await supabaseClient.storage
+      .from(BUCKET)
+      .createSignedUrl(path, 3600);
+
+    if (signedError) throw signedError;
+
+    console.log('VAT return PDF stored at', path);
+
+    return new Response(
+      JSON.stringify({ success: true, path, url: signed.signedUrl }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in generate-vat-return-pdf:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,243 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sha256Hex } from '../_shared/signing.ts';
+import { matchTransaction, type MatchableInvoice } from '../_shared/paymentMatching.ts';
+import { recordOfflinePayment } from '../_shared/offlinePayments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STATEMENT_FORMATS = ['camt053', 'mt940', 'boc_csv', 'hellenic_csv'];
+const MAX_TRANSACTIONS = 2000;
+const PAYABLE_STATUSES = ['sent', 'overdue', 'payment_failed', 'uncollectible', 'partially_paid'];
+
+interface StatementTransaction {
+  bookingDate: string;
+  amount: number;
+  currency: string;
+  payerName: string | null;
+  payerIban: string | null;
+  remittanceInfo: string | null;
+  bankReference: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { data: vendorProfile } = await supabaseClient
+      .from('vendor_profiles')
+      .select('user_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!vendorProfile) throw new Error('Only vendors can import bank statements');
+
+    // The statement is parsed in the browser; only the incoming transfers are sent
+    const { filename, format, accountIban, transactions } = await req.json();
+
+    if (!STATEMENT_FORMATS.includes(format)) throw new Error('Unknown statement format');
+    if (!Array.isArray(transactions)) throw new Error('transactions must be an array');
+    if (transactions.length > MAX_TRANSACTIONS) {
+      throw new Error(`A statement can contain at most ${MAX_TRANSACTIONS} incoming transfers`);
+    }
+
+    const incoming: StatementTransaction[] = transactions.filter(
+      (transaction: StatementTransaction) =>
+        Number(transaction.amount) > 0 && /^\d{4}-\d{2}-\d{2}$/.test(String(transaction.bookingDate))
+    );
+
+    console.log('Importing', incoming.length, format, 'transfers for vendor', user.id);
+
+    const { data: statementImport, error: importError } = await supabaseClient
+      .from('bank_statement_imports')
+      .insert({
+        vendor_id: user.id,
+        filename: String(filename || 'statement').slice(0, 255),
+        format,
+        account_iban: accountIban || null,
+      })
+      .select('id')
+      .single();
+
+    if (importError) throw importError;
+
+    // Identical transfers in one statement are told apart by their occurrence, so
+    // genuine repeats are kept while the same statement imported again is skipped
+    const occurrences = new Map<string, number>();
+
+    const rows = await Promise.all(incoming.map(async (transaction) => {
+      const amount = Math.round(Number(transaction.amount) * 100) / 100;
+      const key = [
+        accountIban || '',
+        transaction.bookingDate,
+        amount.toFixed(2),
+        transaction.bankReference || '',
+        transaction.remittanceInfo || '',
+        transaction.payerName || '',
+      ].join('|');
+      const occurrence = occurrences.get(key) || 0;
+      occurrences.set(key, occurrence + 1);
+      const fingerprint = await sha256Hex(occurrence > 0 ? `${key}|${occurrence}` : key);
+
+      return {
+        import_id: statementImport.id,
+        vendor_id: user.id,
+        fingerprint,
+        booking_date: transaction.bookingDate,
+        amount,
+        currency: (transaction.currency || 'EUR').toUpperCase(),
+        payer_name: transaction.payerName?.slice(0, 255) || null,
+        payer_iban: transaction.payerIban || null,
+        remittance_info: transaction.remittanceInfo?.slice(0, 1000) || null,
+        bank_reference: transaction.bankReference?.slice(0, 100) || null,
+      };
+    }));
+
+    // Transfers already imported from an overlapping statement are skipped
+    const { data: inserted, error: insertError } = rows.length > 0
+      ? await supabaseClient
+          .from('bank_transactions')
+          .upsert(rows, { onConflict: 'vendor_id,fingerprint', ignoreDuplicates: true })
+          .select('id, booking_date, amount, currency, payer_name, remittance_info, bank_reference')
+      : { data: [], error: null };
+
+    if (insertError) throw insertError;
+
+    const { data: openInvoices, error: invoicesError } = await supabaseClient
+      .from('invoices')
+      .select('id, client_id, legal_invoice_number, currency, total_amount, credited_amount, amount_paid')
+      .eq('vendor_id', user.id)
+      .in('status', PAYABLE_STATUSES)
+      .not('legal_invoice_number', 'is', null);
+
+    if (invoicesError) throw invoicesError;
+
+    const clientIds = [...new Set((openInvoices || []).map((invoice) => invoice.client_id))];
+    const { data: clientProfiles } = clientIds.length > 0
+      ? await supabaseClient
+          .from('profiles')
+          .select('user_id, full_name, company_name')
+          .in('user_id', clientIds)
+      : { data: [] };
+
+    const invoices: MatchableInvoice[] = (openInvoices || []).map((invoice) => {
+      const profile = (clientProfiles || []).find((p) => p.user_id === invoice.client_id);
+      return {
+        id: invoice.id,
+        legalInvoiceNumber: invoice.legal_invoice_number,
+        currency: (invoice.currency || 'EUR').toUpperCase(),
+        outstanding: Math.max(
+          0,
+          Number(invoice.total_amount) - Number(invoice.credited_amount || 0) - Number(invoice.amount_paid || 0)
+        ),
+        clientNames: [profile?.full_name, profile?.company_name].filter(Boolean),
+      };
+    });
+
+    let matched = 0;
+    let suggested = 0;
+    const syncErrors: string[] = [];
+
+    for (const transaction of inserted || []) {
+      const { candidates, autoMatch } = matchTransaction({
+        amount: Number(transaction.amount),
+        currency: transaction.currency,
+        payerName: transaction.payer_name,
+        remittanceInfo: transaction.remittance_info,
+        bankReference: transaction.bank_reference,
+      }, invoices);
+
+      if (autoMatch) {
+        try {
+          const { paymentId, syncError } = await recordOfflinePayment(supabaseClient, {
+            invoiceId: autoMatch.invoiceId,
+            amount: Number(transaction.amount),
+            paidOn: transaction.booking_date,
+            method: 'bank_transfer',
+            reference: transaction.bank_reference || transaction.remittance_info?.slice(0, 100) || null,
+            notes: 'Matched from bank statement',
+            proofPath: null,
+            recordedBy: user.id,
+          });
+
+          await supabaseClient
+            .from('bank_transactions')
+            .update({
+              status: 'matched',
+              match_candidates: candidates,
+              invoice_id: autoMatch.invoiceId,
+              payment_id: paymentId,
+              matched_at: new Date().toISOString(),
+            })
+            .eq('id', transaction.id);
+
+          // The invoice is settled, so later transfers in the statement cannot match it
+          const invoice = invoices.find((i) => i.id === autoMatch.invoiceId);
+          if (invoice) invoice.outstanding = 0;
+
+          if (syncError) syncErrors.push(`${autoMatch.invoiceNumber}: ${syncError}`);
+          matched++;
+          continue;
+        } catch (error: any) {
+          // Left for review, e.g. when the invoice was paid by card in the meantime
+          console.error('Automatic match failed for transaction:', transaction.id, error.message);
+        }
+      }
+
+      if (candidates.length > 0) {
+        await supabaseClient
+          .from('bank_transactions')
+          .update({ status: 'suggested', match_candidates: candidates })
+          .eq('id', transaction.id);
+        suggested++;
+      }
+    }
+
+    const imported = inserted?.length || 0;
+    const duplicates = rows.length - imported;
+
+    await supabaseClient
+      .from('bank_statement_imports')
+      .update({ transaction_count: imported, duplicate_count: duplicates, matched_count: matched })
+      .eq('id', statementImport.id);
+
+    console.log('Statement import', statementImport.id, ':', imported, 'new,', duplicates, 'duplicates,', matched, 'matched,', suggested, 'suggested');
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        importId: statementImport.id,
+        imported,
+        duplicates,
+        matched,
+        suggested,
+        unmatched: imported - matched - suggested,
+        syncErrors,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in import-bank-statement:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
@@ -0,0 +1,287 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendEmail } from '../_shared/mailer.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DunningStage {
+  days_overdue: number;
+  tone: 'friendly' | 'reminder' | 'firm' | 'final';
+}
+
+interface DunningSchedule {
+  enabled: boolean;
+  stages: DunningStage[];
+}
+
+const DEFAULT_SCHEDULE: DunningSchedule = {
+  enabled: true,
+  stages: [
+    { days_overdue: 1, tone: 'friendly' },
+    { days_overdue: 7, tone: 'reminder' },
+    { days_overdue: 14, tone: 'firm' },
+    { days_overdue: 30, tone: 'final' },
+  ],
+};
+
+const SUBJECTS: Record<DunningStage['tone'], string> = {
+  friendly: 'Friendly reminder: invoice {number} is now due',
+  reminder: 'Reminder: invoice {number} is {days} days overdue',
+  firm: 'Payment required: invoice {number} is {days} days overdue',
+  final: 'Final notice: invoice {number} is {days} days overdue',
+};
+
+const INTROS: Record<DunningStage['tone'], string> = {
+  friendly: 'This is a friendly reminder that the invoice below has passed its due date. If you have already paid, please ignore this email.',
+  reminder: 'Our records show that the invoice below is still unpaid. Please arrange payment at your earliest convenience.',
+  firm: 'The invoice below remains unpaid despite previous reminders. Please settle it now to avoid further action.',
+  final: 'This is a final notice. The invoice below is seriously overdue and must be paid immediately. Please contact the vendor if there is a problem with this invoice.',
+};
+
+const formatAmount = (amount: number) =>
+  `€${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+const reminderHtml = (
+  tone: DunningStage['tone'],
+  vendorName: string,
+  invoiceNumber: string,
+  totalAmount: number,
+  dueDate: string,
+  daysOverdue: number,
+  payUrl: string | null
+) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: ${tone === 'final' || tone === 'firm' ? '#dc2626' : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)'}; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .invoice-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #667eea; }
+        .amount { font-size: 32px; font-weight: bold; color: #667eea; margin: 10px 0; }
+        .button { display: inline-block; background: #10b981; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${tone === 'final' ? 'Final Notice' : 'Payment Reminder'}</h1>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>${INTROS[tone]}</p>
+
+          <div class="invoice-details">
+            <p><strong>From:</strong> ${vendorName}</p>
+            <p><strong>Invoice Number:</strong> ${invoiceNumber}</p>
+            <p><strong>Due Date:</strong> ${dueDate} (${daysOverdue} ${daysOverdue === 1 ? 'day' : 'days'} overdue)</p>
+            <div class="amount">${formatAmount(totalAmount)}</div>
+          </div>
+
+          ${payUrl ? `<a href="${payUrl}" class="button">Pay Invoice Now</a>` : ''}
+
+          <p>You can also log in to your BuildEasy dashboard to view the invoice and manage payment.</p>
+        </div>
+        <div class="footer">
+          <p>This is an automated email from BuildEasy.</p>
+          <p>© 2025 BuildEasy. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+  </html>
+`;
+
+const daysBetween = (from: string, to: string) =>
+  Math.floor((Date.parse(to) - Date.parse(from)) / 86400000);
+
+// The role claim of a JWT whose signature the platform has already verified
+const tokenRole = (token: string): string | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).role ?? null;
+  } catch {
+    return null;
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Invoked by pg_cron with the service role key, never by users. verify_jwt is
+    // on for this function, so only tokens signed by the project get this far.
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token || tokenRole(token) !== 'service_role') throw new Error('Unauthorized');
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: setting } = await supabaseClient
+      .from('platform_settings')
+      .select('setting_value')
+      .eq('setting_key', 'dunning_schedule')
+      .maybeSingle();
+
+    const schedule = (setting?.setting_value as DunningSchedule | null) ?? DEFAULT_SCHEDULE;
+    if (!schedule.enabled) {
+      console.log('Dunning is disabled');
+      return new Response(
+        JSON.stringify({ success: true, reminded: 0, disabled: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const stages = [...schedule.stages].sort((a, b) => a.days_overdue - b.days_overdue);
+    const today = new Date().toISOString().slice(0, 10);
+
+    const { data: invoices, error: invoicesError } = await supabaseClient
+      .from('invoices')
+      .select('id, status, invoice_number, legal_invoice_number, total_amount, amount_paid, credited_amount, due_date, reminder_count, client_id, vendor_id, payment_url')
+      .in('status', ['sent', 'payment_failed', 'overdue', 'partially_paid'])
+      .eq('dunning_paused', false)
+      .lt('due_date', today);
+
+    if (invoicesError) throw invoicesError;
+
+    console.log('Overdue invoices to check:', invoices?.length || 0);
+
+    const results = [];
+
+    for (const invoice of invoices || []) {
+      const daysOverdue = daysBetween(invoice.due_date, today);
+
+      // One stage per run; stages already sent are never repeated
+      const stageIndex = invoice.reminder_count;
+      const stage = stages[stageIndex];
+      if (!stage || daysOverdue < stage.days_overdue) continue;
+
+      const invoiceNumber = invoice.legal_invoice_number || invoice.invoice_number;
+
+      const { data: vendorProfile } = await supabaseClient
+        .from('vendor_profiles')
+        .select('business_name')
+        .eq('user_id', invoice.vendor_id)
+        .maybeSingle();
+
+      const vendorName = vendorProfile?.business_name || 'Your Vendor';
+
+      let emailError: string | null = null;
+      try {
+        const { data: { user: clientUser } } = await supabaseClient.auth.admin.getUserById(invoice.client_id);
+        if (!clientUser?.email) throw new Error('Client email not found');
+
+        await sendEmail({
+          to: clientUser.email,
+          subject: SUBJECTS[stage.tone]
+            .replace('{number}', invoiceNumber)
+            .replace('{days}', String(daysOverdue)),
+          html: reminderHtml(
+            stage.tone,
+            vendorName,
+            invoiceNumber,
+            // Offline payments and credit notes reduce what is still owed
+            Number(invoice.total_amount) - Number(invoice.amount_paid || 0) - Number(invoice.credited_amount || 0),
+            invoice.due_date,
+            daysOverdue,
+            // The Stripe page would charge the full amount, so a part-paid balance is paid offline
+            invoice.status === 'partially_paid' ? null : invoice.payment_url
+          ),
+        });
+      } catch (error: any) {
+        console.error('Reminder email failed for invoice:', invoice.id, error.message);
+        emailError = error.message;
+      }
+
+      const reminderBase = { invoice_id: invoice.id, stage: stageIndex + 1, days_overdue: daysOverdue };
+
+      await supabaseClient.from('invoice_reminders').insert({
+        ...reminderBase,
+        channel: 'email',
+        recipient_id: invoice.client_id,
+        status: emailError ? 'failed' : 'sent',
+        error: emailError,
+      });
+
+      // Leave the stage pending so the next run retries the email
+      if (emailError) {
+        results.push({ invoiceId: invoice.id, stage: stageIndex + 1, error: emailError });
+        continue;
+      }
+
+      const notifications = [{
+        user_id: invoice.client_id,
+        type: 'invoice_overdue',
+        title: stage.tone === 'final' ? `Final notice: invoice ${invoiceNumber}` : `Invoice ${invoiceNumber} is overdue`,
+        body: `${formatAmount(invoice.total_amount)} to ${vendorName} was due on ${invoice.due_date}.`,
+        link: '/billing',
+        metadata: { invoice_id: invoice.id, stage: stageIndex + 1, days_overdue: daysOverdue },
+      }];
+
+      // Vendors hear about it once the last reminder has gone out
+      if (stage.tone === 'final') {
+        notifications.push({
+          user_id: invoice.vendor_id,
+          type: 'invoice_final_notice_sent',
+          title: `Final notice sent for invoice ${invoiceNumber}`,
+          body: `The client has not paid ${formatAmount(invoice.total_amount)}, ${daysOverdue} days after the due date.`,
+          link: '/vendor-dashboard',
+          metadata: { invoice_id: invoice.id, stage: stageIndex + 1, days_overdue: daysOverdue },
+        });
+      }
+
+      const { error: notificationError } = await supabaseClient.from('notifications').insert(notifications);
+      if (notificationError) console.error('Notification insert failed:', notificationError.message);
+
+      await supabaseClient.from('invoice_reminders').insert(
+        notifications.map((notification) => ({
+          ...reminderBase,
+          channel: 'in_app',
+          recipient_id: notification.user_id,
+          status: notificationError ? 'failed' : 'sent',
+          error: notificationError?.message ?? null,
+        }))
+      );
+
+      const { error: updateError } = await supabaseClient
+        .from('invoices')
+        .update({
+          reminder_count: stageIndex + 1,
+          last_reminder_at: new Date().toISOString(),
+          ...(invoice.status === 'sent' ? { status: 'overdue' } : {}),
+        })
+        .eq('id', invoice.id)
+        .eq('status', invoice.status);
+
+      // The stage stays pending, so the next run sends this reminder again
+      if (updateError) {
+        console.error('Recording the reminder failed for invoice:', invoice.id, updateError.message);
+        results.push({ invoiceId: invoice.id, stage: stageIndex + 1, error: `Reminder sent but not recorded: ${updateError.message}` });
+        continue;
+      }
+
+      results.push({ invoiceId: invoice.id, stage: stageIndex + 1, tone: stage.tone });
+    }
+
+    console.log('Reminders sent:', results.length);
+
+    return new Response(
+      JSON.stringify({ success: true, reminded: results.length, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in invoice-dunning:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPaymentProvider } from '../_shared/paymentProviders.ts';
+import { handleLedgeredProviderEvent } from '../_shared/providerEvents.ts';
+
+/**
+ * Webhooks for payment providers other than Stripe, which has its own ledgered
+ * endpoint in stripe-webhooks. Events are ledgered the same way, so a callback
+ * delivered twice is applied once. The provider is named in the query string:
+ * payment-webhooks?provider=jcc. JCC calls back with the order status as query
+ * or form parameters; the fake provider's payment link points here directly.
+ */
+serve(async (req) => {
+  const url = new URL(req.url);
+  const providerName = url.searchParams.get('provider') || '';
+
+  if (providerName === 'stripe') {
+    return new Response('Stripe events are received by stripe-webhooks', { status: 400 });
+  }
+
+  try {
+    const provider = getPaymentProvider(providerName);
+
+    // Callback parameters arrive in the query string or as a form body
+    const params = new URLSearchParams(url.search);
+    params.delete('provider');
+    if (req.method === 'POST') {
+      const body = await req.text();
+      for (const [name, value] of new URLSearchParams(body)) params.set(name, value);
+    }
+
+    const events = await provider.verifyWebhook(params.toString(), req.headers);
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const results = [];
+    for (const event of events) {
+      console.log('Payment provider event:', event.provider, event.type, 'ID:', event.id);
+      results.push(await handleLedgeredProviderEvent(supabaseClient, event));
+    }
+
+    // Opening a fake payment link in the browser lands back on the billing page
+    const frontendUrl = Deno.env.get('FRONTEND_URL');
+    if (provider.name === 'fake' && req.method === 'GET' && frontendUrl) {
+      return Response.redirect(`${frontendUrl}/billing?payment=complete`, 303);
+    }
+
+    return new Response(
+      JSON.stringify({ received: true, results }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Payment webhook error:', providerName, error.message);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,280 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendEmail } from '../_shared/mailer.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How far ahead each side is warned
+const VALIDITY_WARNING_DAYS = 3;
+const DEADLINE_WARNING_HOURS = 48;
+
+interface Notice {
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  link: string;
+  metadata: Record<string, unknown>;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatAmount = (amount: number) =>
+  `€${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+const noticeHtml = (title: string, body: string, buttonLabel: string, link: string) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #10b981; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${title}</h1>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>${body}</p>
+          <a href="${link}" class="button">${buttonLabel}</a>
+        </div>
+        <div class="footer">
+          <p>This is an automated email from BuildEasy.</p>
+          <p>© 2025 BuildEasy. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+  </html>
+`;
+
+// In-app notifications always; emails are best effort
+const deliver = async (supabaseClient: SupabaseClient, frontendUrl: string, notices: Notice[]) => {
+  const { error } = await supabaseClient.from('notifications').insert(notices);
+  if (error) throw new Error(`Notification insert failed: ${error.message}`);
+
+  for (const notice of notices) {
+    try {
+      const { data: { user } } = await supabaseClient.auth.admin.getUserById(notice.user_id);
+      if (!user?.email) continue;
+
+      await sendEmail({
+        to: user.email,
+        subject: notice.title,
+        html: noticeHtml(notice.title, notice.body, 'Open BuildEasy', `${frontendUrl}${notice.link}`),
+      });
+    } catch (error: any) {
+      console.error('Expiry email failed for user:', notice.user_id, error.message);
+    }
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Invoked by pg_cron with the service role key, never by users
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token || token !== serviceRoleKey) throw new Error('Unauthorized');
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || '';
+
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    const warnUntil = new Date(now.getTime() + VALIDITY_WARNING_DAYS * 86400000).toISOString().slice(0, 10);
+    const deadlineWarnUntil = now.getTime() + DEADLINE_WARNING_HOURS * 3600000;
+
+    const { data: requests, error: requestsError } = await supabaseClient
+      .from('quote_requests')
+      .select('id, status, client_id, vendor_id, response_deadline, deadline_warning_sent_at, projects(title)')
+      .in('status', ['pending', 'quoted'])
+      .is('deleted_at', null);
+
+    if (requestsError) throw requestsError;
+
+    const quotedIds = (requests || []).filter((request) => request.status === 'quoted').map((request) => request.id);
+    const { data: quotes, error: quotesError } = quotedIds.length > 0
+      ? await supabaseClient
+        .from('quotes')
+        .select('id, quote_request_id, validity_date, expiry_warning_sent_at, total_amount')
+        .in('quote_request_id', quotedIds)
+        .eq('is_current_version', true)
+        .not('validity_date', 'is', null)
+      : { data: [], error: null };
+
+    if (quotesError) throw quotesError;
+
+    const quotesByRequest = new Map((quotes || []).map((quote) => [quote.quote_request_id, quote]));
+
+    const vendorIds = Array.from(new Set((requests || []).map((request) => request.vendor_id)));
+    const { data: vendors } = await supabaseClient
+      .from('vendor_profiles')
+      .select('user_id, business_name')
+      .in('user_id', vendorIds);
+    const vendorNames = new Map((vendors || []).map((vendor) => [vendor.user_id, vendor.business_name]));
+
+    const results = { warned: 0, expired: 0, failed: 0 };
+
+    for (const request of requests || []) {
+      const projectTitle = (request.projects as { title?: string } | null)?.title || 'your project';
+      const vendorName = vendorNames.get(request.vendor_id) || 'The vendor';
+      const metadata = { quote_request_id: request.id };
+
+      try {
+        if (request.status === 'quoted') {
+          const quote = quotesByRequest.get(request.id);
+          if (!quote) continue;
+
+          if (quote.validity_date < today) {
+            // Guarded on status so an acceptance in the meantime wins
+            const { data: expired, error } = await supabaseClient
+              .from('quote_requests')
+              .update({ status: 'expired', expired_at: now.toISOString() })
+              .eq('id', request.id)
+              .eq('status', 'quoted')
+              .select('id');
+
+            if (error) throw error;
+            if (!expired || expired.length === 0) continue;
+
+            await deliver(supabaseClient, frontendUrl, [
+              {
+                user_id: request.client_id,
+                type: 'quote_expired',
+                title: `Quote from ${vendorName} has expired`,
+                body: `The ${formatAmount(quote.total_amount)} quote for ${projectTitle} lapsed on ${formatDate(quote.validity_date)}. Ask the vendor to extend it if you still want to accept it.`,
+                link: '/tickets',
+                metadata: { ...metadata, quote_id: quote.id },
+              },
+              {
+                user_id: request.vendor_id,
+                type: 'quote_expired',
+                title: `Your quote for ${projectTitle} has expired`,
+                body: `It lapsed on ${formatDate(quote.validity_date)} without a decision. Extend it from your dashboard to let the client accept it.`,
+                link: '/vendor-dashboard',
+                metadata: { ...metadata, quote_id: quote.id },
+              },
+            ]);
+            results.expired++;
+          } else if (quote.validity_date <= warnUntil && !quote.expiry_warning_sent_at) {
+            await deliver(supabaseClient, frontendUrl, [
+              {
+                user_id: request.client_id,
+                type: 'quote_expiring',
+                title: `Quote from ${vendorName} expires soon`,
+                body: `The ${formatAmount(quote.total_amount)} quote for ${projectTitle} is valid until ${formatDate(quote.validity_date)}.`,
+                link: '/tickets',
+                metadata: { ...metadata, quote_id: quote.id },
+              },
+              {
+                user_id: request.vendor_id,
+                type: 'quote_expiring',
+                title: `Your quote for ${projectTitle} expires soon`,
+                body: `It is valid until ${formatDate(quote.validity_date)} and the client has not decided yet. You can extend it from your dashboard.`,
+                link: '/vendor-dashboard',
+                metadata: { ...metadata, quote_id: quote.id },
+              },
+            ]);
+
+            await supabaseClient
+              .from('quotes')
+              .update({ expiry_warning_sent_at: now.toISOString() })
+              .eq('id', quote.id);
+            results.warned++;
+          }
+        } else if (request.response_deadline) {
+          const deadline = Date.parse(request.response_deadline);
+
+          if (deadline < now.getTime()) {
+            const { data: expired, error } = await supabaseClient
+              .from('quote_requests')
+              .update({ status: 'expired', expired_at: now.toISOString() })
+              .eq('id', request.id)
+              .eq('status', 'pending')
+              .select('id');
+
+            if (error) throw error;
+            if (!expired || expired.length === 0) continue;
+
+            await deliver(supabaseClient, frontendUrl, [
+              {
+                user_id: request.client_id,
+                type: 'quote_request_expired',
+                title: `${vendorName} did not quote in time`,
+                body: `The request for ${projectTitle} passed its response deadline of ${formatDate(request.response_deadline)} without a quote.`,
+                link: '/tickets',
+                metadata,
+              },
+              {
+                user_id: request.vendor_id,
+                type: 'quote_request_expired',
+                title: `Quote request for ${projectTitle} has expired`,
+                body: `The response deadline of ${formatDate(request.response_deadline)} has passed.`,
+                link: '/vendor-dashboard',
+                metadata,
+              },
+            ]);
+            results.expired++;
+          } else if (deadline <= deadlineWarnUntil && !request.deadline_warning_sent_at) {
+            await deliver(supabaseClient, frontendUrl, [
+              {
+                user_id: request.vendor_id,
+                type: 'quote_request_deadline',
+                title: `Quote for ${projectTitle} due soon`,
+                body: `The client needs your quote by ${formatDate(request.response_deadline)}, after which the request expires.`,
+                link: '/vendor-dashboard',
+                metadata,
+              },
+              {
+                user_id: request.client_id,
+                type: 'quote_request_deadline',
+                title: `Waiting for a quote from ${vendorName}`,
+                body: `They have until ${formatDate(request.response_deadline)} to quote for ${projectTitle}.`,
+                link: '/tickets',
+                metadata,
+              },
+            ]);
+
+            await supabaseClient
+              .from('quote_requests')
+              .update({ deadline_warning_sent_at: now.toISOString() })
+              .eq('id', request.id);
+            results.warned++;
+          }
+        }
+      } catch (error: any) {
+        console.error('Quote expiry failed for request:', request.id, error.message);
+        results.failed++;
+      }
+    }
+
+    console.log('Quote expiry results:', results);
+
+    return new Response(
+      JSON.stringify({ success: true, ...results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in quote-expiry:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
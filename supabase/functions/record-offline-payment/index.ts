@@ -0,0 +1,139 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PAYMENT_METHODS, recordOfflinePayment, syncToPaymentProvider } from '../_shared/offlinePayments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { invoiceId, amount, paidOn, method, reference, notes, proofPath, retryPaymentId, bankTransactionId } = await req.json();
+
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from('invoices')
+      .select('id, vendor_id')
+      .eq('id', invoiceId)
+      .single();
+
+    if (invoiceError) throw invoiceError;
+    if (invoice.vendor_id !== user.id) throw new Error('Unauthorized');
+
+    // Retry the payment provider sync of a payment already recorded
+    if (retryPaymentId) {
+      const syncError = await syncToPaymentProvider(supabaseClient, retryPaymentId, invoice.id);
+      return new Response(
+        JSON.stringify({ success: true, paymentId: retryPaymentId, syncError }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let payment: { paymentId: string; syncError: string | null };
+
+    if (bankTransactionId) {
+      // A transfer from an imported bank statement, confirmed by the vendor on the
+      // review screen. Amount, date and reference come from the statement.
+      const { data: transaction, error: transactionError } = await supabaseClient
+        .from('bank_transactions')
+        .select('id, vendor_id, status, booking_date, amount, bank_reference, remittance_info')
+        .eq('id', bankTransactionId)
+        .single();
+
+      if (transactionError) throw transactionError;
+      if (transaction.vendor_id !== user.id) throw new Error('Unauthorized');
+      if (transaction.status === 'matched') throw new Error('This transfer has already been matched to an invoice');
+
+      // Claim the transfer first so it cannot be recorded twice
+      const { data: claimed } = await supabaseClient
+        .from('bank_transactions')
+        .update({ status: 'matched', invoice_id: invoice.id, matched_at: new Date().toISOString() })
+        .eq('id', transaction.id)
+        .eq('status', transaction.status)
+        .select('id');
+
+      if (!claimed?.length) throw new Error('This transfer has already been matched to an invoice');
+
+      try {
+        payment = await recordOfflinePayment(supabaseClient, {
+          invoiceId: invoice.id,
+          amount: Number(transaction.amount),
+          paidOn: transaction.booking_date,
+          method: 'bank_transfer',
+          reference: transaction.bank_reference || transaction.remittance_info?.slice(0, 100) || null,
+          notes: notes?.trim() || null,
+          proofPath: null,
+          recordedBy: user.id,
+        });
+      } catch (error) {
+        await supabaseClient
+          .from('bank_transactions')
+          .update({ status: transaction.status, invoice_id: null, matched_at: null })
+          .eq('id', transaction.id);
+        throw error;
+      }
+
+      await supabaseClient
+        .from('bank_transactions')
+        .update({ payment_id: payment.paymentId })
+        .eq('id', transaction.id);
+    } else {
+      const paymentAmount = Math.round(Number(amount) * 100) / 100;
+      if (!(paymentAmount > 0)) throw new Error('Payment amount must be greater than zero');
+      if (!PAYMENT_METHODS.includes(method)) throw new Error('Unknown payment method');
+      if (!paidOn || Number.isNaN(Date.parse(paidOn))) throw new Error('Payment date is required');
+      if (paidOn > new Date().toISOString().slice(0, 10)) throw new Error('Payment date cannot be in the future');
+      if (proofPath && !String(proofPath).startsWith(`${user.id}/`)) throw new Error('Invalid proof of payment');
+
+      payment = await recordOfflinePayment(supabaseClient, {
+        invoiceId: invoice.id,
+        amount: paymentAmount,
+        paidOn,
+        method,
+        reference: reference?.trim() || null,
+        notes: notes?.trim() || null,
+        proofPath: proofPath || null,
+        recordedBy: user.id,
+      });
+    }
+
+    const { data: updated } = await supabaseClient
+      .from('invoices')
+      .select('status, amount_paid')
+      .eq('id', invoice.id)
+      .single();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        paymentId: payment.paymentId,
+        status: updated?.status,
+        amountPaid: updated?.amount_paid,
+        syncError: payment.syncError,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in record-offline-payment:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
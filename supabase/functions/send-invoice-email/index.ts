@@ -1,8 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { Resend } from "npm:resend@4.0.0";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const resend = new Resend(Deno.env.get("RESEND_API_KEY") as string);
+import { sendEmail } from "../_shared/mailer.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -34,7 +32,7 @@ serve(async (req) => {
         vat_amount,
         subtotal_amount,
         stripe_pdf_url,
-        stripe_hosted_invoice_url,
+        payment_url,
         client_id,
         vendor_id
       `)
@@ -63,9 +61,8 @@ serve(async (req) => {
     const invoiceNumber = invoice.legal_invoice_number || invoice.invoice_number;
 
     // Send email
-    const { error: emailError } = await resend.emails.send({
-      from: "BuildEasy <onboarding@resend.dev>",
-      to: [clientUser.email],
+    await sendEmail({
+      to: clientUser.email,
       subject: `New Invoice ${invoiceNumber} from ${vendorName}`,
       html: `
         <!DOCTYPE html>
@@ -103,9 +100,9 @@ serve(async (req) => {
                   <a href="${invoice.stripe_pdf_url}" class="button" style="margin-bottom: 10px; display: inline-block;">View Invoice PDF</a>
                 ` : ''}
 
-                ${invoice.stripe_hosted_invoice_url ? `
+                ${invoice.payment_url ? `
                   <p style="margin-top: 20px;">Ready to pay? Click the button below to complete your payment securely:</p>
-                  <a href="${invoice.stripe_hosted_invoice_url}" class="button" style="background: #10b981;">Pay Invoice Now</a>
+                  <a href="${invoice.payment_url}" class="button" style="background: #10b981;">Pay Invoice Now</a>
                 ` : ''}
 
                 <p style="margin-top: 20px;">You can also log in to your BuildEasy dashboard to view the full invoice details and manage payment.</p>
@@ -122,11 +119,6 @@ serve(async (req) => {
       `,
     });
 
-    if (emailError) {
-      console.error('Email error:', emailError);
-      throw emailError;
-    }
-
     console.log('Invoice email sent successfully to:', clientUser.email);
 
     return new Response(
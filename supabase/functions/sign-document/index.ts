@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  SIGNING_CONSENT_TEXT,
+  SIGNING_CONSENT_VERSION,
+  canonicalJson,
+  invoiceSigningContent,
+  quoteSigningContent,
+  sha256Hex,
+} from '../_shared/signing.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_DRAWN_SIGNATURE_LENGTH = 500_000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { documentType, documentId, method, signature, signerName, consentAccepted } = await req.json();
+
+    if (documentType !== 'invoice' && documentType !== 'quote') throw new Error('Unknown document type');
+    if (!consentAccepted) throw new Error('You must accept the signing terms');
+    if (!signerName?.trim()) throw new Error('Signer name is required');
+
+    if (method === 'typed') {
+      if (!signature?.trim() || signature.trim().length > 200) throw new Error('Please type your signature');
+    } else if (method === 'drawn') {
+      if (!signature?.startsWith('data:image/png;base64,') || signature.length > MAX_DRAWN_SIGNATURE_LENGTH) {
+        throw new Error('Drawn signature is missing or too large');
+      }
+    } else {
+      throw new Error('Signature must be drawn or typed');
+    }
+
+    let signerRole: 'vendor' | 'client';
+    let content: unknown;
+
+    if (documentType === 'invoice') {
+      const { data: invoice, error: invoiceError } = await supabaseClient
+        .from('invoices')
+        .select('*, invoice_items(*)')
+        .eq('id', documentId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+
+      if (invoice.vendor_id === user.id) signerRole = 'vendor';
+      else if (invoice.client_id === user.id) signerRole = 'client';
+      else throw new Error('Unauthorized');
+
+      // The vendor signs the draft before it is issued; the client signs what was issued
+      if (signerRole === 'vendor' && invoice.status !== 'draft') throw new Error('Only draft invoices can be signed by the vendor');
+      if (signerRole === 'client' && ['draft', 'voided', 'cancelled'].includes(invoice.status)) {
+        throw new Error('This invoice cannot be signed');
+      }
+      if (invoice[`${signerRole}_signed_at`]) throw new Error('You have already signed this invoice');
+
+      const { invoice_items: items, ...invoiceRow } = invoice;
+      content = invoiceSigningContent(invoiceRow, items || []);
+    } else {
+      const { data: quote, error: quoteError } = await supabaseClient
+        .from('quotes')
+        .select('*, quote_requests!inner(vendor_id, client_id, status)')
+        .eq('id', documentId)
+        .single();
+
+      if (quoteError) throw quoteError;
+
+      const { quote_requests: quoteRequest, ...quoteRow } = quote;
+
+      if (quoteRequest.vendor_id === user.id) signerRole = 'vendor';
+      else if (quoteRequest.client_id === user.id) signerRole = 'client';
+      else throw new Error('Unauthorized');
+
+      if (quoteRequest.status !== 'accepted') throw new Error('Only accepted quotes can be signed');
+      if (quote.is_current_version === false) throw new Error('A newer version of this quote exists');
+      if (quote[`${signerRole}_signed_at`]) throw new Error('You have already signed this quote');
+
+      content = quoteSigningContent(quoteRow);
+    }
+
+    const documentHash = await sha256Hex(canonicalJson(content));
+    const signedAt = new Date().toISOString();
+    const signerIp = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || null;
+
+    const { data: signatureRecord, error: signatureError } = await supabaseClient
+      .from('document_signatures')
+      .insert({
+        document_type: documentType,
+        document_id: documentId,
+        signer_id: user.id,
+        signer_role: signerRole,
+        signer_name: signerName.trim(),
+        signature_method: method,
+        signature_data: method === 'typed' ? signature.trim() : signature,
+        consent_text: SIGNING_CONSENT_TEXT,
+        consent_version: SIGNING_CONSENT_VERSION,
+        document_hash: documentHash,
+        signer_ip: signerIp,
+        user_agent: req.headers.get('user-agent'),
+        signed_at: signedAt,
+      })
+      .select('id')
+      .single();
+
+    if (signatureError) throw signatureError;
+
+    const documentUpdate: Record<string, string> = { [`${signerRole}_signed_at`]: signedAt };
+    if (documentType === 'invoice') {
+      documentUpdate[`${signerRole}_signature_url`] = method === 'typed' ? signature.trim() : signature;
+    }
+
+    const { error: updateError } = await supabaseClient
+      .from(documentType === 'invoice' ? 'invoices' : 'quotes')
+      .update(documentUpdate)
+      .eq('id', documentId);
+
+    if (updateError) {
+      await supabaseClient.from('document_signatures').delete().eq('id', signatureRecord.id);
+      throw updateError;
+    }
+
+    console.log(`Signed ${documentType} ${documentId} as ${signerRole}`, documentHash);
+
+    return new Response(
+      JSON.stringify({ success: true, signatureId: signatureRecord.id, documentHash, signedAt }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in sign-document:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
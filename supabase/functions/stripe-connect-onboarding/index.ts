@@ -1,11 +1,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+import { getPaymentProvider } from '../_shared/paymentProviders.ts';
 
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
-  apiVersion: '2023-10-16',
-});
+// Locally the fake provider completes onboarding without Stripe
+const provider = getPaymentProvider(Deno.env.get('PAYMENT_PROVIDER_OVERRIDE') === 'fake' ? 'fake' : 'stripe');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -53,85 +52,66 @@ serve(async (req) => {
         .eq('user_id', user.id)
         .single();
 
-      const account = await stripe.accounts.create({
-        type: 'express',
-        country: 'CY',
-        email: vendorProfile?.email || user.email,
-        capabilities: {
-          card_payments: { requested: true },
-          transfers: { requested: true },
-        },
-        business_type: 'company',
-        metadata: {
-          vendor_id: user.id,
-          business_name: vendorProfile?.business_name || 'Unknown'
-        }
+      const newAccountId = await provider.createPayoutAccount({
+        vendorId: user.id,
+        email: vendorProfile?.email || user.email || '',
+        businessName: vendorProfile?.business_name || 'Unknown'
       });
 
-      console.log('Created Stripe account:', account.id);
-
       await supabaseClient
         .from('vendor_profiles')
         .update({
-          stripe_connect_id: account.id,
+          stripe_connect_id: newAccountId,
           stripe_onboarding_started_at: new Date().toISOString()
         })
         .eq('user_id', user.id);
 
-      const accountLink = await stripe.accountLinks.create({
-        account: account.id,
-        refresh_url: safeRefreshUrl,
-        return_url: safeReturnUrl,
-        type: 'account_onboarding',
+      const url = await provider.createOnboardingLink(newAccountId, {
+        refreshUrl: safeRefreshUrl,
+        returnUrl: safeReturnUrl,
       });
 
       return new Response(
-        JSON.stringify({ url: accountLink.url, accountId: account.id }),
+        JSON.stringify({ url, accountId: newAccountId }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
 
     } else if (action === 'refresh') {
-      const accountLink = await stripe.accountLinks.create({
-        account: accountId,
-        refresh_url: safeRefreshUrl,
-        return_url: safeReturnUrl,
-        type: 'account_onboarding',
+      const url = await provider.createOnboardingLink(accountId, {
+        refreshUrl: safeRefreshUrl,
+        returnUrl: safeReturnUrl,
       });
 
       return new Response(
-        JSON.stringify({ url: accountLink.url }),
+        JSON.stringify({ url }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
 
     } else if (action === 'check-status') {
-      const account = await stripe.accounts.retrieve(accountId);
+      const status = await provider.getPayoutAccountStatus(accountId);
 
       await supabaseClient
         .from('vendor_profiles')
         .update({
-          stripe_charges_enabled: account.charges_enabled,
-          stripe_payouts_enabled: account.payouts_enabled,
-          stripe_onboarding_complete: account.details_submitted,
-          stripe_onboarding_completed_at: account.details_submitted 
+          stripe_charges_enabled: status.chargesEnabled,
+          stripe_payouts_enabled: status.payoutsEnabled,
+          stripe_onboarding_complete: status.detailsSubmitted,
+          stripe_onboarding_completed_at: status.detailsSubmitted 
             ? new Date().toISOString() 
             : null
         })
         .eq('user_id', user.id);
 
       return new Response(
-        JSON.stringify({
-          chargesEnabled: account.charges_enabled,
-          payoutsEnabled: account.payouts_enabled,
-          detailsSubmitted: account.details_submitted,
-        }),
+        JSON.stringify(status),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
 
     } else if (action === 'create-login-link') {
-      const loginLink = await stripe.accounts.createLoginLink(accountId);
+      const url = await provider.createDashboardLink(accountId);
 
       return new Response(
-        JSON.stringify({ url: loginLink.url }),
+        JSON.stringify({ url }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -0,0 +1,164 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CreditNoteItem {
+  description: string;
+  quantity: number;
+  unit_amount: number;
+  tax_rate_id: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { creditNoteId } = await req.json();
+    console.log('Issuing credit note:', creditNoteId);
+
+    // Fetch credit note with items and the original invoice
+    const { data: creditNote, error: creditNoteError } = await supabaseClient
+      .from('credit_notes')
+      .select(`
+        *,
+        invoices!inner(id, status, stripe_invoice_id, total_amount, credited_amount)
+      `)
+      .eq('id', creditNoteId)
+      .single();
+
+    if (creditNoteError) {
+      console.error('Error fetching credit note:', creditNoteError);
+      throw creditNoteError;
+    }
+
+    if (creditNote.vendor_id !== user.id) throw new Error('Unauthorized');
+    if (creditNote.status !== 'draft') throw new Error('Credit note has already been issued');
+
+    const invoice = creditNote.invoices;
+
+    // The lines and totals sent by the browser are recomputed from the invoice lines
+    const { data: totalAmount, error: priceError } = await supabaseClient
+      .rpc('price_credit_note', { credit_note_id_param: creditNote.id });
+
+    if (priceError) throw priceError;
+
+    const { data: creditNoteItems, error: itemsError } = await supabaseClient
+      .from('credit_note_items')
+      .select('description, quantity, unit_amount, tax_rate_id')
+      .eq('credit_note_id', creditNote.id)
+      .order('created_at', { ascending: true });
+
+    if (itemsError) throw itemsError;
+
+    // Issuing takes the next number in the vendor's credit note series; a retry gets the same number back
+    const { data: creditNoteNumber, error: numberError } = await supabaseClient
+      .rpc('issue_credit_note_number', { credit_note_id_param: creditNote.id });
+
+    if (numberError) throw numberError;
+
+    let stripeCreditNoteId: string | null = null;
+    let stripePdfUrl: string | null = null;
+
+    // Issue on the connected account when the invoice was synced to Stripe
+    if (invoice.stripe_invoice_id) {
+      const { data: vendorProfile } = await supabaseClient
+        .from('vendor_profiles')
+        .select('stripe_connect_id')
+        .eq('user_id', creditNote.vendor_id)
+        .single();
+
+      if (!vendorProfile?.stripe_connect_id) {
+        throw new Error('Vendor Stripe Connect account not found');
+      }
+
+      const stripeAccount = vendorProfile.stripe_connect_id;
+      const totalCents = Math.round(Number(totalAmount) * 100);
+
+      const stripeCreditNote = await stripe.creditNotes.create(
+        {
+          invoice: invoice.stripe_invoice_id,
+          lines: (creditNoteItems || []).map((item: CreditNoteItem) => ({
+            type: 'custom_line_item',
+            description: item.description,
+            quantity: Number(item.quantity),
+            unit_amount: Math.round(Number(item.unit_amount) * 100),
+            tax_rates: item.tax_rate_id ? [item.tax_rate_id] : [],
+          })),
+          memo: `${creditNoteNumber} - credit for invoice ${creditNote.original_legal_invoice_number}: ${creditNote.reason}`,
+          metadata: {
+            credit_note_id: creditNote.id,
+            credit_note_number: creditNoteNumber,
+            original_legal_invoice_number: creditNote.original_legal_invoice_number,
+            platform: 'BuildEasy'
+          },
+          // A paid invoice cannot reduce the amount due, so credit the client's balance instead
+          ...(invoice.status === 'paid' ? { credit_amount: totalCents } : {}),
+        },
+        // A retry after the database update failed returns the same Stripe credit note
+        { stripeAccount, idempotencyKey: `credit-note-${creditNote.id}` }
+      );
+
+      stripeCreditNoteId = stripeCreditNote.id;
+      stripePdfUrl = stripeCreditNote.pdf;
+      console.log('Created Stripe credit note:', stripeCreditNote.id);
+    } else {
+      console.log('Invoice not synced to Stripe, issuing credit note locally only');
+    }
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabaseClient
+      .from('credit_notes')
+      .update({
+        status: 'issued',
+        issued_at: now,
+        tax_point: now,
+        stripe_credit_note_id: stripeCreditNoteId,
+        stripe_pdf_url: stripePdfUrl,
+      })
+      .eq('id', creditNoteId);
+
+    if (updateError) throw updateError;
+
+    console.log('Credit note issued:', creditNoteNumber);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        creditNoteNumber,
+        stripeCreditNoteId,
+        pdfUrl: stripePdfUrl,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in stripe-create-credit-note:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
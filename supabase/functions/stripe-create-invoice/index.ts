@@ -1,17 +1,29 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
-
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
-  apiVersion: '2023-10-16',
-});
+import { validateVatNumber } from '../_shared/vatNumber.ts';
+import { checkVies } from '../_shared/vies.ts';
+import { getVendorPaymentProvider } from '../_shared/paymentProviders.ts';
+import type { ProviderInvoice } from '../_shared/paymentProvider.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const DAYS_UNTIL_DUE = 30;
+
+interface InvoiceItemRow {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_amount: number;
+  vat_basis: string | null;
+  vat_rate: number | null;
+  is_material: boolean | null;
+  is_retention: boolean | null;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -29,8 +41,8 @@ serve(async (req) => {
 
     if (!user) throw new Error('Unauthorized');
 
-    const { invoiceId, stripeConnectAccountId } = await req.json();
-    console.log('Creating Stripe invoice for invoice:', invoiceId);
+    const { invoiceId } = await req.json();
+    console.log('Issuing invoice with payment provider:', invoiceId);
 
     // Fetch invoice with items
     const { data: invoice, error: invoiceError } = await supabaseClient
@@ -47,12 +59,67 @@ serve(async (req) => {
       throw invoiceError;
     }
 
+    // Only the vendor issues their invoice, and only once
+    if (invoice.vendor_id !== user.id) throw new Error('Unauthorized');
+    if (invoice.status !== 'draft') {
+      throw new Error(`Invoice ${invoice.legal_invoice_number || invoice.invoice_number} has already been issued`);
+    }
+
     console.log('Invoice data:', { 
       id: invoice.id, 
       total: invoice.total_amount,
       items_count: invoice.invoice_items?.length 
     });
 
+    // Refuse before anything becomes payable with the provider: the status triggers
+    // make the same checks when the invoice leaves draft below
+    const { error: issuableError } = await supabaseClient
+      .rpc('check_invoice_issuable', { invoice_id_param: invoice.id });
+
+    if (issuableError) throw issuableError;
+
+    // Reverse charge needs both parties VAT-registered in Cyprus
+    const usesReverseCharge = invoice.vat_basis === 'reverse_charge' ||
+      (invoice.invoice_items || []).some((item: { vat_basis: string | null }) => item.vat_basis === 'reverse_charge');
+
+    if (usesReverseCharge) {
+      const { data: vendorVat } = await supabaseClient
+        .from('vendor_profiles')
+        .select('vat_id')
+        .eq('user_id', invoice.vendor_id)
+        .maybeSingle();
+
+      const supplier = validateVatNumber(vendorVat?.vat_id || '');
+      const customer = validateVatNumber(invoice.customer_vat_id || '');
+
+      if (!supplier.valid) throw new Error(`Reverse charge: supplier VAT number is invalid. ${supplier.error}`);
+      if (!customer.valid) throw new Error(`Reverse charge: customer VAT number is invalid. ${customer.error}`);
+      if (supplier.countryCode !== 'CY' || customer.countryCode !== 'CY') {
+        throw new Error('Reverse charge applies only when both parties are VAT-registered in Cyprus');
+      }
+
+      const viesResult = await checkVies(customer.countryCode, customer.number, {
+        countryCode: supplier.countryCode,
+        number: supplier.number,
+      });
+      console.log('VIES check for', customer.normalized, viesResult.status);
+
+      if (viesResult.status === 'invalid') {
+        throw new Error(`Reverse charge: ${customer.normalized} is not registered for VAT according to VIES`);
+      }
+
+      const { error: vatCheckError } = await supabaseClient
+        .from('invoices')
+        .update({
+          customer_vat_id: customer.normalized,
+          vat_numbers_checked_at: new Date().toISOString(),
+          vies_check: viesResult,
+        })
+        .eq('id', invoice.id);
+
+      if (vatCheckError) throw vatCheckError;
+    }
+
     // Get client profile
     const { data: clientProfile } = await supabaseClient
       .from('profiles')
@@ -70,111 +137,129 @@ serve(async (req) => {
 
     console.log('Client info:', { email: clientEmail, name: clientName });
 
-    // Get or create Stripe customer on connected account
-    let customerId = null;
-    const customers = await stripe.customers.list(
-      {
-        email: clientEmail,
-        limit: 1,
-      },
-      {
-        stripeAccount: stripeConnectAccountId,
-      }
-    );
+    // The vendor's payment provider and their account with it
+    const { provider, account } = await getVendorPaymentProvider(supabaseClient, invoice.vendor_id);
+    console.log('Payment provider:', provider.name);
 
-    if (customers.data.length > 0) {
-      customerId = customers.data[0].id;
-      console.log('Using existing customer:', customerId);
-    } else {
-      const customer = await stripe.customers.create(
-        {
-          email: clientEmail,
-          name: clientName,
-          metadata: { 
-            client_id: invoice.client_id,
-            platform: 'BuildEasy'
-          },
-        },
-        {
-          stripeAccount: stripeConnectAccountId,
-        }
-      );
-      customerId = customer.id;
-      console.log('Created new customer:', customerId);
-    }
+    const customerId = await provider.findOrCreateCustomer(account, {
+      clientId: invoice.client_id,
+      email: clientEmail,
+      name: clientName,
+    });
+
+    // Issuing takes the next number in the vendor's series; a retry gets the same number back
+    const { data: legalInvoiceNumber, error: numberError } = await supabaseClient
+      .rpc('issue_invoice_number', { invoice_id_param: invoice.id });
 
-    // Create Stripe invoice
-    const stripeInvoice = await stripe.invoices.create(
-      {
-        customer: customerId,
-        auto_advance: false,
-        collection_method: 'send_invoice',
-        days_until_due: 30,
+    if (numberError) throw numberError;
+    console.log('Legal invoice number:', legalInvoiceNumber);
+
+    // Platform commission, collected from the charge where the provider supports it
+    const applicationFeeAmount = Math.round(Number(invoice.service_fee_amount || 0) * 100);
+
+    const lines = (invoice.invoice_items || []).map((item: InvoiceItemRow) => ({
+      id: item.id,
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitAmount: Math.round(Number(item.unit_amount) * 100), // Convert to cents, negative for retention held back
+      vatBasis: item.vat_basis || invoice.vat_basis || 'standard19',
+      vatRate: Number(item.vat_rate ?? invoice.vat_rate ?? 19),
+      isMaterial: !!item.is_material,
+      isRetention: !!item.is_retention,
+    }));
+
+    // Once numbered, an invoice that fails to issue is voided with its provider
+    // invoice, so it can't be paid and its number stays accounted for
+    let providerInvoice: ProviderInvoice | null = null;
+    try {
+      providerInvoice = await provider.createInvoice(account, {
+        invoiceId: invoice.id,
+        invoiceNumber: legalInvoiceNumber,
+        customerId,
+        currency: invoice.currency || 'EUR',
+        totalAmount: Math.round(Number(invoice.total_amount) * 100),
+        lines,
+        applicationFeeAmount,
+        daysUntilDue: DAYS_UNTIL_DUE,
+        footer: invoice.reverse_charge_note || null,
         metadata: {
           invoice_id: invoice.id,
           vat_basis: invoice.vat_basis || 'standard19',
-          legal_invoice_number: invoice.legal_invoice_number || '',
+          legal_invoice_number: legalInvoiceNumber,
+          stage_type: invoice.stage_type || 'full',
+          retention_amount: String(invoice.retention_amount || 0),
+          service_fee_amount: String(invoice.service_fee_amount || 0),
           platform: 'BuildEasy'
         },
-        footer: invoice.reverse_charge_note || undefined,
-      },
-      {
-        stripeAccount: stripeConnectAccountId,
+      });
+
+      // A fee the provider does not take from the charge is owed by the vendor once the invoice is paid
+      if (!providerInvoice.applicationFeeCollected && applicationFeeAmount > 0) {
+        const { error: feeError } = await supabaseClient
+          .from('platform_fee_receivables')
+          .upsert({
+            invoice_id: invoice.id,
+            vendor_id: invoice.vendor_id,
+            payment_provider: provider.name,
+            amount: applicationFeeAmount / 100,
+            currency: invoice.currency || 'EUR',
+          }, { onConflict: 'invoice_id', ignoreDuplicates: true });
+
+        if (feeError) throw feeError;
       }
-    );
 
-    console.log('Created Stripe invoice:', stripeInvoice.id);
-
-    // Add line items
-    if (invoice.invoice_items && invoice.invoice_items.length > 0) {
-      for (const item of invoice.invoice_items) {
-        await stripe.invoiceItems.create(
-          {
-            customer: customerId,
-            invoice: stripeInvoice.id,
-            description: item.description,
-            quantity: Number(item.quantity),
-            unit_amount: Math.round(Number(item.unit_amount) * 100), // Convert to cents
-            metadata: {
-              is_material: item.is_material ? 'true' : 'false'
-            }
-          },
-          {
-            stripeAccount: stripeConnectAccountId,
-          }
-        );
-        console.log('Added line item:', item.description);
+      for (const [itemId, taxRateId] of Object.entries(providerInvoice.lineTaxRates)) {
+        await supabaseClient
+          .from('invoice_items')
+          .update({ tax_rate_id: taxRateId })
+          .eq('id', itemId);
       }
-    }
 
-    // Finalize invoice
-    const finalizedInvoice = await stripe.invoices.finalizeInvoice(
-      stripeInvoice.id,
-      {},
-      { stripeAccount: stripeConnectAccountId }
-    );
+      // Stripe invoices keep their Stripe columns, which credit notes, offline payment sync and reconciliation use
+      const isStripe = provider.name === 'stripe';
+      const { error: sentError } = await supabaseClient
+        .from('invoices')
+        .update({
+          payment_provider: provider.name,
+          provider_invoice_id: providerInvoice.id,
+          payment_url: providerInvoice.paymentUrl,
+          stripe_invoice_id: isStripe ? providerInvoice.id : null,
+          stripe_pdf_url: isStripe ? providerInvoice.pdfUrl : null,
+          stripe_hosted_invoice_url: isStripe ? providerInvoice.paymentUrl : null,
+          due_date: providerInvoice.dueDate,
+          status: 'sent',
+        })
+        .eq('id', invoiceId);
 
-    console.log('Finalized invoice, PDF:', finalizedInvoice.invoice_pdf);
+      if (sentError) throw sentError;
+    } catch (issueError: any) {
+      console.error('Error issuing invoice', legalInvoiceNumber, issueError);
 
-    // Update our invoice with Stripe details
-    await supabaseClient
-      .from('invoices')
-      .update({
-        stripe_invoice_id: finalizedInvoice.id,
-        stripe_pdf_url: finalizedInvoice.invoice_pdf,
-        stripe_hosted_invoice_url: finalizedInvoice.hosted_invoice_url,
-        status: 'sent',
-      })
-      .eq('id', invoiceId);
+      if (providerInvoice) {
+        try {
+          await provider.voidInvoice(account, providerInvoice.id);
+        } catch (voidError) {
+          console.error('Failed to void provider invoice', providerInvoice.id, voidError);
+        }
+      }
+
+      const { error: voidDraftError } = await supabaseClient
+        .rpc('void_unissued_invoice', { invoice_id_param: invoice.id });
+
+      if (voidDraftError) console.error('Failed to void invoice', legalInvoiceNumber, voidDraftError);
+
+      throw new Error(`Invoice ${legalInvoiceNumber} could not be issued and has been voided. Create the invoice again. ${issueError.message}`);
+    }
 
     console.log('Updated invoice in database with payment URL');
 
     return new Response(
       JSON.stringify({
         success: true,
-        stripeInvoiceId: finalizedInvoice.id,
-        pdfUrl: finalizedInvoice.invoice_pdf,
-        hostedInvoiceUrl: finalizedInvoice.hosted_invoice_url,
+        provider: provider.name,
+        providerInvoiceId: providerInvoice.id,
+        pdfUrl: providerInvoice.pdfUrl,
+        paymentUrl: providerInvoice.paymentUrl,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,174 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+
+// Stripe amounts are rounded to the cent, so anything above that is a real difference
+const TOLERANCE = 0.01;
+
+const toAmount = (cents: number) => Math.round(cents) / 100;
+
+const feeOfType = (transaction: Stripe.BalanceTransaction, type: string) =>
+  toAmount(
+    transaction.fee_details
+      .filter((fee) => fee.type === type)
+      .reduce((sum, fee) => sum + fee.amount, 0)
+  );
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Run by pg_cron with the service role key, or on demand by an admin
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) throw new Error('Unauthorized');
+
+    if (token !== serviceRoleKey) {
+      const { data: { user } } = await supabaseClient.auth.getUser(token);
+      if (!user) throw new Error('Unauthorized');
+
+      const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+      if (!isAdmin) throw new Error('Unauthorized');
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const lookbackDays = Number(body?.days) || DEFAULT_LOOKBACK_DAYS;
+    const since = Math.floor(Date.now() / 1000) - lookbackDays * 86400;
+
+    const { data: vendors, error: vendorsError } = await supabaseClient
+      .from('vendor_profiles')
+      .select('user_id, stripe_connect_id')
+      .not('stripe_connect_id', 'is', null);
+
+    if (vendorsError) throw vendorsError;
+
+    console.log('Reconciling connected accounts:', vendors?.length || 0, 'lookback days:', lookbackDays);
+
+    const summary = { payouts: 0, transactions: 0, matched: 0, mismatched: 0, unmatched: 0, errors: [] as string[] };
+
+    for (const vendor of vendors || []) {
+      const stripeAccount = vendor.stripe_connect_id as string;
+
+      try {
+        // Payouts and the balance transactions each one settled
+        const payoutByTransaction = new Map<string, string>();
+
+        for await (const payout of stripe.payouts.list({ created: { gte: since }, limit: 100 }, { stripeAccount })) {
+          const { error: payoutError } = await supabaseClient
+            .from('stripe_payouts')
+            .upsert({
+              stripe_payout_id: payout.id,
+              vendor_id: vendor.user_id,
+              stripe_account: stripeAccount,
+              amount: toAmount(payout.amount),
+              currency: payout.currency,
+              status: payout.status,
+              arrival_date: new Date(payout.arrival_date * 1000).toISOString().slice(0, 10),
+              stripe_created_at: new Date(payout.created * 1000).toISOString(),
+              synced_at: new Date().toISOString(),
+            }, { onConflict: 'stripe_payout_id' });
+
+          if (payoutError) throw payoutError;
+          summary.payouts++;
+
+          // Only automatic payouts can be listed by their balance transactions
+          if (!payout.automatic) continue;
+
+          for await (const transaction of stripe.balanceTransactions.list({ payout: payout.id, limit: 100 }, { stripeAccount })) {
+            payoutByTransaction.set(transaction.id, payout.id);
+          }
+        }
+
+        // Every charge on the connected account, paid out or still pending
+        for await (const transaction of stripe.balanceTransactions.list(
+          { created: { gte: since }, limit: 100, expand: ['data.source'] },
+          { stripeAccount }
+        )) {
+          if (transaction.type !== 'charge' && transaction.type !== 'payment') continue;
+
+          const charge = transaction.source as Stripe.Charge | null;
+          const stripeInvoiceId = typeof charge?.invoice === 'string' ? charge.invoice : charge?.invoice?.id;
+
+          const { data: invoice } = stripeInvoiceId
+            ? await supabaseClient
+              .from('invoices')
+              .select('id, total_amount, service_fee_amount')
+              .eq('stripe_invoice_id', stripeInvoiceId)
+              .maybeSingle()
+            : { data: null };
+
+          const grossAmount = toAmount(transaction.amount);
+          const applicationFeeAmount = feeOfType(transaction, 'application_fee');
+          const expectedFee = invoice ? Number(invoice.service_fee_amount || 0) : null;
+          const expectedAmount = invoice ? Number(invoice.total_amount || 0) : null;
+
+          let status = 'unmatched';
+          if (invoice) {
+            if (Math.abs(applicationFeeAmount - expectedFee!) > TOLERANCE) status = 'fee_mismatch';
+            else if (Math.abs(grossAmount - expectedAmount!) > TOLERANCE) status = 'amount_mismatch';
+            else status = 'matched';
+          }
+
+          const { error: reconcileError } = await supabaseClient
+            .from('invoice_payment_reconciliations')
+            .upsert({
+              stripe_balance_transaction_id: transaction.id,
+              stripe_charge_id: charge?.id ?? null,
+              stripe_account: stripeAccount,
+              stripe_payout_id: payoutByTransaction.get(transaction.id) ?? null,
+              vendor_id: vendor.user_id,
+              invoice_id: invoice?.id ?? null,
+              gross_amount: grossAmount,
+              stripe_fee_amount: feeOfType(transaction, 'stripe_fee'),
+              application_fee_amount: applicationFeeAmount,
+              net_amount: toAmount(transaction.net),
+              expected_amount: expectedAmount,
+              expected_fee_amount: expectedFee,
+              status,
+              reconciled_at: new Date().toISOString(),
+            }, { onConflict: 'stripe_balance_transaction_id' });
+
+          if (reconcileError) throw reconcileError;
+
+          summary.transactions++;
+          if (status === 'matched') summary.matched++;
+          else if (status === 'unmatched') summary.unmatched++;
+          else summary.mismatched++;
+        }
+      } catch (error: any) {
+        // One broken account must not stop the others being reconciled
+        console.error('Reconciliation failed for account:', stripeAccount, error.message);
+        summary.errors.push(`${stripeAccount}: ${error.message}`);
+      }
+    }
+
+    console.log('Reconciliation summary:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in stripe-payout-reconciliation:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+});
@@ -0,0 +1,68 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.5.0?target=deno';
+import { handleLedgeredEvent } from '../_shared/stripeEvents.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseClient.auth.getUser(token);
+
+    if (!user) throw new Error('Unauthorized');
+
+    const { data: isAdmin } = await supabaseClient.rpc('is_admin', { user_id_param: user.id });
+    if (!isAdmin) throw new Error('Unauthorized');
+
+    const { eventId } = await req.json();
+    console.log('Replaying webhook event:', eventId, 'by', user.id);
+
+    const { data: ledgerEvent, error: ledgerError } = await supabaseClient
+      .from('stripe_webhook_events')
+      .select('id, status, payload')
+      .eq('id', eventId)
+      .single();
+
+    if (ledgerError) throw ledgerError;
+    if (ledgerEvent.status === 'processing') throw new Error('Event is being processed, try again shortly');
+
+    // The stored payload is the verified event as Stripe delivered it
+    const { duplicate, result } = await handleLedgeredEvent(
+      stripe,
+      supabaseClient,
+      ledgerEvent.payload as Stripe.Event,
+      { force: true, replayedBy: user.id }
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, duplicate, result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Error in stripe-webhook-replay:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
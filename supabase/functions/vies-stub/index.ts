@@ -0,0 +1,67 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { validateVatNumber } from '../_shared/vatNumber.ts';
+
+/**
+ * Local stand-in for the VIES REST API (POST /check-vat-number) so reverse
+ * charge invoices can be tested without reaching the European Commission.
+ *
+ * Numbers that pass the offline check are reported as registered, except those
+ * listed in VIES_STUB_INVALID (comma separated). Countries listed in
+ * VIES_STUB_UNAVAILABLE answer MS_UNAVAILABLE.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const envList = (name: string) =>
+  (Deno.env.get(name) || '').split(',').map((value) => value.trim().toUpperCase()).filter(Boolean);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!new URL(req.url).pathname.endsWith('/check-vat-number')) {
+      return new Response(JSON.stringify({ error: 'Not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { countryCode, vatNumber } = await req.json();
+    const requestDate = new Date().toISOString();
+
+    if (envList('VIES_STUB_UNAVAILABLE').includes(countryCode)) {
+      return new Response(
+        JSON.stringify({ countryCode, vatNumber, requestDate, valid: false, userError: 'MS_UNAVAILABLE' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { valid, normalized } = validateVatNumber(`${countryCode}${vatNumber}`);
+    const registered = valid && !envList('VIES_STUB_INVALID').includes(normalized);
+
+    return new Response(
+      JSON.stringify({
+        countryCode,
+        vatNumber,
+        requestDate,
+        valid: registered,
+        userError: registered ? 'VALID' : 'INVALID',
+        requestIdentifier: `STUB${Date.now()}`,
+        name: registered ? 'Stub Trader Ltd' : '---',
+        address: registered ? '1 Stub Street, Nicosia' : '---',
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error in vies-stub:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
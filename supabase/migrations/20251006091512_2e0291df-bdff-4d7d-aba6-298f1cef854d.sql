@@ -0,0 +1,31 @@
+-- Per-line VAT on invoice items (mixed-rate invoices)
+ALTER TABLE public.invoice_items
+ADD COLUMN IF NOT EXISTS vat_basis TEXT CHECK (vat_basis IN ('standard19', 'reduced5_renovation', 'reduced5_primary_residence', 'reverse_charge')),
+ADD COLUMN IF NOT EXISTS vat_rate DECIMAL(5,2);
+
+-- Invoices combining several VAT treatments use the 'mixed' basis
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_vat_basis_check;
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_vat_basis_check
+CHECK (vat_basis IN ('standard19', 'reduced5_renovation', 'reduced5_primary_residence', 'reverse_charge', 'mixed'));
+
+COMMENT ON COLUMN public.invoices.vat_basis IS 
+'Cyprus VAT basis: standard19 (19%), reduced5_renovation (5% for renovations), reduced5_primary_residence (5% for first 130m² of primary residence), reverse_charge (domestic reverse charge for B2B construction), mixed (line items carry different bases, see invoice_items.vat_basis)';
+
+COMMENT ON COLUMN public.invoice_items.tax_rate_id IS 
+'Stripe tax rate ID on the connected account used for this line';
+
+-- Per-rate VAT summary for each invoice
+CREATE OR REPLACE VIEW public.invoice_vat_summary AS
+SELECT 
+  ii.invoice_id,
+  ii.vat_basis,
+  ii.vat_rate,
+  SUM(ii.line_total) as taxable_amount,
+  SUM(ii.vat_amount) as vat_amount
+FROM public.invoice_items ii
+GROUP BY ii.invoice_id, ii.vat_basis, ii.vat_rate;
+
+ALTER VIEW public.invoice_vat_summary SET (security_invoker = on);
+
+GRANT SELECT ON public.invoice_vat_summary TO authenticated;
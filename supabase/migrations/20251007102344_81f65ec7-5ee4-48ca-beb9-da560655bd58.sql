@@ -0,0 +1,234 @@
+-- Credit notes: full or partial corrections of issued invoices
+
+-- 1. Invoices can no longer be replaced by deleting them. A quote may have a new
+--    invoice only once the previous one has been fully credited.
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS unique_invoice_per_quote;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_invoice_per_quote
+ON public.invoices(quote_id)
+WHERE status NOT IN ('credited', 'voided', 'cancelled');
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS credited_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- 2. Credit notes table
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id),
+  vendor_id UUID NOT NULL,
+  client_id UUID NOT NULL,
+  credit_note_number TEXT UNIQUE,
+  original_legal_invoice_number TEXT NOT NULL,
+  credit_type TEXT NOT NULL CHECK (credit_type IN ('full', 'partial')),
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued', 'voided')),
+  subtotal_amount DECIMAL(10,2) NOT NULL,
+  vat_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(10,2) NOT NULL,
+  currency TEXT DEFAULT 'EUR',
+  issued_at TIMESTAMPTZ,
+  tax_point TIMESTAMPTZ,
+  stripe_credit_note_id TEXT UNIQUE,
+  stripe_pdf_url TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  invoice_item_id UUID REFERENCES public.invoice_items(id),
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,2) DEFAULT 1,
+  unit_amount DECIMAL(10,2) NOT NULL,
+  line_total DECIMAL(10,2) NOT NULL,
+  vat_basis TEXT CHECK (vat_basis IN ('standard19', 'reduced5_renovation', 'reduced5_primary_residence', 'reverse_charge')),
+  vat_rate DECIMAL(5,2),
+  vat_amount DECIMAL(10,2) DEFAULT 0,
+  tax_rate_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON public.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_vendor_id ON public.credit_notes(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_client_id ON public.credit_notes(client_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON public.credit_note_items(credit_note_id);
+
+-- 3. RLS: both parties can view, only the invoice vendor can create. No deletes.
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their credit notes"
+ON public.credit_notes FOR SELECT
+USING (auth.uid() = client_id OR auth.uid() = vendor_id OR is_admin(auth.uid()));
+
+CREATE POLICY "Vendors can create credit notes for their invoices"
+ON public.credit_notes FOR INSERT
+WITH CHECK (
+  auth.uid() = vendor_id
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE invoices.id = credit_notes.invoice_id
+      AND invoices.vendor_id = auth.uid()
+      AND invoices.client_id = credit_notes.client_id
+  )
+);
+
+CREATE POLICY "Users can view their credit note items"
+ON public.credit_note_items FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.credit_notes
+    WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND (credit_notes.client_id = auth.uid() OR credit_notes.vendor_id = auth.uid() OR is_admin(auth.uid()))
+  )
+);
+
+CREATE POLICY "Vendors can insert items for their draft credit notes"
+ON public.credit_note_items FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.credit_notes
+    WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND credit_notes.vendor_id = auth.uid()
+      AND credit_notes.status = 'draft'
+  )
+);
+
+-- 4. Separate numbering series for credit notes
+CREATE OR REPLACE FUNCTION public.generate_credit_note_number()
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  year_suffix TEXT;
+  sequence_num INT;
+BEGIN
+  year_suffix := TO_CHAR(NOW(), 'YY');
+  
+  SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM '[0-9]+$') AS INTEGER)), 0) + 1
+  INTO sequence_num
+  FROM public.credit_notes
+  WHERE credit_note_number LIKE 'CN-' || year_suffix || '-%';
+  
+  RETURN 'CN-' || year_suffix || '-' || LPAD(sequence_num::TEXT, 4, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_credit_note_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.credit_note_number IS NULL THEN
+    NEW.credit_note_number := generate_credit_note_number();
+  END IF;
+  
+  -- Always reference the legal number of the invoice being corrected
+  SELECT COALESCE(legal_invoice_number, invoice_number)
+  INTO NEW.original_legal_invoice_number
+  FROM public.invoices
+  WHERE id = NEW.invoice_id;
+  
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_credit_note_number_trigger ON public.credit_notes;
+CREATE TRIGGER set_credit_note_number_trigger
+  BEFORE INSERT ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_credit_note_number();
+
+CREATE TRIGGER update_credit_notes_updated_at
+  BEFORE UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 5. Issuing a credit note updates the credited amount on the original invoice
+CREATE OR REPLACE FUNCTION public.apply_credit_note_to_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_credited numeric;
+  invoice_total numeric;
+BEGIN
+  IF NEW.status = 'issued' AND OLD.status IS DISTINCT FROM 'issued' THEN
+    UPDATE public.invoices
+    SET credited_amount = credited_amount + NEW.total_amount
+    WHERE id = NEW.invoice_id
+    RETURNING credited_amount, total_amount INTO new_credited, invoice_total;
+
+    IF new_credited > invoice_total + 0.01 THEN
+      RAISE EXCEPTION 'Credit notes exceed the invoice total';
+    END IF;
+
+    IF new_credited >= invoice_total - 0.01 THEN
+      UPDATE public.invoices SET status = 'credited' WHERE id = NEW.invoice_id;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_credit_note_to_invoice_trigger
+  AFTER UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_credit_note_to_invoice();
+
+-- 6. Audit trail
+CREATE OR REPLACE FUNCTION public.log_credit_note_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM log_security_event(
+      'credit_note_created',
+      'credit_notes',
+      NEW.id,
+      jsonb_build_object(
+        'invoice_id', NEW.invoice_id,
+        'original_legal_invoice_number', NEW.original_legal_invoice_number,
+        'credit_note_number', NEW.credit_note_number,
+        'credit_type', NEW.credit_type,
+        'total_amount', NEW.total_amount,
+        'reason', NEW.reason
+      )
+    );
+  ELSIF TG_OP = 'UPDATE' AND OLD.status != NEW.status THEN
+    PERFORM log_security_event(
+      'credit_note_status_changed',
+      'credit_notes',
+      NEW.id,
+      jsonb_build_object(
+        'old_status', OLD.status,
+        'new_status', NEW.status,
+        'credit_note_number', NEW.credit_note_number
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_credit_note_actions
+  AFTER INSERT OR UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_credit_note_action();
+
+COMMENT ON TABLE public.credit_notes IS 
+'Credit notes correcting issued invoices. Numbered in their own CN-YY-NNNN series and linked to the original legal invoice number';
+
+COMMENT ON COLUMN public.invoices.credited_amount IS 
+'Sum of issued credit notes against this invoice. Status becomes credited when it reaches total_amount';
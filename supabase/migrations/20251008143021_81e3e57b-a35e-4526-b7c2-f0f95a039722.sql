@@ -0,0 +1,103 @@
+-- Staged invoicing: one invoice per deposit or milestone of an accepted quote
+
+-- 1. Stage columns on invoices
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS stage_type TEXT NOT NULL DEFAULT 'full' CHECK (stage_type IN ('full', 'deposit', 'milestone', 'balance')),
+ADD COLUMN IF NOT EXISTS stage_index INTEGER,
+ADD COLUMN IF NOT EXISTS stage_label TEXT,
+ADD COLUMN IF NOT EXISTS stage_percentage DECIMAL(5,2);
+
+-- 2. Several invoices per quote are allowed, but each stage can only be billed once
+DROP INDEX IF EXISTS public.unique_active_invoice_per_quote;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_invoice_per_quote_stage
+ON public.invoices(quote_id, stage_type, COALESCE(stage_index, -1))
+WHERE status NOT IN ('credited', 'voided', 'cancelled');
+
+-- 3. Net amount already invoiced against a quote (invoices less issued credit notes)
+CREATE OR REPLACE FUNCTION public.get_quote_invoiced_amount(quote_id_param uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(subtotal_amount) FROM invoices
+      WHERE quote_id = quote_id_param
+        AND status NOT IN ('voided', 'cancelled')
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.subtotal_amount) FROM credit_notes cn
+      JOIN invoices i ON i.id = cn.invoice_id
+      WHERE i.quote_id = quote_id_param
+        AND i.status NOT IN ('voided', 'cancelled')
+        AND cn.status = 'issued'
+    ), 0);
+$$;
+
+-- 4. Block invoicing beyond 100% of the quote
+CREATE OR REPLACE FUNCTION public.check_quote_invoice_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  contract_amount numeric;
+  already_invoiced numeric;
+BEGIN
+  -- Lock the quote so concurrent invoices for it are checked one after the other
+  -- and each one counts the invoices inserted before it
+  SELECT total_amount INTO contract_amount FROM quotes WHERE id = NEW.quote_id FOR UPDATE;
+
+  IF contract_amount IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  already_invoiced := get_quote_invoiced_amount(NEW.quote_id);
+
+  IF already_invoiced + COALESCE(NEW.subtotal_amount, NEW.total_amount) > contract_amount + 0.01 THEN
+    RAISE EXCEPTION 'Invoice would exceed 100%% of the quote: % already invoiced of %',
+      already_invoiced, contract_amount;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_quote_invoice_limit_trigger ON public.invoices;
+CREATE TRIGGER check_quote_invoice_limit_trigger
+  BEFORE INSERT ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_quote_invoice_limit();
+
+-- 5. Contract billing progress per quote
+CREATE OR REPLACE VIEW public.quote_billing_summary AS
+SELECT 
+  q.id as quote_id,
+  q.quote_request_id,
+  qr.vendor_id,
+  qr.client_id,
+  q.total_amount as contract_amount,
+  get_quote_invoiced_amount(q.id) as invoiced_amount,
+  ROUND(get_quote_invoiced_amount(q.id) / NULLIF(q.total_amount, 0) * 100, 2) as invoiced_percentage,
+  COALESCE(SUM(i.total_amount - i.credited_amount) FILTER (WHERE i.status = 'paid'), 0) as paid_amount,
+  COALESCE(SUM(i.total_amount - i.credited_amount) FILTER (WHERE i.status NOT IN ('paid', 'draft', 'credited', 'voided', 'cancelled')), 0) as outstanding_amount,
+  q.total_amount - get_quote_invoiced_amount(q.id) as uninvoiced_amount,
+  COUNT(i.id) FILTER (WHERE i.status NOT IN ('credited', 'voided', 'cancelled')) as invoice_count
+FROM public.quotes q
+JOIN public.quote_requests qr ON qr.id = q.quote_request_id
+LEFT JOIN public.invoices i ON i.quote_id = q.id
+WHERE qr.status = 'accepted'
+GROUP BY q.id, q.quote_request_id, qr.vendor_id, qr.client_id, q.total_amount;
+
+ALTER VIEW public.quote_billing_summary SET (security_invoker = on);
+
+GRANT SELECT ON public.quote_billing_summary TO authenticated;
+
+COMMENT ON COLUMN public.invoices.stage_type IS 
+'Billing stage of the quote: full (whole contract), deposit, milestone (see stage_index into quotes.milestones) or balance (remainder)';
+
+COMMENT ON COLUMN public.invoices.stage_percentage IS 
+'Share of the quote total billed by this invoice, before VAT';
@@ -0,0 +1,341 @@
+-- Retention (holdback) on construction contracts
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- 1. Retention terms on quotes
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS retention_percentage DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (retention_percentage >= 0 AND retention_percentage <= 20),
+ADD COLUMN IF NOT EXISTS defects_liability_months INTEGER NOT NULL DEFAULT 12;
+
+-- 2. Retention held on each stage invoice (net of VAT)
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS retention_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS retention_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_stage_type_check;
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_stage_type_check
+CHECK (stage_type IN ('full', 'deposit', 'milestone', 'balance', 'retention_release'));
+
+ALTER TABLE public.invoice_items
+ADD COLUMN IF NOT EXISTS is_retention BOOLEAN NOT NULL DEFAULT false;
+
+-- 3. Retention per contract: completion, defects liability period and release
+CREATE TABLE IF NOT EXISTS public.contract_retentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL UNIQUE REFERENCES public.quotes(id),
+  quote_request_id UUID NOT NULL REFERENCES public.quote_requests(id),
+  vendor_id UUID NOT NULL,
+  client_id UUID NOT NULL,
+  retention_percentage DECIMAL(5,2) NOT NULL,
+  defects_liability_months INTEGER NOT NULL,
+  completion_date DATE,
+  release_due_date DATE,
+  client_signed_off_at TIMESTAMPTZ,
+  release_invoice_id UUID REFERENCES public.invoices(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_retentions_vendor_id ON public.contract_retentions(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_contract_retentions_client_id ON public.contract_retentions(client_id);
+CREATE INDEX IF NOT EXISTS idx_contract_retentions_release_due_date ON public.contract_retentions(release_due_date)
+WHERE release_invoice_id IS NULL;
+
+ALTER TABLE public.contract_retentions ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the functions below
+CREATE POLICY "Contract parties can view retentions"
+ON public.contract_retentions FOR SELECT
+USING (auth.uid() = vendor_id OR auth.uid() = client_id OR is_admin(auth.uid()));
+
+CREATE TRIGGER update_contract_retentions_updated_at
+  BEFORE UPDATE ON public.contract_retentions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4. Open the retention record with the first invoice that holds retention
+CREATE OR REPLACE FUNCTION public.track_contract_retention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.retention_amount > 0 THEN
+    INSERT INTO contract_retentions (
+      quote_id,
+      quote_request_id,
+      vendor_id,
+      client_id,
+      retention_percentage,
+      defects_liability_months
+    )
+    SELECT q.id, q.quote_request_id, NEW.vendor_id, NEW.client_id, NEW.retention_percentage, q.defects_liability_months
+    FROM quotes q
+    WHERE q.id = NEW.quote_id
+    ON CONFLICT (quote_id) DO NOTHING;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_contract_retention_trigger ON public.invoices;
+CREATE TRIGGER track_contract_retention_trigger
+  AFTER INSERT ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_contract_retention();
+
+-- 5. Held and released retention per contract
+CREATE OR REPLACE VIEW public.contract_retention_summary AS
+SELECT 
+  cr.*,
+  q.total_amount as contract_amount,
+  p.title as project_title,
+  COALESCE(held.amount, 0) as held_amount,
+  COALESCE(released.amount, 0) as released_amount,
+  CASE
+    WHEN released.amount IS NOT NULL THEN 'released'
+    WHEN cr.client_signed_off_at IS NOT NULL OR cr.release_due_date <= CURRENT_DATE THEN 'release_due'
+    ELSE 'holding'
+  END as retention_status
+FROM public.contract_retentions cr
+JOIN public.quotes q ON q.id = cr.quote_id
+JOIN public.quote_requests qr ON qr.id = cr.quote_request_id
+LEFT JOIN public.projects p ON p.id = qr.project_id
+LEFT JOIN LATERAL (
+  SELECT -SUM(ii.line_total) as amount
+  FROM public.invoice_items ii
+  JOIN public.invoices i ON i.id = ii.invoice_id
+  WHERE i.quote_id = cr.quote_id
+    AND ii.is_retention
+    AND i.status NOT IN ('credited', 'voided', 'cancelled')
+) held ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(i.subtotal_amount) as amount
+  FROM public.invoices i
+  WHERE i.quote_id = cr.quote_id
+    AND i.stage_type = 'retention_release'
+    AND i.status NOT IN ('credited', 'voided', 'cancelled')
+) released ON true;
+
+ALTER VIEW public.contract_retention_summary SET (security_invoker = on);
+
+GRANT SELECT ON public.contract_retention_summary TO authenticated;
+
+-- 6. Vendor records practical completion, which starts the defects liability period
+CREATE OR REPLACE FUNCTION public.record_practical_completion(quote_id_param uuid, completion_date_param date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE contract_retentions
+  SET completion_date = completion_date_param,
+      release_due_date = (completion_date_param + make_interval(months => defects_liability_months))::date
+  WHERE quote_id = quote_id_param
+    AND vendor_id = auth.uid()
+    AND release_invoice_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Retention not found or already released';
+  END IF;
+END;
+$$;
+
+-- 7. Draft the retention release invoice, keeping the VAT rates the retention was held under
+CREATE OR REPLACE FUNCTION public.create_retention_release_invoice(quote_id_param uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  retention record;
+  held_total numeric;
+  vat_total numeric;
+  basis_count integer;
+  single_basis text;
+  service_fee_pct numeric;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO retention FROM contract_retentions WHERE quote_id = quote_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No retention held on this quote';
+  END IF;
+
+  -- Scheduled runs have no user; otherwise only the contract parties may trigger a release
+  IF auth.uid() IS NOT NULL AND auth.uid() NOT IN (retention.vendor_id, retention.client_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF retention.release_invoice_id IS NOT NULL THEN
+    RETURN retention.release_invoice_id;
+  END IF;
+
+  IF retention.client_signed_off_at IS NULL
+     AND (retention.release_due_date IS NULL OR retention.release_due_date > CURRENT_DATE) THEN
+    RAISE EXCEPTION 'Retention is not due for release yet';
+  END IF;
+
+  CREATE TEMP TABLE retention_groups ON COMMIT DROP AS
+  SELECT ii.vat_basis, ii.vat_rate, -SUM(ii.line_total) as held
+  FROM invoice_items ii
+  JOIN invoices i ON i.id = ii.invoice_id
+  WHERE i.quote_id = quote_id_param
+    AND ii.is_retention
+    AND i.status NOT IN ('credited', 'voided', 'cancelled')
+  GROUP BY ii.vat_basis, ii.vat_rate
+  HAVING -SUM(ii.line_total) > 0;
+
+  SELECT
+    COALESCE(SUM(held), 0),
+    COALESCE(SUM(ROUND(held * COALESCE(vat_rate, 0) / 100, 2)), 0),
+    COUNT(DISTINCT vat_basis),
+    MIN(vat_basis)
+  INTO held_total, vat_total, basis_count, single_basis
+  FROM retention_groups;
+
+  IF held_total <= 0 THEN
+    DROP TABLE retention_groups;
+    RAISE EXCEPTION 'No retention held on this quote';
+  END IF;
+
+  service_fee_pct := get_vendor_service_fee(retention.vendor_id);
+
+  INSERT INTO invoices (
+    quote_id,
+    quote_version_id,
+    client_id,
+    vendor_id,
+    subtotal_amount,
+    vat_amount,
+    vat_rate,
+    vat_basis,
+    total_amount,
+    service_fee_percentage,
+    service_fee_amount,
+    vendor_payout_amount,
+    currency,
+    status,
+    stage_type,
+    stage_label,
+    stage_percentage
+  ) VALUES (
+    quote_id_param,
+    quote_id_param,
+    retention.client_id,
+    retention.vendor_id,
+    held_total,
+    vat_total,
+    ROUND(vat_total / held_total * 100, 2),
+    CASE WHEN basis_count = 1 THEN single_basis ELSE 'mixed' END,
+    held_total + vat_total,
+    service_fee_pct,
+    (held_total + vat_total) * service_fee_pct / 100,
+    (held_total + vat_total) * (1 - service_fee_pct / 100),
+    'EUR',
+    'draft',
+    'retention_release',
+    'Retention release (' || retention.retention_percentage || '%)',
+    retention.retention_percentage
+  )
+  RETURNING id INTO new_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, description, quantity, unit_amount, line_total, vat_basis, vat_rate, vat_amount)
+  SELECT
+    new_invoice_id,
+    'Release of retention - ' || COALESCE(vat_rate, 0) || '% VAT',
+    1,
+    held,
+    held,
+    vat_basis,
+    vat_rate,
+    ROUND(held * COALESCE(vat_rate, 0) / 100, 2)
+  FROM retention_groups;
+
+  DROP TABLE retention_groups;
+
+  UPDATE contract_retentions SET release_invoice_id = new_invoice_id WHERE id = retention.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- 8. Client sign-off releases the retention straight away, once the vendor has
+--    recorded practical completion
+CREATE OR REPLACE FUNCTION public.sign_off_retention(quote_id_param uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  retention contract_retentions%ROWTYPE;
+BEGIN
+  SELECT * INTO retention
+  FROM contract_retentions
+  WHERE quote_id = quote_id_param
+    AND client_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND OR retention.client_signed_off_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Retention not found or already signed off';
+  END IF;
+
+  IF retention.completion_date IS NULL THEN
+    RAISE EXCEPTION 'Practical completion has not been recorded for this contract yet';
+  END IF;
+
+  UPDATE contract_retentions
+  SET client_signed_off_at = now()
+  WHERE id = retention.id;
+
+  RETURN create_retention_release_invoice(quote_id_param);
+END;
+$$;
+
+-- 9. Daily job drafting release invoices once the defects liability period has ended
+CREATE OR REPLACE FUNCTION public.release_due_retentions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due record;
+  released integer := 0;
+BEGIN
+  FOR due IN
+    SELECT quote_id FROM contract_retentions
+    WHERE release_invoice_id IS NULL
+      AND release_due_date <= CURRENT_DATE
+  LOOP
+    BEGIN
+      PERFORM create_retention_release_invoice(due.quote_id);
+      released := released + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Retention release failed for quote %: %', due.quote_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_due_retentions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'release-due-retentions',
+  '0 6 * * *',
+  $$ SELECT public.release_due_retentions(); $$
+);
+
+COMMENT ON COLUMN public.quotes.retention_percentage IS 
+'Percentage of each stage invoice held back until the defects liability period ends';
+
+COMMENT ON COLUMN public.invoices.retention_amount IS 
+'Net amount held back on this invoice as retention. VAT on it is charged by the retention release invoice';
@@ -0,0 +1,52 @@
+-- Platform-rendered invoice and credit note PDFs
+
+-- 1. Stored PDF on invoices and credit notes
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS pdf_storage_path TEXT,
+ADD COLUMN IF NOT EXISTS pdf_generated_at TIMESTAMPTZ;
+
+ALTER TABLE public.credit_notes
+ADD COLUMN IF NOT EXISTS pdf_storage_path TEXT,
+ADD COLUMN IF NOT EXISTS pdf_generated_at TIMESTAMPTZ;
+
+-- 2. Vendor branding used on the documents
+ALTER TABLE public.vendor_profiles
+ADD COLUMN IF NOT EXISTS invoice_logo_url TEXT,
+ADD COLUMN IF NOT EXISTS invoice_accent_color TEXT DEFAULT '#1e3a8a' CHECK (invoice_accent_color ~ '^#[0-9a-fA-F]{6}$'),
+ADD COLUMN IF NOT EXISTS invoice_footer_text TEXT;
+
+-- 3. Private bucket for the rendered documents, written by the generate-invoice-pdf function only
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'invoice-documents',
+  'invoice-documents',
+  false,
+  5242880, -- 5MB limit
+  ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- 4. Invoice parties and admins can read the documents
+CREATE POLICY "Invoice parties can view invoice documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'invoice-documents'
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.invoices i
+      WHERE i.pdf_storage_path = storage.objects.name
+        AND (i.vendor_id = auth.uid() OR i.client_id = auth.uid() OR is_admin(auth.uid()))
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.credit_notes cn
+      WHERE cn.pdf_storage_path = storage.objects.name
+        AND (cn.vendor_id = auth.uid() OR cn.client_id = auth.uid() OR is_admin(auth.uid()))
+    )
+  )
+);
+
+COMMENT ON COLUMN public.invoices.pdf_storage_path IS 
+'Path of the platform-rendered invoice PDF in the invoice-documents bucket. Independent of the Stripe PDF';
+
+COMMENT ON COLUMN public.credit_notes.pdf_storage_path IS 
+'Path of the platform-rendered credit note PDF in the invoice-documents bucket';
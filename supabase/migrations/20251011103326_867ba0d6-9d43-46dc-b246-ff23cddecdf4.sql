@@ -0,0 +1,118 @@
+-- Stripe webhook event ledger, refunds and disputes
+
+-- 1. Every Stripe event received, keyed by the Stripe event id
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+  id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  stripe_account TEXT,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  event_created_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  result JSONB,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processing_started_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ,
+  replayed_by UUID,
+  replayed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON public.stripe_webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_type ON public.stripe_webhook_events(event_type);
+
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the webhook functions with the service role only
+CREATE POLICY "Admins can view webhook events"
+ON public.stripe_webhook_events FOR SELECT
+USING (is_admin(auth.uid()));
+
+-- 2. Refund and dispute state on invoices
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS dispute_status TEXT,
+ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_stripe_event_at TIMESTAMPTZ;
+
+-- 3. Claim an event for processing. Returns false when it was already handled
+-- or another delivery is working on it, which makes redeliveries no-ops.
+CREATE OR REPLACE FUNCTION public.claim_stripe_webhook_event(
+  event_id_param text,
+  event_type_param text,
+  stripe_account_param text,
+  livemode_param boolean,
+  event_created_at_param timestamptz,
+  payload_param jsonb,
+  force_param boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed_id text;
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, stripe_account, livemode, event_created_at, payload)
+  VALUES (event_id_param, event_type_param, stripe_account_param, livemode_param, event_created_at_param, payload_param)
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE stripe_webhook_events
+  SET status = 'processing',
+      processing_started_at = now(),
+      attempts = attempts + 1,
+      last_error = NULL
+  WHERE id = event_id_param
+    AND (
+      status IN ('received', 'failed')
+      -- A delivery that died mid-processing is retried after five minutes
+      OR (status = 'processing' AND processing_started_at < now() - interval '5 minutes')
+      OR (force_param AND status <> 'processing')
+    )
+  RETURNING id INTO claimed_id;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_webhook_event(text, text, text, boolean, timestamptz, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+
+-- 4. Log replays to the audit trail
+CREATE OR REPLACE FUNCTION public.log_webhook_replay()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.replayed_at IS DISTINCT FROM OLD.replayed_at AND NEW.replayed_by IS NOT NULL THEN
+    PERFORM log_security_event(
+      'stripe_webhook_replayed',
+      'stripe_webhook_events',
+      NULL,
+      jsonb_build_object(
+        'event_id', NEW.id,
+        'event_type', NEW.event_type,
+        'replayed_by', NEW.replayed_by
+      )
+    );
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_webhook_replay_trigger ON public.stripe_webhook_events;
+CREATE TRIGGER log_webhook_replay_trigger
+  AFTER UPDATE ON public.stripe_webhook_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_webhook_replay();
+
+COMMENT ON TABLE public.stripe_webhook_events IS 
+'Ledger of Stripe webhook events. Each event is applied at most once and failed events can be replayed by admins';
+
+COMMENT ON COLUMN public.invoices.last_stripe_event_at IS 
+'Creation time of the latest Stripe event applied to this invoice. Older events do not change its status';
@@ -0,0 +1,134 @@
+-- Overdue invoice reminders (dunning) and in-app notifications
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- 1. Due date and dunning state on invoices
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS due_date DATE,
+ADD COLUMN IF NOT EXISTS dunning_paused BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS dunning_paused_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reminder_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_reminder_at TIMESTAMPTZ;
+
+-- Stripe invoices are created with days_until_due = 30
+UPDATE public.invoices
+SET due_date = (COALESCE(issued_at, created_at) + interval '30 days')::date
+WHERE due_date IS NULL
+  AND status IN ('sent', 'payment_failed');
+
+CREATE INDEX IF NOT EXISTS idx_invoices_dunning ON public.invoices(due_date)
+WHERE status IN ('sent', 'payment_failed', 'overdue') AND NOT dunning_paused;
+
+-- 2. Every reminder sent for an invoice
+CREATE TABLE IF NOT EXISTS public.invoice_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  stage INTEGER NOT NULL,
+  days_overdue INTEGER NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'in_app')),
+  recipient_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_invoice_id ON public.invoice_reminders(invoice_id);
+
+ALTER TABLE public.invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Invoice parties can view reminders"
+ON public.invoice_reminders FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_reminders.invoice_id
+      AND (i.vendor_id = auth.uid() OR i.client_id = auth.uid() OR is_admin(auth.uid()))
+  )
+);
+
+-- 3. In-app notifications
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  metadata JSONB DEFAULT '{}',
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications(user_id, created_at DESC)
+WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+ON public.notifications FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their notifications as read"
+ON public.notifications FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- 4. Vendors pause or resume reminders per invoice
+CREATE OR REPLACE FUNCTION public.set_invoice_dunning_paused(invoice_id_param uuid, paused_param boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE invoices
+  SET dunning_paused = paused_param,
+      dunning_paused_at = CASE WHEN paused_param THEN now() ELSE NULL END
+  WHERE id = invoice_id_param
+    AND vendor_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM log_security_event(
+    CASE WHEN paused_param THEN 'invoice_dunning_paused' ELSE 'invoice_dunning_resumed' END,
+    'invoices',
+    invoice_id_param,
+    '{}'::jsonb
+  );
+END;
+$$;
+
+-- 5. Reminder cadence: days after the due date for each escalation stage
+INSERT INTO public.platform_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'dunning_schedule',
+  '{"enabled": true, "stages": [{"days_overdue": 1, "tone": "friendly"}, {"days_overdue": 7, "tone": "reminder"}, {"days_overdue": 14, "tone": "firm"}, {"days_overdue": 30, "tone": "final"}]}'::jsonb,
+  'json',
+  'Overdue invoice reminder stages, in days after the due date'
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 6. Run the invoice-dunning function every morning.
+-- Requires the project_url and service_role_key secrets in Vault.
+SELECT cron.schedule(
+  'invoice-dunning',
+  '0 7 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/invoice-dunning',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+COMMENT ON COLUMN public.invoices.dunning_paused IS 
+'When true the invoice-dunning job sends no reminders for this invoice';
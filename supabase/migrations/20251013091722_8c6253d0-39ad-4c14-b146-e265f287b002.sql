@@ -0,0 +1,105 @@
+-- Quarterly VAT return (VAT4) figures per vendor, by tax point
+
+-- 1. Cyprus VAT quarters are staggered: a vendor's periods start in January,
+--    February or March depending on the category the Tax Department assigned.
+ALTER TABLE public.vendor_profiles
+ADD COLUMN IF NOT EXISTS vat_period_start_month SMALLINT NOT NULL DEFAULT 1 CHECK (vat_period_start_month IN (1, 2, 3));
+
+CREATE OR REPLACE FUNCTION public.vat_period_start(tax_point_param timestamptz, start_month_param integer)
+RETURNS date
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (
+    date_trunc('month', tax_point_param AT TIME ZONE 'Europe/Nicosia')
+    - make_interval(months => ((EXTRACT(MONTH FROM tax_point_param AT TIME ZONE 'Europe/Nicosia')::int - start_month_param) % 3 + 3) % 3)
+  )::date;
+$$;
+
+-- 2. Every issued invoice and credit note line, signed, with its VAT period.
+--    Credit notes count in the period of their own tax point.
+CREATE OR REPLACE VIEW public.vat_return_lines AS
+SELECT
+  i.vendor_id,
+  'invoice'::text as document_type,
+  i.id as document_id,
+  COALESCE(i.legal_invoice_number, i.invoice_number) as document_number,
+  i.tax_point,
+  public.vat_period_start(i.tax_point, COALESCE(vp.vat_period_start_month, 1)) as period_start,
+  COALESCE(ii.vat_basis, i.vat_basis) as vat_basis,
+  COALESCE(ii.vat_rate, i.vat_rate, 0) as vat_rate,
+  ii.line_total as net_amount,
+  COALESCE(ii.vat_amount, 0) as vat_amount
+FROM public.invoices i
+JOIN public.invoice_items ii ON ii.invoice_id = i.id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = i.vendor_id
+WHERE i.tax_point IS NOT NULL
+  AND i.status NOT IN ('draft', 'voided', 'cancelled')
+UNION ALL
+SELECT
+  cn.vendor_id,
+  'credit_note'::text,
+  cn.id,
+  cn.credit_note_number,
+  cn.tax_point,
+  public.vat_period_start(cn.tax_point, COALESCE(vp.vat_period_start_month, 1)),
+  cni.vat_basis,
+  COALESCE(cni.vat_rate, 0),
+  -cni.line_total,
+  -COALESCE(cni.vat_amount, 0)
+FROM public.credit_notes cn
+JOIN public.credit_note_items cni ON cni.credit_note_id = cn.id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = cn.vendor_id
+WHERE cn.tax_point IS NOT NULL
+  AND cn.status = 'issued';
+
+ALTER VIEW public.vat_return_lines SET (security_invoker = on);
+
+-- 3. Output VAT by period and rate, with the same grouping as invoice_analytics
+CREATE OR REPLACE VIEW public.vat_return_summary AS
+SELECT
+  vendor_id,
+  period_start,
+  (period_start + interval '3 months' - interval '1 day')::date as period_end,
+  vat_basis,
+  vat_rate,
+  SUM(net_amount) as net_amount,
+  SUM(vat_amount) as vat_amount,
+  COUNT(DISTINCT document_id) FILTER (WHERE document_type = 'invoice') as invoice_count,
+  COUNT(DISTINCT document_id) FILTER (WHERE document_type = 'credit_note') as credit_note_count
+FROM public.vat_return_lines
+GROUP BY vendor_id, period_start, vat_basis, vat_rate;
+
+ALTER VIEW public.vat_return_summary SET (security_invoker = on);
+
+-- 4. VAT4 boxes per period. Only outputs are known to BuildEasy; input VAT
+--    (boxes 4 and 7) comes from the vendor's own purchase records.
+--    Box 1: VAT due on outputs. Domestic reverse charge supplies (Article 11B)
+--    carry no output VAT for the supplier but their value is part of Box 6.
+CREATE OR REPLACE VIEW public.vat_return_periods AS
+SELECT
+  vendor_id,
+  period_start,
+  (period_start + interval '3 months' - interval '1 day')::date as period_end,
+  COALESCE(SUM(vat_amount) FILTER (WHERE vat_basis IS DISTINCT FROM 'reverse_charge'), 0) as box_1_output_vat,
+  -- No intra-EU acquisitions are invoiced through BuildEasy, so Box 2 is nil
+  COALESCE(SUM(vat_amount) FILTER (WHERE vat_basis IS DISTINCT FROM 'reverse_charge'), 0) as box_3_total_vat_due,
+  SUM(net_amount) as box_6_total_outputs,
+  COALESCE(SUM(net_amount) FILTER (WHERE vat_basis = 'reverse_charge'), 0) as reverse_charge_outputs,
+  COUNT(DISTINCT document_id) FILTER (WHERE document_type = 'invoice') as invoice_count,
+  COUNT(DISTINCT document_id) FILTER (WHERE document_type = 'credit_note') as credit_note_count
+FROM public.vat_return_lines
+GROUP BY vendor_id, period_start;
+
+ALTER VIEW public.vat_return_periods SET (security_invoker = on);
+
+GRANT SELECT ON public.vat_return_lines TO authenticated;
+GRANT SELECT ON public.vat_return_summary TO authenticated;
+GRANT SELECT ON public.vat_return_periods TO authenticated;
+
+COMMENT ON COLUMN public.vendor_profiles.vat_period_start_month IS 
+'First month (1 = Jan, 2 = Feb, 3 = Mar) of the vendor''s quarterly VAT periods';
+
+COMMENT ON VIEW public.vat_return_periods IS 
+'Cyprus VAT4 output boxes per vendor and tax period, from issued invoices and credit notes by tax_point';
@@ -0,0 +1,46 @@
+-- VAT number checks for reverse charge invoices
+
+-- 1. Customer VAT number and the result of the checks made when the invoice was sent
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS customer_vat_id TEXT,
+ADD COLUMN IF NOT EXISTS vat_numbers_checked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS vies_check JSONB;
+
+-- 2. A reverse charge invoice cannot leave draft until stripe-create-invoice has
+--    validated both VAT numbers
+CREATE OR REPLACE FUNCTION public.enforce_reverse_charge_vat_check()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'draft'
+     AND NEW.status <> 'draft'
+     AND NEW.status NOT IN ('voided', 'cancelled')
+     AND NEW.vat_numbers_checked_at IS NULL
+     AND (
+       NEW.vat_basis = 'reverse_charge'
+       OR EXISTS (
+         SELECT 1 FROM invoice_items
+         WHERE invoice_id = NEW.id AND vat_basis = 'reverse_charge'
+       )
+     ) THEN
+    RAISE EXCEPTION 'Reverse charge invoice % requires validated supplier and customer VAT numbers', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_reverse_charge_vat_check ON public.invoices;
+CREATE TRIGGER enforce_reverse_charge_vat_check
+  BEFORE UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_reverse_charge_vat_check();
+
+COMMENT ON COLUMN public.invoices.customer_vat_id IS 
+'Customer VAT number (normalised, with country prefix). Required for reverse charge';
+
+COMMENT ON COLUMN public.invoices.vies_check IS 
+'Outcome of the VIES lookup made before sending: status (valid, invalid, unavailable, skipped), request identifier and trader details';
@@ -0,0 +1,205 @@
+-- Statutory caps on the 5% primary residence rate and a per-client record of relief used
+
+-- 1. Thresholds, editable by admins
+INSERT INTO public.platform_settings (setting_key, setting_value, setting_type, description)
+VALUES (
+  'primary_residence_relief',
+  '{"reduced_area_sqm": 130, "max_total_area_sqm": 190, "max_reduced_value": 350000, "max_total_value": 475000}'::jsonb,
+  'json',
+  '5% primary residence rate: area charged at 5%, maximum dwelling area and value, and the lifetime value cap at 5% per beneficiary'
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 2. Eligibility inputs and the evidence snapshot taken when the invoice was created
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS property_value DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS primary_residence_evidence JSONB;
+
+-- 3. The relief is a once-per-beneficiary entitlement: one dwelling per client
+CREATE TABLE IF NOT EXISTS public.primary_residence_reliefs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id),
+  property_location TEXT,
+  first_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.primary_residence_reliefs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own relief"
+ON public.primary_residence_reliefs FOR SELECT
+USING (client_id = auth.uid());
+
+CREATE POLICY "Admins can manage reliefs"
+ON public.primary_residence_reliefs FOR ALL
+USING (public.is_admin(auth.uid()));
+
+-- 4. Net value charged at 5% under the relief, per client: issued invoice lines
+--    less credit note lines
+CREATE OR REPLACE FUNCTION public.primary_residence_relief_used(client_id_param uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT SUM(ii.line_total)
+    FROM invoices i
+    JOIN invoice_items ii ON ii.invoice_id = i.id
+    WHERE i.client_id = client_id_param
+      AND i.status NOT IN ('draft', 'voided', 'cancelled')
+      AND ii.vat_basis = 'reduced5_primary_residence'
+  ), 0) - COALESCE((
+    SELECT SUM(cni.line_total)
+    FROM credit_notes cn
+    JOIN credit_note_items cni ON cni.credit_note_id = cn.id
+    WHERE cn.client_id = client_id_param
+      AND cn.status = 'issued'
+      AND cni.vat_basis = 'reduced5_primary_residence'
+  ), 0);
+$$;
+
+-- 5. What a vendor needs to price a primary residence invoice for a client
+CREATE OR REPLACE FUNCTION public.get_primary_residence_relief(client_id_param uuid, project_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  relief primary_residence_reliefs%ROWTYPE;
+BEGIN
+  IF auth.uid() <> client_id_param
+     AND NOT public.is_admin(auth.uid())
+     AND NOT EXISTS (
+       SELECT 1 FROM quote_requests
+       WHERE client_id = client_id_param AND vendor_id = auth.uid()
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to view relief for this client';
+  END IF;
+
+  SELECT * INTO relief FROM primary_residence_reliefs WHERE client_id = client_id_param;
+
+  RETURN jsonb_build_object(
+    'thresholds', (SELECT setting_value FROM platform_settings WHERE setting_key = 'primary_residence_relief'),
+    'reduced_value_used', public.primary_residence_relief_used(client_id_param),
+    'claimed_project_id', relief.project_id,
+    'claimed_for_other_property', relief.id IS NOT NULL AND relief.project_id <> project_id_param
+  );
+END;
+$$;
+
+-- 6. Refuse primary residence invoices for a second dwelling, a dwelling over
+--    the area or value limits, or beyond the value cap. Returns the project the
+--    relief is claimed for, or NULL when the invoice has no primary residence
+--    lines. Also run before an invoice is sent to the payment provider.
+CREATE OR REPLACE FUNCTION public.check_primary_residence_relief(invoice_row invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_reduced numeric;
+  invoice_project_id uuid;
+  claimed_project_id uuid;
+  thresholds jsonb;
+BEGIN
+  SELECT SUM(line_total) INTO invoice_reduced
+  FROM invoice_items
+  WHERE invoice_id = invoice_row.id AND vat_basis = 'reduced5_primary_residence';
+
+  IF COALESCE(invoice_reduced, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF invoice_row.primary_residence_evidence IS NULL THEN
+    RAISE EXCEPTION 'Primary residence invoice % has no eligibility evidence', invoice_row.id;
+  END IF;
+
+  SELECT setting_value INTO thresholds
+  FROM platform_settings
+  WHERE setting_key = 'primary_residence_relief';
+
+  IF invoice_row.property_area_sqm IS NULL THEN
+    RAISE EXCEPTION 'Primary residence invoice % has no dwelling area', invoice_row.id;
+  END IF;
+
+  IF COALESCE(invoice_row.property_value, 0) <= 0 THEN
+    RAISE EXCEPTION 'Primary residence invoice % has no dwelling value', invoice_row.id;
+  END IF;
+
+  IF invoice_row.property_area_sqm > COALESCE((thresholds->>'max_total_area_sqm')::numeric, 190) THEN
+    RAISE EXCEPTION 'Invoice % is for a dwelling over the primary residence area limit', invoice_row.id;
+  END IF;
+
+  IF invoice_row.property_value > COALESCE((thresholds->>'max_total_value')::numeric, 475000) THEN
+    RAISE EXCEPTION 'Invoice % is for a dwelling over the primary residence value limit', invoice_row.id;
+  END IF;
+
+  SELECT qr.project_id INTO invoice_project_id
+  FROM quotes q
+  JOIN quote_requests qr ON qr.id = q.quote_request_id
+  WHERE q.id = invoice_row.quote_id;
+
+  SELECT project_id INTO claimed_project_id
+  FROM primary_residence_reliefs
+  WHERE client_id = invoice_row.client_id
+  FOR UPDATE;
+
+  IF claimed_project_id IS NOT NULL AND claimed_project_id <> invoice_project_id THEN
+    RAISE EXCEPTION 'Client has already claimed the primary residence relief for another dwelling';
+  END IF;
+
+  IF public.primary_residence_relief_used(invoice_row.client_id) + invoice_reduced
+     > COALESCE((thresholds->>'max_reduced_value')::numeric, 350000) THEN
+    RAISE EXCEPTION 'Invoice % exceeds the client''s remaining primary residence relief', invoice_row.id;
+  END IF;
+
+  RETURN invoice_project_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_primary_residence_relief(invoices) FROM PUBLIC, anon, authenticated;
+
+-- 7. Register the relief when the first primary residence invoice leaves draft
+CREATE OR REPLACE FUNCTION public.register_primary_residence_relief()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_project_id uuid;
+BEGIN
+  IF OLD.status <> 'draft' OR NEW.status = 'draft' OR NEW.status IN ('voided', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  invoice_project_id := public.check_primary_residence_relief(NEW);
+
+  IF invoice_project_id IS NOT NULL THEN
+    INSERT INTO primary_residence_reliefs (client_id, project_id, property_location, first_invoice_id)
+    VALUES (NEW.client_id, invoice_project_id, NEW.property_location, NEW.id)
+    ON CONFLICT (client_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS register_primary_residence_relief ON public.invoices;
+CREATE TRIGGER register_primary_residence_relief
+  BEFORE UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.register_primary_residence_relief();
+
+COMMENT ON TABLE public.primary_residence_reliefs IS
+'The dwelling each client has claimed the 5% primary residence rate for. One per client';
+
+COMMENT ON COLUMN public.invoices.primary_residence_evidence IS
+'Eligibility snapshot for the 5% primary residence rate: area, value, relief used before this invoice, thresholds applied and warnings';
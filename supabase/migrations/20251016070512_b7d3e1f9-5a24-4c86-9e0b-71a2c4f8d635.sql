@@ -0,0 +1,143 @@
+-- Platform fee collection through Stripe Connect and payout reconciliation
+
+-- 1. Payouts from each connected account to the vendor's bank
+CREATE TABLE IF NOT EXISTS public.stripe_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_payout_id TEXT NOT NULL UNIQUE,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_account TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'eur',
+  status TEXT NOT NULL,
+  arrival_date DATE,
+  stripe_created_at TIMESTAMPTZ NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_payouts_vendor ON public.stripe_payouts(vendor_id, arrival_date DESC);
+
+ALTER TABLE public.stripe_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their payouts"
+ON public.stripe_payouts FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all payouts"
+ON public.stripe_payouts FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- 2. Each charge balance transaction matched back to its invoice, with the fee
+--    expected on the invoice and the application fee Stripe actually collected
+CREATE TABLE IF NOT EXISTS public.invoice_payment_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_balance_transaction_id TEXT NOT NULL UNIQUE,
+  stripe_charge_id TEXT,
+  stripe_account TEXT NOT NULL,
+  stripe_payout_id TEXT,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  gross_amount DECIMAL(12,2) NOT NULL,
+  stripe_fee_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  application_fee_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  net_amount DECIMAL(12,2) NOT NULL,
+  expected_amount DECIMAL(12,2),
+  expected_fee_amount DECIMAL(12,2),
+  status TEXT NOT NULL CHECK (status IN ('matched', 'fee_mismatch', 'amount_mismatch', 'unmatched')),
+  reconciled_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliations_invoice ON public.invoice_payment_reconciliations(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliations_status ON public.invoice_payment_reconciliations(status)
+WHERE status <> 'matched';
+
+ALTER TABLE public.invoice_payment_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their reconciliations"
+ON public.invoice_payment_reconciliations FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all reconciliations"
+ON public.invoice_payment_reconciliations FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- 3. Admin report: every paid invoice and every unmatched charge, with the
+--    expected and collected platform fee side by side
+CREATE OR REPLACE VIEW public.payout_reconciliation_report AS
+SELECT
+  i.id as invoice_id,
+  r.id as reconciliation_id,
+  i.vendor_id,
+  vp.business_name as vendor_name,
+  COALESCE(i.legal_invoice_number, i.invoice_number) as invoice_number,
+  i.status as invoice_status,
+  i.paid_at,
+  i.total_amount,
+  i.service_fee_amount as expected_fee_amount,
+  r.application_fee_amount as collected_fee_amount,
+  r.application_fee_amount - i.service_fee_amount as fee_difference,
+  r.gross_amount,
+  r.stripe_fee_amount,
+  r.net_amount,
+  r.stripe_charge_id,
+  r.stripe_payout_id,
+  p.arrival_date as payout_arrival_date,
+  COALESCE(r.status, 'not_reconciled') as reconciliation_status,
+  r.reconciled_at
+FROM public.invoices i
+LEFT JOIN public.invoice_payment_reconciliations r ON r.invoice_id = i.id
+LEFT JOIN public.stripe_payouts p ON p.stripe_payout_id = r.stripe_payout_id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = i.vendor_id
+WHERE i.stripe_invoice_id IS NOT NULL
+  AND (r.id IS NOT NULL OR i.status IN ('paid', 'partially_refunded', 'refunded', 'disputed'))
+UNION ALL
+SELECT
+  NULL,
+  r.id,
+  r.vendor_id,
+  vp.business_name,
+  NULL,
+  NULL,
+  NULL,
+  NULL,
+  NULL,
+  r.application_fee_amount,
+  NULL,
+  r.gross_amount,
+  r.stripe_fee_amount,
+  r.net_amount,
+  r.stripe_charge_id,
+  r.stripe_payout_id,
+  p.arrival_date,
+  r.status,
+  r.reconciled_at
+FROM public.invoice_payment_reconciliations r
+LEFT JOIN public.stripe_payouts p ON p.stripe_payout_id = r.stripe_payout_id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = r.vendor_id
+WHERE r.invoice_id IS NULL;
+
+ALTER VIEW public.payout_reconciliation_report SET (security_invoker = on);
+
+GRANT SELECT ON public.payout_reconciliation_report TO authenticated;
+
+-- 4. Reconcile every morning, after Stripe's overnight payouts.
+-- Requires the project_url and service_role_key secrets in Vault.
+SELECT cron.schedule(
+  'stripe-payout-reconciliation',
+  '0 6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/stripe-payout-reconciliation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+COMMENT ON TABLE public.invoice_payment_reconciliations IS
+'Stripe charge balance transactions on connected accounts, matched to invoices by the stripe-payout-reconciliation job';
+
+COMMENT ON COLUMN public.invoice_payment_reconciliations.application_fee_amount IS
+'Platform fee Stripe actually collected on the charge, compared with invoices.service_fee_amount';
@@ -0,0 +1,250 @@
+-- In-app signing of invoices and accepted quotes, with tamper evidence
+
+-- 1. Every signature captured, with the hash of the document as signed.
+--    Rows are written by the sign-document function only.
+CREATE TABLE IF NOT EXISTS public.document_signatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'quote')),
+  document_id UUID NOT NULL,
+  signer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  signer_role TEXT NOT NULL CHECK (signer_role IN ('vendor', 'client')),
+  signer_name TEXT NOT NULL,
+  signature_method TEXT NOT NULL CHECK (signature_method IN ('drawn', 'typed')),
+  -- Typed name, or the drawn signature as a PNG data URL
+  signature_data TEXT NOT NULL,
+  consent_text TEXT NOT NULL,
+  consent_version TEXT NOT NULL,
+  document_hash TEXT NOT NULL,
+  signer_ip TEXT,
+  user_agent TEXT,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMPTZ,
+  revoked_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_signatures_document ON public.document_signatures(document_type, document_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_signatures_active
+ON public.document_signatures(document_type, document_id, signer_role)
+WHERE revoked_at IS NULL;
+
+ALTER TABLE public.document_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Invoice participants can view invoice signatures"
+ON public.document_signatures FOR SELECT
+USING (
+  document_type = 'invoice' AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = document_id AND (i.vendor_id = auth.uid() OR i.client_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Quote participants can view quote signatures"
+ON public.document_signatures FOR SELECT
+USING (
+  document_type = 'quote' AND EXISTS (
+    SELECT 1 FROM public.quotes q
+    JOIN public.quote_requests qr ON qr.id = q.quote_request_id
+    WHERE q.id = document_id AND (qr.vendor_id = auth.uid() OR qr.client_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view all signatures"
+ON public.document_signatures FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- 2. Signature state on quotes, mirroring invoices
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS vendor_signed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS client_signed_at TIMESTAMPTZ;
+
+-- 3. Signed timestamps can only be set from a recorded signature
+CREATE OR REPLACE FUNCTION public.has_active_signature(document_type_param text, document_id_param uuid, signer_role_param text, signed_at_param timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM document_signatures
+    WHERE document_type = document_type_param
+      AND document_id = document_id_param
+      AND signer_role = signer_role_param
+      AND signed_at = signed_at_param
+      AND revoked_at IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_document_signatures(document_type_param text, document_id_param uuid, reason_param text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE document_signatures
+  SET revoked_at = now(), revoked_reason = reason_param
+  WHERE document_type = document_type_param
+    AND document_id = document_id_param
+    AND revoked_at IS NULL;
+$$;
+
+-- Only the guards below call these
+REVOKE EXECUTE ON FUNCTION public.has_active_signature(text, uuid, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_document_signatures(text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- 4. Invoices: a signed draft that changes loses its signatures and must be
+--    signed again; an issued invoice cannot change at all (use a credit note)
+CREATE OR REPLACE FUNCTION public.guard_signed_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.vendor_signed_at IS NOT NULL
+     AND NEW.vendor_signed_at IS DISTINCT FROM OLD.vendor_signed_at
+     AND NOT public.has_active_signature('invoice', NEW.id, 'vendor', NEW.vendor_signed_at) THEN
+    RAISE EXCEPTION 'Invoice % must be signed through the signing flow', NEW.id;
+  END IF;
+
+  IF NEW.client_signed_at IS NOT NULL
+     AND NEW.client_signed_at IS DISTINCT FROM OLD.client_signed_at
+     AND NOT public.has_active_signature('invoice', NEW.id, 'client', NEW.client_signed_at) THEN
+    RAISE EXCEPTION 'Invoice % must be signed through the signing flow', NEW.id;
+  END IF;
+
+  -- A signature image only comes with the signing that recorded it
+  IF NEW.vendor_signature_url IS NOT NULL
+     AND NEW.vendor_signature_url IS DISTINCT FROM OLD.vendor_signature_url
+     AND (NEW.vendor_signed_at IS NULL OR NEW.vendor_signed_at IS NOT DISTINCT FROM OLD.vendor_signed_at) THEN
+    RAISE EXCEPTION 'Invoice % must be signed through the signing flow', NEW.id;
+  END IF;
+
+  IF NEW.client_signature_url IS NOT NULL
+     AND NEW.client_signature_url IS DISTINCT FROM OLD.client_signature_url
+     AND (NEW.client_signed_at IS NULL OR NEW.client_signed_at IS NOT DISTINCT FROM OLD.client_signed_at) THEN
+    RAISE EXCEPTION 'Invoice % must be signed through the signing flow', NEW.id;
+  END IF;
+
+  IF (OLD.vendor_signed_at IS NOT NULL OR OLD.client_signed_at IS NOT NULL)
+     AND (NEW.vendor_id, NEW.client_id, NEW.quote_id, NEW.subtotal_amount, NEW.vat_amount, NEW.vat_rate,
+          NEW.vat_basis, NEW.total_amount, NEW.retention_percentage, NEW.retention_amount, NEW.stage_type,
+          NEW.stage_index, NEW.stage_label, NEW.stage_percentage, NEW.reverse_charge_note,
+          NEW.customer_vat_id, NEW.property_location, NEW.currency)
+         IS DISTINCT FROM
+         (OLD.vendor_id, OLD.client_id, OLD.quote_id, OLD.subtotal_amount, OLD.vat_amount, OLD.vat_rate,
+          OLD.vat_basis, OLD.total_amount, OLD.retention_percentage, OLD.retention_amount, OLD.stage_type,
+          OLD.stage_index, OLD.stage_label, OLD.stage_percentage, OLD.reverse_charge_note,
+          OLD.customer_vat_id, OLD.property_location, OLD.currency) THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Invoice % has been signed and issued and can no longer be changed. Issue a credit note instead', NEW.id;
+    END IF;
+
+    PERFORM public.revoke_document_signatures('invoice', NEW.id, 'Invoice changed after signing');
+    NEW.vendor_signed_at := NULL;
+    NEW.vendor_signature_url := NULL;
+    NEW.client_signed_at := NULL;
+    NEW.client_signature_url := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_signed_invoice ON public.invoices;
+CREATE TRIGGER guard_signed_invoice
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_signed_invoice();
+
+CREATE OR REPLACE FUNCTION public.guard_signed_invoice_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent invoices%ROWTYPE;
+BEGIN
+  -- Stripe tax rate ids are bookkeeping, not part of the signed content
+  IF TG_OP = 'UPDATE'
+     AND (NEW.description, NEW.quantity, NEW.unit_amount, NEW.line_total, NEW.vat_basis, NEW.vat_rate,
+          NEW.vat_amount, NEW.is_material, NEW.is_retention)
+         IS NOT DISTINCT FROM
+         (OLD.description, OLD.quantity, OLD.unit_amount, OLD.line_total, OLD.vat_basis, OLD.vat_rate,
+          OLD.vat_amount, OLD.is_material, OLD.is_retention) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM invoices WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  IF FOUND AND (parent.vendor_signed_at IS NOT NULL OR parent.client_signed_at IS NOT NULL) THEN
+    IF parent.status <> 'draft' THEN
+      RAISE EXCEPTION 'Invoice % has been signed and issued and its lines can no longer be changed', parent.id;
+    END IF;
+
+    PERFORM public.revoke_document_signatures('invoice', parent.id, 'Invoice lines changed after signing');
+    UPDATE invoices
+    SET vendor_signed_at = NULL, vendor_signature_url = NULL, client_signed_at = NULL, client_signature_url = NULL
+    WHERE id = parent.id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_signed_invoice_items ON public.invoice_items;
+CREATE TRIGGER guard_signed_invoice_items
+  BEFORE INSERT OR UPDATE OR DELETE ON public.invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_signed_invoice_items();
+
+-- 5. Quotes: any change to the signed terms clears both signatures
+CREATE OR REPLACE FUNCTION public.guard_signed_quote()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.vendor_signed_at IS NOT NULL
+     AND NEW.vendor_signed_at IS DISTINCT FROM OLD.vendor_signed_at
+     AND NOT public.has_active_signature('quote', NEW.id, 'vendor', NEW.vendor_signed_at) THEN
+    RAISE EXCEPTION 'Quote % must be signed through the signing flow', NEW.id;
+  END IF;
+
+  IF NEW.client_signed_at IS NOT NULL
+     AND NEW.client_signed_at IS DISTINCT FROM OLD.client_signed_at
+     AND NOT public.has_active_signature('quote', NEW.id, 'client', NEW.client_signed_at) THEN
+    RAISE EXCEPTION 'Quote % must be signed through the signing flow', NEW.id;
+  END IF;
+
+  IF (OLD.vendor_signed_at IS NOT NULL OR OLD.client_signed_at IS NOT NULL)
+     AND (NEW.total_amount, NEW.cost_breakdown, NEW.milestones, NEW.payment_schedule, NEW.inclusions,
+          NEW.exclusions, NEW.start_date, NEW.duration_weeks, NEW.validity_date, NEW.retention_percentage,
+          NEW.defects_liability_months, NEW.assumptions_dependencies, NEW.notes_to_client)
+         IS DISTINCT FROM
+         (OLD.total_amount, OLD.cost_breakdown, OLD.milestones, OLD.payment_schedule, OLD.inclusions,
+          OLD.exclusions, OLD.start_date, OLD.duration_weeks, OLD.validity_date, OLD.retention_percentage,
+          OLD.defects_liability_months, OLD.assumptions_dependencies, OLD.notes_to_client) THEN
+    PERFORM public.revoke_document_signatures('quote', NEW.id, 'Quote changed after signing');
+    NEW.vendor_signed_at := NULL;
+    NEW.client_signed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_signed_quote ON public.quotes;
+CREATE TRIGGER guard_signed_quote
+  BEFORE UPDATE ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_signed_quote();
+
+COMMENT ON TABLE public.document_signatures IS
+'Signatures on invoices and quotes: drawn or typed signature, consent shown, SHA-256 of the document content, signer IP and time. Revoked when the document changes';
+
+COMMENT ON COLUMN public.document_signatures.document_hash IS
+'SHA-256 (hex) of the canonical JSON of the signed content, computed by sign-document';
@@ -0,0 +1,450 @@
+-- Gapless legal numbering: one series per vendor, document type and year,
+-- allocated when a document is issued rather than when the draft is created
+
+-- 1. Numbering prefixes chosen by the vendor. The prefix is fixed on a series
+--    when its first number is allocated, so a change applies from the next year.
+ALTER TABLE public.vendor_profiles
+ADD COLUMN IF NOT EXISTS invoice_number_prefix TEXT NOT NULL DEFAULT 'INV'
+  CHECK (invoice_number_prefix ~ '^[A-Z0-9]{1,10}$'),
+ADD COLUMN IF NOT EXISTS credit_note_number_prefix TEXT NOT NULL DEFAULT 'CN'
+  CHECK (credit_note_number_prefix ~ '^[A-Z0-9]{1,10}$');
+
+ALTER TABLE public.vendor_profiles
+ADD CONSTRAINT vendor_profiles_number_prefixes_distinct
+  CHECK (invoice_number_prefix <> credit_note_number_prefix);
+
+-- 2. Series counters and the record of every number handed out
+CREATE TABLE IF NOT EXISTS public.document_number_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  year INTEGER NOT NULL,
+  prefix TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (vendor_id, document_type, year)
+);
+
+CREATE TABLE IF NOT EXISTS public.document_number_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES public.document_number_series(id) ON DELETE RESTRICT,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  document_id UUID NOT NULL,
+  sequence_number INTEGER NOT NULL CHECK (sequence_number > 0),
+  document_number TEXT NOT NULL,
+  allocated_by UUID,
+  allocated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (series_id, sequence_number),
+  UNIQUE (document_type, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_number_allocations_vendor ON public.document_number_allocations(vendor_id, allocated_at);
+
+ALTER TABLE public.document_number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_number_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their numbering series"
+ON public.document_number_series FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all numbering series"
+ON public.document_number_series FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Vendors can view their number allocations"
+ON public.document_number_allocations FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all number allocations"
+ON public.document_number_allocations FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- The allocation record is the audit trail of the sequence and never changes
+CREATE OR REPLACE FUNCTION public.prevent_number_allocation_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Document number allocations cannot be changed or deleted';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_number_allocation_changes ON public.document_number_allocations;
+CREATE TRIGGER prevent_number_allocation_changes
+  BEFORE UPDATE OR DELETE ON public.document_number_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_number_allocation_changes();
+
+-- 3. Allocation. The series row stays locked until the issuing transaction
+--    ends, so a rolled back issue also rolls back its number and concurrent
+--    issues for the same vendor queue behind each other.
+CREATE OR REPLACE FUNCTION public.allocate_document_number(vendor_id_param uuid, document_type_param text, document_id_param uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  series document_number_series%ROWTYPE;
+  series_year INTEGER := EXTRACT(YEAR FROM now() AT TIME ZONE 'Europe/Nicosia')::integer;
+  vendor_prefix TEXT;
+  existing_number TEXT;
+  new_number TEXT;
+BEGIN
+  SELECT document_number INTO existing_number
+  FROM document_number_allocations
+  WHERE document_type = document_type_param AND document_id = document_id_param;
+
+  IF FOUND THEN
+    RETURN existing_number;
+  END IF;
+
+  SELECT CASE WHEN document_type_param = 'invoice' THEN invoice_number_prefix ELSE credit_note_number_prefix END
+  INTO vendor_prefix
+  FROM vendor_profiles
+  WHERE user_id = vendor_id_param;
+
+  INSERT INTO document_number_series (vendor_id, document_type, year, prefix)
+  VALUES (
+    vendor_id_param,
+    document_type_param,
+    series_year,
+    COALESCE(vendor_prefix, CASE WHEN document_type_param = 'invoice' THEN 'INV' ELSE 'CN' END)
+  )
+  ON CONFLICT (vendor_id, document_type, year) DO NOTHING;
+
+  UPDATE document_number_series
+  SET last_number = last_number + 1, updated_at = now()
+  WHERE vendor_id = vendor_id_param AND document_type = document_type_param AND year = series_year
+  RETURNING * INTO series;
+
+  new_number := series.prefix || '-' || series.year || '-' || LPAD(series.last_number::text, 4, '0');
+
+  INSERT INTO document_number_allocations (
+    series_id, vendor_id, document_type, document_id, sequence_number, document_number, allocated_by
+  ) VALUES (
+    series.id, vendor_id_param, document_type_param, document_id_param, series.last_number, new_number, auth.uid()
+  );
+
+  RETURN new_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.allocate_document_number(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4. Legal numbers are unique per vendor, not across the platform
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_legal_invoice_number_key;
+ALTER TABLE public.credit_notes DROP CONSTRAINT IF EXISTS credit_notes_credit_note_number_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_vendor_invoice_number ON public.invoices(vendor_id, invoice_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_vendor_legal_number ON public.invoices(vendor_id, legal_invoice_number)
+WHERE legal_invoice_number IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_notes_vendor_number ON public.credit_notes(vendor_id, credit_note_number)
+WHERE credit_note_number IS NOT NULL;
+
+-- 5. Drafts numbered under the old insert-time scheme give their number back;
+--    they are numbered from their vendor's series when issued
+UPDATE public.invoices
+SET legal_invoice_number = NULL,
+    invoice_number = 'DRAFT-' || UPPER(LEFT(REPLACE(id::text, '-', ''), 12)),
+    issued_at = NULL,
+    tax_point = NULL
+WHERE status IN ('draft', 'pending_signatures')
+  AND stripe_invoice_id IS NULL;
+
+UPDATE public.credit_notes
+SET credit_note_number = NULL
+WHERE status = 'draft'
+  AND stripe_credit_note_id IS NULL;
+
+-- 6. Invoices take their legal number when they leave draft. Drafts carry a
+--    placeholder invoice_number so the column stays filled. The issue date and
+--    tax point are set when the invoice leaves draft, not when it is numbered.
+CREATE OR REPLACE FUNCTION public.set_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.legal_invoice_number IS NOT NULL
+     AND NEW.legal_invoice_number IS DISTINCT FROM OLD.legal_invoice_number THEN
+    RAISE EXCEPTION 'Invoice % is numbered % and its number cannot be changed', NEW.id, OLD.legal_invoice_number;
+  END IF;
+
+  IF NEW.legal_invoice_number IS NULL
+     AND NEW.status NOT IN ('draft', 'pending_signatures', 'cancelled', 'voided') THEN
+    NEW.legal_invoice_number := public.allocate_document_number(NEW.vendor_id, 'invoice', NEW.id);
+  ELSIF NEW.legal_invoice_number IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.legal_invoice_number IS NULL)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.document_number_allocations
+       WHERE document_type = 'invoice'
+         AND document_id = NEW.id
+         AND document_number = NEW.legal_invoice_number
+     ) THEN
+    RAISE EXCEPTION 'Invoice numbers are allocated from the vendor series when the invoice is issued';
+  END IF;
+
+  IF NEW.legal_invoice_number IS NOT NULL THEN
+    NEW.invoice_number := NEW.legal_invoice_number;
+
+    IF NEW.status NOT IN ('draft', 'pending_signatures', 'cancelled', 'voided') THEN
+      NEW.issued_at := COALESCE(NEW.issued_at, now());
+      NEW.tax_point := COALESCE(NEW.tax_point, NEW.issued_at);
+    END IF;
+  ELSIF NEW.invoice_number IS NULL THEN
+    NEW.invoice_number := 'DRAFT-' || UPPER(LEFT(REPLACE(NEW.id::text, '-', ''), 12));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_invoice_number_trigger ON public.invoices;
+CREATE TRIGGER set_invoice_number_trigger
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_invoice_number();
+
+-- 7. Credit notes take their number from the vendor's credit note series when issued
+CREATE OR REPLACE FUNCTION public.set_credit_note_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original_invoice invoices%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO original_invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+    IF original_invoice.legal_invoice_number IS NULL
+       AND original_invoice.status IN ('draft', 'pending_signatures') THEN
+      RAISE EXCEPTION 'Only issued invoices can be credited';
+    END IF;
+
+    -- Always reference the legal number of the invoice being corrected
+    NEW.original_legal_invoice_number := COALESCE(original_invoice.legal_invoice_number, original_invoice.invoice_number);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.credit_note_number IS NOT NULL
+     AND NEW.credit_note_number IS DISTINCT FROM OLD.credit_note_number THEN
+    RAISE EXCEPTION 'Credit note % is numbered % and its number cannot be changed', NEW.id, OLD.credit_note_number;
+  END IF;
+
+  IF NEW.credit_note_number IS NULL AND NEW.status = 'issued' THEN
+    NEW.credit_note_number := public.allocate_document_number(NEW.vendor_id, 'credit_note', NEW.id);
+  ELSIF NEW.credit_note_number IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.credit_note_number IS NULL)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.document_number_allocations
+       WHERE document_type = 'credit_note'
+         AND document_id = NEW.id
+         AND document_number = NEW.credit_note_number
+     ) THEN
+    RAISE EXCEPTION 'Credit note numbers are allocated from the vendor series when the credit note is issued';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_credit_note_number_trigger ON public.credit_notes;
+CREATE TRIGGER set_credit_note_number_trigger
+  BEFORE INSERT OR UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_credit_note_number();
+
+-- The old generators numbered across all vendors at draft time
+DROP FUNCTION IF EXISTS public.generate_legal_invoice_number();
+DROP FUNCTION IF EXISTS public.generate_credit_note_number();
+
+-- 8. Issuing: the edge functions take the number before the document is sent
+--    to Stripe, so the number is on the Stripe document too. Calling again
+--    returns the number already allocated.
+CREATE OR REPLACE FUNCTION public.issue_invoice_number(invoice_id_param uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_row invoices%ROWTYPE;
+  new_number TEXT;
+BEGIN
+  SELECT * INTO invoice_row FROM invoices WHERE id = invoice_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice_row.legal_invoice_number IS NOT NULL THEN
+    RETURN invoice_row.legal_invoice_number;
+  END IF;
+
+  IF invoice_row.status IN ('cancelled', 'voided') THEN
+    RAISE EXCEPTION 'A % invoice cannot be issued', invoice_row.status;
+  END IF;
+
+  new_number := public.allocate_document_number(invoice_row.vendor_id, 'invoice', invoice_row.id);
+
+  UPDATE invoices SET legal_invoice_number = new_number WHERE id = invoice_row.id;
+
+  RETURN new_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_credit_note_number(credit_note_id_param uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  credit_note_row credit_notes%ROWTYPE;
+  new_number TEXT;
+BEGIN
+  SELECT * INTO credit_note_row FROM credit_notes WHERE id = credit_note_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit note not found';
+  END IF;
+
+  IF credit_note_row.credit_note_number IS NOT NULL THEN
+    RETURN credit_note_row.credit_note_number;
+  END IF;
+
+  IF credit_note_row.status = 'voided' THEN
+    RAISE EXCEPTION 'A voided credit note cannot be issued';
+  END IF;
+
+  new_number := public.allocate_document_number(credit_note_row.vendor_id, 'credit_note', credit_note_row.id);
+
+  UPDATE credit_notes SET credit_note_number = new_number WHERE id = credit_note_row.id;
+
+  RETURN new_number;
+END;
+$$;
+
+-- A numbered invoice that could not be sent to the payment provider is voided,
+-- so its number stays accounted for in the sequence. Drafts not numbered yet
+-- are left as they are and can be sent again.
+CREATE OR REPLACE FUNCTION public.void_unissued_invoice(invoice_id_param uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_row invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO invoice_row FROM invoices WHERE id = invoice_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice_row.legal_invoice_number IS NULL OR invoice_row.status <> 'draft' THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE invoices SET status = 'voided' WHERE id = invoice_row.id;
+
+  RETURN invoice_row.legal_invoice_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_invoice_number(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.issue_credit_note_number(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.void_unissued_invoice(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 9. A numbered document is part of the sequence and cannot be deleted; void
+--    it or issue a credit note instead
+CREATE OR REPLACE FUNCTION public.prevent_numbered_document_deletion()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'invoices' AND OLD.legal_invoice_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Invoice % has been issued and cannot be deleted. Void it or issue a credit note instead', OLD.legal_invoice_number;
+  END IF;
+
+  IF TG_TABLE_NAME = 'credit_notes' AND OLD.credit_note_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Credit note % has been issued and cannot be deleted', OLD.credit_note_number;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_numbered_invoice_deletion ON public.invoices;
+CREATE TRIGGER prevent_numbered_invoice_deletion
+  BEFORE DELETE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_numbered_document_deletion();
+
+DROP TRIGGER IF EXISTS prevent_numbered_credit_note_deletion ON public.credit_notes;
+CREATE TRIGGER prevent_numbered_credit_note_deletion
+  BEFORE DELETE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_numbered_document_deletion();
+
+-- 10. Gap report: per series, numbers never recorded and numbers whose
+--     document no longer carries them
+CREATE OR REPLACE VIEW public.document_number_gap_report AS
+SELECT
+  s.id AS series_id,
+  s.vendor_id,
+  vp.business_name AS vendor_name,
+  s.document_type,
+  s.year,
+  s.prefix,
+  s.last_number,
+  (SELECT COUNT(*) FROM public.document_number_allocations a WHERE a.series_id = s.id) AS allocated_count,
+  ARRAY(
+    SELECT n
+    FROM generate_series(1, s.last_number) AS n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.document_number_allocations a
+      WHERE a.series_id = s.id AND a.sequence_number = n
+    )
+    ORDER BY n
+  ) AS missing_numbers,
+  ARRAY(
+    SELECT a.document_number
+    FROM public.document_number_allocations a
+    WHERE a.series_id = s.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.invoices i
+        WHERE a.document_type = 'invoice' AND i.id = a.document_id AND i.legal_invoice_number = a.document_number
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.credit_notes cn
+        WHERE a.document_type = 'credit_note' AND cn.id = a.document_id AND cn.credit_note_number = a.document_number
+      )
+    ORDER BY a.sequence_number
+  ) AS orphaned_numbers,
+  (SELECT MIN(a.allocated_at) FROM public.document_number_allocations a WHERE a.series_id = s.id) AS first_allocated_at,
+  (SELECT MAX(a.allocated_at) FROM public.document_number_allocations a WHERE a.series_id = s.id) AS last_allocated_at
+FROM public.document_number_series s
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = s.vendor_id;
+
+ALTER VIEW public.document_number_gap_report SET (security_invoker = on);
+
+GRANT SELECT ON public.document_number_gap_report TO authenticated;
+
+COMMENT ON TABLE public.document_number_series IS
+'Legal numbering series per vendor, document type and calendar year (Europe/Nicosia). last_number is the last number allocated';
+
+COMMENT ON TABLE public.document_number_allocations IS
+'Every legal invoice and credit note number allocated, with the document it went to. Append-only';
+
+COMMENT ON VIEW public.document_number_gap_report IS
+'Per numbering series: missing sequence numbers and allocated numbers no longer carried by their document. Both should be empty';
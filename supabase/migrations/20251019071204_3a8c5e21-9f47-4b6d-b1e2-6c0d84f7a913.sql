@@ -0,0 +1,183 @@
+-- Offline payments (bank transfer, cheque, cash) recorded by the vendor
+
+-- 1. Running total of what has been paid against an invoice
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- 2. Each offline payment, with its proof of payment
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  client_id UUID NOT NULL REFERENCES auth.users(id),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  paid_on DATE NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('bank_transfer', 'cheque', 'cash', 'other')),
+  reference TEXT,
+  notes TEXT,
+  proof_path TEXT,
+  recorded_by UUID NOT NULL REFERENCES auth.users(id),
+  stripe_synced_at TIMESTAMPTZ,
+  stripe_sync_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON public.invoice_payments(invoice_id);
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are written by the record-offline-payment function only
+CREATE POLICY "Invoice parties can view payments"
+ON public.invoice_payments FOR SELECT
+USING (vendor_id = auth.uid() OR client_id = auth.uid());
+
+CREATE POLICY "Admins can view all payments"
+ON public.invoice_payments FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- 3. Recording a payment moves the invoice to partially paid or paid. The
+--    invoice row is locked so two payments recorded together add up correctly.
+CREATE OR REPLACE FUNCTION public.apply_invoice_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_row invoices%ROWTYPE;
+  balance NUMERIC;
+BEGIN
+  SELECT * INTO invoice_row FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice_row.status NOT IN ('sent', 'overdue', 'payment_failed', 'uncollectible', 'partially_paid') THEN
+    RAISE EXCEPTION 'Payments cannot be recorded against a % invoice', invoice_row.status;
+  END IF;
+
+  balance := invoice_row.total_amount - invoice_row.credited_amount - invoice_row.amount_paid;
+
+  IF NEW.amount > balance + 0.01 THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, ROUND(balance, 2);
+  END IF;
+
+  NEW.vendor_id := invoice_row.vendor_id;
+  NEW.client_id := invoice_row.client_id;
+
+  UPDATE invoices
+  SET amount_paid = amount_paid + NEW.amount,
+      status = CASE WHEN NEW.amount >= balance - 0.01 THEN 'paid' ELSE 'partially_paid' END,
+      paid_at = CASE WHEN NEW.amount >= balance - 0.01 THEN NEW.paid_on::timestamptz ELSE paid_at END
+  WHERE id = invoice_row.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_invoice_payment ON public.invoice_payments;
+CREATE TRIGGER apply_invoice_payment
+  BEFORE INSERT ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_invoice_payment();
+
+-- 4. Private bucket for proof of payment, one folder per vendor
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'payment-proofs',
+  'payment-proofs',
+  false,
+  10485760, -- 10MB limit
+  ARRAY['application/pdf', 'image/jpeg', 'image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Vendors can upload payment proofs"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'payment-proofs'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Payment parties can view payment proofs"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'payment-proofs'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.invoice_payments ip
+      WHERE ip.proof_path = storage.objects.name
+        AND ip.client_id = auth.uid()
+    )
+  )
+);
+
+-- 5. Invoices paid offline show in the reconciliation report as such: no
+--    Stripe charge exists, so no platform fee was collected on them
+CREATE OR REPLACE VIEW public.payout_reconciliation_report AS
+SELECT
+  i.id as invoice_id,
+  r.id as reconciliation_id,
+  i.vendor_id,
+  vp.business_name as vendor_name,
+  COALESCE(i.legal_invoice_number, i.invoice_number) as invoice_number,
+  i.status as invoice_status,
+  i.paid_at,
+  i.total_amount,
+  i.service_fee_amount as expected_fee_amount,
+  r.application_fee_amount as collected_fee_amount,
+  r.application_fee_amount - i.service_fee_amount as fee_difference,
+  r.gross_amount,
+  r.stripe_fee_amount,
+  r.net_amount,
+  r.stripe_charge_id,
+  r.stripe_payout_id,
+  p.arrival_date as payout_arrival_date,
+  COALESCE(
+    r.status,
+    CASE WHEN i.amount_paid > 0 THEN 'paid_offline' ELSE 'not_reconciled' END
+  ) as reconciliation_status,
+  r.reconciled_at
+FROM public.invoices i
+LEFT JOIN public.invoice_payment_reconciliations r ON r.invoice_id = i.id
+LEFT JOIN public.stripe_payouts p ON p.stripe_payout_id = r.stripe_payout_id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = i.vendor_id
+WHERE i.stripe_invoice_id IS NOT NULL
+  AND (r.id IS NOT NULL OR i.status IN ('paid', 'partially_paid', 'partially_refunded', 'refunded', 'disputed'))
+UNION ALL
+SELECT
+  NULL,
+  r.id,
+  r.vendor_id,
+  vp.business_name,
+  NULL,
+  NULL,
+  NULL,
+  NULL,
+  NULL,
+  r.application_fee_amount,
+  NULL,
+  r.gross_amount,
+  r.stripe_fee_amount,
+  r.net_amount,
+  r.stripe_charge_id,
+  r.stripe_payout_id,
+  p.arrival_date,
+  r.status,
+  r.reconciled_at
+FROM public.invoice_payment_reconciliations r
+LEFT JOIN public.stripe_payouts p ON p.stripe_payout_id = r.stripe_payout_id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = r.vendor_id
+WHERE r.invoice_id IS NULL;
+
+-- Replacing the view resets its options; keep it under the caller's RLS
+ALTER VIEW public.payout_reconciliation_report SET (security_invoker = on);
+
+COMMENT ON TABLE public.invoice_payments IS
+'Payments received outside Stripe (bank transfer, cheque, cash), recorded by the vendor with proof. Synced to Stripe as paid out of band once the invoice is settled';
+
+COMMENT ON COLUMN public.invoices.amount_paid IS
+'Total of the offline payments recorded against the invoice. Card payments through Stripe settle the invoice in full and are not included';
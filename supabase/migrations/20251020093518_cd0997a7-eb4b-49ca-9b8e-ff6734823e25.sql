@@ -0,0 +1,96 @@
+-- Bank statement import and matching of incoming transfers to invoices
+
+-- 1. One row per uploaded statement file
+CREATE TABLE IF NOT EXISTS public.bank_statement_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('camt053', 'mt940', 'boc_csv', 'hellenic_csv')),
+  account_iban TEXT,
+  transaction_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_imports_vendor ON public.bank_statement_imports(vendor_id, created_at DESC);
+
+-- 2. Incoming transfers from the statements. The fingerprint stops a transfer
+--    being imported twice when statements overlap.
+CREATE TABLE IF NOT EXISTS public.bank_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID NOT NULL REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,
+  booking_date DATE NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  payer_name TEXT,
+  payer_iban TEXT,
+  remittance_info TEXT,
+  bank_reference TEXT,
+  status TEXT NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'suggested', 'matched', 'ignored')),
+  match_candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES public.invoice_payments(id) ON DELETE SET NULL,
+  matched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (vendor_id, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_vendor_status ON public.bank_transactions(vendor_id, status, booking_date DESC);
+
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Imports and matches are written by the import-bank-statement and
+-- record-offline-payment functions only
+CREATE POLICY "Vendors can view their statement imports"
+ON public.bank_statement_imports FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all statement imports"
+ON public.bank_statement_imports FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Vendors can view their bank transactions"
+ON public.bank_transactions FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all bank transactions"
+ON public.bank_transactions FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- 3. Set aside a transfer that is not an invoice payment (a refund, a loan, a
+--    transfer between own accounts), or bring it back for review
+CREATE OR REPLACE FUNCTION public.set_bank_transaction_ignored(transaction_id_param uuid, ignored_param boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE bank_transactions
+  SET status = CASE
+        WHEN ignored_param THEN 'ignored'
+        WHEN jsonb_array_length(match_candidates) > 0 THEN 'suggested'
+        ELSE 'unmatched'
+      END
+  WHERE id = transaction_id_param
+    AND vendor_id = auth.uid()
+    AND status <> 'matched';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found or already matched';
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.bank_statement_imports IS
+'Bank statements uploaded by vendors (CAMT.053, MT940, Bank of Cyprus or Hellenic Bank CSV)';
+
+COMMENT ON TABLE public.bank_transactions IS
+'Incoming transfers from imported bank statements. Certain matches are recorded as invoice payments on import; the rest are suggested for the vendor to review';
+
+COMMENT ON COLUMN public.bank_transactions.match_candidates IS
+'Invoices the transfer may pay, best first: [{invoiceId, invoiceNumber, outstanding, score, reasons}]';
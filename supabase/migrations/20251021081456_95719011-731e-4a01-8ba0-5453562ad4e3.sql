@@ -0,0 +1,273 @@
+-- VAT decision records: the VAT wizard's answers, result and legal basis for
+-- each invoice, with supporting evidence and admin review
+
+-- 1. One decision per invoice, written when the invoice is created and never changed
+CREATE TABLE IF NOT EXISTS public.vat_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL UNIQUE REFERENCES public.invoices(id),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  client_id UUID NOT NULL REFERENCES auth.users(id),
+  vat_basis TEXT NOT NULL,
+  calculator_version TEXT NOT NULL,
+  inputs JSONB NOT NULL,
+  result JSONB NOT NULL,
+  warnings TEXT[] NOT NULL DEFAULT '{}',
+  legal_references TEXT[] NOT NULL DEFAULT '{}',
+  decided_by UUID NOT NULL REFERENCES auth.users(id),
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vat_decisions_vendor ON public.vat_decisions(vendor_id, decided_at DESC);
+
+ALTER TABLE public.vat_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their VAT decisions"
+ON public.vat_decisions FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all VAT decisions"
+ON public.vat_decisions FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Vendors can record VAT decisions for their draft invoices"
+ON public.vat_decisions FOR INSERT
+WITH CHECK (
+  vendor_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_id
+      AND i.vendor_id = auth.uid()
+      AND i.status = 'draft'
+  )
+);
+
+-- The invoice parties, author and time come from the database, not the client
+CREATE OR REPLACE FUNCTION public.set_vat_decision_parties()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_row invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO invoice_row FROM invoices WHERE id = NEW.invoice_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  NEW.vendor_id := invoice_row.vendor_id;
+  NEW.client_id := invoice_row.client_id;
+  NEW.decided_by := COALESCE(auth.uid(), invoice_row.vendor_id);
+  NEW.decided_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_vat_decision_parties ON public.vat_decisions;
+CREATE TRIGGER set_vat_decision_parties
+  BEFORE INSERT ON public.vat_decisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_vat_decision_parties();
+
+-- 2. Evidence supporting a decision (title deed, certificate of final approval,
+--    the client's primary residence declaration). Files are added, never replaced.
+CREATE TABLE IF NOT EXISTS public.vat_decision_evidence (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  decision_id UUID NOT NULL REFERENCES public.vat_decisions(id),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  evidence_type TEXT NOT NULL CHECK (evidence_type IN (
+    'title_deed',
+    'final_approval_certificate',
+    'building_permit',
+    'primary_residence_declaration',
+    'vat_registration',
+    'other'
+  )),
+  file_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  description TEXT,
+  uploaded_by UUID NOT NULL REFERENCES auth.users(id),
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vat_decision_evidence_decision ON public.vat_decision_evidence(decision_id);
+
+ALTER TABLE public.vat_decision_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their VAT evidence"
+ON public.vat_decision_evidence FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all VAT evidence"
+ON public.vat_decision_evidence FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Vendors can attach evidence to their VAT decisions"
+ON public.vat_decision_evidence FOR INSERT
+WITH CHECK (
+  vendor_id = auth.uid()
+  AND uploaded_by = auth.uid()
+  AND (storage.foldername(file_path))[1] = auth.uid()::text
+  AND EXISTS (
+    SELECT 1 FROM public.vat_decisions d
+    WHERE d.id = decision_id
+      AND d.vendor_id = auth.uid()
+  )
+);
+
+-- 3. Admin reviews of a decision. A query asks the vendor for more evidence;
+--    the latest review is the current outcome.
+CREATE TABLE IF NOT EXISTS public.vat_decision_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  decision_id UUID NOT NULL REFERENCES public.vat_decisions(id),
+  outcome TEXT NOT NULL CHECK (outcome IN ('accepted', 'queried')),
+  notes TEXT,
+  reviewed_by UUID NOT NULL REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vat_decision_reviews_decision ON public.vat_decision_reviews(decision_id, reviewed_at DESC);
+
+ALTER TABLE public.vat_decision_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view reviews of their VAT decisions"
+ON public.vat_decision_reviews FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.vat_decisions d
+    WHERE d.id = decision_id
+      AND d.vendor_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all VAT decision reviews"
+ON public.vat_decision_reviews FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.review_vat_decision(decision_id_param uuid, outcome_param text, notes_param text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review_id uuid;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can review VAT decisions';
+  END IF;
+
+  IF outcome_param = 'queried' AND COALESCE(btrim(notes_param), '') = '' THEN
+    RAISE EXCEPTION 'Say what is missing when querying a VAT decision';
+  END IF;
+
+  INSERT INTO vat_decision_reviews (decision_id, outcome, notes, reviewed_by)
+  VALUES (decision_id_param, outcome_param, NULLIF(btrim(notes_param), ''), auth.uid())
+  RETURNING id INTO review_id;
+
+  RETURN review_id;
+END;
+$$;
+
+-- 4. Decisions, evidence and reviews are the record shown to the tax authority
+--    and never change once written
+CREATE OR REPLACE FUNCTION public.prevent_vat_record_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'VAT decision records cannot be changed or deleted';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_vat_decision_changes ON public.vat_decisions;
+CREATE TRIGGER prevent_vat_decision_changes
+  BEFORE UPDATE OR DELETE ON public.vat_decisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_vat_record_changes();
+
+DROP TRIGGER IF EXISTS prevent_vat_evidence_changes ON public.vat_decision_evidence;
+CREATE TRIGGER prevent_vat_evidence_changes
+  BEFORE UPDATE OR DELETE ON public.vat_decision_evidence
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_vat_record_changes();
+
+DROP TRIGGER IF EXISTS prevent_vat_review_changes ON public.vat_decision_reviews;
+CREATE TRIGGER prevent_vat_review_changes
+  BEFORE UPDATE OR DELETE ON public.vat_decision_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_vat_record_changes();
+
+-- 5. Private bucket for evidence files, one folder per vendor
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'vat-evidence',
+  'vat-evidence',
+  false,
+  10485760, -- 10MB limit
+  ARRAY['application/pdf', 'image/jpeg', 'image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Vendors can upload VAT evidence"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'vat-evidence'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Vendors and admins can view VAT evidence"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'vat-evidence'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR is_admin(auth.uid())
+  )
+);
+
+-- 6. Decisions with their invoice, evidence count and latest review
+CREATE OR REPLACE VIEW public.vat_decision_overview AS
+SELECT
+  d.id as decision_id,
+  d.invoice_id,
+  d.vendor_id,
+  vp.business_name as vendor_name,
+  d.client_id,
+  COALESCE(i.legal_invoice_number, i.invoice_number) as invoice_number,
+  i.status as invoice_status,
+  i.total_amount,
+  d.vat_basis,
+  d.calculator_version,
+  cardinality(d.warnings) as warning_count,
+  d.decided_at,
+  (SELECT count(*) FROM public.vat_decision_evidence e WHERE e.decision_id = d.id) as evidence_count,
+  latest.outcome as review_outcome,
+  latest.reviewed_at
+FROM public.vat_decisions d
+JOIN public.invoices i ON i.id = d.invoice_id
+LEFT JOIN public.vendor_profiles vp ON vp.user_id = d.vendor_id
+LEFT JOIN LATERAL (
+  SELECT r.outcome, r.reviewed_at
+  FROM public.vat_decision_reviews r
+  WHERE r.decision_id = d.id
+  ORDER BY r.reviewed_at DESC
+  LIMIT 1
+) latest ON true;
+
+ALTER VIEW public.vat_decision_overview SET (security_invoker = on);
+
+GRANT SELECT ON public.vat_decision_overview TO authenticated;
+
+COMMENT ON TABLE public.vat_decisions IS
+'Immutable record of each VAT wizard run: the answers given, calculator version, result, warnings and legal references behind the VAT on an invoice';
+
+COMMENT ON TABLE public.vat_decision_evidence IS
+'Documents supporting a VAT decision, e.g. title deed, certificate of final approval or primary residence declaration. Append-only';
+
+COMMENT ON TABLE public.vat_decision_reviews IS
+'Admin reviews of VAT decisions. Append-only; the latest review is the current outcome';
@@ -0,0 +1,38 @@
+-- Payment providers: vendors collect through Stripe Connect or JCC, and invoices
+-- record which provider issued them with a provider-neutral payment link
+
+-- 1. The provider each vendor collects payments through
+ALTER TABLE public.vendor_profiles
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT NOT NULL DEFAULT 'stripe'
+    CHECK (payment_provider IN ('stripe', 'jcc')),
+  ADD COLUMN IF NOT EXISTS jcc_merchant_login TEXT;
+
+-- 2. The provider's invoice (a Stripe invoice or a JCC order) and where the client pays
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT
+    CHECK (payment_provider IN ('stripe', 'jcc', 'fake')),
+  ADD COLUMN IF NOT EXISTS provider_invoice_id TEXT,
+  ADD COLUMN IF NOT EXISTS payment_url TEXT;
+
+UPDATE public.invoices
+SET payment_provider = 'stripe',
+    provider_invoice_id = stripe_invoice_id,
+    payment_url = stripe_hosted_invoice_url
+WHERE stripe_invoice_id IS NOT NULL
+  AND provider_invoice_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_provider_invoice
+  ON public.invoices(payment_provider, provider_invoice_id)
+  WHERE provider_invoice_id IS NOT NULL;
+
+COMMENT ON COLUMN public.vendor_profiles.payment_provider IS
+'Payment provider the vendor issues invoices through: stripe (Stripe Connect) or jcc (JCC Payment Systems)';
+
+COMMENT ON COLUMN public.vendor_profiles.jcc_merchant_login IS
+'Merchant login issued by JCC for the vendor''s own merchant account';
+
+COMMENT ON COLUMN public.invoices.provider_invoice_id IS
+'The invoice at the payment provider: a Stripe invoice ID or a JCC order ID';
+
+COMMENT ON COLUMN public.invoices.payment_url IS
+'Where the client pays the invoice, whichever provider issued it';
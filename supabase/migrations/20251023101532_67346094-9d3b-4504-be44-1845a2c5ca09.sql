@@ -0,0 +1,20 @@
+-- Quote comparison: record the service group each quote request was sent under,
+-- so quotes can be compared per project and service group
+
+-- 1. The service group the client picked the vendor for
+ALTER TABLE public.quote_requests
+  ADD COLUMN IF NOT EXISTS service_group TEXT;
+
+-- 2. Projects with a single service group can be backfilled exactly
+UPDATE public.quote_requests qr
+SET service_group = p.service_groups[1]
+FROM public.projects p
+WHERE p.id = qr.project_id
+  AND qr.service_group IS NULL
+  AND array_length(p.service_groups, 1) = 1;
+
+CREATE INDEX IF NOT EXISTS idx_quote_requests_project_group
+  ON public.quote_requests(project_id, service_group);
+
+COMMENT ON COLUMN public.quote_requests.service_group IS
+'Service group of the project the vendor was asked to quote for. Null for requests sent before it was recorded; these belong to the project''s first service group';
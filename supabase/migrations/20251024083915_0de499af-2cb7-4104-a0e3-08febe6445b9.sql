@@ -0,0 +1,63 @@
+-- Quote revisions: every quote sent for a request is kept as a numbered version,
+-- and only the latest one is current
+
+-- 1. Renumber the quotes already sent, oldest first, and keep only the latest current
+WITH ordered AS (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (PARTITION BY quote_request_id ORDER BY created_at, id) AS version_number,
+    COUNT(*) OVER (PARTITION BY quote_request_id) AS version_count
+  FROM public.quotes
+)
+UPDATE public.quotes q
+SET version = ordered.version_number,
+    is_current_version = ordered.version_number = ordered.version_count
+FROM ordered
+WHERE ordered.id = q.id
+  AND (q.version IS DISTINCT FROM ordered.version_number
+       OR q.is_current_version IS DISTINCT FROM (ordered.version_number = ordered.version_count));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_request_version
+  ON public.quotes(quote_request_id, version);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_request_current
+  ON public.quotes(quote_request_id)
+  WHERE is_current_version;
+
+-- 2. A new quote becomes the next version and supersedes the current one
+CREATE OR REPLACE FUNCTION public.assign_quote_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise revisions of the same request
+  PERFORM 1 FROM quote_requests WHERE id = NEW.quote_request_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM quotes
+  WHERE quote_request_id = NEW.quote_request_id;
+
+  UPDATE quotes
+  SET is_current_version = false
+  WHERE quote_request_id = NEW.quote_request_id
+    AND is_current_version;
+
+  NEW.is_current_version := true;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_quote_version ON public.quotes;
+CREATE TRIGGER assign_quote_version
+  BEFORE INSERT ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_quote_version();
+
+COMMENT ON FUNCTION public.assign_quote_version() IS
+'Numbers each quote sent for a request as the next version and makes it the only current version';
+
+COMMENT ON COLUMN public.quotes.change_note IS
+'What the vendor changed in this revision, shown to the client alongside the revision';
@@ -0,0 +1,424 @@
+-- Structured quote negotiation: the client proposes counter-values on individual
+-- cost lines, the milestone split, the start date and the duration; each side
+-- accepts, rejects or counters every open point until nothing is left open, and
+-- the agreed values become the next quote version.
+--
+-- Each round is a quote_reviews row. requested_changes holds the round's points:
+--   { key, type, index, label, current, proposed, status, note }
+-- type is 'cost_item' (index into cost_breakdown, value an amount), 'milestones'
+-- (value an array of percentages in milestone order), 'start_date' or
+-- 'duration_weeks'. The opening round's points are 'proposed'; a reply carries
+-- every open point of the round it answers as 'accepted', 'rejected' or
+-- 'countered', with the counter-value in proposed.
+
+-- 1. Rounds of the same negotiation
+ALTER TABLE public.quote_reviews
+  ADD COLUMN IF NOT EXISTS negotiation_id UUID REFERENCES public.quote_reviews(id),
+  ADD COLUMN IF NOT EXISTS round_number INTEGER,
+  ADD COLUMN IF NOT EXISTS proposer_role TEXT CHECK (proposer_role IN ('client', 'vendor')),
+  ADD COLUMN IF NOT EXISTS responds_to UUID REFERENCES public.quote_reviews(id),
+  ADD COLUMN IF NOT EXISTS status TEXT CHECK (status IN ('open', 'answered', 'agreed', 'closed', 'superseded')),
+  ADD COLUMN IF NOT EXISTS resulting_quote_id UUID REFERENCES public.quotes(id);
+
+CREATE INDEX IF NOT EXISTS idx_quote_reviews_negotiation
+  ON public.quote_reviews(negotiation_id, round_number);
+
+CREATE INDEX IF NOT EXISTS idx_quote_reviews_open
+  ON public.quote_reviews(quote_id)
+  WHERE status = 'open';
+
+-- Rounds are written only by the functions below. A client inserting a review
+-- directly cannot make it part of a negotiation, or they could pose as the
+-- vendor and accept their own prices.
+DROP POLICY IF EXISTS "Clients can create reviews" ON public.quote_reviews;
+CREATE POLICY "Clients can create reviews"
+ON public.quote_reviews FOR INSERT
+WITH CHECK (
+  auth.uid() = reviewer_id
+  AND negotiation_id IS NULL
+  AND round_number IS NULL
+  AND proposer_role IS NULL
+  AND responds_to IS NULL
+  AND status IS NULL
+  AND resulting_quote_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM quotes q
+    JOIN quote_requests qr ON qr.id = q.quote_request_id
+    WHERE q.id = quote_reviews.quote_id
+    AND qr.client_id = auth.uid()
+  )
+);
+
+-- 2. Every proposed or countered value is checked before it is stored, so the
+--    agreed values can always be written into the next quote version
+CREATE OR REPLACE FUNCTION public.validate_negotiation_value(type_param text, value_param jsonb, current_param jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  share jsonb;
+  share_total numeric := 0;
+BEGIN
+  IF value_param IS NULL OR value_param = 'null'::jsonb THEN
+    RAISE EXCEPTION 'Every proposed change needs a value';
+  END IF;
+
+  CASE type_param
+    WHEN 'cost_item' THEN
+      IF jsonb_typeof(value_param) <> 'number' OR (value_param #>> '{}')::numeric < 0 THEN
+        RAISE EXCEPTION 'Amounts must be numbers of zero or more';
+      END IF;
+    WHEN 'milestones' THEN
+      IF jsonb_typeof(value_param) <> 'array' OR jsonb_array_length(value_param) <> jsonb_array_length(current_param) THEN
+        RAISE EXCEPTION 'Propose a share for every milestone';
+      END IF;
+      FOR share IN SELECT * FROM jsonb_array_elements(value_param) LOOP
+        IF jsonb_typeof(share) <> 'number' OR (share #>> '{}')::numeric < 0 THEN
+          RAISE EXCEPTION 'Milestone shares must be numbers of zero or more';
+        END IF;
+        share_total := share_total + (share #>> '{}')::numeric;
+      END LOOP;
+      IF abs(share_total - 100) > 0.01 THEN
+        RAISE EXCEPTION 'Milestone shares must add up to 100%%';
+      END IF;
+    WHEN 'start_date' THEN
+      IF jsonb_typeof(value_param) <> 'string' THEN
+        RAISE EXCEPTION 'The start date is not a valid date';
+      END IF;
+      BEGIN
+        PERFORM (value_param #>> '{}')::date;
+      EXCEPTION WHEN others THEN
+        RAISE EXCEPTION 'The start date is not a valid date';
+      END;
+    WHEN 'duration_weeks' THEN
+      IF jsonb_typeof(value_param) <> 'number'
+        OR (value_param #>> '{}')::numeric <= 0
+        OR (value_param #>> '{}')::numeric <> trunc((value_param #>> '{}')::numeric) THEN
+        RAISE EXCEPTION 'Duration must be a whole number of weeks, at least one';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown negotiation point %', type_param;
+  END CASE;
+END;
+$$;
+
+-- 3. The client opens a negotiation on the current version of a quote
+CREATE OR REPLACE FUNCTION public.open_quote_negotiation(quote_id_param uuid, points_param jsonb, notes_param text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote_row quotes%ROWTYPE;
+  request_row quote_requests%ROWTYPE;
+  point jsonb;
+  point_index integer;
+  current_value jsonb;
+  label text;
+  points jsonb := '[]'::jsonb;
+  new_id uuid := gen_random_uuid();
+BEGIN
+  SELECT * INTO quote_row FROM quotes WHERE id = quote_id_param;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  SELECT * INTO request_row FROM quote_requests WHERE id = quote_row.quote_request_id FOR UPDATE;
+
+  IF request_row.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the client can negotiate this quote';
+  END IF;
+
+  IF NOT quote_row.is_current_version THEN
+    RAISE EXCEPTION 'This quote has been revised; negotiate the current version';
+  END IF;
+
+  IF request_row.status <> 'quoted' THEN
+    RAISE EXCEPTION 'Only quotes awaiting a decision can be negotiated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM quote_reviews WHERE quote_id = quote_id_param AND status = 'open') THEN
+    RAISE EXCEPTION 'A negotiation on this quote is already open';
+  END IF;
+
+  IF jsonb_typeof(points_param) <> 'array' OR jsonb_array_length(points_param) = 0 THEN
+    RAISE EXCEPTION 'Propose at least one change';
+  END IF;
+
+  -- Current values and labels come from the quote, not the client
+  FOR point IN SELECT * FROM jsonb_array_elements(points_param) LOOP
+    CASE point->>'type'
+      WHEN 'cost_item' THEN
+        point_index := (point->>'index')::integer;
+        IF point_index IS NULL OR point_index < 0 OR point_index >= jsonb_array_length(COALESCE(quote_row.cost_breakdown, '[]'::jsonb)) THEN
+          RAISE EXCEPTION 'Unknown cost line';
+        END IF;
+        current_value := to_jsonb(COALESCE((quote_row.cost_breakdown->point_index->>'amount')::numeric, 0));
+        label := COALESCE(NULLIF(quote_row.cost_breakdown->point_index->>'item', ''), 'Cost line ' || (point_index + 1));
+      WHEN 'milestones' THEN
+        point_index := NULL;
+        SELECT COALESCE(jsonb_agg(COALESCE((m->>'percentage')::numeric, 0) ORDER BY ordinality), '[]'::jsonb)
+        INTO current_value
+        FROM jsonb_array_elements(COALESCE(quote_row.milestones, '[]'::jsonb)) WITH ORDINALITY AS t(m, ordinality);
+        label := 'Milestone split';
+      WHEN 'start_date' THEN
+        point_index := NULL;
+        current_value := to_jsonb(quote_row.start_date);
+        label := 'Start date';
+      WHEN 'duration_weeks' THEN
+        point_index := NULL;
+        current_value := to_jsonb(quote_row.duration_weeks);
+        label := 'Duration (weeks)';
+      ELSE
+        RAISE EXCEPTION 'Unknown negotiation point %', point->>'type';
+    END CASE;
+
+    PERFORM validate_negotiation_value(point->>'type', point->'proposed', current_value);
+
+    points := points || jsonb_build_array(jsonb_build_object(
+      'key', CASE WHEN point_index IS NULL THEN point->>'type' ELSE 'cost_item:' || point_index END,
+      'type', point->>'type',
+      'index', point_index,
+      'label', label,
+      'current', current_value,
+      'proposed', point->'proposed',
+      'status', 'proposed',
+      'note', NULLIF(btrim(point->>'note'), '')
+    ));
+  END LOOP;
+
+  INSERT INTO quote_reviews (
+    id, quote_id, reviewer_id, review_type, review_notes, requested_changes,
+    negotiation_id, round_number, proposer_role, status
+  ) VALUES (
+    new_id, quote_id_param, auth.uid(), 'negotiation', NULLIF(btrim(notes_param), ''), points,
+    new_id, 1, 'client', 'open'
+  );
+
+  RETURN new_id;
+END;
+$$;
+
+-- 4. The other side answers every open point of a round. When nothing is left
+--    countered the negotiation ends, and any accepted points become the next
+--    quote version.
+CREATE OR REPLACE FUNCTION public.respond_to_quote_negotiation(review_id_param uuid, responses_param jsonb, notes_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  round_row quote_reviews%ROWTYPE;
+  quote_row quotes%ROWTYPE;
+  request_row quote_requests%ROWTYPE;
+  responder_role text;
+  point jsonb;
+  response jsonb;
+  answers jsonb := '[]'::jsonb;
+  has_counter boolean := false;
+  new_round_id uuid := gen_random_uuid();
+  agreed jsonb;
+  cost_breakdown_value jsonb;
+  milestones_value jsonb;
+  start_date_value date;
+  duration_value integer;
+  total_delta numeric := 0;
+  agreed_labels text[] := '{}';
+  milestone_index integer;
+  new_quote_id uuid;
+BEGIN
+  SELECT * INTO round_row FROM quote_reviews WHERE id = review_id_param FOR UPDATE;
+  IF NOT FOUND OR round_row.negotiation_id IS NULL THEN
+    RAISE EXCEPTION 'Negotiation round not found';
+  END IF;
+
+  IF round_row.status <> 'open' THEN
+    RAISE EXCEPTION 'This round has already been answered';
+  END IF;
+
+  SELECT * INTO quote_row FROM quotes WHERE id = round_row.quote_id;
+  SELECT * INTO request_row FROM quote_requests WHERE id = quote_row.quote_request_id FOR UPDATE;
+
+  responder_role := CASE
+    WHEN auth.uid() = request_row.vendor_id THEN 'vendor'
+    WHEN auth.uid() = request_row.client_id THEN 'client'
+  END;
+
+  IF responder_role IS NULL OR responder_role = round_row.proposer_role THEN
+    RAISE EXCEPTION 'It is not your turn to respond';
+  END IF;
+
+  IF NOT quote_row.is_current_version THEN
+    RAISE EXCEPTION 'This quote has been revised since these changes were proposed';
+  END IF;
+
+  FOR point IN
+    SELECT p FROM jsonb_array_elements(round_row.requested_changes) AS t(p)
+    WHERE p->>'status' IN ('proposed', 'countered')
+  LOOP
+    SELECT r INTO response
+    FROM jsonb_array_elements(responses_param) AS t(r)
+    WHERE r->>'key' = point->>'key';
+
+    IF response IS NULL THEN
+      RAISE EXCEPTION 'Respond to every point (missing %)', point->>'label';
+    END IF;
+
+    IF response->>'response' NOT IN ('accepted', 'rejected', 'countered') THEN
+      RAISE EXCEPTION 'Unknown response for %', point->>'label';
+    END IF;
+
+    IF response->>'response' = 'countered' THEN
+      IF response->'counter' IS NULL OR response->'counter' = 'null'::jsonb THEN
+        RAISE EXCEPTION 'A counter-offer on % needs a value', point->>'label';
+      END IF;
+      PERFORM validate_negotiation_value(point->>'type', response->'counter', point->'current');
+      has_counter := true;
+    END IF;
+
+    answers := answers || jsonb_build_array(point || jsonb_build_object(
+      'status', response->>'response',
+      'proposed', CASE WHEN response->>'response' = 'countered' THEN response->'counter' ELSE point->'proposed' END,
+      'note', NULLIF(btrim(response->>'note'), '')
+    ));
+  END LOOP;
+
+  UPDATE quote_reviews SET status = 'answered' WHERE id = round_row.id;
+
+  INSERT INTO quote_reviews (
+    id, quote_id, reviewer_id, review_type, review_notes, requested_changes,
+    negotiation_id, round_number, proposer_role, responds_to, status
+  ) VALUES (
+    new_round_id, round_row.quote_id, auth.uid(), 'counter_offer', NULLIF(btrim(notes_param), ''), answers,
+    round_row.negotiation_id, round_row.round_number + 1, responder_role, round_row.id,
+    CASE WHEN has_counter THEN 'open' ELSE 'closed' END
+  );
+
+  IF has_counter THEN
+    RETURN jsonb_build_object('review_id', new_round_id, 'status', 'open');
+  END IF;
+
+  -- Each point's last answer decides it
+  SELECT COALESCE(jsonb_agg(p), '[]'::jsonb) INTO agreed
+  FROM (
+    SELECT DISTINCT ON (p->>'key') p, r.round_number
+    FROM quote_reviews r, jsonb_array_elements(r.requested_changes) AS t(p)
+    WHERE r.negotiation_id = round_row.negotiation_id
+    ORDER BY p->>'key', r.round_number DESC
+  ) last_answers
+  WHERE p->>'status' = 'accepted';
+
+  IF jsonb_array_length(agreed) = 0 THEN
+    RETURN jsonb_build_object('review_id', new_round_id, 'status', 'closed');
+  END IF;
+
+  cost_breakdown_value := COALESCE(quote_row.cost_breakdown, '[]'::jsonb);
+  milestones_value := COALESCE(quote_row.milestones, '[]'::jsonb);
+  start_date_value := quote_row.start_date;
+  duration_value := quote_row.duration_weeks;
+
+  FOR point IN SELECT * FROM jsonb_array_elements(agreed) LOOP
+    agreed_labels := agreed_labels || (point->>'label');
+
+    CASE point->>'type'
+      WHEN 'cost_item' THEN
+        cost_breakdown_value := jsonb_set(cost_breakdown_value, ARRAY[point->>'index', 'amount'], point->'proposed');
+        total_delta := total_delta + (point->>'proposed')::numeric - (point->>'current')::numeric;
+      WHEN 'milestones' THEN
+        FOR milestone_index IN 0 .. jsonb_array_length(point->'proposed') - 1 LOOP
+          milestones_value := jsonb_set(milestones_value, ARRAY[milestone_index::text, 'percentage'], point->'proposed'->milestone_index);
+        END LOOP;
+      WHEN 'start_date' THEN
+        start_date_value := (point->>'proposed')::date;
+      WHEN 'duration_weeks' THEN
+        duration_value := (point->>'proposed')::integer;
+    END CASE;
+  END LOOP;
+
+  -- The version trigger numbers the new quote and supersedes this one
+  INSERT INTO quotes (
+    quote_request_id, total_amount, estimated_timeline, cost_breakdown, start_date, duration_weeks,
+    milestones, payment_schedule, validity_date, site_visit_required, proposed_visit_dates,
+    insurance_will_be_used, insurance_provider_used, inclusions, exclusions, assumptions_dependencies,
+    notes_to_client, portfolio_references, retention_percentage, defects_liability_months, change_note
+  ) VALUES (
+    quote_row.quote_request_id,
+    quote_row.total_amount + total_delta,
+    CASE WHEN duration_value IS DISTINCT FROM quote_row.duration_weeks
+      THEN duration_value || ' weeks' ELSE quote_row.estimated_timeline END,
+    cost_breakdown_value,
+    start_date_value,
+    duration_value,
+    milestones_value,
+    quote_row.payment_schedule,
+    quote_row.validity_date,
+    quote_row.site_visit_required,
+    quote_row.proposed_visit_dates,
+    quote_row.insurance_will_be_used,
+    quote_row.insurance_provider_used,
+    quote_row.inclusions,
+    quote_row.exclusions,
+    quote_row.assumptions_dependencies,
+    quote_row.notes_to_client,
+    quote_row.portfolio_references,
+    quote_row.retention_percentage,
+    quote_row.defects_liability_months,
+    'Agreed in negotiation: ' || array_to_string(agreed_labels, ', ')
+  )
+  RETURNING id INTO new_quote_id;
+
+  UPDATE quote_requests
+  SET quoted_amount = quote_row.total_amount + total_delta,
+      estimated_timeline = CASE WHEN duration_value IS DISTINCT FROM quote_row.duration_weeks
+        THEN duration_value || ' weeks' ELSE estimated_timeline END,
+      updated_at = now()
+  WHERE id = request_row.id;
+
+  UPDATE quote_reviews
+  SET status = 'agreed', resulting_quote_id = new_quote_id
+  WHERE id = new_round_id;
+
+  RETURN jsonb_build_object('review_id', new_round_id, 'status', 'agreed', 'quote_id', new_quote_id);
+END;
+$$;
+
+-- 5. A new version sent by the vendor ends any negotiation still open on the old one
+CREATE OR REPLACE FUNCTION public.close_superseded_negotiations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE quote_reviews r
+  SET status = 'superseded'
+  FROM quotes q
+  WHERE q.id = r.quote_id
+    AND q.quote_request_id = NEW.quote_request_id
+    AND q.id <> NEW.id
+    AND r.status = 'open';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS close_superseded_negotiations ON public.quotes;
+CREATE TRIGGER close_superseded_negotiations
+  AFTER INSERT ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_superseded_negotiations();
+
+COMMENT ON FUNCTION public.validate_negotiation_value(text, jsonb, jsonb) IS
+'Rejects a proposed or countered negotiation value that could not be written into the next quote version';
+
+COMMENT ON FUNCTION public.open_quote_negotiation(uuid, jsonb, text) IS
+'Opens a negotiation on the current quote version with the client''s proposed values for individual points';
+
+COMMENT ON FUNCTION public.respond_to_quote_negotiation(uuid, jsonb, text) IS
+'Accepts, rejects or counters every open point of a negotiation round; creates the next quote version once nothing is left countered';
+
+COMMENT ON COLUMN public.quote_reviews.requested_changes IS
+'Negotiation points of this round: key, type, index, label, current, proposed, status and note';
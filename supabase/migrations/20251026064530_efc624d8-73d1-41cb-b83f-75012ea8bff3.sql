@@ -0,0 +1,167 @@
+-- Quote expiry: quotes past their validity date and requests past their
+-- response deadline are expired by the daily quote-expiry job, which warns both
+-- sides beforehand. Expired quotes cannot be accepted until the vendor extends them.
+
+-- 1. When each side was warned and when the request expired
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS expiry_warning_sent_at TIMESTAMPTZ;
+
+ALTER TABLE public.quote_requests
+  ADD COLUMN IF NOT EXISTS deadline_warning_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_quote_requests_open_deadlines
+  ON public.quote_requests(status, response_deadline)
+  WHERE deleted_at IS NULL AND status IN ('pending', 'quoted');
+
+-- 2. An expired quote cannot be accepted, whether or not the job has run yet
+CREATE OR REPLACE FUNCTION public.prevent_expired_quote_acceptance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_validity date;
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    IF OLD.status = 'expired' THEN
+      RAISE EXCEPTION 'This quote has expired. Ask the vendor to extend it before accepting';
+    END IF;
+
+    SELECT validity_date INTO current_validity
+    FROM quotes
+    WHERE quote_request_id = NEW.id
+      AND is_current_version;
+
+    IF current_validity < CURRENT_DATE THEN
+      RAISE EXCEPTION 'This quote expired on %. Ask the vendor to extend it before accepting', current_validity;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_expired_quote_acceptance ON public.quote_requests;
+CREATE TRIGGER prevent_expired_quote_acceptance
+  BEFORE UPDATE OF status ON public.quote_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_expired_quote_acceptance();
+
+-- 3. The vendor extends validity in one click. The extension is a new version,
+--    so the client sees it in the revision history.
+CREATE OR REPLACE FUNCTION public.extend_quote_validity(quote_request_id_param uuid, days_param integer DEFAULT 30)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_row quote_requests%ROWTYPE;
+  quote_row quotes%ROWTYPE;
+  new_validity date;
+  new_quote_id uuid;
+BEGIN
+  SELECT * INTO request_row FROM quote_requests WHERE id = quote_request_id_param FOR UPDATE;
+  IF NOT FOUND OR request_row.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quote request not found';
+  END IF;
+
+  IF request_row.vendor_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the vendor can extend this quote';
+  END IF;
+
+  IF request_row.status NOT IN ('quoted', 'expired') THEN
+    RAISE EXCEPTION 'Only open or expired quotes can be extended';
+  END IF;
+
+  IF days_param IS NULL OR days_param < 1 OR days_param > 180 THEN
+    RAISE EXCEPTION 'Extend by between 1 and 180 days';
+  END IF;
+
+  SELECT * INTO quote_row FROM quotes WHERE quote_request_id = quote_request_id_param AND is_current_version;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No quote has been sent for this request';
+  END IF;
+
+  new_validity := GREATEST(COALESCE(quote_row.validity_date, CURRENT_DATE), CURRENT_DATE) + days_param;
+
+  INSERT INTO quotes (
+    quote_request_id, total_amount, estimated_timeline, cost_breakdown, start_date, duration_weeks,
+    milestones, payment_schedule, validity_date, site_visit_required, proposed_visit_dates,
+    insurance_will_be_used, insurance_provider_used, inclusions, exclusions, assumptions_dependencies,
+    notes_to_client, portfolio_references, retention_percentage, defects_liability_months, change_note
+  ) VALUES (
+    quote_row.quote_request_id,
+    quote_row.total_amount,
+    quote_row.estimated_timeline,
+    quote_row.cost_breakdown,
+    quote_row.start_date,
+    quote_row.duration_weeks,
+    quote_row.milestones,
+    quote_row.payment_schedule,
+    new_validity,
+    quote_row.site_visit_required,
+    quote_row.proposed_visit_dates,
+    quote_row.insurance_will_be_used,
+    quote_row.insurance_provider_used,
+    quote_row.inclusions,
+    quote_row.exclusions,
+    quote_row.assumptions_dependencies,
+    quote_row.notes_to_client,
+    quote_row.portfolio_references,
+    quote_row.retention_percentage,
+    quote_row.defects_liability_months,
+    'Validity extended to ' || to_char(new_validity, 'DD/MM/YYYY')
+  )
+  RETURNING id INTO new_quote_id;
+
+  UPDATE quote_requests
+  SET status = 'quoted',
+      expired_at = NULL,
+      updated_at = now()
+  WHERE id = quote_request_id_param;
+
+  INSERT INTO notifications (user_id, type, title, body, link, metadata)
+  VALUES (
+    request_row.client_id,
+    'quote_extended',
+    'A quote has been extended',
+    'The vendor extended their quote until ' || to_char(new_validity, 'DD/MM/YYYY') || '.',
+    '/tickets',
+    jsonb_build_object('quote_request_id', quote_request_id_param, 'quote_id', new_quote_id)
+  );
+
+  RETURN new_quote_id;
+END;
+$$;
+
+-- 4. Expire and warn every morning.
+-- Requires the project_url and service_role_key secrets in Vault.
+SELECT cron.schedule(
+  'quote-expiry',
+  '30 5 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/quote-expiry',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+COMMENT ON FUNCTION public.extend_quote_validity(uuid, integer) IS
+'Issues the current quote again as a new version valid for a further number of days, reopening it if it had expired';
+
+COMMENT ON COLUMN public.quotes.expiry_warning_sent_at IS
+'When the quote-expiry job warned both sides that this version is about to lapse';
+
+COMMENT ON COLUMN public.quote_requests.deadline_warning_sent_at IS
+'When the quote-expiry job reminded the vendor that the response deadline is near';
+
+COMMENT ON COLUMN public.quote_requests.expired_at IS
+'When the quote-expiry job expired the request, at its response deadline or its quote''s validity date';
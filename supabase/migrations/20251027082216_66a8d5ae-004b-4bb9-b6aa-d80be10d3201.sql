@@ -0,0 +1,195 @@
+-- Quote library: each vendor's price book of unit rates and versioned quote
+-- templates to start a quote from
+
+-- 1. Price book. Rates are archived rather than deleted so templates that used
+--    them still read correctly.
+CREATE TABLE IF NOT EXISTS public.vendor_price_book_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 200),
+  description TEXT,
+  unit TEXT NOT NULL CHECK (unit IN ('m2', 'm', 'point', 'item', 'hour', 'day')),
+  unit_rate NUMERIC(12, 2) NOT NULL CHECK (unit_rate >= 0),
+  cost_type TEXT NOT NULL DEFAULT 'labour' CHECK (cost_type IN ('labour', 'material')),
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_price_book_items_vendor
+  ON public.vendor_price_book_items(vendor_id, name)
+  WHERE archived_at IS NULL;
+
+ALTER TABLE public.vendor_price_book_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their price book"
+ON public.vendor_price_book_items FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Vendors can add to their price book"
+ON public.vendor_price_book_items FOR INSERT
+WITH CHECK (vendor_id = auth.uid());
+
+CREATE POLICY "Vendors can update their price book"
+ON public.vendor_price_book_items FOR UPDATE
+USING (vendor_id = auth.uid())
+WITH CHECK (vendor_id = auth.uid());
+
+CREATE TRIGGER update_vendor_price_book_items_updated_at
+  BEFORE UPDATE ON public.vendor_price_book_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Templates and their versions. A version is never changed; editing a
+--    template saves the next version.
+CREATE TABLE IF NOT EXISTS public.quote_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 200),
+  description TEXT,
+  current_version INTEGER NOT NULL DEFAULT 0,
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_templates_vendor
+  ON public.quote_templates(vendor_id, name)
+  WHERE archived_at IS NULL;
+
+ALTER TABLE public.quote_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their quote templates"
+ON public.quote_templates FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Vendors can update their quote templates"
+ON public.quote_templates FOR UPDATE
+USING (vendor_id = auth.uid())
+WITH CHECK (vendor_id = auth.uid());
+
+CREATE TRIGGER update_quote_templates_updated_at
+  BEFORE UPDATE ON public.quote_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Vendors update their templates directly only to archive them. The current
+-- version only ever moves to the newest saved version, which save_quote_template
+-- writes before pointing the template at it.
+CREATE OR REPLACE FUNCTION public.guard_quote_template_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_version IS DISTINCT FROM (
+    SELECT MAX(version) FROM quote_template_versions WHERE template_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Template versions can only be changed by saving the template';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_quote_template_version ON public.quote_templates;
+CREATE TRIGGER guard_quote_template_version
+  BEFORE UPDATE OF current_version ON public.quote_templates
+  FOR EACH ROW
+  WHEN (NEW.current_version IS DISTINCT FROM OLD.current_version)
+  EXECUTE FUNCTION public.guard_quote_template_version();
+
+CREATE TABLE IF NOT EXISTS public.quote_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.quote_templates(id),
+  version INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  change_note TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.quote_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view versions of their quote templates"
+ON public.quote_template_versions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.quote_templates t
+    WHERE t.id = template_id
+      AND t.vendor_id = auth.uid()
+  )
+);
+
+-- 3. Saving creates the template if needed and adds the next version
+CREATE OR REPLACE FUNCTION public.save_quote_template(
+  template_id_param uuid,
+  name_param text,
+  description_param text,
+  content_param jsonb,
+  change_note_param text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template_row quote_templates%ROWTYPE;
+  next_version integer;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles WHERE user_id = auth.uid() AND user_type = 'vendor'
+  ) THEN
+    RAISE EXCEPTION 'Only vendors can save quote templates';
+  END IF;
+
+  IF jsonb_typeof(content_param) <> 'object' OR jsonb_typeof(content_param->'lines') <> 'array' THEN
+    RAISE EXCEPTION 'Template content must include its cost lines';
+  END IF;
+
+  IF template_id_param IS NULL THEN
+    INSERT INTO quote_templates (vendor_id, name, description)
+    VALUES (auth.uid(), btrim(name_param), NULLIF(btrim(description_param), ''))
+    RETURNING * INTO template_row;
+  ELSE
+    SELECT * INTO template_row FROM quote_templates WHERE id = template_id_param FOR UPDATE;
+
+    IF NOT FOUND OR template_row.vendor_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    UPDATE quote_templates
+    SET name = btrim(name_param),
+        description = NULLIF(btrim(description_param), ''),
+        archived_at = NULL
+    WHERE id = template_row.id;
+  END IF;
+
+  next_version := template_row.current_version + 1;
+
+  INSERT INTO quote_template_versions (template_id, version, content, change_note, created_by)
+  VALUES (template_row.id, next_version, content_param, NULLIF(btrim(change_note_param), ''), auth.uid());
+
+  UPDATE quote_templates SET current_version = next_version WHERE id = template_row.id;
+
+  RETURN template_row.id;
+END;
+$$;
+
+-- 4. Quotes record the template version they started from
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES public.quote_template_versions(id);
+
+COMMENT ON TABLE public.vendor_price_book_items IS
+'Vendor unit rates (per m², metre, point, item, hour or day) used to price template lines';
+
+COMMENT ON TABLE public.quote_template_versions IS
+'Immutable versions of a quote template: cost lines with quantities, scope, milestones and payment terms';
+
+COMMENT ON FUNCTION public.save_quote_template(uuid, text, text, jsonb, text) IS
+'Creates or renames a vendor''s quote template and saves its content as the next version';
+
+COMMENT ON COLUMN public.quotes.template_version_id IS
+'Template version the vendor started this quote from, if any';
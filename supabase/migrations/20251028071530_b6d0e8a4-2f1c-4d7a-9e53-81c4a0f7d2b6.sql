@@ -0,0 +1,74 @@
+-- Platform fees the payment provider does not collect. Stripe takes the
+-- commission from the charge as an application fee; JCC pays the vendor's own
+-- merchant account in full, so the fee is recorded here as owed by the vendor.
+
+-- 1. One receivable per invoice, pending until the invoice is paid
+CREATE TABLE IF NOT EXISTS public.platform_fee_receivables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL UNIQUE REFERENCES public.invoices(id),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id),
+  payment_provider TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'owed', 'collected', 'waived')),
+  owed_at TIMESTAMPTZ,
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_fee_receivables_vendor
+  ON public.platform_fee_receivables(vendor_id, status);
+
+ALTER TABLE public.platform_fee_receivables ENABLE ROW LEVEL SECURITY;
+
+-- Written by stripe-create-invoice with the service role and by the trigger below
+CREATE POLICY "Vendors can view their platform fees"
+ON public.platform_fee_receivables FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all platform fees"
+ON public.platform_fee_receivables FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can settle platform fees"
+ON public.platform_fee_receivables FOR UPDATE
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_platform_fee_receivables_updated_at
+  BEFORE UPDATE ON public.platform_fee_receivables
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. The fee falls due when the invoice is paid and is waived when it is voided
+CREATE OR REPLACE FUNCTION public.track_platform_fee_receivable()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' THEN
+    UPDATE platform_fee_receivables
+    SET status = 'owed', owed_at = now()
+    WHERE invoice_id = NEW.id AND status = 'pending';
+  ELSIF NEW.status IN ('voided', 'cancelled', 'credited') THEN
+    UPDATE platform_fee_receivables
+    SET status = 'waived', settled_at = now()
+    WHERE invoice_id = NEW.id AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_platform_fee_receivable ON public.invoices;
+CREATE TRIGGER track_platform_fee_receivable
+  AFTER UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.track_platform_fee_receivable();
+
+COMMENT ON TABLE public.platform_fee_receivables IS
+'Platform commission on invoices whose payment provider cannot take it from the charge (JCC), owed by the vendor once the invoice is paid';
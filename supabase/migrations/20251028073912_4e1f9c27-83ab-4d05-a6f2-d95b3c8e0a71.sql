@@ -0,0 +1,71 @@
+-- Webhook event ledger for payment providers other than Stripe (JCC and the fake
+-- provider), so each of their events is applied at most once like Stripe's
+
+-- 1. Every provider event received, keyed by the provider-prefixed event id
+CREATE TABLE IF NOT EXISTS public.payment_provider_events (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  event_created_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  result JSONB,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processing_started_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_provider_events_status
+  ON public.payment_provider_events(status, received_at DESC);
+
+ALTER TABLE public.payment_provider_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by payment-webhooks with the service role only
+CREATE POLICY "Admins can view provider events"
+ON public.payment_provider_events FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- 2. Claim an event for processing. Returns false when it was already handled
+--    or another delivery is working on it, which makes redeliveries no-ops.
+CREATE OR REPLACE FUNCTION public.claim_payment_provider_event(
+  event_id_param text,
+  provider_param text,
+  event_type_param text,
+  event_created_at_param timestamptz,
+  payload_param jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed_id text;
+BEGIN
+  INSERT INTO payment_provider_events (id, provider, event_type, event_created_at, payload)
+  VALUES (event_id_param, provider_param, event_type_param, event_created_at_param, payload_param)
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE payment_provider_events
+  SET status = 'processing',
+      processing_started_at = now(),
+      attempts = attempts + 1,
+      last_error = NULL
+  WHERE id = event_id_param
+    AND (
+      status IN ('received', 'failed')
+      -- A delivery that died mid-processing is retried after five minutes
+      OR (status = 'processing' AND processing_started_at < now() - interval '5 minutes')
+    )
+  RETURNING id INTO claimed_id;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_payment_provider_event(text, text, text, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.payment_provider_events IS
+'Ledger of webhook events from payment providers other than Stripe. Each event is applied at most once';
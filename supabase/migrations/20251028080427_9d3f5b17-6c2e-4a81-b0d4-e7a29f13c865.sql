@@ -0,0 +1,309 @@
+-- Create an invoice, its lines and its VAT decision together, and never issue an
+-- invoice whose VAT decision is missing
+
+-- 1. One transaction for the draft invoice, its items and the VAT decision. Runs
+--    as the caller, so the insert policies of each table still apply.
+CREATE OR REPLACE FUNCTION public.create_invoice_with_vat_decision(
+  invoice_param jsonb,
+  items_param jsonb,
+  decision_param jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  new_client_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(decision_param) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'An invoice cannot be created without its VAT decision';
+  END IF;
+
+  INSERT INTO invoices (
+    vendor_id, client_id, quote_id, quote_version_id,
+    subtotal_amount, vat_amount, vat_rate, vat_basis, total_amount,
+    service_fee_percentage, service_fee_amount, vendor_payout_amount, currency, status,
+    stage_type, stage_index, stage_label, stage_percentage,
+    retention_percentage, retention_amount, reverse_charge_note,
+    place_of_supply, property_location, dwelling_age_years, materials_percentage,
+    property_area_sqm, property_value, primary_residence_evidence, customer_vat_id
+  )
+  SELECT
+    auth.uid(), i.client_id, i.quote_id, i.quote_version_id,
+    i.subtotal_amount, i.vat_amount, i.vat_rate, i.vat_basis, i.total_amount,
+    i.service_fee_percentage, i.service_fee_amount, i.vendor_payout_amount, COALESCE(i.currency, 'EUR'), 'draft',
+    i.stage_type, i.stage_index, i.stage_label, i.stage_percentage,
+    COALESCE(i.retention_percentage, 0), COALESCE(i.retention_amount, 0), i.reverse_charge_note,
+    i.place_of_supply, i.property_location, i.dwelling_age_years, i.materials_percentage,
+    i.property_area_sqm, i.property_value, i.primary_residence_evidence, i.customer_vat_id
+  FROM jsonb_populate_record(NULL::invoices, invoice_param) i
+  RETURNING id, client_id INTO new_invoice_id, new_client_id;
+
+  INSERT INTO invoice_items (
+    invoice_id, description, quantity, unit_amount, line_total,
+    is_material, vat_basis, vat_rate, vat_amount, is_retention
+  )
+  SELECT
+    new_invoice_id, item.description, item.quantity, item.unit_amount, item.line_total,
+    COALESCE(item.is_material, false), item.vat_basis, item.vat_rate, item.vat_amount, COALESCE(item.is_retention, false)
+  FROM jsonb_populate_recordset(NULL::invoice_items, COALESCE(items_param, '[]'::jsonb)) item;
+
+  INSERT INTO vat_decisions (
+    invoice_id, vendor_id, client_id, decided_by,
+    vat_basis, calculator_version, inputs, result, warnings, legal_references
+  )
+  SELECT
+    new_invoice_id, auth.uid(), new_client_id, auth.uid(),
+    d.vat_basis, d.calculator_version, d.inputs, d.result,
+    COALESCE(d.warnings, '{}'), COALESCE(d.legal_references, '{}')
+  FROM jsonb_populate_record(NULL::vat_decisions, decision_param) d;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- 2. An invoice only leaves draft with the record of how its VAT was decided.
+--    Drafts can still be voided or cancelled without one.
+CREATE OR REPLACE FUNCTION public.require_invoice_vat_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' OR NEW.status = 'draft' OR NEW.status IN ('voided', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM vat_decisions WHERE invoice_id = NEW.id) THEN
+    RAISE EXCEPTION 'Invoice % has no VAT decision and cannot be issued', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_invoice_vat_decision ON public.invoices;
+CREATE TRIGGER require_invoice_vat_decision
+  BEFORE UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_invoice_vat_decision();
+
+-- 3. Retention release invoices are drafted by the database, not the VAT wizard,
+--    and record the decision they apply themselves
+CREATE OR REPLACE FUNCTION public.create_retention_release_invoice(quote_id_param uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  retention record;
+  held_total numeric;
+  vat_total numeric;
+  basis_count integer;
+  single_basis text;
+  release_basis text;
+  service_fee_pct numeric;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO retention FROM contract_retentions WHERE quote_id = quote_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No retention held on this quote';
+  END IF;
+
+  -- Scheduled runs have no user; otherwise only the contract parties may trigger a release
+  IF auth.uid() IS NOT NULL AND auth.uid() NOT IN (retention.vendor_id, retention.client_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF retention.release_invoice_id IS NOT NULL THEN
+    RETURN retention.release_invoice_id;
+  END IF;
+
+  IF retention.client_signed_off_at IS NULL
+     AND (retention.release_due_date IS NULL OR retention.release_due_date > CURRENT_DATE) THEN
+    RAISE EXCEPTION 'Retention is not due for release yet';
+  END IF;
+
+  CREATE TEMP TABLE retention_groups ON COMMIT DROP AS
+  SELECT ii.vat_basis, ii.vat_rate, -SUM(ii.line_total) as held
+  FROM invoice_items ii
+  JOIN invoices i ON i.id = ii.invoice_id
+  WHERE i.quote_id = quote_id_param
+    AND ii.is_retention
+    AND i.status NOT IN ('credited', 'voided', 'cancelled')
+  GROUP BY ii.vat_basis, ii.vat_rate
+  HAVING -SUM(ii.line_total) > 0;
+
+  SELECT
+    COALESCE(SUM(held), 0),
+    COALESCE(SUM(ROUND(held * COALESCE(vat_rate, 0) / 100, 2)), 0),
+    COUNT(DISTINCT vat_basis),
+    MIN(vat_basis)
+  INTO held_total, vat_total, basis_count, single_basis
+  FROM retention_groups;
+
+  IF held_total <= 0 THEN
+    DROP TABLE retention_groups;
+    RAISE EXCEPTION 'No retention held on this quote';
+  END IF;
+
+  release_basis := CASE WHEN basis_count = 1 THEN single_basis ELSE 'mixed' END;
+  service_fee_pct := get_vendor_service_fee(retention.vendor_id);
+
+  INSERT INTO invoices (
+    quote_id,
+    quote_version_id,
+    client_id,
+    vendor_id,
+    subtotal_amount,
+    vat_amount,
+    vat_rate,
+    vat_basis,
+    total_amount,
+    service_fee_percentage,
+    service_fee_amount,
+    vendor_payout_amount,
+    currency,
+    status,
+    stage_type,
+    stage_label,
+    stage_percentage
+  ) VALUES (
+    quote_id_param,
+    quote_id_param,
+    retention.client_id,
+    retention.vendor_id,
+    held_total,
+    vat_total,
+    ROUND(vat_total / held_total * 100, 2),
+    release_basis,
+    held_total + vat_total,
+    service_fee_pct,
+    (held_total + vat_total) * service_fee_pct / 100,
+    (held_total + vat_total) * (1 - service_fee_pct / 100),
+    'EUR',
+    'draft',
+    'retention_release',
+    'Retention release (' || retention.retention_percentage || '%)',
+    retention.retention_percentage
+  )
+  RETURNING id INTO new_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, description, quantity, unit_amount, line_total, vat_basis, vat_rate, vat_amount)
+  SELECT
+    new_invoice_id,
+    'Release of retention - ' || COALESCE(vat_rate, 0) || '% VAT',
+    1,
+    held,
+    held,
+    vat_basis,
+    vat_rate,
+    ROUND(held * COALESCE(vat_rate, 0) / 100, 2)
+  FROM retention_groups;
+
+  -- The release keeps the treatments the retention was held under, so it cites
+  -- the legal references of the stage invoices it was held on
+  INSERT INTO vat_decisions (
+    invoice_id, vendor_id, client_id, decided_by,
+    vat_basis, calculator_version, inputs, result, warnings, legal_references
+  ) VALUES (
+    new_invoice_id, retention.vendor_id, retention.client_id, retention.vendor_id,
+    release_basis,
+    'retention_release',
+    -- Same shape as the VAT wizard's answers, with no eligibility questions asked
+    jsonb_build_object(
+      'source', 'retention_release',
+      'propertyLocation', NULL,
+      'defaultBasis', release_basis,
+      'lines', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'description', 'Release of retention - ' || COALESCE(vat_rate, 0) || '% VAT',
+          'quantity', 1,
+          'unitAmount', held,
+          'isMaterial', false,
+          'vatBasis', vat_basis
+        ))
+        FROM retention_groups
+      ),
+      'retentionPercentage', 0,
+      'renovation', NULL,
+      'primaryResidence', NULL,
+      'reverseCharge', NULL
+    ),
+    jsonb_build_object(
+      'vatBasis', release_basis,
+      'subtotal', held_total,
+      'vatAmount', vat_total,
+      'total', held_total + vat_total
+    ),
+    '{}',
+    COALESCE((
+      SELECT array_agg(DISTINCT reference)
+      FROM vat_decisions d
+      JOIN invoices i ON i.id = d.invoice_id
+      CROSS JOIN LATERAL unnest(d.legal_references) AS reference
+      WHERE i.quote_id = quote_id_param
+        AND i.id <> new_invoice_id
+    ), '{}')
+  );
+
+  DROP TABLE retention_groups;
+
+  UPDATE contract_retentions SET release_invoice_id = new_invoice_id WHERE id = retention.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- 4. Drafts created before decisions were required get a decision built from
+--    the invoice itself, so they can still be issued
+INSERT INTO public.vat_decisions (
+  invoice_id, vendor_id, client_id, decided_by,
+  vat_basis, calculator_version, inputs, result, warnings, legal_references
+)
+SELECT
+  i.id, i.vendor_id, i.client_id, i.vendor_id,
+  COALESCE(i.vat_basis, 'standard19'),
+  'backfill',
+  jsonb_build_object(
+    'source', 'backfill',
+    'propertyLocation', i.property_location,
+    'defaultBasis', COALESCE(i.vat_basis, 'standard19'),
+    'lines', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'description', ii.description,
+        'quantity', COALESCE(ii.quantity, 1),
+        'unitAmount', COALESCE(ii.unit_amount, ii.line_total, 0),
+        'isMaterial', COALESCE(ii.is_material, false),
+        'vatBasis', COALESCE(ii.vat_basis, i.vat_basis, 'standard19')
+      ))
+      FROM public.invoice_items ii
+      WHERE ii.invoice_id = i.id
+    ), '[]'::jsonb),
+    'retentionPercentage', COALESCE(i.retention_percentage, 0),
+    'renovation', NULL,
+    'primaryResidence', NULL,
+    'reverseCharge', NULL
+  ),
+  jsonb_build_object(
+    'vatBasis', COALESCE(i.vat_basis, 'standard19'),
+    'subtotal', COALESCE(i.subtotal_amount, 0),
+    'vatAmount', COALESCE(i.vat_amount, 0),
+    'total', COALESCE(i.total_amount, 0)
+  ),
+  ARRAY['Drafted before VAT decisions were recorded: the VAT wizard answers for this invoice are not available'],
+  '{}'
+FROM public.invoices i
+WHERE i.status = 'draft'
+  AND NOT EXISTS (SELECT 1 FROM public.vat_decisions d WHERE d.invoice_id = i.id);
+
+COMMENT ON FUNCTION public.create_invoice_with_vat_decision(jsonb, jsonb, jsonb) IS
+'Creates a draft invoice with its items and VAT decision in one transaction, so no invoice exists without the decision behind its VAT';
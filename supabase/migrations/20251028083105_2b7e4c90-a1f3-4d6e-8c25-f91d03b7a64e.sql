@@ -0,0 +1,32 @@
+-- Check an invoice can leave draft before it is sent to the payment provider,
+-- so a refused invoice never becomes payable with the provider
+
+-- 1. The same checks the status triggers make when the invoice leaves draft:
+--    its VAT decision and the primary residence limits
+CREATE OR REPLACE FUNCTION public.check_invoice_issuable(invoice_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_row invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO invoice_row FROM invoices WHERE id = invoice_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM vat_decisions WHERE invoice_id = invoice_row.id) THEN
+    RAISE EXCEPTION 'Invoice % has no VAT decision and cannot be issued', invoice_row.id;
+  END IF;
+
+  PERFORM public.check_primary_residence_relief(invoice_row);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_invoice_issuable(uuid) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.check_invoice_issuable(uuid) IS
+'Raises when an invoice would be refused on leaving draft: no VAT decision, or outside the primary residence limits';
@@ -0,0 +1,134 @@
+-- Credit notes are priced from the original invoice lines when they are issued,
+-- and a draft that could not be issued can be voided by its vendor
+
+-- 1. Recompute a draft credit note from the invoice it corrects. The modal only
+--    chooses which invoice lines to credit and by how much; descriptions, VAT
+--    treatment and totals are taken from the invoice here. Each invoice line is
+--    credited at most up to its own amount, across all issued credit notes.
+CREATE OR REPLACE FUNCTION public.price_credit_note(credit_note_id_param uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  credit_note_row credit_notes%ROWTYPE;
+  invoice_row invoices%ROWTYPE;
+  line record;
+  new_subtotal numeric;
+  new_vat numeric;
+BEGIN
+  SELECT * INTO credit_note_row FROM credit_notes WHERE id = credit_note_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit note not found';
+  END IF;
+
+  IF credit_note_row.status <> 'draft' THEN
+    RAISE EXCEPTION 'Credit note has already been issued';
+  END IF;
+
+  SELECT * INTO invoice_row FROM invoices WHERE id = credit_note_row.invoice_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM credit_note_items WHERE credit_note_id = credit_note_row.id) THEN
+    RAISE EXCEPTION 'Credit note has no lines';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM credit_note_items cni
+    LEFT JOIN invoice_items ii ON ii.id = cni.invoice_item_id AND ii.invoice_id = invoice_row.id
+    WHERE cni.credit_note_id = credit_note_row.id
+      AND ii.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every credit note line must credit a line of invoice %', credit_note_row.original_legal_invoice_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM credit_note_items
+    WHERE credit_note_id = credit_note_row.id AND ROUND(line_total, 2) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Credit note lines must credit a positive amount';
+  END IF;
+
+  FOR line IN
+    SELECT
+      ii.description,
+      ii.line_total,
+      SUM(ROUND(cni.line_total, 2)) AS requested,
+      COALESCE((
+        SELECT SUM(prev.line_total)
+        FROM credit_note_items prev
+        JOIN credit_notes cn ON cn.id = prev.credit_note_id
+        WHERE prev.invoice_item_id = ii.id
+          AND cn.status = 'issued'
+      ), 0) AS already_credited
+    FROM credit_note_items cni
+    JOIN invoice_items ii ON ii.id = cni.invoice_item_id
+    WHERE cni.credit_note_id = credit_note_row.id
+    GROUP BY ii.id, ii.description, ii.line_total
+  LOOP
+    IF line.requested + line.already_credited > line.line_total + 0.005 THEN
+      RAISE EXCEPTION 'The credit for "%" exceeds the €% left to credit on that invoice line',
+        line.description, GREATEST(line.line_total - line.already_credited, 0);
+    END IF;
+  END LOOP;
+
+  UPDATE credit_note_items cni
+  SET description = ii.description,
+      quantity = 1,
+      unit_amount = ROUND(cni.line_total, 2),
+      line_total = ROUND(cni.line_total, 2),
+      vat_basis = ii.vat_basis,
+      vat_rate = COALESCE(ii.vat_rate, 0),
+      vat_amount = ROUND(ROUND(cni.line_total, 2) * COALESCE(ii.vat_rate, 0) / 100, 2),
+      tax_rate_id = ii.tax_rate_id
+  FROM invoice_items ii
+  WHERE ii.id = cni.invoice_item_id
+    AND cni.credit_note_id = credit_note_row.id;
+
+  SELECT SUM(line_total), SUM(vat_amount)
+  INTO new_subtotal, new_vat
+  FROM credit_note_items
+  WHERE credit_note_id = credit_note_row.id;
+
+  IF new_subtotal + new_vat > invoice_row.total_amount - invoice_row.credited_amount + 0.01 THEN
+    RAISE EXCEPTION 'Credit note exceeds the uncredited invoice balance of €%',
+      ROUND(invoice_row.total_amount - invoice_row.credited_amount, 2);
+  END IF;
+
+  UPDATE credit_notes
+  SET subtotal_amount = new_subtotal,
+      vat_amount = new_vat,
+      total_amount = new_subtotal + new_vat
+  WHERE id = credit_note_row.id;
+
+  RETURN new_subtotal + new_vat;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.price_credit_note(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 2. Vendors void a draft credit note that could not be issued. A numbered
+--    draft keeps its number, so the credit note series has no gap.
+CREATE OR REPLACE FUNCTION public.void_draft_credit_note(credit_note_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE credit_notes
+  SET status = 'voided'
+  WHERE id = credit_note_id_param
+    AND vendor_id = auth.uid()
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft credit note not found';
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.price_credit_note(uuid) IS
+'Recomputes a draft credit note from the lines of the invoice it corrects and refuses credits above any invoice line or the uncredited balance. Returns the new total';